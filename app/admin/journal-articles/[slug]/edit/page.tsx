@@ -2,7 +2,14 @@
 import React from "react"
 import { DashboardHeader } from "@/components/admin/dashboard-header"
 import { JournalArticleForm } from "@/components/admin/journal-article-form"
+import { PdfSnapshotStatus } from "@/components/admin/pdf-snapshot-status"
+import { PreviewLinks } from "@/components/admin/preview-links"
+import { RevisionHistory } from "@/components/admin/revision-history"
 import { getJournalArticle } from "@/lib/actions/journal-article-actions"
+import { getPdfSnapshotStatus } from "@/lib/actions/pdf-snapshot-actions"
+import { getPreviewLinks } from "@/lib/actions/preview-actions"
+import { getRevisionHistory } from "@/lib/actions/revision-actions"
+import { ARTICLE_STATUS_LABELS, type ArticleStatusValue } from "@/lib/article-status"
 import { getCurrentUser } from "@/lib/auth"
 import { checkPermission } from "@/lib/permissions/checker"
 import { 
@@ -121,13 +128,34 @@ export default async function EditJournalArticlePage({ params }: EditJournalArti
     image: article.image,
     issueId: article.journalIssue?.id || null,
     keywords: article.keywords || [],
+    status: article.status,
     archived: article.archived, // Use archived instead of draft (inverted logic)
     featured: article.featured || false,
     carousel: article.carousel || false,
+    version: article.version,
     Authors: article.Authors || [],
     journalIssue: article.journalIssue,
   }
 
+  const previewLinksResult = await getPreviewLinks(article.id)
+  const previewLinks = (previewLinksResult.data || []).map(link => ({
+    ...link,
+    createdAt: link.createdAt.toISOString(),
+    expiresAt: link.expiresAt.toISOString(),
+    revokedAt: link.revokedAt?.toISOString() || null,
+  }))
+
+  const revisionsResult = await getRevisionHistory(article.id)
+  const revisions = (revisionsResult.data || []).map(revision => ({
+    ...revision,
+    createdAt: revision.createdAt.toISOString(),
+  }))
+
+  const snapshotResult = await getPdfSnapshotStatus(article.id)
+  const snapshot = snapshotResult.data
+    ? { ...snapshotResult.data, takenAt: snapshotResult.data.takenAt?.toISOString() || null }
+    : null
+
   // Get primary author for display (first author)
   const primaryAuthor = article.Authors && article.Authors.length > 0 ? article.Authors[0] : null
   const authorCount = article.Authors?.length || 0
@@ -146,9 +174,12 @@ export default async function EditJournalArticlePage({ params }: EditJournalArti
           <div className="space-y-2">
             <div className="flex items-center gap-2 flex-wrap">
               <h3 className="font-semibold">{article.title}</h3>
-              <Badge variant={article.archived ? "secondary" : "default"}>
-                {article.archived ? "Archived" : "Published"}
+              <Badge variant={article.status === "published" ? "default" : "secondary"}>
+                {ARTICLE_STATUS_LABELS[article.status as ArticleStatusValue]}
               </Badge>
+              {article.archived && (
+                <Badge variant="secondary">Archived</Badge>
+              )}
               {article.featured && (
                 <Badge variant="destructive">Featured</Badge>
               )}
@@ -313,7 +344,14 @@ export default async function EditJournalArticlePage({ params }: EditJournalArti
         </Alert>
       )}
       
-      <JournalArticleForm article={formArticle} />
+      {/* Remount the form when a revision is restored so it loads the restored copy */}
+      <JournalArticleForm key={revisions[0]?.id} article={formArticle} />
+
+      <RevisionHistory revisions={revisions} canRestore={articleUpdateCheck.allowed} />
+
+      <PreviewLinks articleId={article.id} links={previewLinks} />
+
+      {snapshot && <PdfSnapshotStatus articleId={article.id} snapshot={snapshot} />}
     </div>
   )
 }
\ No newline at end of file
@@ -118,8 +118,9 @@ export default async function JournalArticlesPage() {
       date: article.publishedAt?.toISOString(), // For backward compatibility
       readTime: article.readTime,
       image: article.image,
+      status: article.status,
       archived: article.archived, // Use actual schema field
-      draft: article.archived, // For backward compatibility (same logic)
+      draft: article.status === "draft",
       featured: article.featured,
       carousel: article.carousel,
       views: article.views || 0,
@@ -134,7 +135,7 @@ export default async function JournalArticlesPage() {
     })) || []
 
     // Calculate stats using actual schema fields
-    const publishedCount = articlesForTable.filter(article => !article.archived).length
+    const publishedCount = articlesForTable.filter(article => article.status === "published" && !article.archived).length
     const archivedCount = articlesForTable.filter(article => article.archived).length
     const featuredCount = articlesForTable.filter(article => article.featured).length
     const carouselCount = articlesForTable.filter(article => article.carousel).length
@@ -2,7 +2,8 @@
 import React from "react"
 import { DashboardHeader } from "@/components/admin/dashboard-header"
 import { JournalIssueForm } from "@/components/admin/journal-issue-form"
-import { getJournalIssue } from "@/lib/actions/journal-actions"
+import { IssueArticleOrder } from "@/components/admin/issue-article-order"
+import { getIssueArticles, getJournalIssue } from "@/lib/actions/journal-actions"
 import { getCurrentUser } from "@/lib/auth"
 import { checkPermission } from "@/lib/permissions/checker"
 import { 
@@ -97,6 +98,7 @@ export default async function EditJournalIssuePage({ params }: EditJournalIssueP
   }
 
   const issue = result.issue!
+  const articlesResult = await getIssueArticles(issue.id)
 
   // User has permission - show the actual component
   return (
@@ -127,6 +129,17 @@ export default async function EditJournalIssuePage({ params }: EditJournalIssueP
       </div>
       
       <JournalIssueForm issue={issue} />
+
+      {articlesResult.articles ? (
+        <IssueArticleOrder issueId={issue.id} articles={articlesResult.articles} />
+      ) : (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load the issue's articles: {articlesResult.error}
+          </AlertDescription>
+        </Alert>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -113,6 +113,7 @@ export default async function JournalsPage() {
       issue: issue.issue,
       year: issue.year,
       publishDate: issue.publishDate || undefined, // Optional field
+      doi: issue.doi || undefined, // Assigned on the first Crossref deposit
       articleCount: issue._count?.Article || 0,
       articles: issue.Article || [],
     })) || []
@@ -1,21 +1,28 @@
 import React from "react"
 import { DashboardHeader } from "@/components/admin/dashboard-header"
-import { articles } from "@/lib/data"
 import { LogoutButton } from "@/components/admin/logout-button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { getArticleStats } from "@/lib/controllers/articles"
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminDashboard() {
+  const articleStats = await getArticleStats()
 
-export default function AdminDashboard() {
   const stats = {
-    totalPosts: articles.length,
-    publishedPosts: articles.filter((article) => !article.draft).length,
-    draftPosts: articles.filter((article) => article.draft).length,
-    totalViews: articles.reduce((acc, article) => acc + (article.views || 0), 0),
+    totalPosts: articleStats.total,
+    publishedPosts: articleStats.published,
+    draftPosts: articleStats.drafts,
+    scheduledPosts: articleStats.scheduled,
+    unpublishedPosts: articleStats.unpublished,
+    totalViews: articleStats.views,
   }
 
   return (
     <div className="space-y-6">
       <DashboardHeader heading="Dashboard" text="Overview of your blog content and performance." />
       <LogoutButton />
-      {/* <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Posts</CardTitle>
@@ -29,32 +36,32 @@ export default function AdminDashboard() {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Views</CardTitle>
+            <CardTitle className="text-sm font-medium">Scheduled</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalViews}</div>
-            <p className="text-xs text-muted-foreground">+{Math.floor(Math.random() * 20) + 1}% from last month</p>
+            <div className="text-2xl font-bold">{stats.scheduledPosts}</div>
+            <p className="text-xs text-muted-foreground">Waiting for their publication date</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Average Engagement</CardTitle>
+            <CardTitle className="text-sm font-medium">Unpublished</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">4.2 min</div>
-            <p className="text-xs text-muted-foreground">Average read time per article</p>
+            <div className="text-2xl font-bold">{stats.unpublishedPosts}</div>
+            <p className="text-xs text-muted-foreground">Taken down from the public site</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Top Categories</CardTitle>
+            <CardTitle className="text-sm font-medium">Total Views</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">Constitutional Law</div>
-            <p className="text-xs text-muted-foreground">42% of total content</p>
+            <div className="text-2xl font-bold">{stats.totalViews}</div>
+            <p className="text-xs text-muted-foreground">Across all articles</p>
           </CardContent>
         </Card>
-      </div> */}
+      </div>
 
       {/* <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
         <Card className="col-span-4">
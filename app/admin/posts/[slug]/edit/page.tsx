@@ -4,7 +4,13 @@ import { Suspense } from "react"
 import { notFound, redirect } from "next/navigation"
 import { DashboardHeader } from "@/components/admin/dashboard-header"
 import { PostForm } from "@/components/admin/post-form"
+import { PdfSnapshotStatus } from "@/components/admin/pdf-snapshot-status"
+import { PreviewLinks } from "@/components/admin/preview-links"
+import { RevisionHistory } from "@/components/admin/revision-history"
 import { getPost } from "@/lib/actions/post-actions"
+import { getPdfSnapshotStatus } from "@/lib/actions/pdf-snapshot-actions"
+import { getPreviewLinks } from "@/lib/actions/preview-actions"
+import { getRevisionHistory } from "@/lib/actions/revision-actions"
 import { getCurrentUser } from "@/lib/auth"
 import { checkPermission } from "@/lib/permissions/checker"
 import { 
@@ -126,13 +132,36 @@ async function EditPostContent({ slug, currentUser }: { slug: string, currentUse
       )
     }
     
+    const previewLinksResult = await getPreviewLinks(post.id)
+    const previewLinks = (previewLinksResult.data || []).map(link => ({
+      ...link,
+      createdAt: link.createdAt.toISOString(),
+      expiresAt: link.expiresAt.toISOString(),
+      revokedAt: link.revokedAt?.toISOString() || null,
+    }))
+
+    const revisionsResult = await getRevisionHistory(post.id)
+    const revisions = (revisionsResult.data || []).map(revision => ({
+      ...revision,
+      createdAt: revision.createdAt.toISOString(),
+    }))
+
+    const snapshotResult = await getPdfSnapshotStatus(post.id)
+    const snapshot = snapshotResult.data
+      ? { ...snapshotResult.data, takenAt: snapshotResult.data.takenAt?.toISOString() || null }
+      : null
+
     return (
       <div className="space-y-6">
         <DashboardHeader 
           heading={`Edit Post: ${post.title}`}
           text={`Edit your ${post.type} post content, authors, and settings.`}
         />
-        <PostForm slug={slug} type={post.type as "blog" | "journal"} />
+        {/* Remount the form when a revision is restored so it loads the restored copy */}
+        <PostForm key={revisions[0]?.id} slug={slug} type={post.type as "blog" | "journal"} />
+        <RevisionHistory revisions={revisions} canRestore={postUpdateCheck.allowed} />
+        <PreviewLinks articleId={post.id} links={previewLinks} />
+        {snapshot && <PdfSnapshotStatus articleId={post.id} snapshot={snapshot} />}
       </div>
     )
   } catch (error) {
@@ -0,0 +1,120 @@
+import React from "react"
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { format } from "date-fns"
+import { AlertCircle, ClipboardList, ExternalLink } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { DashboardHeader } from "@/components/admin/dashboard-header"
+import { getMyReviewAssignments } from "@/lib/actions/review-actions"
+import { REVIEW_ASSIGNMENT_STATUS_LABELS } from "@/lib/peer-review"
+import { getCurrentUser } from "@/lib/auth"
+import { checkPermission } from "@/lib/permissions/checker"
+import { UserWithPermissions } from "@/lib/permissions/types"
+import { prisma } from "@/lib/prisma"
+
+export const dynamic = 'force-dynamic'
+
+// Get current user with permissions helper
+async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return null
+
+    if ('role' in user && user.role) {
+      return user as UserWithPermissions
+    }
+
+    const fullUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { role: true }
+    })
+
+    return fullUser as UserWithPermissions
+  } catch (error) {
+    console.error('Error getting user with permissions:', error)
+    return null
+  }
+}
+
+export default async function MyReviewsPage() {
+  const currentUser = await getCurrentUserWithPermissions()
+  if (!currentUser) {
+    redirect("/admin/login")
+  }
+
+  const reviewReadCheck = checkPermission(currentUser, 'review.READ')
+  if (!reviewReadCheck.allowed) {
+    return (
+      <div className="space-y-6">
+        <DashboardHeader heading="My Reviews" text="Manuscripts you have been invited to review." />
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {reviewReadCheck.reason || "You don't have permission to view reviews"}
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const result = await getMyReviewAssignments()
+  const assignments = result.success && result.data ? result.data : []
+
+  return (
+    <div className="space-y-6">
+      <DashboardHeader heading="My Reviews" text="Manuscripts you have been invited to review." />
+
+      {!result.success && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load your reviews: {result.error}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {assignments.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ClipboardList className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No review invitations</h3>
+            <p className="text-muted-foreground text-center">
+              Invitations sent to {currentUser.email} will appear here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {assignments.map((assignment) => (
+            <Card key={assignment.id}>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1">
+                  <CardTitle className="text-base">{assignment.submission.title}</CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    Invited {format(assignment.createdAt, "MMM d, yyyy")}
+                    {assignment.dueDate && <> · Due {format(assignment.dueDate, "MMM d, yyyy")}</>}
+                  </p>
+                </div>
+                <Badge variant="outline">{REVIEW_ASSIGNMENT_STATUS_LABELS[assignment.status]}</Badge>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground line-clamp-3">{assignment.submission.abstract}</p>
+                {assignment.status !== "declined" && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/review/${assignment.token}`} target="_blank">
+                      <ExternalLink className="mr-2 h-4 w-4" />
+                      {assignment.status === "completed" ? "View Review" : "Open Review"}
+                    </Link>
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+import React from "react"
+import Link from "next/link"
+import { notFound, redirect } from "next/navigation"
+import { format } from "date-fns"
+import { AlertCircle, ArrowLeft } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { DashboardHeader } from "@/components/admin/dashboard-header"
+import {
+  SubmissionFileButtons,
+  SubmissionReviewPanel,
+} from "@/components/admin/submission-review-panel"
+import { SubmissionRounds } from "@/components/admin/submission-rounds"
+import { SubmissionTimeline } from "@/components/admin/submission-timeline"
+import { getSubmissionReviews } from "@/lib/actions/review-actions"
+import { getSubmissionById } from "@/lib/controllers/submissions"
+import { getCurrentUser } from "@/lib/auth"
+import { checkPermission } from "@/lib/permissions/checker"
+import { UserWithPermissions } from "@/lib/permissions/types"
+import { prisma } from "@/lib/prisma"
+
+export const dynamic = 'force-dynamic'
+
+interface SubmissionPageProps {
+  params: {
+    id: string
+  }
+}
+
+// Get current user with permissions helper
+async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return null
+
+    if ('role' in user && user.role) {
+      return user as UserWithPermissions
+    }
+
+    const fullUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { role: true }
+    })
+
+    return fullUser as UserWithPermissions
+  } catch (error) {
+    console.error('Error getting user with permissions:', error)
+    return null
+  }
+}
+
+export default async function SubmissionPage({ params }: SubmissionPageProps) {
+  const currentUser = await getCurrentUserWithPermissions()
+  if (!currentUser) {
+    redirect("/admin/login")
+  }
+
+  const submissionReadCheck = checkPermission(currentUser, 'submission.READ')
+  if (!submissionReadCheck.allowed) {
+    return (
+      <div className="space-y-6">
+        <DashboardHeader heading="Submission" text="Manuscript details and peer review." />
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {submissionReadCheck.reason || "You don't have permission to view submissions"}
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const submission = await getSubmissionById(params.id)
+  if (!submission) {
+    notFound()
+  }
+
+  // The editor view: every reviewer's identity, recommendation and confidential comments
+  const canReadReviews = checkPermission(currentUser, 'review.UPDATE').allowed
+  const reviewsResult = canReadReviews ? await getSubmissionReviews(submission.id) : null
+
+  const assignments = reviewsResult?.success && reviewsResult.data
+    ? reviewsResult.data.map(assignment => ({
+        id: assignment.id,
+        round: assignment.round,
+        reviewerName: assignment.reviewerName,
+        reviewerEmail: assignment.reviewerEmail,
+        status: assignment.status,
+        dueDate: assignment.dueDate?.toISOString() || null,
+        review: assignment.review
+          ? {
+              recommendation: assignment.review.recommendation,
+              summary: assignment.review.summary,
+              strengths: assignment.review.strengths,
+              weaknesses: assignment.review.weaknesses,
+              commentsToAuthor: assignment.review.commentsToAuthor,
+              commentsToEditor: assignment.review.commentsToEditor,
+              createdAt: assignment.review.createdAt.toISOString(),
+            }
+          : null,
+      }))
+    : []
+
+  // Reviewer identities and recommendations are only shown to users who can read reviews
+  const rounds = submission.versions.map(version => ({
+    id: version.id,
+    round: version.round,
+    manuscriptName: version.manuscriptName,
+    responseLetterName: version.responseLetterName,
+    decision: version.decision,
+    decidedAt: version.decidedAt?.toISOString() || null,
+    createdAt: version.createdAt.toISOString(),
+    reviews: assignments
+      .filter(assignment => assignment.round === version.round && assignment.review)
+      .map(assignment => ({
+        reviewerName: assignment.reviewerName,
+        recommendation: assignment.review!.recommendation,
+        commentsToAuthor: assignment.review!.commentsToAuthor,
+      })),
+  }))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <DashboardHeader heading={submission.title} text={`Reference ${submission.id}`} />
+        <Button variant="outline" asChild>
+          <Link href="/admin/submissions">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Submissions
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Manuscript</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div className="flex flex-wrap gap-1">
+              <Badge variant="secondary" className="capitalize">{submission.type}</Badge>
+              {submission.keywords.map((keyword) => (
+                <Badge key={keyword} variant="outline">{keyword}</Badge>
+              ))}
+            </div>
+            <p className="whitespace-pre-line">{submission.abstract}</p>
+            <SubmissionFileButtons submissionId={submission.id} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Author</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="font-medium">{submission.authorName}</div>
+            <div className="text-muted-foreground">{submission.authorEmail}</div>
+            {submission.authorAffiliation && (
+              <div className="text-muted-foreground">{submission.authorAffiliation}</div>
+            )}
+            <div className="pt-2 text-muted-foreground">
+              Received {format(submission.createdAt, "MMM d, yyyy")}
+            </div>
+            <div className="text-muted-foreground">
+              {submission.callForPapers
+                ? `${submission.callForPapers.title} (Vol. ${submission.callForPapers.volume}, Issue ${submission.callForPapers.issue})`
+                : "General submission"}
+            </div>
+            {submission.coverLetter && (
+              <div className="pt-2">
+                <div className="font-medium">Note to the Editors</div>
+                <p className="whitespace-pre-line text-muted-foreground">{submission.coverLetter}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <SubmissionRounds rounds={rounds} />
+
+      {canReadReviews ? (
+        <SubmissionReviewPanel
+          submissionId={submission.id}
+          round={submission.round}
+          decision={submission.decision}
+          decidedAt={submission.decidedAt?.toISOString() || null}
+          article={submission.article}
+          assignments={assignments.filter(assignment => assignment.round === submission.round)}
+          canInvite={checkPermission(currentUser, 'review.CREATE').allowed}
+          canWithdraw={checkPermission(currentUser, 'review.DELETE').allowed}
+          canDecide={checkPermission(currentUser, 'review.UPDATE').allowed}
+          canCreateArticle={checkPermission(currentUser, 'article.CREATE').allowed}
+        />
+      ) : (
+        <Card className="border-yellow-200 bg-yellow-50">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 text-yellow-600" />
+              <p className="text-sm text-yellow-800">
+                You don't have access to peer review for this submission. Contact an administrator for review permissions.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <SubmissionTimeline events={submission.events} />
+    </div>
+  )
+}
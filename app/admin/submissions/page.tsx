@@ -0,0 +1,210 @@
+import React from "react"
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { AlertCircle, CheckCircle2, ClipboardCheck, Eye, Inbox, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { DashboardHeader } from "@/components/admin/dashboard-header"
+import { SubmissionsTable } from "@/components/admin/submissions-table"
+import { getSubmissions } from "@/lib/actions/submission-actions"
+import { getSubmissionStats } from "@/lib/controllers/submissions"
+import { getCurrentUser } from "@/lib/auth"
+import { checkPermission } from "@/lib/permissions/checker"
+import { UserWithPermissions } from "@/lib/permissions/types"
+import { prisma } from "@/lib/prisma"
+
+export const dynamic = 'force-dynamic'
+
+// Get current user with permissions helper
+async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return null
+
+    if ('role' in user && user.role) {
+      return user as UserWithPermissions
+    }
+
+    const fullUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { role: true }
+    })
+
+    return fullUser as UserWithPermissions
+  } catch (error) {
+    console.error('Error getting user with permissions:', error)
+    return null
+  }
+}
+
+export default async function SubmissionsPage() {
+  const currentUser = await getCurrentUserWithPermissions()
+  if (!currentUser) {
+    redirect("/admin/login")
+  }
+
+  const submissionReadCheck = checkPermission(currentUser, 'submission.READ')
+
+  if (!submissionReadCheck.allowed) {
+    return (
+      <div className="space-y-6">
+        <DashboardHeader
+          heading="Submissions"
+          text="Review manuscripts submitted through the public portal."
+        />
+
+        <div className="rounded-lg border border-dashed p-8 text-center">
+          <div className="mx-auto flex max-w-[420px] flex-col items-center justify-center text-center">
+            <AlertCircle className="h-10 w-10 text-muted-foreground mb-4" />
+            <h3 className="font-semibold">Access Denied</h3>
+            <p className="mb-4 mt-2 text-sm text-muted-foreground">
+              You don't have permission to view submissions. Please contact your administrator to request the necessary permissions.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <Link href="/submit" target="_blank">
+                  <Eye className="mr-2 h-4 w-4" />
+                  View Submission Page
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href="/admin">
+                  Go to Dashboard
+                </Link>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const canUpdateSubmissions = checkPermission(currentUser, 'submission.UPDATE').allowed
+  const canDeleteSubmissions = checkPermission(currentUser, 'submission.DELETE').allowed
+
+  console.log("📋 Admin page: Fetching submissions...")
+
+  const [result, stats] = await Promise.all([
+    getSubmissions(),
+    getSubmissionStats(),
+  ])
+
+  if (!result.success) {
+    return (
+      <div className="space-y-6">
+        <DashboardHeader
+          heading="Submissions"
+          text="Review manuscripts submitted through the public portal."
+        />
+
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load submissions: {result.error}
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const submissionsForTable = result.data?.map(submission => ({
+    id: submission.id,
+    title: submission.title,
+    type: submission.type,
+    keywords: submission.keywords,
+    authorName: submission.authorName,
+    authorEmail: submission.authorEmail,
+    authorAffiliation: submission.authorAffiliation,
+    manuscriptName: submission.manuscriptName,
+    titlePageName: submission.titlePageName,
+    status: submission.status,
+    decision: submission.decision,
+    callForPapers: submission.callForPapers,
+    createdAt: submission.createdAt.toISOString(), // Convert Date to ISO string
+  })) || []
+
+  return (
+    <div className="space-y-6">
+      <DashboardHeader
+        heading="Submissions"
+        text="Review manuscripts submitted through the public portal."
+      />
+
+      {/* Statistics Cards */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Received</CardTitle>
+            <Inbox className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{stats.byStatus.received}</div>
+            <p className="text-xs text-muted-foreground">
+              Awaiting desk review
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Desk-reviewed</CardTitle>
+            <ClipboardCheck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-amber-600">{stats.byStatus.desk_reviewed}</div>
+            <p className="text-xs text-muted-foreground">
+              Ready to send for review
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Under Review</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-purple-600">{stats.byStatus.under_review}</div>
+            <p className="text-xs text-muted-foreground">
+              With peer reviewers
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Decided</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{stats.byStatus.decided}</div>
+            <p className="text-xs text-muted-foreground">
+              {stats.total > 0 ? Math.round((stats.byStatus.decided / stats.total) * 100) : 0}% of {stats.total} submissions
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <SubmissionsTable
+        initialSubmissions={submissionsForTable}
+        canUpdate={canUpdateSubmissions}
+        canDelete={canDeleteSubmissions}
+      />
+
+      {/* Permission Notice for Read-Only Users */}
+      {!canUpdateSubmissions && (
+        <Card className="border-yellow-200 bg-yellow-50">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 text-yellow-600" />
+              <p className="text-sm text-yellow-800">
+                You have read-only access to submissions. Contact an administrator to move submissions through review.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
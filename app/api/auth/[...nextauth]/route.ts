@@ -63,6 +63,7 @@ export const authOptions = {
           name: user.name,
           role: user.role.name,
           image: user.image,
+          sessionVersion: user.sessionVersion,
         }
       },
     }),
@@ -77,6 +78,7 @@ export const authOptions = {
       if (user) {
         token.role = user.role
         token.id = user.id
+        token.sessionVersion = user.sessionVersion
       }
       return token
     },
@@ -85,6 +87,7 @@ export const authOptions = {
       if (session.user) {
         session.user.role = token.role
         session.user.id = token.id
+        session.user.sessionVersion = token.sessionVersion
       }
       return session
     },
@@ -0,0 +1,52 @@
+// app/api/cron/publish-scheduled/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { publishDueArticles, syncArticlePdfSnapshot } from '@/lib/controllers/articles'
+import { ARTICLE_FEEDS_TAG } from '@/lib/feeds'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Publishes scheduled articles whose publication date has passed.
+ * Call it every few minutes from a cron job with
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const published = await publishDueArticles()
+
+    if (published.length > 0) {
+      revalidatePath('/')
+      revalidatePath('/blogs')
+      revalidatePath('/journals')
+      revalidatePath('/journals/archive', 'layout')
+      revalidatePath('/authors/[slug]', 'page')
+      revalidateTag(ARTICLE_FEEDS_TAG)
+
+      for (const article of published) {
+        // Snapshot linked Google Docs now that they are live
+        await syncArticlePdfSnapshot(article.id)
+        revalidatePath(`/${article.type === 'journal' ? 'journals' : 'blogs'}/${article.slug}`)
+      }
+
+      revalidatePath('/admin/posts')
+      revalidatePath('/admin/journal-articles')
+    }
+
+    return NextResponse.json({
+      published: published.map(article => article.slug),
+    })
+  } catch (error) {
+    console.error('💥 API: Error publishing scheduled articles:', error)
+    return NextResponse.json(
+      { error: 'Failed to publish scheduled articles' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+// app/api/oai/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getOaiResponse } from '@/lib/controllers/oai'
+import { siteConfig } from '@/lib/metadata'
+
+export const dynamic = 'force-dynamic'
+
+// The address harvesters are told to use, whichever host they reached us on
+const BASE_URL = `${siteConfig.url}/api/oai`
+
+async function respond(entries: Iterable<[string, string]>) {
+  try {
+    const xml = await getOaiResponse(BASE_URL, entries)
+
+    return new NextResponse(xml, {
+      status: 200,
+      headers: { 'Content-Type': 'text/xml; charset=utf-8' },
+    })
+  } catch (error) {
+    console.error('💥 OAI-PMH: Error answering request:', error)
+    return NextResponse.json({ error: 'Failed to answer the OAI-PMH request' }, { status: 500 })
+  }
+}
+
+/**
+ * OAI-PMH 2.0 endpoint for libraries and aggregators harvesting the
+ * journal's metadata as Dublin Core.
+ */
+export async function GET(request: NextRequest) {
+  return respond(request.nextUrl.searchParams.entries())
+}
+
+// The protocol also allows form-encoded POST requests
+export async function POST(request: NextRequest) {
+  return respond(new URLSearchParams(await request.text()).entries())
+}
@@ -0,0 +1,20 @@
+// app/api/preview/exit/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies, draftMode } from 'next/headers'
+import { PREVIEW_COOKIE } from '@/lib/preview'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  ;(await draftMode()).disable()
+  ;(await cookies()).delete(PREVIEW_COOKIE)
+
+  const redirectTo = request.nextUrl.searchParams.get('redirect')
+  // Only follow same-site paths. Checked after resolving, since browsers
+  // read "/\evil.com" and paths with tabs or new lines as other hosts
+  const target = redirectTo?.startsWith('/') ? new URL(redirectTo, request.url) : null
+
+  return NextResponse.redirect(
+    target && target.origin === request.nextUrl.origin ? target : new URL('/', request.url)
+  )
+}
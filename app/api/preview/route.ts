@@ -0,0 +1,45 @@
+// app/api/preview/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies, draftMode } from 'next/headers'
+import { getActivePreviewToken } from '@/lib/controllers/article-previews'
+import { PREVIEW_COOKIE } from '@/lib/preview'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Entry point for secret preview links. A valid token switches the visitor
+ * into draft mode and sends them to the article page.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token')
+
+  if (!token) {
+    return NextResponse.json({ error: 'Missing preview token' }, { status: 400 })
+  }
+
+  try {
+    const preview = await getActivePreviewToken(token)
+
+    if (!preview) {
+      return NextResponse.json(
+        { error: 'This preview link is invalid, has expired or has been revoked' },
+        { status: 404 }
+      )
+    }
+
+    ;(await draftMode()).enable()
+    ;(await cookies()).set(PREVIEW_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      expires: preview.expiresAt,
+    })
+
+    const section = preview.article.type === 'journal' ? 'journals' : 'blogs'
+    return NextResponse.redirect(new URL(`/${section}/${preview.article.slug}`, request.url))
+  } catch (error) {
+    console.error('💥 API: Error opening preview link:', error)
+    return NextResponse.json({ error: 'Failed to open preview' }, { status: 500 })
+  }
+}
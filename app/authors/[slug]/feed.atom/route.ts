@@ -0,0 +1,29 @@
+// app/authors/[slug]/feed.atom/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthorFeed } from '@/lib/controllers/feeds'
+import { FEED_CONTENT_TYPES } from '@/lib/feeds'
+
+export const dynamic = 'force-dynamic'
+
+// An author's articles as Atom; the same feed is at feed.xml in the other format
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const slug = decodeURIComponent((await params).slug)
+
+  try {
+    const xml = await getAuthorFeed(slug, 'atom')
+
+    if (!xml) {
+      return NextResponse.json({ error: 'Author not found' }, { status: 404 })
+    }
+
+    return new NextResponse(xml, {
+      headers: { 'Content-Type': FEED_CONTENT_TYPES.atom },
+    })
+  } catch (error) {
+    console.error(`💥 Feeds: Error building the feed for author ${slug}:`, error)
+    return NextResponse.json({ error: 'Failed to build the feed' }, { status: 500 })
+  }
+}
@@ -7,8 +7,12 @@ import type { Metadata } from "next"
 import { ArticleCard } from "@/components/article-card"
 import { ScrollReveal } from "@/components/scroll-reveal"
 import { DecorativeHeading } from "@/components/decorative-heading"
+import { PreviewBanner } from "@/components/preview-banner"
+import { ArticleContent } from "@/components/article-content"
+import { isRichText } from "@/lib/article-content"
 import { constructMetadata } from "@/lib/metadata"
-import { getArticleBySlug, getArticles } from "@/lib/controllers/articles"
+import { getArticles } from "@/lib/controllers/articles"
+import { getArticleWithPreview } from "@/lib/preview"
 
 interface BlogPageProps {
   params: {
@@ -20,7 +24,7 @@ export const revalidate = 3600 // Revalidate every hour
 
 // Generate metadata for the blog page
 export async function generateMetadata({ params }: BlogPageProps): Promise<Metadata> {
-  const article = await getArticleBySlug(params.slug)
+  const { article, previewExpiresAt } = await getArticleWithPreview(params.slug)
 
   if (!article) {
     return constructMetadata({
@@ -35,11 +39,13 @@ export async function generateMetadata({ params }: BlogPageProps): Promise<Metad
     description: article.excerpt || `Read ${article.title} by ${article.authors[0]?.author?.name || "Unknown Author"}`,
     image: article.image || undefined,
     pathname: `/blogs/${params.slug}`,
+    // Previews must never end up in search results
+    noIndex: previewExpiresAt !== null,
   })
 }
 
 export default async function BlogPage({ params }: BlogPageProps) {
-  const article = await getArticleBySlug(params.slug)
+  const { article, previewExpiresAt } = await getArticleWithPreview(params.slug)
 
   if (!article || article.type !== "blog") {
     notFound()
@@ -57,6 +63,7 @@ export default async function BlogPage({ params }: BlogPageProps) {
 
   return (
     <div className="flex min-h-screen flex-col">
+      {previewExpiresAt && <PreviewBanner expiresAt={previewExpiresAt} returnTo="/blogs" />}
       <main className="flex-1">
         <article className="container max-w-6xl px-4 py-8 md:px-6">
           {/* Header Section */}
@@ -116,7 +123,9 @@ export default async function BlogPage({ params }: BlogPageProps) {
             className="flex flex-col max-w-none items-center animate-fade-in"
             style={{ animationDelay: "0.3s" }}
           >
-            {article.content.split("\n\n").map((paragraph, index) => {
+            {article.content && isRichText(article.content) ? (
+              <ArticleContent html={article.content} className="max-w-4xl" />
+            ) : article.content?.split("\n\n").map((paragraph, index) => {
               // Check if the paragraph contains an image tag
               if (paragraph.includes("<img")) {
                 // This is a simple approach - in a real app you might want to use a proper HTML parser
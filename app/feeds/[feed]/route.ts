@@ -0,0 +1,36 @@
+// app/feeds/[feed]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getSiteFeed } from '@/lib/controllers/feeds'
+import { FEED_CONTENT_TYPES, parseFeedFilename } from '@/lib/feeds'
+
+export const dynamic = 'force-dynamic'
+
+const SITE_FEEDS = ['blogs', 'journal', 'notifications'] as const
+
+function isSiteFeed(name: string): name is (typeof SITE_FEEDS)[number] {
+  return (SITE_FEEDS as readonly string[]).includes(name)
+}
+
+/**
+ * Site-wide feeds, in RSS (.xml) or Atom (.atom): /feeds/blogs.xml,
+ * /feeds/journal.xml and /feeds/notifications.xml
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ feed: string }> }
+) {
+  const feed = parseFeedFilename((await params).feed)
+
+  if (!feed || !isSiteFeed(feed.name)) {
+    return NextResponse.json({ error: 'Feed not found' }, { status: 404 })
+  }
+
+  try {
+    return new NextResponse(await getSiteFeed(feed.name, feed.format), {
+      headers: { 'Content-Type': FEED_CONTENT_TYPES[feed.format] },
+    })
+  } catch (error) {
+    console.error(`💥 Feeds: Error building the ${feed.name} feed:`, error)
+    return NextResponse.json({ error: 'Failed to build the feed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+// app/journals/[slug]/jats/route.ts
+import { createHash } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getArticleJats } from '@/lib/controllers/jats-exports'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * JATS 1.3 XML for a published journal article, for indexing services and
+ * repositories. The ETag is a hash of the XML itself, which also changes
+ * with the authors, the issue and clean-ups that leave updatedAt alone.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params
+
+  try {
+    const result = await getArticleJats(slug)
+
+    if (!result) {
+      return NextResponse.json({ error: 'Article not found' }, { status: 404 })
+    }
+
+    const etag = `"${slug}-jats-${createHash('sha256').update(result.xml).digest('hex')}"`
+    const cacheHeaders = {
+      ETag: etag,
+      'Last-Modified': result.lastModified.toUTCString(),
+      'Cache-Control': 'public, max-age=0, must-revalidate',
+    }
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders })
+    }
+
+    return new NextResponse(result.xml, {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': `inline; filename="${result.filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('💥 JATS: Error exporting article:', error)
+    return NextResponse.json({ error: 'Failed to export JATS' }, { status: 500 })
+  }
+}
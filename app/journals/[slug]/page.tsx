@@ -1,14 +1,23 @@
-// app/journals/[slug]/page.tsx - Updated with Google Doc PDF download
+// app/journals/[slug]/page.tsx - Journal article page with PDF download
 import Link from "next/link"
 import { notFound } from "next/navigation"
 import { Calendar, Clock, FileText, Tag, User, Users, Download } from "lucide-react"
-import { getArticleBySlug, getRelatedArticles } from "@/lib/controllers/articles"
+import type { Metadata } from "next"
+import { getGoogleDocInfo, getRelatedArticles } from "@/lib/controllers/articles"
+import { getArticleWithPreview } from "@/lib/preview"
+import { constructMetadata } from "@/lib/metadata"
 import { ArticleCard } from "@/components/article-card"
 import { ScrollReveal } from "@/components/scroll-reveal"
 import { DecorativeHeading } from "@/components/decorative-heading"
 import { JournalCitation } from "@/components/journal-citation"
 import { JournalMetricsButton } from "@/components/journal-metrics-button"
 import { DownloadButton } from "@/components/download-button"
+import { PreviewBanner } from "@/components/preview-banner"
+import { CitationMetaTags } from "@/components/citation-meta-tags"
+import { ArticleContent } from "@/components/article-content"
+import { isRichText } from "@/lib/article-content"
+import { getArticlePdfFilename } from "@/lib/article-pdf"
+import { getDoiConfig, getDoiUrl } from "@/lib/doi"
 
 interface JournalPageProps {
   params: {
@@ -18,8 +27,30 @@ interface JournalPageProps {
 
 export const revalidate = 3600 // Revalidate every hour
 
+// Generate metadata for the journal article page
+export async function generateMetadata({ params }: JournalPageProps): Promise<Metadata> {
+  const { article, previewExpiresAt } = await getArticleWithPreview(params.slug)
+
+  if (!article || article.type !== "journal") {
+    return constructMetadata({
+      title: "Article Not Found",
+      description: "The requested article could not be found.",
+      noIndex: true,
+    })
+  }
+
+  return constructMetadata({
+    title: article.title,
+    description: article.abstract || `Read ${article.title} by ${article.authors[0]?.author?.name || "Unknown Author"}`,
+    image: article.image || undefined,
+    pathname: `/journals/${params.slug}`,
+    // Previews must never end up in search results
+    noIndex: previewExpiresAt !== null,
+  })
+}
+
 export default async function JournalPage({ params }: JournalPageProps) {
-  const article = await getArticleBySlug(params.slug)
+  const { article, previewExpiresAt } = await getArticleWithPreview(params.slug)
 
   if (!article || article.type !== "journal") {
     notFound()
@@ -37,9 +68,30 @@ export default async function JournalPage({ params }: JournalPageProps) {
   // Extract authors using the junction table structure
   const authors = article.authors || []
   const primaryAuthor = authors.length > 0 ? authors[0]?.author : null
+  const hasPdf = Boolean(article.content?.trim() || getGoogleDocInfo(article.contentLink || "").isValid)
 
   return (
     <div className="flex min-h-screen flex-col">
+      {previewExpiresAt && <PreviewBanner expiresAt={previewExpiresAt} returnTo="/journals" />}
+      {/* Kept off previews so Google Scholar never picks up an unpublished article */}
+      {previewExpiresAt === null && (
+        <CitationMetaTags
+          article={{
+            slug: article.slug,
+            title: article.title,
+            publishedAt: article.publishedAt,
+            keywords: article.keywords,
+            doi: article.doi,
+            startPage: article.startPage,
+            endPage: article.endPage,
+            // An author's title holds their designation and institution
+            authors: authors.map(({ author }) => ({ name: author.name, affiliation: author.title })),
+            issue: article.JournalIssue,
+            hasPdf,
+          }}
+          issn={getDoiConfig().issn}
+        />
+      )}
       <main className="flex-1 py-10">
         <article className=" container max-w-5xl px-4 py-8 md:px-6">
           <div className="mb-6 space-y-4">
@@ -73,6 +125,14 @@ export default async function JournalPage({ params }: JournalPageProps) {
                 </div>
               )}
 
+              {article.doi && (
+                <div>
+                  <a href={getDoiUrl(article.doi)} className="text-stone-600 hover:underline hover:decoration-red-800">
+                    {getDoiUrl(article.doi)}
+                  </a>
+                </div>
+              )}
+
               {/* Authors */}
               <div className=" items-center text-center gap-2 mb-3">
                 { authors && authors.length > 0 && (
@@ -113,10 +173,13 @@ export default async function JournalPage({ params }: JournalPageProps) {
                     id: article.id,
                     title: article.title,
                     slug: article.slug,
+                    doi: article.doi ?? undefined,
                     publishedAt: article.publishedAt, // Use publishedAt instead of date
                     volume: article.JournalIssue?.volume,
                     issue: article.JournalIssue?.issue,
                     year: article.JournalIssue?.year,
+                    startPage: article.startPage,
+                    endPage: article.endPage,
                     JournalIssue: article.JournalIssue,
                     // Pass the correct authors structure that matches our new interface
                     authors: authors.map(authorArticle => ({
@@ -139,12 +202,11 @@ export default async function JournalPage({ params }: JournalPageProps) {
                     updatedAt: article.updatedAt,
                   }}
                 />
-                {/* Download Button - Updated to use Google Doc download */}
-                {article.contentLink && (
+                {/* PDF download: the Google Doc snapshot, or the article typeset from its content */}
+                {previewExpiresAt === null && hasPdf && (
                   <DownloadButton
-                    contentLink={article.contentLink}
-                    filename={`${article.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`}
-                    title={article.title}
+                    href={`/journals/${article.slug}/pdf`}
+                    filename={getArticlePdfFilename(article)}
                   />
                 )}
               </div>
@@ -167,8 +229,15 @@ export default async function JournalPage({ params }: JournalPageProps) {
             </div>
           )}
 
+          {/* Full text written in the editor, with its footnotes */}
+          {article.content && isRichText(article.content) && (
+            <div className="mb-8 animate-fade-in" style={{ animationDelay: "0.4s" }}>
+              <ArticleContent html={article.content} className="text-base text-stone-700" />
+            </div>
+          )}
+
           {/* Full Content */}
-          {article.content && article.type !== "journal" && (
+          {article.content && !isRichText(article.content) && article.type !== "journal" && (
             <div className="prose prose-lg max-w-none mb-4 animate-fade-in" style={{ animationDelay: "0.4s" }}>
               <div className="text-base text-stone-700 leading-relaxed space-y-4">
                 {article.content.split('\n\n').map((paragraph, index) => (
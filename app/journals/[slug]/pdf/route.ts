@@ -0,0 +1,58 @@
+// app/journals/[slug]/pdf/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { downloadArticleAsPDF } from '@/lib/controllers/articles'
+import { incrementArticleDownloads } from '@/lib/actions/article-actions'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Stable PDF link for a published article. Rendered PDFs carry an ETag tied
+ * to everything they are rendered from (snapshots to when they were taken),
+ * so browsers and caches revalidate cheaply.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params
+
+  try {
+    const result = await downloadArticleAsPDF(slug)
+
+    if (!result.success || !result.buffer) {
+      console.error(`❌ PDF: ${slug}: ${result.error}`)
+      const status = result.error === 'Article not found' ? 404 : 400
+      return NextResponse.json({ error: result.error || 'No PDF available' }, { status })
+    }
+
+    const version = result.fingerprint ?? result.lastModified?.getTime()
+    const etag = result.lastModified ? `"${slug}-${version}"` : null
+    const cacheHeaders: Record<string, string> = etag
+      ? {
+          ETag: etag,
+          'Last-Modified': result.lastModified!.toUTCString(),
+          'Cache-Control': 'public, max-age=0, must-revalidate',
+        }
+      : { 'Cache-Control': 'no-store' }
+
+    if (etag && request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders })
+    }
+
+    // Counted without holding up the download
+    void incrementArticleDownloads(slug)
+
+    return new NextResponse(result.buffer, {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${result.filename}"`,
+        'Content-Length': result.buffer.length.toString(),
+      },
+    })
+  } catch (error) {
+    console.error('💥 PDF: Error serving article PDF:', error)
+    return NextResponse.json({ error: 'Failed to generate PDF' }, { status: 500 })
+  }
+}
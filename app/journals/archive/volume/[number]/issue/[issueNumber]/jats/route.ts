@@ -0,0 +1,55 @@
+// app/journals/archive/volume/[number]/issue/[issueNumber]/jats/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getJournalIssueByVolumeAndIssue } from '@/lib/controllers/journal-issues'
+import { getIssueJatsZip } from '@/lib/controllers/jats-exports'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Every published article in the issue as JATS XML, in one zip
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ number: string; issueNumber: string }> }
+) {
+  const { number, issueNumber } = await params
+  const volume = parseInt(number)
+  const issueNo = parseInt(issueNumber)
+
+  if (isNaN(volume) || isNaN(issueNo)) {
+    return NextResponse.json({ error: 'Issue not found' }, { status: 404 })
+  }
+
+  try {
+    const issue = await getJournalIssueByVolumeAndIssue(volume, issueNo)
+    const result = issue && (await getIssueJatsZip(issue.id))
+
+    if (!result) {
+      return NextResponse.json({ error: 'Issue not found' }, { status: 404 })
+    }
+
+    const etag = `"${result.fingerprint}"`
+    const cacheHeaders = {
+      ETag: etag,
+      'Last-Modified': result.lastModified.toUTCString(),
+      'Cache-Control': 'public, max-age=0, must-revalidate',
+    }
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders })
+    }
+
+    return new NextResponse(result.zip, {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${result.filename}"`,
+        'Content-Length': result.zip.length.toString(),
+      },
+    })
+  } catch (error) {
+    console.error('💥 JATS: Error exporting issue:', error)
+    return NextResponse.json({ error: 'Failed to export JATS' }, { status: 500 })
+  }
+}
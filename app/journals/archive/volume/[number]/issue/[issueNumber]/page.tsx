@@ -21,6 +21,7 @@ import {
 } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { getJournalIssueByVolumeAndIssue } from "@/lib/controllers/journal-issues"
+import { getIssuePdfFilename } from "@/lib/issue-pdf"
 
 interface PageProps {
   params: {
@@ -94,6 +95,18 @@ async function IssueContent({ volumeNumber, issueNumber }: { volumeNumber: numbe
                 </div>
               </>
             )}
+            {/* The whole issue as one PDF, with contents and editorial board */}
+            {issue.Article && issue.Article.length > 0 && (
+              <Button asChild variant="outline" size="sm" className="ml-auto rounded-sm">
+                <a
+                  href={`/journals/archive/volume/${volumeNumber}/issue/${issueNumber}/pdf`}
+                  download={getIssuePdfFilename(issue)}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Full Issue
+                </a>
+              </Button>
+            )}
           </div>
         </div>
 
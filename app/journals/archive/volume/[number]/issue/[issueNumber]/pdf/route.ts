@@ -0,0 +1,64 @@
+// app/journals/archive/volume/[number]/issue/[issueNumber]/pdf/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getJournalIssueByVolumeAndIssue } from '@/lib/controllers/journal-issues'
+import { getIssuePdf } from '@/lib/controllers/issue-pdfs'
+import { getIssuePdfFilename } from '@/lib/issue-pdf'
+
+export const dynamic = 'force-dynamic'
+// Compiling an issue fetches and merges every article
+export const maxDuration = 60
+
+/**
+ * The whole issue as one PDF: cover, editorial board, contents and every
+ * published article. Rebuilt when its articles change, otherwise served
+ * from storage.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ number: string; issueNumber: string }> }
+) {
+  const { number, issueNumber } = await params
+  const volume = parseInt(number)
+  const issueNo = parseInt(issueNumber)
+
+  if (isNaN(volume) || isNaN(issueNo)) {
+    return NextResponse.json({ error: 'Issue not found' }, { status: 404 })
+  }
+
+  try {
+    const issue = await getJournalIssueByVolumeAndIssue(volume, issueNo)
+
+    if (!issue || issue.Article.length === 0) {
+      return NextResponse.json({ error: 'Issue not found' }, { status: 404 })
+    }
+
+    const result = await getIssuePdf(issue.id)
+    if (!result) {
+      return NextResponse.json({ error: 'Issue not found' }, { status: 404 })
+    }
+
+    const etag = `"${result.fingerprint}"`
+    const cacheHeaders = {
+      ETag: etag,
+      'Last-Modified': result.generatedAt.toUTCString(),
+      'Cache-Control': 'public, max-age=0, must-revalidate',
+    }
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders })
+    }
+
+    return new NextResponse(result.pdf, {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${getIssuePdfFilename(issue)}"`,
+        'Content-Length': result.pdf.length.toString(),
+      },
+    })
+  } catch (error) {
+    console.error('💥 PDF: Error compiling issue PDF:', error)
+    return NextResponse.json({ error: 'Failed to generate issue PDF' }, { status: 500 })
+  }
+}
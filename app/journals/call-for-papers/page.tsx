@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader } from "@/co
 import { getActiveCallsForPapers } from "@/lib/actions/call-for-papers-actions"
 import { format } from "date-fns"
 import { DownloadButton } from "@/components/download-button"
+import { getGoogleDocInfo } from "@/lib/controllers/articles"
 
 export const revalidate = 3600 // Revalidate every hour
 
@@ -51,6 +52,8 @@ export default async function CallForPapersPage() {
             <div className="grid gap-8 grid-cols-1">
               {callsForPapers.map((cfp) => {
                 const deadlineStatus = getDeadlineStatus(cfp.deadline)
+                // Google Docs open straight as a PDF export; other links as they are
+                const googleDoc = cfp.contentLink ? getGoogleDocInfo(cfp.contentLink) : null
                 
                 return (
                   <Card key={cfp.id} className="overflow-hidden relative border border-stone-200/60 m-0 p-0">
@@ -134,9 +137,7 @@ export default async function CallForPapersPage() {
                       {/* Download Button - only show if contentLink exists */}
                       {cfp.contentLink && (
                         <DownloadButton
-                          contentLink={cfp.contentLink}
-                          filename={`${cfp.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`}
-                          title={cfp.title}
+                          href={googleDoc?.isValid ? googleDoc.exportUrl! : cfp.contentLink}
                           className="shrink-0"
                         />
                       )}
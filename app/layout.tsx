@@ -29,7 +29,13 @@ const ebGaramond = EB_Garamond({
   weight: ["400", "700"],
 })
 
-export const metadata: Metadata = constructMetadata({})
+export const metadata: Metadata = constructMetadata({
+  feeds: [
+    { title: "Blog", path: "/feeds/blogs" },
+    { title: "Journal Articles", path: "/feeds/journal" },
+    { title: "Notifications", path: "/feeds/notifications" },
+  ],
+})
 
 export default function RootLayout({
   children,
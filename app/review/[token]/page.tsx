@@ -0,0 +1,63 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { DecorativeHeading } from "@/components/decorative-heading"
+import { ReviewWorkspace } from "@/components/review-workspace"
+import { getReviewerAssignment } from "@/lib/actions/review-actions"
+import { constructMetadata } from "@/lib/metadata"
+
+export const dynamic = 'force-dynamic'
+
+// Reviewer links are private and must never be indexed
+export const metadata: Metadata = constructMetadata({
+  title: "Peer Review - Open Journal of Law & Policy",
+  description: "Confidential peer review of a manuscript submitted to the Open Journal of Law & Policy.",
+  noIndex: true,
+})
+
+interface ReviewPageProps {
+  params: {
+    token: string
+  }
+}
+
+export default async function ReviewPage({ params }: ReviewPageProps) {
+  const result = await getReviewerAssignment(params.token)
+
+  if (!result.success || !result.data) {
+    notFound()
+  }
+
+  const assignment = result.data
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12 lg:py-16 max-w-4xl">
+      <DecorativeHeading level={1} className="text-3xl md:text-4xl mb-8">
+        Peer Review
+      </DecorativeHeading>
+
+      <ReviewWorkspace
+        token={params.token}
+        assignment={{
+          reviewerName: assignment.reviewerName,
+          status: assignment.status,
+          dueDate: assignment.dueDate?.toISOString() || null,
+          round: assignment.round,
+          hasResponseLetter: assignment.hasResponseLetter,
+          submission: {
+            id: assignment.submission.id,
+            title: assignment.submission.title,
+            abstract: assignment.submission.abstract,
+            keywords: assignment.submission.keywords,
+            type: assignment.submission.type,
+          },
+          review: assignment.review
+            ? {
+                recommendation: assignment.review.recommendation,
+                createdAt: assignment.review.createdAt.toISOString(),
+              }
+            : null,
+        }}
+      />
+    </div>
+  )
+}
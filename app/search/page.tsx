@@ -1,13 +1,19 @@
 import type { Metadata } from "next"
 import { DecorativeHeading } from "@/components/decorative-heading"
+import { AdvancedSearchForm } from "@/components/search/advanced-search-form"
 import { SearchResults } from "@/components/search/search-results"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { constructMetadata } from "@/lib/metadata"
+import { parseSearchParams } from "@/lib/search"
 
 interface SearchPageProps {
   searchParams: {
     q?: string
     filter?: string
+    issue?: string
+    year?: string
+    author?: string
+    page?: string
   }
 }
 
@@ -21,8 +27,8 @@ export function generateMetadata({ searchParams }: SearchPageProps): Metadata {
 }
 
 export default function SearchPage({ searchParams }: SearchPageProps) {
-  const query = searchParams.q || ""
-  const filter = searchParams.filter || "all"
+  const { query, filter, issue, year, author, page } = parseSearchParams(searchParams)
+  const facets = { issue, year, author, page }
 
   return (
     <div className="container px-4 py-8 md:py-12">
@@ -39,8 +45,12 @@ export default function SearchPage({ searchParams }: SearchPageProps) {
         )}
       </div>
 
+      <div className="max-w-5xl mx-auto mb-8">
+        <AdvancedSearchForm key={query} query={query} filter={filter} defaultOpen={!query} />
+      </div>
+
       {query ? (
-        <div className="max-w-4xl mx-auto">
+        <div className="max-w-5xl mx-auto">
           <Tabs defaultValue={filter} className="mb-8">
             <TabsList className="grid grid-cols-4 max-w-md mx-auto">
               <TabsTrigger value="all" asChild>
@@ -58,19 +68,19 @@ export default function SearchPage({ searchParams }: SearchPageProps) {
             </TabsList>
 
             <TabsContent value="all" className="mt-6">
-              <SearchResults query={query} filter="all" />
+              <SearchResults query={query} filter="all" {...facets} />
             </TabsContent>
 
             <TabsContent value="journals" className="mt-6">
-              <SearchResults query={query} filter="journals" />
+              <SearchResults query={query} filter="journals" {...facets} />
             </TabsContent>
 
             <TabsContent value="blogs" className="mt-6">
-              <SearchResults query={query} filter="blogs" />
+              <SearchResults query={query} filter="blogs" {...facets} />
             </TabsContent>
 
             <TabsContent value="authors" className="mt-6">
-              <SearchResults query={query} filter="authors" />
+              <SearchResults query={query} filter="authors" {...facets} />
             </TabsContent>
           </Tabs>
         </div>
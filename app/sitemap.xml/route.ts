@@ -0,0 +1,41 @@
+// app/sitemap.xml/route.ts
+import { NextResponse } from 'next/server'
+import { getSitemapEntries } from '@/lib/controllers/sitemap'
+import {
+  getSitemapPage,
+  getSitemapPageCount,
+  getSitemapUrl,
+  latestDate,
+  renderSitemap,
+  renderSitemapIndex,
+} from '@/lib/sitemap'
+
+export const revalidate = 3600 // Revalidate every hour
+
+/**
+ * The sitemap, or a sitemap index pointing at /sitemap/1.xml, /sitemap/2.xml
+ * and so on once there are more URLs than one sitemap may list.
+ */
+export async function GET() {
+  try {
+    const entries = await getSitemapEntries()
+    const pageCount = getSitemapPageCount(entries.length)
+
+    const xml =
+      pageCount === 1
+        ? renderSitemap(entries)
+        : renderSitemapIndex(
+            Array.from({ length: pageCount }, (_, index) => ({
+              url: getSitemapUrl(index + 1),
+              lastModified: latestDate(getSitemapPage(entries, index + 1).map((entry) => entry.lastModified)),
+            }))
+          )
+
+    return new NextResponse(xml, {
+      headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+    })
+  } catch (error) {
+    console.error('💥 Sitemap: Error building sitemap:', error)
+    return NextResponse.json({ error: 'Failed to build the sitemap' }, { status: 500 })
+  }
+}
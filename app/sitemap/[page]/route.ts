@@ -0,0 +1,33 @@
+// app/sitemap/[page]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getSitemapEntries } from '@/lib/controllers/sitemap'
+import { getSitemapPage, getSitemapPageCount, parseSitemapPage, renderSitemap } from '@/lib/sitemap'
+
+export const revalidate = 3600 // Revalidate every hour
+
+// One part of the sitemap when /sitemap.xml is an index, e.g. /sitemap/2.xml
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ page: string }> }
+) {
+  const page = parseSitemapPage((await params).page)
+
+  if (page === null) {
+    return NextResponse.json({ error: 'Sitemap not found' }, { status: 404 })
+  }
+
+  try {
+    const entries = await getSitemapEntries()
+
+    if (page > getSitemapPageCount(entries.length)) {
+      return NextResponse.json({ error: 'Sitemap not found' }, { status: 404 })
+    }
+
+    return new NextResponse(renderSitemap(getSitemapPage(entries, page)), {
+      headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+    })
+  } catch (error) {
+    console.error('💥 Sitemap: Error building sitemap page:', error)
+    return NextResponse.json({ error: 'Failed to build the sitemap' }, { status: 500 })
+  }
+}
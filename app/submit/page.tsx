@@ -4,8 +4,28 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
+import { SubmissionForm } from "@/components/submission-form"
+import { getActiveCallsForPapers } from "@/lib/actions/call-for-papers-actions"
+
+export const revalidate = 3600 // Revalidate every hour
+
+export default async function SubmitPage() {
+  // Open calls for papers that a manuscript can be submitted against
+  const result = await getActiveCallsForPapers()
+
+  if ("error" in result) {
+    console.error("Failed to fetch calls for papers:", result.error)
+  }
+
+  const openCalls = ("calls" in result ? result.calls : []).map(call => ({
+    id: call.id,
+    title: call.title,
+    volume: call.volume,
+    issue: call.issue,
+    year: call.year,
+    deadline: call.deadline.toISOString(),
+  }))
 
-export default function SubmitPage() {
   return (
     <div className="flex min-h-screen flex-col">
       <main className="flex-1">
@@ -115,6 +135,7 @@ export default function SubmitPage() {
 
               <div className="space-y-4 pt-10">
                 <h2 className="text-4xl text-center font-semibold text-stone-800 ">How to Submit</h2>
+                <SubmissionForm calls={openCalls} />
                 <div className="grid md:grid-cols-2 pt-2 gap-12 sm:gap-4">
                   <Card className="">
                   <CardHeader className="pb-3 p-1 content-center items-center text-center ">
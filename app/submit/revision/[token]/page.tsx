@@ -0,0 +1,66 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { Badge } from "@/components/ui/badge"
+import { DecorativeHeading } from "@/components/decorative-heading"
+import { RevisionForm } from "@/components/revision-form"
+import { getRevisionRequest } from "@/lib/actions/submission-actions"
+import { constructMetadata } from "@/lib/metadata"
+import { REVIEW_DECISION_LABELS } from "@/lib/peer-review"
+
+export const dynamic = 'force-dynamic'
+
+// Revision links are private and must never be indexed
+export const metadata: Metadata = constructMetadata({
+  title: "Submit a Revision - Open Journal of Law & Policy",
+  description: "Upload a revised manuscript in response to the reviewers' comments.",
+  noIndex: true,
+})
+
+interface RevisionPageProps {
+  params: {
+    token: string
+  }
+}
+
+export default async function RevisionPage({ params }: RevisionPageProps) {
+  const result = await getRevisionRequest(params.token)
+
+  if (!result.success || !result.data) {
+    notFound()
+  }
+
+  const request = result.data
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12 lg:py-16 max-w-4xl space-y-8">
+      <DecorativeHeading level={1} className="text-3xl md:text-4xl">
+        Submit a Revision
+      </DecorativeHeading>
+
+      <div className="bg-card rounded-lg p-6 shadow-sm border space-y-2">
+        <h2 className="text-2xl font-semibold">{request.title}</h2>
+        <p className="text-stone-600">
+          Round {request.round} decision:{" "}
+          <strong>{request.decision ? REVIEW_DECISION_LABELS[request.decision] : "Pending"}</strong>
+        </p>
+      </div>
+
+      {request.reviews.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-xl font-semibold">Reviewers' Comments</h3>
+          {request.reviews.map((review, index) => (
+            <div key={index} className="bg-card rounded-lg p-6 shadow-sm border space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Reviewer {index + 1}</span>
+                <Badge variant="outline">{REVIEW_DECISION_LABELS[review.recommendation]}</Badge>
+              </div>
+              <p className="text-stone-600 whitespace-pre-line">{review.commentsToAuthor}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <RevisionForm token={params.token} />
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import { announceCallForPapers } from "@/lib/actions/call-for-papers-actions"
+
+interface AnnounceCallForPapersDialogProps {
+  callId: string
+  title: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Addresses separated by commas, semicolons or new lines, as pasted from a mailing list
+function parseRecipients(value: string) {
+  return value.split(/[\s,;]+/).map((email) => email.trim()).filter(Boolean)
+}
+
+export function AnnounceCallForPapersDialog({ callId, title, open, onOpenChange }: AnnounceCallForPapersDialogProps) {
+  const [recipients, setRecipients] = useState("")
+  const [isSending, setIsSending] = useState(false)
+  const count = parseRecipients(recipients).length
+
+  const handleSend = async () => {
+    setIsSending(true)
+    try {
+      const result = await announceCallForPapers(callId, parseRecipients(recipients))
+      if ("success" in result && result.success) {
+        toast({
+          title: "Announcement queued",
+          description: `"${title}" will be emailed to ${result.queued} recipient(s).`,
+        })
+        setRecipients("")
+        onOpenChange(false)
+      } else {
+        toast({
+          title: "Error",
+          description: ("error" in result && result.error) || "Failed to send the announcement",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Email announcement</DialogTitle>
+          <DialogDescription>
+            Send "{title}" to a list of recipients. Each address gets its own copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor={`announce-${callId}`}>Recipients</Label>
+          <Textarea
+            id={`announce-${callId}`}
+            rows={6}
+            placeholder={"editor@example.org\nfaculty-list@example.edu"}
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Separate addresses with commas or new lines. Up to 500 per announcement.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={isSending || count === 0}>
+            {isSending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              <>
+                <Send className="mr-2 h-4 w-4" />
+                Send to {count} recipient{count === 1 ? "" : "s"}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { format } from "date-fns"
+import { AlertTriangle, CheckCircle2, CloudOff, History, Loader2 } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import type { AutosaveStatus } from "@/hooks/use-autosave"
+
+export function AutosaveIndicator({ status, lastSavedAt }: { status: AutosaveStatus; lastSavedAt: Date | null }) {
+  if (status === "saving") {
+    return (
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Saving draft...
+      </span>
+    )
+  }
+
+  if (status === "error") {
+    return (
+      <span className="flex items-center gap-1 text-xs text-destructive">
+        <CloudOff className="h-3 w-3" />
+        Autosave failed
+      </span>
+    )
+  }
+
+  if (lastSavedAt) {
+    return (
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <CheckCircle2 className="h-3 w-3" />
+        Draft saved at {format(lastSavedAt, "h:mm a")}
+      </span>
+    )
+  }
+
+  return null
+}
+
+interface WorkingDraftPromptProps {
+  savedAt: string
+  stale: boolean
+  onRestore: () => void
+  onDiscard: () => void
+}
+
+export function WorkingDraftPrompt({ savedAt, stale, onRestore, onDiscard }: WorkingDraftPromptProps) {
+  return (
+    <Alert>
+      <History className="h-4 w-4" />
+      <AlertTitle>Restore unsaved changes?</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          You have changes from {format(new Date(savedAt), "MMM d, yyyy 'at' h:mm a")} that were never saved.
+          {stale && " Someone has saved this article since, so you will be asked to merge when you save."}
+        </p>
+        <div className="flex gap-2">
+          <Button type="button" size="sm" onClick={onRestore}>
+            Restore
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={onDiscard}>
+            Discard
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  )
+}
+
+interface SaveConflictDialogProps {
+  open: boolean
+  updatedBy: string | null
+  updatedAt: string | null
+  isResolving: boolean
+  onMerge: () => void
+  onOverwrite: () => void
+  onCancel: () => void
+}
+
+export function SaveConflictDialog({
+  open,
+  updatedBy,
+  updatedAt,
+  isResolving,
+  onMerge,
+  onOverwrite,
+  onCancel,
+}: SaveConflictDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-600" />
+            Someone else saved this article
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {updatedBy || "Another editor"} saved a newer version
+            {updatedAt ? ` at ${format(new Date(updatedAt), "MMM d, h:mm a")}` : ""} while you were editing. Your
+            changes have not been saved yet.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2 text-sm text-muted-foreground">
+          <p>
+            <strong className="text-foreground">Merge</strong> loads their version into the form and keeps your edits.
+            Fields you both changed keep your version so you can review them before saving again.
+          </p>
+          <p>
+            <strong className="text-foreground">Overwrite</strong> saves your version as it is. Their changes stay
+            in the revision history.
+          </p>
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isResolving}>Cancel</AlertDialogCancel>
+          <Button type="button" variant="outline" onClick={onOverwrite} disabled={isResolving}>
+            Overwrite
+          </Button>
+          <Button type="button" onClick={onMerge} disabled={isResolving}>
+            {isResolving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Merge
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -14,7 +14,7 @@ import {
   getSortedRowModel,
   useReactTable,
 } from "@tanstack/react-table"
-import { ArrowUpDown, ChevronDown, MoreHorizontal, Pencil, Trash, Eye, User, Calendar, ExternalLink, Clock, FileText, Loader2 } from "lucide-react"
+import { ArrowUpDown, ChevronDown, MoreHorizontal, Pencil, Trash, Eye, User, Calendar, ExternalLink, Clock, FileText, Loader2, Mail } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import { Checkbox } from "@/components/ui/checkbox"
@@ -41,6 +41,7 @@ import {
 } from "@/components/ui/alert-dialog"
 import { toast } from "@/components/ui/use-toast"
 import { deleteCallForPapers } from "@/lib/actions/call-for-papers-actions"
+import { AnnounceCallForPapersDialog } from "@/components/admin/announce-call-for-papers-dialog"
 import { Badge } from "@/components/ui/badge"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 
@@ -265,6 +266,8 @@ export function CallForPapersTable({ initialCalls }: CallForPapersTableProps) {
       cell: ({ row }) => {
         const cfp = row.original
         const [open, setOpen] = useState(false)
+        const [announceOpen, setAnnounceOpen] = useState(false)
+        const isOpen = new Date(cfp.deadline) > new Date()
 
         const handleDelete = async () => {
           setIsDeleting(cfp.id)
@@ -296,94 +299,108 @@ export function CallForPapersTable({ initialCalls }: CallForPapersTableProps) {
         }
 
         return (
-          <AlertDialog open={open} onOpenChange={setOpen}>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" className="h-8 w-8 p-0">
-                  <span className="sr-only">Open menu</span>
-                  <MoreHorizontal className="h-4 w-4" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" className="w-56">
-                <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                <DropdownMenuItem 
-                  onClick={() => navigator.clipboard.writeText(cfp.id)}
-                >
-                  <FileText className="mr-2 h-4 w-4" />
-                  Copy ID
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem asChild>
-                  <Link href={`/admin/call-for-papers/${cfp.id}/edit`}>
-                    <Pencil className="mr-2 h-4 w-4" />
-                    Edit Call for Papers
-                  </Link>
-                </DropdownMenuItem>
-                <DropdownMenuItem asChild>
-                  <Link href={`/notifications`} target="_blank">
-                    <Eye className="mr-2 h-4 w-4" />
-                    View on Public Page
-                  </Link>
-                </DropdownMenuItem>
-                {cfp.contentLink && (
-                  <>
-                    <DropdownMenuSeparator />
-                    <DropdownMenuItem asChild>
-                      <Link href={cfp.contentLink} target="_blank" rel="noopener noreferrer">
-                        <FileText className="mr-2 h-4 w-4" />
-                        View Details Page
-                      </Link>
-                    </DropdownMenuItem>
-                  </>
-                )}
-                <DropdownMenuSeparator />
-                <AlertDialogTrigger asChild>
-                  <DropdownMenuItem className="text-destructive focus:text-destructive">
-                    <Trash className="mr-2 h-4 w-4" />
-                    Delete Call for Papers
+          <>
+            <AlertDialog open={open} onOpenChange={setOpen}>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" className="h-8 w-8 p-0">
+                    <span className="sr-only">Open menu</span>
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56">
+                  <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                  <DropdownMenuItem 
+                    onClick={() => navigator.clipboard.writeText(cfp.id)}
+                  >
+                    <FileText className="mr-2 h-4 w-4" />
+                    Copy ID
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem asChild>
+                    <Link href={`/admin/call-for-papers/${cfp.id}/edit`}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit Call for Papers
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href={`/notifications`} target="_blank">
+                      <Eye className="mr-2 h-4 w-4" />
+                      View on Public Page
+                    </Link>
                   </DropdownMenuItem>
-                </AlertDialogTrigger>
-              </DropdownMenuContent>
-            </DropdownMenu>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                <AlertDialogDescription className="space-y-2">
-                  <p>This action cannot be undone. This will permanently delete:</p>
-                  <ul className="list-disc list-inside space-y-1 text-sm">
-                    <li>The call for papers: <strong>"{cfp.title}"</strong></li>
-                    <li>All associated metadata (topics, deadlines, etc.)</li>
-                    <li>Any auto-generated notifications</li>
-                  </ul>
-                  <p className="text-sm text-muted-foreground mt-2">
-                    Consider editing instead if you only need to update information.
-                  </p>
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel disabled={isDeleting === cfp.id}>
-                  Cancel
-                </AlertDialogCancel>
-                <AlertDialogAction
-                  onClick={(e) => {
-                    e.preventDefault()
-                    handleDelete()
-                  }}
-                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                  disabled={isDeleting === cfp.id}
-                >
-                  {isDeleting === cfp.id ? (
+                  {isOpen && (
+                    <DropdownMenuItem onSelect={() => setAnnounceOpen(true)}>
+                      <Mail className="mr-2 h-4 w-4" />
+                      Email Announcement
+                    </DropdownMenuItem>
+                  )}
+                  {cfp.contentLink && (
                     <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Deleting...
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem asChild>
+                        <Link href={cfp.contentLink} target="_blank" rel="noopener noreferrer">
+                          <FileText className="mr-2 h-4 w-4" />
+                          View Details Page
+                        </Link>
+                      </DropdownMenuItem>
                     </>
-                  ) : (
-                    "Delete Permanently"
                   )}
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+                  <DropdownMenuSeparator />
+                  <AlertDialogTrigger asChild>
+                    <DropdownMenuItem className="text-destructive focus:text-destructive">
+                      <Trash className="mr-2 h-4 w-4" />
+                      Delete Call for Papers
+                    </DropdownMenuItem>
+                  </AlertDialogTrigger>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                  <AlertDialogDescription className="space-y-2">
+                    <p>This action cannot be undone. This will permanently delete:</p>
+                    <ul className="list-disc list-inside space-y-1 text-sm">
+                      <li>The call for papers: <strong>"{cfp.title}"</strong></li>
+                      <li>All associated metadata (topics, deadlines, etc.)</li>
+                      <li>Any auto-generated notifications</li>
+                    </ul>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Consider editing instead if you only need to update information.
+                    </p>
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel disabled={isDeleting === cfp.id}>
+                    Cancel
+                  </AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={(e) => {
+                      e.preventDefault()
+                      handleDelete()
+                    }}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    disabled={isDeleting === cfp.id}
+                  >
+                    {isDeleting === cfp.id ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Deleting...
+                      </>
+                    ) : (
+                      "Delete Permanently"
+                    )}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+            <AnnounceCallForPapersDialog
+              callId={cfp.id}
+              title={cfp.title}
+              open={announceOpen}
+              onOpenChange={setAnnounceOpen}
+            />
+          </>
         )
       },
     },
@@ -0,0 +1,106 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { FileUp, Loader2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { uploadMediaFile } from "@/lib/actions/media-actions"
+import { convertDocxToHtml } from "@/lib/docx-import"
+
+const DOCX_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+
+interface DocxImportButtonProps {
+  // Whether the editor already has content that the import would replace
+  hasContent: boolean
+  onImport: (html: string) => void
+}
+
+export function DocxImportButton({ hasContent, onImport }: DocxImportButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const importFile = async (file: File) => {
+    if (!file.name.toLowerCase().endsWith(".docx")) {
+      toast({
+        title: "Unsupported file",
+        description: "Only Word documents (.docx) can be imported.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (hasContent && !window.confirm("Replace the current content with the imported document?")) {
+      return
+    }
+
+    setStatus("Converting document...")
+
+    try {
+      const result = await convertDocxToHtml(file, async (image, index) => {
+        setStatus(`Uploading image ${index}...`)
+
+        const formData = new FormData()
+        formData.append("file", image)
+        formData.append("alt", image.name.replace(/\.[^/.]+$/, ""))
+        formData.append("description", `Imported from ${file.name}`)
+
+        const upload = await uploadMediaFile(formData)
+        return upload.success && upload.data ? upload.data.url : null
+      })
+
+      onImport(result.html)
+
+      const imported = [
+        `${result.footnotes} footnote${result.footnotes === 1 ? "" : "s"}`,
+        `${result.images} image${result.images === 1 ? "" : "s"}`,
+      ].join(" and ")
+
+      toast({
+        title: "Document imported",
+        description:
+          result.warnings.length > 0
+            ? `Imported ${file.name} with ${imported}. ${result.warnings.join(" ")}`
+            : `Imported ${file.name} with ${imported}. Review the content before saving.`,
+        variant: result.warnings.length > 0 ? "destructive" : "default",
+        duration: result.warnings.length > 0 ? 10000 : 5000,
+      })
+    } catch (error) {
+      console.error("Error importing document:", error)
+      toast({
+        title: "Import failed",
+        description: "The document could not be read. Make sure it is a valid .docx file.",
+        variant: "destructive",
+      })
+    } finally {
+      setStatus(null)
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={`.docx,${DOCX_TYPE}`}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ""
+          if (file) importFile(file)
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={status !== null}
+        onClick={() => inputRef.current?.click()}
+      >
+        {status ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+        {status || "Import .docx"}
+      </Button>
+    </>
+  )
+}
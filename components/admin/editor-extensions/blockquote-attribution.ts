@@ -0,0 +1,43 @@
+import { Extension } from "@tiptap/core"
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    blockquoteAttribution: {
+      setBlockquoteAttribution: (attribution: string) => ReturnType
+    }
+  }
+}
+
+/**
+ * Adds an attribution (the statute, judgment or author being quoted) to the
+ * starter kit's blockquote. It is stored in `data-attribution` and shown
+ * under the quote by the article styles.
+ */
+export const BlockquoteAttribution = Extension.create({
+  name: "blockquoteAttribution",
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: ["blockquote"],
+        attributes: {
+          attribution: {
+            default: null,
+            parseHTML: (element) => element.getAttribute("data-attribution") || null,
+            renderHTML: (attributes) =>
+              attributes.attribution ? { "data-attribution": attributes.attribution } : {},
+          },
+        },
+      },
+    ]
+  },
+
+  addCommands() {
+    return {
+      setBlockquoteAttribution:
+        (attribution) =>
+        ({ commands }) =>
+          commands.updateAttributes("blockquote", { attribution: attribution || null }),
+    }
+  },
+})
@@ -0,0 +1,40 @@
+import { Mark, mergeAttributes } from "@tiptap/core"
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    caseCitation: {
+      toggleCaseCitation: () => ReturnType
+    }
+  }
+}
+
+/**
+ * Marks a case name (e.g. "Donoghue v Stevenson") so it is set in italics
+ * and highlighted on the article pages and in the PDF download.
+ */
+export const CaseCitation = Mark.create({
+  name: "caseCitation",
+
+  parseHTML() {
+    return [{ tag: "cite[data-case-citation]" }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["cite", mergeAttributes({ "data-case-citation": "", class: "case-citation" }, HTMLAttributes), 0]
+  },
+
+  addCommands() {
+    return {
+      toggleCaseCitation:
+        () =>
+        ({ commands }) =>
+          commands.toggleMark(this.name),
+    }
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      "Mod-Shift-c": () => this.editor.commands.toggleCaseCitation(),
+    }
+  },
+})
@@ -0,0 +1,61 @@
+import { Node, mergeAttributes } from "@tiptap/core"
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    footnote: {
+      insertFootnote: (note: string) => ReturnType
+      updateFootnote: (note: string) => ReturnType
+    }
+  }
+}
+
+/**
+ * Inline footnote reference. The note text lives in `data-note`; numbering
+ * is done with a CSS counter in the editor and by `numberFootnotes` on the
+ * public pages, so notes renumber themselves as they move.
+ */
+export const Footnote = Node.create({
+  name: "footnote",
+  group: "inline",
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      note: {
+        default: "",
+        parseHTML: (element) => element.getAttribute("data-note") || "",
+        renderHTML: (attributes) => ({
+          "data-note": attributes.note,
+          title: attributes.note,
+        }),
+      },
+    }
+  },
+
+  parseHTML() {
+    return [{ tag: "sup[data-footnote]" }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["sup", mergeAttributes({ "data-footnote": "", class: "footnote-ref" }, HTMLAttributes)]
+  },
+
+  renderText({ node }) {
+    return ` [${node.attrs.note}]`
+  },
+
+  addCommands() {
+    return {
+      insertFootnote:
+        (note) =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name, attrs: { note } }),
+      updateFootnote:
+        (note) =>
+        ({ commands }) =>
+          commands.updateAttributes(this.name, { note }),
+    }
+  },
+})
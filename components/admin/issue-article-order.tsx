@@ -0,0 +1,273 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowDown, ArrowUp, GripVertical, ListOrdered, Loader2, Save } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { toast } from "@/components/ui/use-toast"
+import { cn } from "@/lib/utils"
+import { reorderIssueArticles, updateIssueArticlePages } from "@/lib/actions/journal-actions"
+
+export type IssueArticleRow = {
+  id: string
+  title: string
+  slug: string
+  status: string
+  publishedAt: string
+  doi: string | null
+  issueOrder: number | null
+  startPage: number | null
+  endPage: number | null
+  authors: string
+}
+
+interface IssueArticleOrderProps {
+  issueId: string
+  articles: IssueArticleRow[]
+}
+
+type PageInputs = Record<string, { startPage: string; endPage: string }>
+
+function toPageInputs(articles: IssueArticleRow[]): PageInputs {
+  return Object.fromEntries(
+    articles.map((article) => [
+      article.id,
+      { startPage: article.startPage?.toString() ?? "", endPage: article.endPage?.toString() ?? "" },
+    ])
+  )
+}
+
+export function IssueArticleOrder({ issueId, articles: initialArticles }: IssueArticleOrderProps) {
+  const router = useRouter()
+  const [articles, setArticles] = useState(initialArticles)
+  const [pages, setPages] = useState<PageInputs>(() => toPageInputs(initialArticles))
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+  const [isReordering, setIsReordering] = useState(false)
+  const [isSavingPages, setIsSavingPages] = useState(false)
+
+  const pagesChanged = initialArticles.some(
+    (article) =>
+      (article.startPage?.toString() ?? "") !== pages[article.id]?.startPage ||
+      (article.endPage?.toString() ?? "") !== pages[article.id]?.endPage
+  )
+
+  const saveOrder = async (newArticles: IssueArticleRow[]) => {
+    const originalArticles = articles
+    setArticles(newArticles)
+    setIsReordering(true)
+
+    try {
+      const result = await reorderIssueArticles(issueId, newArticles.map((article) => article.id))
+
+      if (result.success) {
+        toast({
+          title: "Order updated",
+          description: "The issue's table of contents has been updated.",
+        })
+        router.refresh()
+      } else {
+        setArticles(originalArticles)
+        toast({
+          title: "Error",
+          description: result.error as string,
+          variant: "destructive",
+        })
+      }
+    } catch (err) {
+      setArticles(originalArticles)
+      console.error("Failed to update order:", err)
+      toast({
+        title: "Error",
+        description: "Failed to update order. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsReordering(false)
+    }
+  }
+
+  const moveArticle = (fromIndex: number, toIndex: number) => {
+    if (isReordering || fromIndex === toIndex || toIndex < 0 || toIndex >= articles.length) return
+
+    const newArticles = [...articles]
+    const [moved] = newArticles.splice(fromIndex, 1)
+    newArticles.splice(toIndex, 0, moved)
+    saveOrder(newArticles)
+  }
+
+  const handleDrop = (targetId: string) => {
+    if (draggedId) {
+      moveArticle(
+        articles.findIndex((article) => article.id === draggedId),
+        articles.findIndex((article) => article.id === targetId)
+      )
+    }
+    setDraggedId(null)
+    setDropTargetId(null)
+  }
+
+  const handlePageChange = (id: string, field: "startPage" | "endPage", value: string) => {
+    setPages((current) => ({ ...current, [id]: { ...current[id], [field]: value } }))
+  }
+
+  const handleSavePages = async () => {
+    setIsSavingPages(true)
+    try {
+      const result = await updateIssueArticlePages(
+        issueId,
+        articles.map((article) => ({
+          id: article.id,
+          startPage: pages[article.id].startPage.trim() ? Number(pages[article.id].startPage) : null,
+          endPage: pages[article.id].endPage.trim() ? Number(pages[article.id].endPage) : null,
+        }))
+      )
+
+      if (result.success) {
+        toast({
+          title: "Pages saved",
+          description: "Citations now include the updated page ranges.",
+        })
+        router.refresh()
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to save page ranges",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsSavingPages(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          Articles in this Issue
+        </CardTitle>
+        <CardDescription>
+          Drag articles into the order the issue prints them. The archive, the full-issue PDF and the table of
+          contents follow this order. Page ranges are used in citations.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {articles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No articles are assigned to this issue yet. Assign them from the journal article editor.
+          </p>
+        ) : (
+          <>
+            <ol className="space-y-2">
+              {articles.map((article, index) => (
+                <li
+                  key={article.id}
+                  draggable={!isReordering}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move"
+                    setDraggedId(article.id)
+                  }}
+                  onDragOver={(e) => {
+                    if (!draggedId) return
+                    e.preventDefault()
+                    setDropTargetId(article.id)
+                  }}
+                  onDragLeave={() => setDropTargetId((current) => (current === article.id ? null : current))}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    handleDrop(article.id)
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null)
+                    setDropTargetId(null)
+                  }}
+                  className={cn(
+                    "flex flex-wrap items-center gap-3 rounded-md border bg-background p-3",
+                    draggedId === article.id && "opacity-50",
+                    dropTargetId === article.id && draggedId !== article.id && "border-primary"
+                  )}
+                >
+                  <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground" />
+                  <span className="w-6 text-sm font-medium text-muted-foreground">{index + 1}.</span>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <p className="truncate font-medium">{article.title}</p>
+                      {article.status !== "published" && (
+                        <Badge variant="secondary" className="capitalize">
+                          {article.status}
+                        </Badge>
+                      )}
+                    </div>
+                    {article.authors && <p className="truncate text-sm text-muted-foreground">{article.authors}</p>}
+                    {article.doi && <p className="truncate font-mono text-xs text-muted-foreground">DOI {article.doi}</p>}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="From"
+                      aria-label={`First page of ${article.title}`}
+                      value={pages[article.id]?.startPage ?? ""}
+                      onChange={(e) => handlePageChange(article.id, "startPage", e.target.value)}
+                      className="h-8 w-20"
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="To"
+                      aria-label={`Last page of ${article.title}`}
+                      value={pages[article.id]?.endPage ?? ""}
+                      onChange={(e) => handlePageChange(article.id, "endPage", e.target.value)}
+                      className="h-8 w-20"
+                    />
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => moveArticle(index, index - 1)}
+                      disabled={isReordering || index === 0}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                      <span className="sr-only">Move up</span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => moveArticle(index, index + 1)}
+                      disabled={isReordering || index === articles.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                      <span className="sr-only">Move down</span>
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                {isReordering ? "Saving order…" : "Order is saved as soon as an article is moved."}
+              </p>
+              <Button type="button" onClick={handleSavePages} disabled={isSavingPages || !pagesChanged}>
+                {isSavingPages ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Pages
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
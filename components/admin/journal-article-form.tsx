@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { useRouter } from "next/navigation"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form"
@@ -36,9 +36,18 @@ import { toast } from "@/components/ui/use-toast"
 import { 
   createJournalArticle, 
   updateJournalArticle, 
+  getJournalArticle,
   getJournalIssuesForDropdown 
 } from "@/lib/actions/journal-article-actions"
+import { discardWorkingDraft, getWorkingDraft, saveWorkingDraft } from "@/lib/actions/autosave-actions"
+import { mergeFormValues, type SaveConflict } from "@/lib/merge-form-values"
+import { useAutosave } from "@/hooks/use-autosave"
+import { AutosaveIndicator, SaveConflictDialog, WorkingDraftPrompt } from "@/components/admin/autosave-controls"
 import { format } from "date-fns"
+import { ARTICLE_STATUS_LABELS, ARTICLE_STATUS_VALUES, type ArticleStatusValue } from "@/lib/article-status"
+import { isRichText, legacyTextToHtml } from "@/lib/article-content"
+import { RichTextEditor } from "@/components/admin/rich-text-editor"
+import { DocxImportButton } from "@/components/admin/docx-import-button"
 
 // Author schema for individual authors
 const authorSchema = z.object({
@@ -51,7 +60,7 @@ const authorSchema = z.object({
     .email("Please enter a valid email address"),
 })
 
-// Updated schema for journal articles (no content/image, focus on metadata)
+// Updated schema for journal articles (no image, focus on metadata; full text is optional)
 const formSchema = z.object({
   title: z.string()
     .min(1, "Title is required")
@@ -65,6 +74,8 @@ const formSchema = z.object({
   abstract: z.string()
     .min(1, "Abstract is required")
     .min(20, "Abstract must be at least 20 characters"),
+  // Optional full text, shown on the article page alongside the content link
+  content: z.string().optional(),
   contentLink: z.string()
     .min(1, "Content link is required for journal articles")
     .url("Please enter a valid URL"),
@@ -78,6 +89,7 @@ const formSchema = z.object({
     .max(10, "Maximum 10 authors allowed"),
   issueId: z.string().optional(),
   keywords: z.array(z.string()).default([]),
+  status: z.enum(ARTICLE_STATUS_VALUES).default("draft"),
   archived: z.boolean().default(false),
   featured: z.boolean().default(false),
   carousel: z.boolean().default(false),
@@ -86,20 +98,77 @@ const formSchema = z.object({
 type FormData = z.infer<typeof formSchema>
 type Author = z.infer<typeof authorSchema>
 
+const FIELD_LABELS: Record<keyof FormData, string> = {
+  title: "Title",
+  slug: "URL Slug",
+  abstract: "Abstract",
+  content: "Full Text",
+  contentLink: "Content Link",
+  publishedAt: "Publication Date",
+  readTime: "Read Time",
+  authors: "Authors",
+  issueId: "Journal Issue",
+  keywords: "Keywords",
+  status: "Status",
+  archived: "Archived",
+  featured: "Featured",
+  carousel: "Carousel",
+}
+
+type ArticleFormSource = NonNullable<JournalArticleFormProps["article"]>
+
+function toFormValues(article?: ArticleFormSource): FormData {
+  return {
+    title: article?.title || "",
+    slug: article?.slug || "",
+    abstract: article?.abstract || "",
+    content: article?.content && !isRichText(article.content) ? legacyTextToHtml(article.content) : article?.content || "",
+    contentLink: article?.contentLink || "",
+    publishedAt: article?.publishedAt ? new Date(article.publishedAt) : new Date(),
+    readTime: article?.readTime || 5,
+    authors: article?.Authors?.map(author => ({
+      name: author.name,
+      email: author.email,
+    })) || [{ name: "", email: "" }],
+    issueId: article?.journalIssue?.id || article?.issueId || "",
+    keywords: article?.keywords || [],
+    status: article?.status || "draft",
+    archived: article?.archived || false,
+    featured: article?.featured || false,
+    carousel: article?.carousel || false,
+  }
+}
+
+// Autosaved drafts come back from JSON with the date as a string
+function fromDraft(data: Record<string, unknown>): FormData {
+  const values = data as unknown as FormData
+  return { ...values, publishedAt: new Date(values.publishedAt) }
+}
+
+type WorkingDraft = {
+  data: Record<string, unknown>
+  savedAt: string
+  baseVersion: number | null
+  stale: boolean
+}
+
 interface JournalArticleFormProps {
   article?: {
     id: string
     slug: string
     title: string
     abstract?: string
+    content?: string | null
     contentLink?: string
     publishedAt?: Date | string
     readTime: number
     issueId?: string | null
     keywords: string[]
+    status?: ArticleStatusValue
     archived?: boolean
     featured?: boolean
     carousel?: boolean
+    version?: number
     Authors?: Array<{
       id: string
       name: string
@@ -127,6 +196,13 @@ export function JournalArticleForm({ article }: JournalArticleFormProps) {
   }>>([])
   const [newKeyword, setNewKeyword] = useState("")
   const [newAuthor, setNewAuthor] = useState<Author>({ name: "", email: "" })
+  // Version of the article the form was loaded from, checked on save
+  const [baseVersion, setBaseVersion] = useState<number | null>(article?.version ?? null)
+  const baseValuesRef = useRef<FormData | null>(article ? toFormValues(article) : null)
+  const [workingDraft, setWorkingDraft] = useState<WorkingDraft | null>(null)
+  const [isCheckingDraft, setIsCheckingDraft] = useState(true)
+  const [conflict, setConflict] = useState<(SaveConflict & { values: FormData }) | null>(null)
+  const [isResolving, setIsResolving] = useState(false)
 
   // Load journal issues
   useEffect(() => {
@@ -142,25 +218,114 @@ export function JournalArticleForm({ article }: JournalArticleFormProps) {
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      title: article?.title || "",
-      slug: article?.slug || "",
-      abstract: article?.abstract || "",
-      contentLink: article?.contentLink || "",
-      publishedAt: article?.publishedAt ? new Date(article.publishedAt) : new Date(),
-      readTime: article?.readTime || 5,
-      authors: article?.Authors?.map(author => ({
-        name: author.name,
-        email: author.email,
-      })) || [{ name: "", email: "" }],
-      issueId: article?.journalIssue?.id || article?.issueId || "",
-      keywords: article?.keywords || [],
-      archived: article?.archived || false,
-      featured: article?.featured || false,
-      carousel: article?.carousel || false,
-    },
+    defaultValues: toFormValues(article),
   })
 
+  const getFormValues = useCallback(() => form.getValues(), [form])
+  const saveDraft = useCallback(
+    (values: FormData) =>
+      saveWorkingDraft({ articleId: article?.id ?? null, type: "journal", data: values, baseVersion }),
+    [article?.id, baseVersion]
+  )
+  // Hold autosave until the editor has decided what to do with an older draft
+  const autosave = useAutosave({
+    enabled: !isCheckingDraft && !workingDraft,
+    getValues: getFormValues,
+    save: saveDraft,
+  })
+  const { markClean } = autosave
+
+  // Offer back anything autosaved but never saved
+  useEffect(() => {
+    const loaded = form.getValues()
+    markClean(loaded)
+
+    getWorkingDraft(article?.id ?? null, "journal")
+      .then((draftResult) => {
+        if (
+          draftResult.success &&
+          draftResult.data &&
+          JSON.stringify(fromDraft(draftResult.data.data)) !== JSON.stringify(loaded)
+        ) {
+          setWorkingDraft(draftResult.data)
+        }
+      })
+      .finally(() => setIsCheckingDraft(false))
+  }, [article?.id, form, markClean])
+
+  const restoreWorkingDraft = () => {
+    if (!workingDraft) return
+
+    form.reset(fromDraft(workingDraft.data))
+    if (workingDraft.stale) {
+      // The article moved on since the draft was started: saving will ask to merge
+      setBaseVersion(workingDraft.baseVersion)
+      baseValuesRef.current = null
+    }
+    setWorkingDraft(null)
+  }
+
+  const discardDraft = async () => {
+    setWorkingDraft(null)
+    await discardWorkingDraft(article?.id ?? null, "journal")
+  }
+
+  const overwriteConflict = async () => {
+    if (!conflict) return
+
+    setIsResolving(true)
+    try {
+      const values = conflict.values
+      setConflict(null)
+      await submitArticle(values, conflict.version)
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  const mergeConflict = async () => {
+    if (!conflict || !article) return
+
+    setIsResolving(true)
+    try {
+      const result = await getJournalArticle(article.slug)
+      if (!("article" in result) || !result.article) {
+        toast({
+          title: "Error",
+          description: "Failed to load the latest version of the article",
+          variant: "destructive",
+        })
+        return
+      }
+
+      const latest = result.article
+      const theirs = toFormValues({
+        ...latest,
+        abstract: latest.abstract ?? undefined,
+        contentLink: latest.contentLink ?? undefined,
+        readTime: latest.readTime ?? 5,
+        status: latest.status,
+        journalIssue: latest.journalIssue ? { ...latest.journalIssue, theme: latest.journalIssue.theme ?? undefined } : null,
+      })
+      const { merged, conflicts } = mergeFormValues(baseValuesRef.current, conflict.values, theirs)
+
+      form.reset(merged)
+      baseValuesRef.current = theirs
+      setBaseVersion(latest.version)
+      setConflict(null)
+
+      toast({
+        title: "Changes merged",
+        description: conflicts.length > 0
+          ? `You both changed ${conflicts.map((field) => FIELD_LABELS[field]).join(", ")}. Your version was kept; review it, then save.`
+          : "Their changes have been added to yours. Review the form, then save.",
+        duration: 8000,
+      })
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
   const keywords = form.watch("keywords")
   const title = form.watch("title")
   const authors = form.watch("authors")
@@ -291,7 +456,9 @@ export function JournalArticleForm({ article }: JournalArticleFormProps) {
     }
   }
 
-  const onSubmit = async (data: FormData) => {
+  const onSubmit = (data: FormData) => submitArticle(data, baseVersion)
+
+  const submitArticle = async (data: FormData, expectedVersion: number | null) => {
     console.log("🚀 Form submission started")
     console.log("📋 Form data:", data)
     
@@ -326,20 +493,30 @@ export function JournalArticleForm({ article }: JournalArticleFormProps) {
       console.log("📞 Calling server action...")
       
       const result = article
-        ? await updateJournalArticle(article.slug, data)
+        ? await updateJournalArticle(article.slug, data, expectedVersion ?? undefined)
         : await createJournalArticle(data)
 
       console.log("📥 Server response:", result)
 
+      // Someone else saved the article since it was loaded: let the editor choose
+      if ("conflict" in result && result.conflict) {
+        // The conflict response is folded into the plain error type on inference
+        setConflict({ ...(result.conflict as SaveConflict), values: data })
+        return
+      }
+
       if (result.success) {
         console.log("✅ Operation successful!")
         
+        // Anything the server's allow-list removed from the full text
+        const sanitizeWarning = "sanitizeWarning" in result ? result.sanitizeWarning : null
+
         toast({
           title: article ? "✅ Article Updated" : "🎉 Article Created!",
-          description: article 
+          description: `${article 
             ? `"${data.title}" has been updated successfully.`
-            : `"${data.title}" has been created successfully. ${data.archived ? "It's saved as archived." : "It's now published."}`,
-          duration: 4000,
+            : `"${data.title}" has been created successfully. It's saved as ${ARTICLE_STATUS_LABELS[data.status].toLowerCase()}.`}${sanitizeWarning ? ` ${sanitizeWarning}` : ""}`,
+          duration: sanitizeWarning ? 10000 : 4000,
         })
         
         console.log("🔄 Redirecting to admin page...")
@@ -420,7 +597,15 @@ export function JournalArticleForm({ article }: JournalArticleFormProps) {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
-              
+              {workingDraft && (
+                <WorkingDraftPrompt
+                  savedAt={workingDraft.savedAt}
+                  stale={workingDraft.stale}
+                  onRestore={restoreWorkingDraft}
+                  onDiscard={discardDraft}
+                />
+              )}
+
               {/* Basic Information */}
               <div className="space-y-6">
                 <h3 className="text-lg font-semibold">Article Information</h3>
@@ -585,7 +770,7 @@ export function JournalArticleForm({ article }: JournalArticleFormProps) {
                               mode="single"
                               selected={field.value}
                               onSelect={field.onChange}
-                              disabled={(date) => date > new Date() || date < new Date("1900-01-01")}
+                              disabled={(date) => date < new Date("1900-01-01")}
                               initialFocus
                             />
                           </PopoverContent>
@@ -619,6 +804,30 @@ export function JournalArticleForm({ article }: JournalArticleFormProps) {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="content"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center justify-between">
+                        <FormLabel>Full Text</FormLabel>
+                        <DocxImportButton
+                          hasContent={!!field.value && field.value !== "<p></p>"}
+                          onImport={field.onChange}
+                        />
+                      </div>
+                      <FormControl>
+                        <RichTextEditor value={field.value || ""} onChange={field.onChange} />
+                      </FormControl>
+                      <FormDescription>
+                        Optional. Import the Word manuscript to publish the full text on the article page, with its
+                        headings, tables and footnotes.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               {/* Authors Section */}
@@ -725,6 +934,34 @@ export function JournalArticleForm({ article }: JournalArticleFormProps) {
               {/* Metadata & Settings */}
               <div className="space-y-6">
                 <h3 className="text-lg font-semibold">Metadata & Settings</h3>
+
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="md:w-1/3">
+                            <SelectValue placeholder="Select a status" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ARTICLE_STATUS_VALUES.map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {ARTICLE_STATUS_LABELS[status]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Published articles with a future publication date are scheduled and go live on that date
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 
                 <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
                   <FormField
@@ -835,7 +1072,8 @@ export function JournalArticleForm({ article }: JournalArticleFormProps) {
                 </div>
               </div>
 
-              <div className="flex justify-end gap-4">
+              <div className="flex items-center justify-end gap-4">
+                <AutosaveIndicator status={autosave.status} lastSavedAt={autosave.lastSavedAt} />
                 <Button
                   type="button"
                   variant="outline"
@@ -862,6 +1100,16 @@ export function JournalArticleForm({ article }: JournalArticleFormProps) {
           </Form>
         </CardContent>
       </Card>
+
+      <SaveConflictDialog
+        open={!!conflict}
+        updatedBy={conflict?.updatedBy ?? null}
+        updatedAt={conflict?.updatedAt ?? null}
+        isResolving={isResolving}
+        onMerge={mergeConflict}
+        onOverwrite={overwriteConflict}
+        onCancel={() => setConflict(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
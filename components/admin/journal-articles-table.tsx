@@ -42,8 +42,10 @@ import {
   ExternalLink,
   Link as LinkIcon,
   Globe,
+  FileCode,
 } from "lucide-react"
 import { deleteJournalArticle } from "@/lib/actions/journal-article-actions"
+import { ARTICLE_STATUS_LABELS, type ArticleStatusValue } from "@/lib/article-status"
 import { toast } from "@/components/ui/use-toast"
 import {
   AlertDialog,
@@ -67,6 +69,7 @@ interface JournalArticle {
   contentLink?: string
   publishedAt?: string
   readTime: number
+  status: ArticleStatusValue
   archived: boolean
   featured: boolean
   carousel: boolean
@@ -104,7 +107,7 @@ interface JournalArticlesTableProps {
   canCreate?: boolean
 }
 
-type FilterType = 'all' | 'featured' | 'carousel' | 'archived' | 'published' | 'with-links' | 'no-links'
+type FilterType = 'all' | 'featured' | 'carousel' | 'archived' | 'published' | 'scheduled' | 'draft' | 'with-links' | 'no-links'
 type SortField = 'title' | 'publishedAt' | 'views' | 'readTime'
 type SortOrder = 'asc' | 'desc'
 
@@ -160,7 +163,13 @@ export function JournalArticlesTable({ articles, currentUser, canCreate }: Journ
           matchesFilter = article.archived
           break
         case 'published':
-          matchesFilter = !article.archived
+          matchesFilter = article.status === 'published' && !article.archived
+          break
+        case 'scheduled':
+          matchesFilter = article.status === 'scheduled'
+          break
+        case 'draft':
+          matchesFilter = article.status === 'draft'
           break
         case 'with-links':
           matchesFilter = !!article.contentLink
@@ -226,11 +235,19 @@ export function JournalArticlesTable({ articles, currentUser, canCreate }: Journ
     
     // Status badge
     badges.push(
-      <Badge key="status" variant={article.archived ? "secondary" : "default"} className="text-xs">
-        {article.archived ? "Archived" : "Published"}
+      <Badge key="status" variant={article.status === "published" ? "default" : "secondary"} className="text-xs">
+        {ARTICLE_STATUS_LABELS[article.status]}
       </Badge>
     )
 
+    if (article.archived) {
+      badges.push(
+        <Badge key="archived" variant="secondary" className="text-xs">
+          Archived
+        </Badge>
+      )
+    }
+
     // Featured badge
     if (article.featured) {
       badges.push(
@@ -288,7 +305,9 @@ export function JournalArticlesTable({ articles, currentUser, canCreate }: Journ
     featured: data.filter(a => a.featured).length,
     carousel: data.filter(a => a.carousel).length,
     archived: data.filter(a => a.archived).length,
-    published: data.filter(a => !a.archived).length,
+    published: data.filter(a => a.status === 'published' && !a.archived).length,
+    scheduled: data.filter(a => a.status === 'scheduled').length,
+    draft: data.filter(a => a.status === 'draft').length,
     'with-links': data.filter(a => !!a.contentLink).length,
     'no-links': data.filter(a => !a.contentLink).length,
   }
@@ -360,6 +379,8 @@ export function JournalArticlesTable({ articles, currentUser, canCreate }: Journ
                 {filterType === 'carousel' && <Globe className="h-3 w-3" />}
                 {filterType === 'archived' && <Archive className="h-3 w-3" />}
                 {filterType === 'published' && <Eye className="h-3 w-3" />}
+                {filterType === 'scheduled' && <Clock className="h-3 w-3" />}
+                {filterType === 'draft' && <FileText className="h-3 w-3" />}
                 {filterType === 'with-links' && <ExternalLink className="h-3 w-3" />}
                 {filterType === 'no-links' && <LinkIcon className="h-3 w-3" />}
                 {filterType === 'all' && <Filter className="h-3 w-3" />}
@@ -575,6 +596,14 @@ export function JournalArticlesTable({ articles, currentUser, canCreate }: Journ
                               </a>
                             </DropdownMenuItem>
                           )}
+                          {article.status === "published" && (
+                            <DropdownMenuItem asChild>
+                              <a href={`/journals/${article.slug}/jats`} target="_blank" rel="noopener noreferrer">
+                                <FileCode className="mr-2 h-4 w-4" />
+                                JATS XML
+                              </a>
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuSeparator />
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
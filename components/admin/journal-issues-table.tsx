@@ -3,7 +3,7 @@
 
 import { useState } from "react"
 import Link from "next/link"
-import { MoreHorizontal, Pencil, Trash2, Eye, Calendar, BookOpen } from "lucide-react"
+import { MoreHorizontal, Pencil, Trash2, Eye, Calendar, BookOpen, FileCode, FileArchive } from "lucide-react"
 import {
   Table,
   TableBody,
@@ -23,6 +23,7 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { deleteJournalIssue } from "@/lib/actions/journal-actions"
+import { generateCrossrefDeposit } from "@/lib/actions/doi-actions"
 import { toast } from "@/components/ui/use-toast"
 import {
   AlertDialog,
@@ -42,6 +43,7 @@ interface JournalIssue {
   issue: number
   year: number
   publishDate?: string
+  doi?: string
   articleCount: number
   articles: any[]
 }
@@ -56,6 +58,7 @@ export function JournalIssuesTable({ initialIssues, canCreate }: JournalIssuesTa
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [issueToDelete, setIssueToDelete] = useState<JournalIssue | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [depositingId, setDepositingId] = useState<string | null>(null)
 
   const handleDeleteClick = (issue: JournalIssue) => {
     setIssueToDelete(issue)
@@ -96,6 +99,45 @@ export function JournalIssuesTable({ initialIssues, canCreate }: JournalIssuesTa
     }
   }
 
+  const handleCrossrefDeposit = async (issue: JournalIssue) => {
+    setDepositingId(issue.id)
+    try {
+      const result = await generateCrossrefDeposit(issue.id)
+
+      if (!result.success || !result.xml) {
+        toast({
+          title: "Crossref Deposit Failed",
+          description: [result.error || "Failed to generate the Crossref deposit", ...(result.problems?.slice(0, 3) ?? [])].join(" · "),
+          variant: "destructive",
+        })
+        return
+      }
+
+      const url = URL.createObjectURL(new Blob([result.xml], { type: "application/xml" }))
+      const a = document.createElement("a")
+      a.href = url
+      a.download = result.filename
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+
+      toast({
+        title: "Crossref Deposit Ready",
+        description: `Volume ${issue.volume}, Issue ${issue.issue} passed validation. Upload the file to Crossref to register its DOIs.`,
+      })
+    } catch (error) {
+      console.error("Failed to generate Crossref deposit:", error)
+      toast({
+        title: "Crossref Deposit Failed",
+        description: "An unexpected error occurred while generating the deposit",
+        variant: "destructive",
+      })
+    } finally {
+      setDepositingId(null)
+    }
+  }
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return "Not set"
     try {
@@ -157,7 +199,7 @@ export function JournalIssuesTable({ initialIssues, canCreate }: JournalIssuesTa
                         Volume {issue.volume}, Issue {issue.issue}
                       </div>
                       <div className="text-sm text-muted-foreground">
-                        ID: {issue.id.slice(0, 8)}...
+                        {issue.doi ? `DOI: ${issue.doi}` : `ID: ${issue.id.slice(0, 8)}...`}
                       </div>
                     </div>
                   </TableCell>
@@ -217,6 +259,19 @@ export function JournalIssuesTable({ initialIssues, canCreate }: JournalIssuesTa
                             Edit
                           </Link>
                         </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleCrossrefDeposit(issue)}
+                          disabled={issue.articleCount === 0 || depositingId !== null}
+                        >
+                          <FileCode className="mr-2 h-4 w-4" />
+                          {depositingId === issue.id ? "Generating..." : "Download Crossref XML"}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild disabled={issue.articleCount === 0}>
+                          <a href={`/journals/archive/volume/${issue.volume}/issue/${issue.issue}/jats`} download>
+                            <FileArchive className="mr-2 h-4 w-4" />
+                            Download JATS (zip)
+                          </a>
+                        </DropdownMenuItem>
                         <DropdownMenuSeparator />
                         <DropdownMenuItem
                           className="text-red-600"
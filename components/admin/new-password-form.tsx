@@ -12,7 +12,7 @@ import { Button } from "@/components/ui/button"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { toast } from "@/components/ui/use-toast"
-import { resetPassword } from "@/lib/actions/auth-actions"
+import { setNewPassword } from "@/lib/actions/auth-actions"
 
 const formSchema = z
   .object({
@@ -75,7 +75,13 @@ export function NewPasswordForm() {
     setIsLoading(true)
 
     try {
-      const result = await resetPassword(email, token, values.password)
+      const formData = new FormData()
+      formData.append("email", email)
+      formData.append("otp", token)
+      formData.append("password", values.password)
+      formData.append("confirmPassword", values.confirmPassword)
+
+      const result = await setNewPassword(formData)
 
       if (result.success) {
         toast({
@@ -91,7 +97,9 @@ export function NewPasswordForm() {
       } else {
         toast({
           title: "Password reset failed",
-          description: result.message || "Failed to reset password. Please try again.",
+          description:
+            (result.errors && "_form" in result.errors && result.errors._form?.[0]) ||
+            "Failed to reset password. Please try again.",
           variant: "destructive",
         })
       }
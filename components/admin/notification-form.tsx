@@ -137,9 +137,12 @@ export function NotificationForm({ notification }: NotificationFormProps) {
       }
 
       if (result.success) {
+        // Markup and unsafe links are removed on the server
+        const sanitizeWarning = "sanitizeWarning" in result ? result.sanitizeWarning : null
         toast({
           title: notification ? "Notification updated" : "Notification created",
-          description: `"${values.title}" has been ${notification ? "updated" : "created"} successfully.`,
+          description: `"${values.title}" has been ${notification ? "updated" : "created"} successfully.${sanitizeWarning ? ` ${sanitizeWarning}` : ""}`,
+          duration: sanitizeWarning ? 10000 : undefined,
         })
         router.replace("/admin/notifications")
       } else {
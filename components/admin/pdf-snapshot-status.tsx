@@ -0,0 +1,115 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { AlertTriangle, FileDown, Loader2, RefreshCw } from "lucide-react"
+
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "@/components/ui/use-toast"
+import { refreshPdfSnapshot } from "@/lib/actions/pdf-snapshot-actions"
+
+export type PdfSnapshotRow = {
+  published: boolean
+  checksum: string | null
+  takenAt: string | null
+  outdated: boolean
+  error: string | null
+}
+
+interface PdfSnapshotStatusProps {
+  articleId: string
+  snapshot: PdfSnapshotRow
+}
+
+export function PdfSnapshotStatus({ articleId, snapshot }: PdfSnapshotStatusProps) {
+  const router = useRouter()
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true)
+    try {
+      const result = await refreshPdfSnapshot(articleId)
+
+      if (result.success) {
+        toast({
+          title: "Snapshot refreshed",
+          description: "Readers now download the current version of the Google Doc.",
+        })
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to refresh the PDF snapshot",
+          variant: "destructive",
+        })
+      }
+      router.refresh()
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileDown className="h-5 w-5" />
+          PDF Snapshot
+        </CardTitle>
+        <CardDescription>
+          Readers download a copy of the linked Google Doc saved when the article was published, not the live
+          document. Refresh it after editing the doc.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {snapshot.error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <strong>The Google Doc could not be fetched:</strong> {snapshot.error}{" "}
+              {snapshot.takenAt
+                ? "Readers still get the last saved copy. Check the doc's sharing settings, then refresh."
+                : "There is no saved copy yet. Check the doc's sharing settings, then refresh."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              {snapshot.takenAt ? (
+                snapshot.outdated ? (
+                  <Badge variant="secondary">Outdated</Badge>
+                ) : (
+                  <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Saved</Badge>
+                )
+              ) : (
+                <Badge variant="secondary">Not saved yet</Badge>
+              )}
+              <span className="text-muted-foreground">
+                {snapshot.takenAt
+                  ? `Taken ${format(new Date(snapshot.takenAt), "MMM d, yyyy h:mm a")}`
+                  : snapshot.published
+                    ? "A copy is taken on the next download or refresh."
+                    : "A copy is taken when the article is published."}
+              </span>
+            </div>
+            {snapshot.outdated && (
+              <p className="text-muted-foreground">The content link has changed since this copy was taken.</p>
+            )}
+            {snapshot.checksum && (
+              <p className="font-mono text-xs text-muted-foreground break-all">SHA-256 {snapshot.checksum}</p>
+            )}
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={handleRefresh} disabled={isRefreshing}>
+            {isRefreshing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Refresh Snapshot
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
@@ -20,6 +20,7 @@ import {
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "@/components/ui/use-toast"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -28,7 +29,15 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { cn } from "@/lib/utils"
 import { format } from "date-fns"
 import { getPost, createPost, updatePost } from "@/lib/actions/post-actions"
+import { discardWorkingDraft, getWorkingDraft, saveWorkingDraft } from "@/lib/actions/autosave-actions"
+import { ARTICLE_STATUS_LABELS, ARTICLE_STATUS_VALUES } from "@/lib/article-status"
+import { mergeFormValues, type SaveConflict } from "@/lib/merge-form-values"
+import { useAutosave } from "@/hooks/use-autosave"
 import { MediaSelector } from "@/components/admin/media-selector"
+import { RichTextEditor } from "@/components/admin/rich-text-editor"
+import { DocxImportButton } from "@/components/admin/docx-import-button"
+import { isRichText, legacyTextToHtml } from "@/lib/article-content"
+import { AutosaveIndicator, SaveConflictDialog, WorkingDraftPrompt } from "@/components/admin/autosave-controls"
 
 // Author schema for individual authors
 const authorSchema = z.object({
@@ -62,6 +71,7 @@ const formSchema = z.object({
   image: z.string().optional(),
   keywords: z.array(z.string()).default([]),
   contentLink: z.string().optional(),
+  status: z.enum(ARTICLE_STATUS_VALUES).default("draft"),
   // Article-specific fields
   archived: z.boolean().default(false),
   featured: z.boolean().default(false),
@@ -70,6 +80,66 @@ const formSchema = z.object({
   issueId: z.string().optional(),
 })
 
+type FormValues = z.infer<typeof formSchema>
+
+const FIELD_LABELS: Record<keyof FormValues, string> = {
+  title: "Title",
+  slug: "URL Slug",
+  abstract: "Abstract",
+  content: "Content",
+  type: "Type",
+  authors: "Authors",
+  publishedAt: "Publication Date",
+  readTime: "Read Time",
+  image: "Image",
+  keywords: "Keywords",
+  contentLink: "Content Link",
+  status: "Status",
+  archived: "Archived",
+  featured: "Featured",
+  carousel: "Carousel",
+  issueId: "Journal Issue",
+}
+
+// Map a saved post to form values with proper field handling
+function toFormValues(post: any): FormValues {
+  return {
+    title: post.title,
+    slug: post.slug,
+    abstract: post.abstract || post.excerpt || "",
+    // Plain-text posts from before the rich text editor open as paragraphs
+    content: post.content && !isRichText(post.content) ? legacyTextToHtml(post.content) : post.content || "",
+    type: post.type as "blog" | "journal",
+    authors: post.authors?.map((a: any) => ({
+      name: a.author?.name || a.name,
+      email: a.author?.email || a.email,
+    })) || [{ name: "", email: "" }],
+    publishedAt: post.publishedAt ? new Date(post.publishedAt) : new Date(),
+    readTime: post.readTime || undefined,
+    image: post.image || "",
+    keywords: post.keywords || [],
+    contentLink: post.contentLink || "",
+    status: post.status,
+    archived: post.archived ?? false,
+    featured: post.featured ?? false,
+    carousel: post.carousel ?? false,
+    issueId: post.issueId || "",
+  }
+}
+
+// Autosaved drafts come back from JSON with the date as a string
+function fromDraft(data: Record<string, unknown>): FormValues {
+  const values = data as unknown as FormValues
+  return { ...values, publishedAt: new Date(values.publishedAt) }
+}
+
+type WorkingDraft = {
+  data: Record<string, unknown>
+  savedAt: string
+  baseVersion: number | null
+  stale: boolean
+}
+
 interface PostFormProps {
   slug?: string
   type?: "blog" | "journal"
@@ -80,6 +150,13 @@ export function PostForm({ slug, type = "blog" }: PostFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isLoading, setIsLoading] = useState(!!slug)
   const [newKeyword, setNewKeyword] = useState("")
+  const [postId, setPostId] = useState<string | null>(null)
+  // Version of the post the form was loaded from, checked on save
+  const [baseVersion, setBaseVersion] = useState<number | null>(null)
+  const baseValuesRef = useRef<FormValues | null>(null)
+  const [workingDraft, setWorkingDraft] = useState<WorkingDraft | null>(null)
+  const [conflict, setConflict] = useState<(SaveConflict & { values: FormValues }) | null>(null)
+  const [isResolving, setIsResolving] = useState(false)
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -95,6 +172,7 @@ export function PostForm({ slug, type = "blog" }: PostFormProps) {
       image: "",
       keywords: [],
       contentLink: "",
+      status: "draft",
       archived: false,
       featured: false,
       carousel: false,
@@ -102,6 +180,20 @@ export function PostForm({ slug, type = "blog" }: PostFormProps) {
     },
   })
 
+  const getFormValues = useCallback(() => form.getValues(), [form])
+  const saveDraft = useCallback(
+    (values: FormValues) =>
+      saveWorkingDraft({ articleId: postId, type: values.type, data: values, baseVersion }),
+    [postId, baseVersion]
+  )
+  // Hold autosave until the editor has decided what to do with an older draft
+  const autosave = useAutosave({
+    enabled: !isLoading && !workingDraft,
+    getValues: getFormValues,
+    save: saveDraft,
+  })
+  const { markClean } = autosave
+
   const watchedTitle = form.watch("title")
   const watchedType = form.watch("type")
   const keywords = form.watch("keywords")
@@ -128,28 +220,23 @@ export function PostForm({ slug, type = "blog" }: PostFormProps) {
           const result = await getPost(slug)
           if (result.success && result.data) {
             const post = result.data
-            
-            // Map data to form with proper field handling
-            form.reset({
-              title: post.title,
-              slug: post.slug,
-              abstract: post.abstract || post.excerpt || "",
-              content: post.content,
-              type: post.type as "blog" | "journal",
-              authors: post.authors?.map((a: any) => ({
-                name: a.author?.name || a.name,
-                email: a.author?.email || a.email,
-              })) || [{ name: "", email: "" }],
-              publishedAt: post.publishedAt ? new Date(post.publishedAt) : new Date(),
-              readTime: post.readTime || undefined,
-              image: post.image || "",
-              keywords: post.keywords || [],
-              contentLink: post.contentLink || "",
-              archived: post.archived ?? false,
-              featured: post.featured ?? false,
-              carousel: post.carousel ?? false,
-              issueId: post.issueId || "",
-            })
+            const values = toFormValues(post)
+
+            form.reset(values)
+            baseValuesRef.current = values
+            markClean(values)
+            setPostId(post.id)
+            setBaseVersion(post.version)
+
+            // Offer back anything autosaved but never saved
+            const draftResult = await getWorkingDraft(post.id, post.type)
+            if (
+              draftResult.success &&
+              draftResult.data &&
+              JSON.stringify(fromDraft(draftResult.data.data)) !== JSON.stringify(values)
+            ) {
+              setWorkingDraft(draftResult.data)
+            }
           } else {
             toast({
               title: "Error",
@@ -173,38 +260,127 @@ export function PostForm({ slug, type = "blog" }: PostFormProps) {
 
       fetchPost()
     } else {
+      markClean(form.getValues())
+      getWorkingDraft(null, type).then((draftResult) => {
+        if (draftResult.success && draftResult.data) {
+          setWorkingDraft(draftResult.data)
+        }
+      })
       setIsLoading(false)
     }
-  }, [slug, form, router])
+  }, [slug, type, form, router, markClean])
+
+  const restoreWorkingDraft = () => {
+    if (!workingDraft) return
+
+    form.reset(fromDraft(workingDraft.data))
+    if (workingDraft.stale) {
+      // The post moved on since the draft was started: saving will ask to merge
+      setBaseVersion(workingDraft.baseVersion)
+      baseValuesRef.current = null
+    }
+    setWorkingDraft(null)
+  }
+
+  const discardDraft = async () => {
+    setWorkingDraft(null)
+    await discardWorkingDraft(postId, form.getValues("type"))
+  }
+
+  async function submitUpdate(values: FormValues, expectedVersion: number | null) {
+    if (!slug) return
+
+    const result = await updatePost(slug, values, expectedVersion ?? undefined)
+    if (result.success) {
+      // Anything the server's allow-list removed from the content
+      const sanitizeWarning = "sanitizeWarning" in result ? result.sanitizeWarning : null
+      toast({
+        title: "Post updated",
+        description: sanitizeWarning
+          ? `Your post has been updated. ${sanitizeWarning}`
+          : "Your post has been updated successfully.",
+        duration: sanitizeWarning ? 10000 : undefined,
+      })
+      router.push("/admin/posts")
+      router.refresh()
+    } else if ("conflict" in result && result.conflict) {
+      // The conflict response is folded into the plain error type on inference
+      setConflict({ ...(result.conflict as SaveConflict), values })
+    } else {
+      toast({
+        title: "Error",
+        description: (result.error as string) || "Failed to update post",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const overwriteConflict = async () => {
+    if (!conflict) return
+
+    setIsResolving(true)
+    try {
+      const values = conflict.values
+      setConflict(null)
+      await submitUpdate(values, conflict.version)
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  const mergeConflict = async () => {
+    if (!conflict || !slug) return
+
+    setIsResolving(true)
+    try {
+      const result = await getPost(slug)
+      if (!("data" in result) || !result.data) {
+        toast({
+          title: "Error",
+          description: "Failed to load the latest version of the post",
+          variant: "destructive",
+        })
+        return
+      }
+
+      const theirs = toFormValues(result.data)
+      const { merged, conflicts } = mergeFormValues(baseValuesRef.current, conflict.values, theirs)
+
+      form.reset(merged)
+      baseValuesRef.current = theirs
+      setBaseVersion(result.data.version)
+      setConflict(null)
+
+      toast({
+        title: "Changes merged",
+        description: conflicts.length > 0
+          ? `You both changed ${conflicts.map((field) => FIELD_LABELS[field]).join(", ")}. Your version was kept; review it, then save.`
+          : "Their changes have been added to yours. Review the form, then save.",
+        duration: 8000,
+      })
+    } finally {
+      setIsResolving(false)
+    }
+  }
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
     setIsSubmitting(true)
 
     try {
       if (slug) {
-        // Update existing post
-        const result = await updatePost(slug, values)
-        if (result.success) {
-          toast({
-            title: "Post updated",
-            description: "Your post has been updated successfully.",
-          })
-          router.push("/admin/posts")
-          router.refresh()
-        } else {
-          toast({
-            title: "Error",
-            description: (result.error as string) || "Failed to update post",
-            variant: "destructive",
-          })
-        }
+        // Update existing post, unless someone saved it in the meantime
+        await submitUpdate(values, baseVersion)
       } else {
         // Create new post
         const result = await createPost(values)
         if (result.success) {
+          const sanitizeWarning = "sanitizeWarning" in result ? result.sanitizeWarning : null
           toast({
             title: "Post created",
-            description: "Your post has been created successfully.",
+            description: sanitizeWarning
+              ? `Your post has been created. ${sanitizeWarning}`
+              : "Your post has been created successfully.",
+            duration: sanitizeWarning ? 10000 : undefined,
           })
           router.push("/admin/posts")
           router.refresh()
@@ -280,6 +456,15 @@ export function PostForm({ slug, type = "blog" }: PostFormProps) {
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        {workingDraft && (
+          <WorkingDraftPrompt
+            savedAt={workingDraft.savedAt}
+            stale={workingDraft.stale}
+            onRestore={restoreWorkingDraft}
+            onDiscard={discardDraft}
+          />
+        )}
+
         {/* Basic Information */}
         <div className="space-y-6">
           <h3 className="text-lg font-semibold">Basic Information</h3>
@@ -363,7 +548,7 @@ export function PostForm({ slug, type = "blog" }: PostFormProps) {
                         mode="single"
                         selected={field.value}
                         onSelect={field.onChange}
-                        disabled={(date) => date > new Date() || date < new Date("1900-01-01")}
+                        disabled={(date) => date < new Date("1900-01-01")}
                         initialFocus
                       />
                     </PopoverContent>
@@ -522,16 +707,16 @@ export function PostForm({ slug, type = "blog" }: PostFormProps) {
             name="content"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Content *</FormLabel>
+                <div className="flex items-center justify-between">
+                  <FormLabel>Content *</FormLabel>
+                  <DocxImportButton hasContent={!!field.value && field.value !== "<p></p>"} onImport={field.onChange} />
+                </div>
                 <FormControl>
-                  <Textarea
-                    placeholder="Enter the full post content..."
-                    className="min-h-[300px]"
-                    {...field}
-                  />
+                  <RichTextEditor value={field.value} onChange={field.onChange} />
                 </FormControl>
                 <FormDescription>
-                  The full content of your post
+                  The full content of your post. Use the footnote button for references; they are numbered automatically.
+                  Importing a Word manuscript keeps its headings, lists, tables, footnotes and images.
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -576,6 +761,34 @@ export function PostForm({ slug, type = "blog" }: PostFormProps) {
         <div className="space-y-6">
           <h3 className="text-lg font-semibold">Settings & Metadata</h3>
 
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="md:w-1/3">
+                      <SelectValue placeholder="Select a status" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {ARTICLE_STATUS_VALUES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {ARTICLE_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Published posts with a future publication date are scheduled and go live on that date
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
             <FormField
               control={form.control}
@@ -679,8 +892,19 @@ export function PostForm({ slug, type = "blog" }: PostFormProps) {
           <Button type="button" variant="outline" onClick={() => router.push("/admin/posts")}>
             Cancel
           </Button>
+          <AutosaveIndicator status={autosave.status} lastSavedAt={autosave.lastSavedAt} />
         </div>
       </form>
+
+      <SaveConflictDialog
+        open={!!conflict}
+        updatedBy={conflict?.updatedBy ?? null}
+        updatedAt={conflict?.updatedAt ?? null}
+        isResolving={isResolving}
+        onMerge={mergeConflict}
+        onOverwrite={overwriteConflict}
+        onCancel={() => setConflict(null)}
+      />
     </Form>
   )
 }
\ No newline at end of file
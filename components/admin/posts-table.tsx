@@ -42,6 +42,7 @@ import {
 } from "@/components/ui/alert-dialog"
 import { toast } from "@/components/ui/use-toast"
 import { getPosts, deletePost } from "@/lib/actions/post-actions"
+import { ARTICLE_STATUS_LABELS, type ArticleStatusValue } from "@/lib/article-status"
 import { Loader2 } from "lucide-react"
 
 export type Post = {
@@ -54,6 +55,7 @@ export type Post = {
   type: "blog" | "journal"
   featured: boolean
   carousel: boolean
+  status: ArticleStatusValue
   archived: boolean
   publishedAt: Date
   createdAt: Date
@@ -179,16 +181,14 @@ export function PostsTable() {
             </Badge>
             
             {/* Status Badges */}
+            <Badge variant={row.original.status === "published" ? "default" : "outline"} className="text-xs">
+              {ARTICLE_STATUS_LABELS[row.original.status]}
+            </Badge>
             {row.original.archived && (
               <Badge variant="outline" className="text-xs">
                 Archived
               </Badge>
             )}
-            {!row.original.archived && (
-              <Badge variant="default" className="text-xs">
-                Published
-              </Badge>
-            )}
             
             {/* Special Flags */}
             {row.original.featured && (
@@ -235,7 +235,11 @@ export function PostsTable() {
       header: "Published",
       cell: ({ row }) => (
         <div className="text-sm">
-          {new Date(row.original.publishedAt).toLocaleDateString()}
+          {row.original.status === "draft" ? (
+            <span className="text-muted-foreground">Not published</span>
+          ) : (
+            new Date(row.original.publishedAt).toLocaleDateString()
+          )}
         </div>
       ),
     },
@@ -412,7 +416,7 @@ export function PostsTable() {
           <div className="text-sm text-muted-foreground">Carousel</div>
         </div>
         <div className="bg-muted/50 p-3 rounded-lg">
-          <div className="text-2xl font-bold">{posts.filter(p => !p.archived).length}</div>
+          <div className="text-2xl font-bold">{posts.filter(p => p.status === "published" && !p.archived).length}</div>
           <div className="text-sm text-muted-foreground">Published</div>
         </div>
       </div>
@@ -0,0 +1,181 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { Copy, Link2, Loader2, Trash } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import { createPreviewLink, revokePreviewLink } from "@/lib/actions/preview-actions"
+
+export type PreviewLinkRow = {
+  id: string
+  url: string
+  createdBy: string
+  createdAt: string
+  expiresAt: string
+  revokedAt: string | null
+  active: boolean
+}
+
+interface PreviewLinksProps {
+  articleId: string
+  links: PreviewLinkRow[]
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "14", label: "14 days" },
+  { value: "30", label: "30 days" },
+]
+
+export function PreviewLinks({ articleId, links }: PreviewLinksProps) {
+  const router = useRouter()
+  const [expiresIn, setExpiresIn] = useState("7")
+  const [isCreating, setIsCreating] = useState(false)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url)
+    toast({
+      title: "Link copied",
+      description: "The preview link has been copied to your clipboard.",
+    })
+  }
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    try {
+      const result = await createPreviewLink(articleId, Number(expiresIn))
+
+      if (result.success && result.data) {
+        await copyLink(result.data.url)
+        router.refresh()
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to create preview link",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (id: string) => {
+    setRevokingId(id)
+    try {
+      const result = await revokePreviewLink(id)
+
+      if (result.success) {
+        toast({
+          title: "Link revoked",
+          description: "The preview link no longer works.",
+        })
+        router.refresh()
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to revoke preview link",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Preview Links
+        </CardTitle>
+        <CardDescription>
+          Share the article with people who can&apos;t sign in, before it is published. Anyone with the link can read it
+          until the link expires or you revoke it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="preview-expiry">Expires after</Label>
+            <Select value={expiresIn} onValueChange={setExpiresIn}>
+              <SelectTrigger id="preview-expiry" className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="button" onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+            Create Link
+          </Button>
+        </div>
+
+        {links.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No preview links have been created for this article.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {links.map((link) => (
+              <div key={link.id} className="flex flex-wrap items-center justify-between gap-3 p-3 text-sm">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    {link.active ? (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Active</Badge>
+                    ) : (
+                      <Badge variant="secondary">{link.revokedAt ? "Revoked" : "Expired"}</Badge>
+                    )}
+                    <span className="text-muted-foreground">Created by {link.createdBy}</span>
+                  </div>
+                  <p className="text-muted-foreground">
+                    {format(new Date(link.createdAt), "MMM d, yyyy")} –{" "}
+                    {link.revokedAt
+                      ? `revoked ${format(new Date(link.revokedAt), "MMM d, yyyy")}`
+                      : `expires ${format(new Date(link.expiresAt), "MMM d, yyyy h:mm a")}`}
+                  </p>
+                </div>
+                {link.active && (
+                  <div className="flex gap-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => copyLink(link.url)}>
+                      <Copy className="mr-2 h-4 w-4" />
+                      Copy
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevoke(link.id)}
+                      disabled={revokingId === link.id}
+                    >
+                      {revokingId === link.id ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash className="mr-2 h-4 w-4" />
+                      )}
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { GitCompare, History, Loader2, RotateCcw } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { toast } from "@/components/ui/use-toast"
+import { compareRevision, restoreArticleRevision } from "@/lib/actions/revision-actions"
+import type { DiffPart } from "@/lib/revision-diff"
+
+export type RevisionRow = {
+  id: string
+  title: string
+  createdAt: string
+  editor: { name: string; email: string } | null
+}
+
+type RevisionDiff = {
+  title: DiffPart[]
+  abstract: DiffPart[]
+  content: DiffPart[]
+  keywords: { added: string[]; removed: string[] }
+}
+
+interface RevisionHistoryProps {
+  revisions: RevisionRow[]
+  canRestore: boolean
+}
+
+function DiffView({ parts }: { parts: DiffPart[] }) {
+  return (
+    <div className="whitespace-pre-wrap rounded-md border bg-muted/30 p-3 text-sm leading-relaxed">
+      {parts.map((part, index) =>
+        part.added ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">
+            {part.value}
+          </ins>
+        ) : part.removed ? (
+          <del key={index} className="bg-red-100 text-red-900">
+            {part.value}
+          </del>
+        ) : (
+          <span key={index}>{part.value}</span>
+        )
+      )}
+    </div>
+  )
+}
+
+const hasChanges = (parts: DiffPart[]) => parts.some((part) => part.added || part.removed)
+
+export function RevisionHistory({ revisions, canRestore }: RevisionHistoryProps) {
+  const router = useRouter()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [against, setAgainst] = useState<"previous" | "current">("previous")
+  const [diff, setDiff] = useState<RevisionDiff | null>(null)
+  const [isComparing, setIsComparing] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const loadDiff = async (revisionId: string, compareWith: "previous" | "current") => {
+    setSelectedId(revisionId)
+    setAgainst(compareWith)
+    setIsComparing(true)
+    try {
+      const result = await compareRevision(revisionId, compareWith)
+      if (result.success && result.data) {
+        setDiff(result.data)
+      } else {
+        setDiff(null)
+        toast({
+          title: "Error",
+          description: result.error || "Failed to compare revision",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  const handleRestore = async (revision: RevisionRow) => {
+    setRestoringId(revision.id)
+    try {
+      const result = await restoreArticleRevision(revision.id)
+      if (result.success) {
+        toast({
+          title: "Revision restored",
+          description: `The copy from ${format(new Date(revision.createdAt), "MMM d, yyyy h:mm a")} is back on the article.${result.sanitizeWarning ? ` ${result.sanitizeWarning}` : ""}`,
+          duration: result.sanitizeWarning ? 10000 : undefined,
+        })
+        setSelectedId(null)
+        setDiff(null)
+        router.refresh()
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to restore revision",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </CardTitle>
+        <CardDescription>
+          Every save keeps a copy of the title, abstract, content and keywords. Compare any revision and restore it if
+          copy was lost.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions yet. One is recorded the next time the article is saved.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {revisions.map((revision, index) => (
+              <div
+                key={revision.id}
+                className={`flex flex-wrap items-center justify-between gap-3 p-3 text-sm ${selectedId === revision.id ? "bg-muted/50" : ""}`}
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{format(new Date(revision.createdAt), "MMM d, yyyy h:mm a")}</span>
+                    {index === 0 && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-muted-foreground">
+                    {revision.editor
+                      ? `${revision.editor.name} (${revision.editor.email})`
+                      : "Saved before revision history was kept"}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => loadDiff(revision.id, against)}
+                    disabled={isComparing && selectedId === revision.id}
+                  >
+                    {isComparing && selectedId === revision.id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <GitCompare className="mr-2 h-4 w-4" />
+                    )}
+                    Compare
+                  </Button>
+                  {canRestore && index > 0 && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button type="button" variant="outline" size="sm" disabled={restoringId === revision.id}>
+                          {restoringId === revision.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                          )}
+                          Restore
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Restore this revision?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The title, abstract, content and keywords will be replaced with this revision&apos;s copy.
+                            The current copy stays in the history, so you can restore it again later. Unsaved changes in
+                            the form above will be lost.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleRestore(revision)}>Restore</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {selectedId && diff && (
+          <div className="space-y-4 rounded-md border p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h4 className="font-medium">Changes</h4>
+              <Select
+                value={against}
+                onValueChange={(value) => loadDiff(selectedId, value as "previous" | "current")}
+              >
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="previous">Made in this revision</SelectItem>
+                  <SelectItem value="current">Since this revision</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {!hasChanges(diff.title) &&
+            !hasChanges(diff.abstract) &&
+            !hasChanges(diff.content) &&
+            diff.keywords.added.length === 0 &&
+            diff.keywords.removed.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No differences in the copy.</p>
+            ) : (
+              <>
+                {hasChanges(diff.title) && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Title</p>
+                    <DiffView parts={diff.title} />
+                  </div>
+                )}
+                {hasChanges(diff.abstract) && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Abstract</p>
+                    <DiffView parts={diff.abstract} />
+                  </div>
+                )}
+                {hasChanges(diff.content) && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Content</p>
+                    <DiffView parts={diff.content} />
+                  </div>
+                )}
+                {(diff.keywords.added.length > 0 || diff.keywords.removed.length > 0) && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Keywords</p>
+                    <div className="flex flex-wrap gap-1">
+                      {diff.keywords.added.map((keyword) => (
+                        <Badge key={`added-${keyword}`} className="bg-green-100 text-green-900 hover:bg-green-100">
+                          + {keyword}
+                        </Badge>
+                      ))}
+                      {diff.keywords.removed.map((keyword) => (
+                        <Badge key={`removed-${keyword}`} className="bg-red-100 text-red-900 line-through hover:bg-red-100">
+                          {keyword}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -7,6 +7,11 @@ import Link from "@tiptap/extension-link"
 import Underline from "@tiptap/extension-underline"
 import TextAlign from "@tiptap/extension-text-align"
 import Image from "@tiptap/extension-image"
+import Table from "@tiptap/extension-table"
+import TableRow from "@tiptap/extension-table-row"
+import TableHeader from "@tiptap/extension-table-header"
+import TableCell from "@tiptap/extension-table-cell"
+import { NodeSelection } from "@tiptap/pm/state"
 import { Button } from "@/components/ui/button"
 import {
   Bold,
@@ -25,14 +30,31 @@ import {
   Undo,
   Redo,
   ImageIcon,
+  Superscript,
+  Pencil,
+  Trash,
+  Quote,
+  TextQuote,
+  Scale,
+  Table as TableIcon,
 } from "lucide-react"
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { ImageSelector } from "./image-selector"
+import { Footnote } from "./editor-extensions/footnote"
+import { CaseCitation } from "./editor-extensions/case-citation"
+import { BlockquoteAttribution } from "./editor-extensions/blockquote-attribution"
 
 interface RichTextEditorProps {
   value: string
@@ -60,6 +82,15 @@ export function RichTextEditor({ value, onChange, onImageInsert }: RichTextEdito
         inline: false,
         allowBase64: false,
       }),
+      Footnote,
+      CaseCitation,
+      BlockquoteAttribution,
+      Table.configure({
+        resizable: false,
+      }),
+      TableRow,
+      TableHeader,
+      TableCell,
     ],
     content: value,
     onUpdate: ({ editor }) => {
@@ -67,10 +98,68 @@ export function RichTextEditor({ value, onChange, onImageInsert }: RichTextEdito
     },
   })
 
+  // Pick up values set from outside the editor (restored drafts, merges)
+  useEffect(() => {
+    if (editor && value !== editor.getHTML()) {
+      editor.commands.setContent(value, false)
+    }
+  }, [editor, value])
+
   if (!editor) {
     return null
   }
 
+  // Footnotes in document order, numbered the way readers will see them
+  const footnotes: { pos: number; note: string }[] = []
+  editor.state.doc.descendants((node, pos) => {
+    if (node.type.name === "footnote") {
+      footnotes.push({ pos, note: node.attrs.note })
+    }
+  })
+
+  const editFootnote = (pos: number, currentNote: string) => {
+    const note = window.prompt("Footnote", currentNote)
+
+    // cancelled
+    if (note === null) {
+      return
+    }
+
+    const chain = editor.chain().focus().setNodeSelection(pos)
+    if (note.trim() === "") {
+      chain.deleteSelection().run()
+    } else {
+      chain.updateFootnote(note.trim()).run()
+    }
+  }
+
+  const addFootnote = () => {
+    const { selection } = editor.state
+    if (selection instanceof NodeSelection && selection.node.type.name === "footnote") {
+      editFootnote(selection.from, selection.node.attrs.note)
+      return
+    }
+
+    const note = window.prompt("Footnote (e.g. an OSCOLA citation)")
+    if (note && note.trim()) {
+      editor.chain().focus().insertFootnote(note.trim()).run()
+    }
+  }
+
+  const editAttribution = () => {
+    const attribution = window.prompt(
+      "Attribution (e.g. Human Rights Act 1998, s 3)",
+      editor.getAttributes("blockquote").attribution || ""
+    )
+
+    // cancelled
+    if (attribution === null) {
+      return
+    }
+
+    editor.chain().focus().setBlockquoteAttribution(attribution.trim()).run()
+  }
+
   const setLink = () => {
     const previousUrl = editor.getAttributes("link").href
     const url = window.prompt("URL", previousUrl)
@@ -219,6 +308,113 @@ export function RichTextEditor({ value, onChange, onImageInsert }: RichTextEdito
 
         <span className="w-px h-6 bg-border mx-1" />
 
+        <ToggleGroup type="multiple" className="flex flex-wrap">
+          <ToggleGroupItem
+            value="blockquote"
+            aria-label="Block quote"
+            onClick={() => editor.chain().focus().toggleBlockquote().run()}
+            data-state={editor.isActive("blockquote") ? "on" : "off"}
+          >
+            <Quote className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem
+            value="caseCitation"
+            aria-label="Case citation"
+            onClick={() => editor.chain().focus().toggleCaseCitation().run()}
+            data-state={editor.isActive("caseCitation") ? "on" : "off"}
+          >
+            <Scale className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        {editor.isActive("blockquote") && (
+          <Button type="button" variant="ghost" size="icon" aria-label="Quote attribution" onClick={editAttribution}>
+            <TextQuote className="h-4 w-4" />
+          </Button>
+        )}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Table"
+              className={editor.isActive("table") ? "bg-accent" : ""}
+            >
+              <TableIcon className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem
+              onSelect={() => editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run()}
+            >
+              Insert table
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              disabled={!editor.can().addRowBefore()}
+              onSelect={() => editor.chain().focus().addRowBefore().run()}
+            >
+              Add row above
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              disabled={!editor.can().addRowAfter()}
+              onSelect={() => editor.chain().focus().addRowAfter().run()}
+            >
+              Add row below
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              disabled={!editor.can().deleteRow()}
+              onSelect={() => editor.chain().focus().deleteRow().run()}
+            >
+              Delete row
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              disabled={!editor.can().addColumnBefore()}
+              onSelect={() => editor.chain().focus().addColumnBefore().run()}
+            >
+              Add column left
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              disabled={!editor.can().addColumnAfter()}
+              onSelect={() => editor.chain().focus().addColumnAfter().run()}
+            >
+              Add column right
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              disabled={!editor.can().deleteColumn()}
+              onSelect={() => editor.chain().focus().deleteColumn().run()}
+            >
+              Delete column
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              disabled={!editor.can().toggleHeaderRow()}
+              onSelect={() => editor.chain().focus().toggleHeaderRow().run()}
+            >
+              Toggle header row
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              disabled={!editor.can().toggleHeaderColumn()}
+              onSelect={() => editor.chain().focus().toggleHeaderColumn().run()}
+            >
+              Toggle header column
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              disabled={!editor.can().deleteTable()}
+              onSelect={() => editor.chain().focus().deleteTable().run()}
+              className="text-destructive"
+            >
+              Delete table
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <span className="w-px h-6 bg-border mx-1" />
+
         <Popover>
           <PopoverTrigger asChild>
             <Button variant="ghost" size="icon" className={editor.isActive("link") ? "bg-accent" : ""}>
@@ -254,9 +450,21 @@ export function RichTextEditor({ value, onChange, onImageInsert }: RichTextEdito
           </DialogContent>
         </Dialog>
 
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          aria-label="Footnote"
+          onClick={addFootnote}
+          className={editor.isActive("footnote") ? "bg-accent" : ""}
+        >
+          <Superscript className="h-4 w-4" />
+        </Button>
+
         <span className="w-px h-6 bg-border mx-1" />
 
         <Button
+          type="button"
           variant="ghost"
           size="icon"
           onClick={() => editor.chain().focus().undo().run()}
@@ -265,6 +473,7 @@ export function RichTextEditor({ value, onChange, onImageInsert }: RichTextEdito
           <Undo className="h-4 w-4" />
         </Button>
         <Button
+          type="button"
           variant="ghost"
           size="icon"
           onClick={() => editor.chain().focus().redo().run()}
@@ -274,6 +483,39 @@ export function RichTextEditor({ value, onChange, onImageInsert }: RichTextEdito
         </Button>
       </div>
       <EditorContent editor={editor} className="prose prose-slate dark:prose-invert max-w-none p-4" />
+      {footnotes.length > 0 && (
+        <div className="border-t p-4">
+          <p className="mb-2 text-sm font-medium">Footnotes</p>
+          <ol className="space-y-1 text-sm">
+            {footnotes.map((footnote, index) => (
+              <li key={footnote.pos} className="flex items-start gap-2">
+                <span className="w-6 shrink-0 text-right text-muted-foreground">{index + 1}.</span>
+                <span className="flex-1">{footnote.note}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label={`Edit footnote ${index + 1}`}
+                  onClick={() => editFootnote(footnote.pos, footnote.note)}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label={`Remove footnote ${index + 1}`}
+                  onClick={() => editor.chain().focus().setNodeSelection(footnote.pos).deleteSelection().run()}
+                >
+                  <Trash className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
     </div>
   )
 }
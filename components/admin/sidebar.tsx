@@ -21,6 +21,8 @@ import {
   Briefcase,
   ShieldCheck,
   Lock,
+  Inbox,
+  ClipboardList,
 } from "lucide-react"
 // import { PERMISSIONS, hasPermission } from "@/lib/permissions"
 import type { User } from "@/lib/types"
@@ -69,6 +71,18 @@ const sidebarNavItems: SidebarNavItem[] = [
     icon: FileQuestion,
     permissions: "callforpapers"
   },
+  {
+    title: "Submissions",
+    href: "/admin/submissions",
+    icon: Inbox,
+    permissions: "submission"
+  },
+  {
+    title: "My Reviews",
+    href: "/admin/reviews",
+    icon: ClipboardList,
+    permissions: "review"
+  },
   {
     title: "Notifications",
     href: "/admin/notifications",
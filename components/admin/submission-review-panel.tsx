@@ -0,0 +1,464 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { CheckCircle2, Copy, Download, FilePlus, Gavel, Loader2, Pencil, Trash, UserPlus } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { toast } from "@/components/ui/use-toast"
+import {
+  getReviewAssignmentLink,
+  inviteReviewer,
+  recordDecision,
+  withdrawReviewAssignment,
+} from "@/lib/actions/review-actions"
+import { createDraftFromSubmission } from "@/lib/actions/post-actions"
+import { getSubmissionFileUrl } from "@/lib/actions/submission-actions"
+import {
+  REVIEW_ASSIGNMENT_STATUS_LABELS,
+  REVIEW_DECISION_LABELS,
+  type ReviewAssignmentStatusValue,
+  type ReviewDecisionValue,
+} from "@/lib/peer-review"
+
+export type ReviewAssignmentRow = {
+  id: string
+  reviewerName: string
+  reviewerEmail: string
+  status: ReviewAssignmentStatusValue
+  dueDate: string | null
+  review: {
+    recommendation: ReviewDecisionValue
+    summary: string
+    strengths: string | null
+    weaknesses: string | null
+    commentsToAuthor: string
+    commentsToEditor: string | null
+    createdAt: string
+  } | null
+}
+
+interface SubmissionReviewPanelProps {
+  submissionId: string
+  round: number
+  decision: ReviewDecisionValue | null
+  decidedAt: string | null
+  article: { slug: string; type: "blog" | "journal" } | null
+  assignments: ReviewAssignmentRow[]
+  canInvite: boolean
+  canWithdraw: boolean
+  canDecide: boolean
+  canCreateArticle: boolean
+}
+
+const ASSIGNMENT_STATUS_STYLES: Record<ReviewAssignmentStatusValue, string> = {
+  invited: "bg-blue-100 text-blue-800",
+  accepted: "bg-amber-100 text-amber-800",
+  declined: "bg-stone-100 text-stone-700",
+  completed: "bg-green-100 text-green-800",
+}
+
+export function SubmissionReviewPanel({
+  submissionId,
+  round,
+  decision,
+  decidedAt,
+  article,
+  assignments,
+  canInvite,
+  canWithdraw,
+  canDecide,
+  canCreateArticle,
+}: SubmissionReviewPanelProps) {
+  const router = useRouter()
+  const [isInviting, setIsInviting] = useState(false)
+  const [isDeciding, setIsDeciding] = useState(false)
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null)
+  const [isConverting, setIsConverting] = useState(false)
+  const [selectedDecision, setSelectedDecision] = useState<ReviewDecisionValue | "">("")
+  const [decisionNotes, setDecisionNotes] = useState("")
+
+  const completedReviews = assignments.filter((assignment) => assignment.status === "completed").length
+
+  const copyLink = async (assignmentId: string) => {
+    const result = await getReviewAssignmentLink(assignmentId)
+    if (!result.success || !result.url) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to get reviewer link",
+        variant: "destructive",
+      })
+      return
+    }
+
+    await navigator.clipboard.writeText(result.url)
+    toast({
+      title: "Link copied",
+      description: "The reviewer link has been copied to your clipboard.",
+    })
+  }
+
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const form = e.currentTarget
+    const formData = new FormData(form)
+
+    setIsInviting(true)
+    try {
+      const result = await inviteReviewer(submissionId, {
+        reviewerName: String(formData.get("reviewerName") || ""),
+        reviewerEmail: String(formData.get("reviewerEmail") || ""),
+        dueDate: String(formData.get("dueDate") || ""),
+      })
+
+      if (result.success) {
+        form.reset()
+        toast({
+          title: "Reviewer invited",
+          description: "An invitation with a private review link has been sent.",
+        })
+        router.refresh()
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to invite reviewer",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const handleWithdraw = async (assignment: ReviewAssignmentRow) => {
+    setWithdrawingId(assignment.id)
+    try {
+      const result = await withdrawReviewAssignment(assignment.id)
+      if (result.success) {
+        toast({
+          title: "Invitation withdrawn",
+          description: `${assignment.reviewerName}'s review link no longer works.`,
+        })
+        router.refresh()
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to withdraw invitation",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setWithdrawingId(null)
+    }
+  }
+
+  const handleDecision = async () => {
+    if (!selectedDecision) return
+
+    setIsDeciding(true)
+    try {
+      const result = await recordDecision(submissionId, selectedDecision, decisionNotes || undefined)
+      if (result.success) {
+        toast({
+          title: "Decision recorded",
+          description: ("warning" in result && result.warning) ||
+            `The submission has been marked as "${REVIEW_DECISION_LABELS[selectedDecision]}".`,
+        })
+        router.refresh()
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to record decision",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsDeciding(false)
+    }
+  }
+
+  const handleCreateArticle = async () => {
+    setIsConverting(true)
+    try {
+      const result = await createDraftFromSubmission(submissionId)
+      if (!("error" in result)) {
+        toast({
+          title: "Draft article created",
+          description: "The accepted manuscript is now an unpublished draft article.",
+        })
+        router.refresh()
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to create draft article",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsConverting(false)
+    }
+  }
+
+  const articleEditHref = article
+    ? article.type === "journal"
+      ? `/admin/journal-articles/${article.slug}/edit`
+      : `/admin/posts/${article.slug}/edit`
+    : null
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Reviewers · Round {round}</CardTitle>
+          <CardDescription>
+            {completedReviews} of {assignments.length} reviews submitted. Reviewers only see the anonymized manuscript.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {assignments.length === 0 && (
+            <p className="text-sm text-muted-foreground">No reviewers have been invited yet.</p>
+          )}
+
+          {assignments.map((assignment) => (
+            <div key={assignment.id} className="rounded-md border p-4 space-y-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <div className="font-medium">{assignment.reviewerName}</div>
+                  <div className="text-xs text-muted-foreground">{assignment.reviewerEmail}</div>
+                  {assignment.dueDate && (
+                    <div className="text-xs text-muted-foreground">
+                      Due {format(new Date(assignment.dueDate), "MMM d, yyyy")}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge className={ASSIGNMENT_STATUS_STYLES[assignment.status]}>
+                    {REVIEW_ASSIGNMENT_STATUS_LABELS[assignment.status]}
+                  </Badge>
+                  <Button variant="ghost" size="sm" onClick={() => copyLink(assignment.id)}>
+                    <Copy className="h-4 w-4" />
+                    <span className="sr-only">Copy reviewer link</span>
+                  </Button>
+                  {canWithdraw && assignment.status !== "completed" && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={withdrawingId === assignment.id}>
+                          {withdrawingId === assignment.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash className="h-4 w-4 text-destructive" />
+                          )}
+                          <span className="sr-only">Withdraw invitation</span>
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Withdraw this invitation?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {assignment.reviewerName}'s review link will stop working
+                            {assignment.review ? " and their submitted report will be discarded" : ""}. This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleWithdraw(assignment)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Withdraw
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+              </div>
+
+              {assignment.review && (
+                <div className="space-y-3 border-t pt-3 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Recommendation:</span>
+                    <Badge variant="outline">{REVIEW_DECISION_LABELS[assignment.review.recommendation]}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(assignment.review.createdAt), "MMM d, yyyy")}
+                    </span>
+                  </div>
+                  <div>
+                    <div className="font-medium">Summary</div>
+                    <p className="whitespace-pre-line text-muted-foreground">{assignment.review.summary}</p>
+                  </div>
+                  {assignment.review.strengths && (
+                    <div>
+                      <div className="font-medium">Strengths</div>
+                      <p className="whitespace-pre-line text-muted-foreground">{assignment.review.strengths}</p>
+                    </div>
+                  )}
+                  {assignment.review.weaknesses && (
+                    <div>
+                      <div className="font-medium">Weaknesses</div>
+                      <p className="whitespace-pre-line text-muted-foreground">{assignment.review.weaknesses}</p>
+                    </div>
+                  )}
+                  <div>
+                    <div className="font-medium">Comments to the Author</div>
+                    <p className="whitespace-pre-line text-muted-foreground">{assignment.review.commentsToAuthor}</p>
+                  </div>
+                  {assignment.review.commentsToEditor && (
+                    <div className="rounded-md bg-yellow-50 p-3">
+                      <div className="font-medium text-yellow-900">Confidential Comments to the Editor</div>
+                      <p className="whitespace-pre-line text-yellow-800">{assignment.review.commentsToEditor}</p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {canInvite && !decision && (
+            <form onSubmit={handleInvite} className="grid gap-4 rounded-md border border-dashed p-4 md:grid-cols-4">
+              <div className="space-y-2 md:col-span-1">
+                <Label htmlFor="reviewerName">Reviewer Name</Label>
+                <Input id="reviewerName" name="reviewerName" required />
+              </div>
+              <div className="space-y-2 md:col-span-1">
+                <Label htmlFor="reviewerEmail">Reviewer Email</Label>
+                <Input id="reviewerEmail" name="reviewerEmail" type="email" required />
+              </div>
+              <div className="space-y-2 md:col-span-1">
+                <Label htmlFor="dueDate">Due Date</Label>
+                <Input id="dueDate" name="dueDate" type="date" />
+              </div>
+              <div className="flex items-end md:col-span-1">
+                <Button type="submit" className="w-full" disabled={isInviting}>
+                  {isInviting ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <UserPlus className="mr-2 h-4 w-4" />
+                  )}
+                  Invite Reviewer
+                </Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Editorial Decision</CardTitle>
+          <CardDescription>
+            Accepting or requesting revisions requires at least two completed reviews in this round. Desk rejections can be
+            recorded at any time. When revisions are requested, the author is emailed a link to upload a revised manuscript.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {decision ? (
+            <div className="flex items-center gap-2 text-sm">
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+              <span>
+                Decision: <strong>{REVIEW_DECISION_LABELS[decision]}</strong>
+                {decidedAt && <> on {format(new Date(decidedAt), "MMM d, yyyy")}</>}
+              </span>
+              {decision === "accepted" && articleEditHref && (
+                <Button variant="outline" size="sm" className="ml-auto" asChild>
+                  <Link href={articleEditHref}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit Draft Article
+                  </Link>
+                </Button>
+              )}
+              {decision === "accepted" && !article && canCreateArticle && (
+                <Button variant="outline" size="sm" className="ml-auto" onClick={handleCreateArticle} disabled={isConverting}>
+                  {isConverting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FilePlus className="mr-2 h-4 w-4" />}
+                  Create Draft Article
+                </Button>
+              )}
+            </div>
+          ) : canDecide ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="decision">Decision</Label>
+                <Select value={selectedDecision} onValueChange={(value) => setSelectedDecision(value as ReviewDecisionValue)}>
+                  <SelectTrigger id="decision" className="max-w-sm">
+                    <SelectValue placeholder="Choose a decision" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REVIEW_DECISION_LABELS) as ReviewDecisionValue[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {REVIEW_DECISION_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="decisionNotes">Editor Notes</Label>
+                <Textarea
+                  id="decisionNotes"
+                  value={decisionNotes}
+                  onChange={(e) => setDecisionNotes(e.target.value)}
+                  rows={3}
+                />
+              </div>
+              <Button onClick={handleDecision} disabled={!selectedDecision || isDeciding}>
+                {isDeciding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Gavel className="mr-2 h-4 w-4" />}
+                Record Decision
+              </Button>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">No decision has been recorded yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export function SubmissionFileButtons({ submissionId }: { submissionId: string }) {
+  const handleDownload = async (file: "manuscript" | "titlePage") => {
+    const result = await getSubmissionFileUrl(submissionId, file)
+    if (result.success && result.url) {
+      window.open(result.url, "_blank", "noopener,noreferrer")
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to download file",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="outline" size="sm" onClick={() => handleDownload("manuscript")}>
+        <Download className="mr-2 h-4 w-4" />
+        Anonymized Manuscript
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => handleDownload("titlePage")}>
+        <Download className="mr-2 h-4 w-4" />
+        Title Page
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { format } from "date-fns"
+import { Download } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "@/components/ui/use-toast"
+import { getSubmissionVersionFileUrl } from "@/lib/actions/submission-actions"
+import { REVIEW_DECISION_LABELS, type ReviewDecisionValue } from "@/lib/peer-review"
+
+export type SubmissionRound = {
+  id: string
+  round: number
+  manuscriptName: string
+  responseLetterName: string | null
+  decision: ReviewDecisionValue | null
+  decidedAt: string | null
+  createdAt: string
+  reviews: {
+    reviewerName: string
+    recommendation: ReviewDecisionValue
+    commentsToAuthor: string
+  }[]
+}
+
+interface SubmissionRoundsProps {
+  rounds: SubmissionRound[]
+}
+
+export function SubmissionRounds({ rounds }: SubmissionRoundsProps) {
+  const handleDownload = async (versionId: string, file: "manuscript" | "responseLetter") => {
+    const result = await getSubmissionVersionFileUrl(versionId, file)
+    if (result.success && result.url) {
+      window.open(result.url, "_blank", "noopener,noreferrer")
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to download file",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Review Rounds</CardTitle>
+        <CardDescription>Each round's manuscript, response letter, reviews and decision side by side.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {rounds.map((round) => (
+            <div key={round.id} className="w-80 flex-shrink-0 space-y-3 rounded-md border p-4 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold">Round {round.round}</span>
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(round.createdAt), "MMM d, yyyy")}
+                </span>
+              </div>
+
+              <div className="space-y-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full justify-start"
+                  onClick={() => handleDownload(round.id, "manuscript")}
+                >
+                  <Download className="mr-2 h-4 w-4 flex-shrink-0" />
+                  <span className="truncate">{round.manuscriptName}</span>
+                </Button>
+                {round.responseLetterName && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full justify-start"
+                    onClick={() => handleDownload(round.id, "responseLetter")}
+                  >
+                    <Download className="mr-2 h-4 w-4 flex-shrink-0" />
+                    <span className="truncate">Response: {round.responseLetterName}</span>
+                  </Button>
+                )}
+              </div>
+
+              <div className="space-y-2 border-t pt-3">
+                {round.reviews.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No reviews submitted in this round.</p>
+                ) : (
+                  round.reviews.map((review, index) => (
+                    <div key={index} className="space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs font-medium">{review.reviewerName}</span>
+                        <Badge variant="outline" className="text-xs">
+                          {REVIEW_DECISION_LABELS[review.recommendation]}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground line-clamp-4 whitespace-pre-line">
+                        {review.commentsToAuthor}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="border-t pt-3">
+                {round.decision ? (
+                  <div>
+                    Decision: <strong>{REVIEW_DECISION_LABELS[round.decision]}</strong>
+                    {round.decidedAt && (
+                      <span className="text-xs text-muted-foreground">
+                        {" "}({format(new Date(round.decidedAt), "MMM d, yyyy")})
+                      </span>
+                    )}
+                  </div>
+                ) : (
+                  <span className="text-muted-foreground">Awaiting decision</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
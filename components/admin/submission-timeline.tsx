@@ -0,0 +1,69 @@
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+type SubmissionEventTypeValue =
+  | "submitted"
+  | "status_changed"
+  | "reviewer_invited"
+  | "reviewer_accepted"
+  | "reviewer_declined"
+  | "reviewer_withdrawn"
+  | "review_submitted"
+  | "decision_recorded"
+  | "revision_submitted"
+  | "converted_to_article"
+
+interface SubmissionTimelineProps {
+  events: {
+    id: string
+    round: number
+    type: SubmissionEventTypeValue
+    actor: string
+    details: string | null
+    createdAt: Date
+  }[]
+}
+
+const EVENT_LABELS: Record<SubmissionEventTypeValue, string> = {
+  submitted: "Manuscript submitted",
+  status_changed: "Status changed",
+  reviewer_invited: "Reviewer invited",
+  reviewer_accepted: "Reviewer accepted invitation",
+  reviewer_declined: "Reviewer declined invitation",
+  reviewer_withdrawn: "Reviewer invitation withdrawn",
+  review_submitted: "Review submitted",
+  decision_recorded: "Decision recorded",
+  revision_submitted: "Revision submitted",
+  converted_to_article: "Draft article created",
+}
+
+export function SubmissionTimeline({ events }: SubmissionTimelineProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timeline</CardTitle>
+        <CardDescription>Everything that has happened to this submission, oldest first.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No activity recorded yet.</p>
+        ) : (
+          <ol className="relative space-y-4 border-l pl-6">
+            {events.map((event) => (
+              <li key={event.id} className="relative">
+                <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                <div className="text-sm">
+                  <span className="font-medium">{EVENT_LABELS[event.type]}</span>
+                  {event.details && <span className="text-muted-foreground"> · {event.details}</span>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Round {event.round} · {event.actor} · {format(event.createdAt, "MMM d, yyyy 'at' h:mm a")}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
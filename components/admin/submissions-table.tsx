@@ -0,0 +1,448 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import {
+  type ColumnDef,
+  type ColumnFiltersState,
+  type SortingState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from "@tanstack/react-table"
+import { ArrowUpDown, Download, Eye, FileText, Inbox, Loader2, MoreHorizontal, Trash } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { toast } from "@/components/ui/use-toast"
+import {
+  deleteSubmission,
+  getSubmissionFileUrl,
+  updateSubmissionStatus,
+} from "@/lib/actions/submission-actions"
+import { REVIEW_DECISION_LABELS, type ReviewDecisionValue } from "@/lib/peer-review"
+
+export type SubmissionStatusValue = "received" | "desk_reviewed" | "under_review" | "decided"
+
+export type SubmissionRow = {
+  id: string
+  title: string
+  type: "blog" | "journal"
+  keywords: string[]
+  authorName: string
+  authorEmail: string
+  authorAffiliation?: string | null
+  manuscriptName: string
+  titlePageName: string
+  status: SubmissionStatusValue
+  decision?: ReviewDecisionValue | null
+  callForPapers?: {
+    id: string
+    title: string
+    volume: number
+    issue: string
+    year: number
+  } | null
+  createdAt: string
+}
+
+const STATUS_LABELS: Record<SubmissionStatusValue, string> = {
+  received: "Received",
+  desk_reviewed: "Desk-reviewed",
+  under_review: "Under review",
+  decided: "Decided",
+}
+
+const STATUS_STYLES: Record<SubmissionStatusValue, string> = {
+  received: "bg-blue-100 text-blue-800",
+  desk_reviewed: "bg-amber-100 text-amber-800",
+  under_review: "bg-purple-100 text-purple-800",
+  decided: "bg-green-100 text-green-800",
+}
+
+interface SubmissionsTableProps {
+  initialSubmissions: SubmissionRow[]
+  canUpdate: boolean
+  canDelete: boolean
+}
+
+export function SubmissionsTable({ initialSubmissions, canUpdate, canDelete }: SubmissionsTableProps) {
+  const [submissions, setSubmissions] = useState<SubmissionRow[]>(initialSubmissions)
+  const [sorting, setSorting] = useState<SortingState>([{ id: "createdAt", desc: true }])
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
+  const [statusFilter, setStatusFilter] = useState<SubmissionStatusValue | "all">("all")
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<SubmissionRow | null>(null)
+
+  const handleStatusChange = async (submission: SubmissionRow, status: SubmissionStatusValue) => {
+    setPendingId(submission.id)
+    try {
+      const result = await updateSubmissionStatus(submission.id, status)
+      if (result.success) {
+        setSubmissions((current) =>
+          current.map((s) => (s.id === submission.id ? { ...s, status } : s))
+        )
+        toast({
+          title: "Status updated",
+          description: `"${submission.title}" is now ${STATUS_LABELS[status].toLowerCase()}.`,
+        })
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to update status",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleDownload = async (submission: SubmissionRow, file: "manuscript" | "titlePage") => {
+    const result = await getSubmissionFileUrl(submission.id, file)
+    if (result.success && result.url) {
+      window.open(result.url, "_blank", "noopener,noreferrer")
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to download file",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return
+    setPendingId(deleteTarget.id)
+    try {
+      const result = await deleteSubmission(deleteTarget.id)
+      if (result.success) {
+        setSubmissions((current) => current.filter((s) => s.id !== deleteTarget.id))
+        toast({
+          title: "Submission deleted",
+          description: `"${deleteTarget.title}" and its files have been deleted.`,
+        })
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to delete submission",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setPendingId(null)
+      setDeleteTarget(null)
+    }
+  }
+
+  const columns: ColumnDef<SubmissionRow>[] = [
+    {
+      accessorKey: "title",
+      header: ({ column }) => (
+        <Button variant="ghost" onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}>
+          Manuscript
+          <ArrowUpDown className="ml-2 h-4 w-4" />
+        </Button>
+      ),
+      cell: ({ row }) => (
+        <div className="space-y-1 max-w-[320px]">
+          <div className="font-medium">{row.original.title}</div>
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="secondary" className="text-xs capitalize">{row.original.type}</Badge>
+            {row.original.keywords.slice(0, 3).map((keyword) => (
+              <Badge key={keyword} variant="outline" className="text-xs">
+                {keyword}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      ),
+    },
+    {
+      accessorKey: "authorName",
+      header: "Corresponding Author",
+      cell: ({ row }) => (
+        <div className="space-y-1 max-w-[220px]">
+          <div className="text-sm font-medium">{row.original.authorName}</div>
+          <div className="text-xs text-muted-foreground truncate">{row.original.authorEmail}</div>
+          {row.original.authorAffiliation && (
+            <div className="text-xs text-muted-foreground truncate">{row.original.authorAffiliation}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      id: "callForPapers",
+      header: "Call for Papers",
+      cell: ({ row }) => {
+        const call = row.original.callForPapers
+        return call ? (
+          <div className="space-y-1 max-w-[200px]">
+            <div className="text-sm truncate">{call.title}</div>
+            <div className="text-xs text-muted-foreground">
+              Vol. {call.volume}, Issue {call.issue} ({call.year})
+            </div>
+          </div>
+        ) : (
+          <span className="text-sm text-muted-foreground">General</span>
+        )
+      },
+    },
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => {
+        const submission = row.original
+        const decision = submission.decision && (
+          <div className="text-xs text-muted-foreground">{REVIEW_DECISION_LABELS[submission.decision]}</div>
+        )
+        if (!canUpdate) {
+          return (
+            <div className="space-y-1">
+              <Badge className={STATUS_STYLES[submission.status]}>{STATUS_LABELS[submission.status]}</Badge>
+              {decision}
+            </div>
+          )
+        }
+        return (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Select
+                value={submission.status}
+                onValueChange={(value) => handleStatusChange(submission, value as SubmissionStatusValue)}
+                disabled={pendingId === submission.id}
+              >
+                <SelectTrigger className="h-8 w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STATUS_LABELS) as SubmissionStatusValue[]).map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {pendingId === submission.id && <Loader2 className="h-4 w-4 animate-spin" />}
+            </div>
+            {decision}
+          </div>
+        )
+      },
+    },
+    {
+      accessorKey: "createdAt",
+      header: ({ column }) => (
+        <Button variant="ghost" onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}>
+          Received
+          <ArrowUpDown className="ml-2 h-4 w-4" />
+        </Button>
+      ),
+      cell: ({ row }) => (
+        <div className="text-sm">{new Date(row.original.createdAt).toLocaleDateString()}</div>
+      ),
+    },
+    {
+      id: "actions",
+      cell: ({ row }) => {
+        const submission = row.original
+        return (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" className="h-8 w-8 p-0">
+                <span className="sr-only">Open menu</span>
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+              <DropdownMenuLabel>Actions</DropdownMenuLabel>
+              <DropdownMenuItem asChild>
+                <Link href={`/admin/submissions/${submission.id}`}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  View Details
+                </Link>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigator.clipboard.writeText(submission.id)}>
+                <FileText className="mr-2 h-4 w-4" />
+                Copy Reference
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => handleDownload(submission, "manuscript")}>
+                <Download className="mr-2 h-4 w-4" />
+                Anonymized Manuscript
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleDownload(submission, "titlePage")}>
+                <Download className="mr-2 h-4 w-4" />
+                Title Page
+              </DropdownMenuItem>
+              {canDelete && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    className="text-destructive focus:text-destructive"
+                    onClick={() => setDeleteTarget(submission)}
+                  >
+                    <Trash className="mr-2 h-4 w-4" />
+                    Delete Submission
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )
+      },
+    },
+  ]
+
+  const filteredSubmissions = statusFilter === "all"
+    ? submissions
+    : submissions.filter((submission) => submission.status === statusFilter)
+
+  const table = useReactTable({
+    data: filteredSubmissions,
+    columns,
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    state: {
+      sorting,
+      columnFilters,
+    },
+  })
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <Input
+          placeholder="Search by title..."
+          value={(table.getColumn("title")?.getFilterValue() as string) ?? ""}
+          onChange={(event) => table.getColumn("title")?.setFilterValue(event.target.value)}
+          className="max-w-sm"
+        />
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as SubmissionStatusValue | "all")}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {(Object.keys(STATUS_LABELS) as SubmissionStatusValue[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="h-24 text-center">
+                  <div className="flex flex-col items-center justify-center space-y-2">
+                    <Inbox className="h-8 w-8 text-muted-foreground" />
+                    <p className="text-muted-foreground">No submissions found.</p>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-end space-x-2">
+        <p className="text-sm font-medium">
+          Page {table.getState().pagination.pageIndex + 1} of {Math.max(table.getPageCount(), 1)}
+        </p>
+        <Button variant="outline" size="sm" onClick={() => table.previousPage()} disabled={!table.getCanPreviousPage()}>
+          Previous
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => table.nextPage()} disabled={!table.getCanNextPage()}>
+          Next
+        </Button>
+      </div>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this submission?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes <strong>"{deleteTarget?.title}"</strong> together with the uploaded manuscript
+              and title page. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={pendingId === deleteTarget?.id}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleDelete()
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={pendingId === deleteTarget?.id}
+            >
+              {pendingId === deleteTarget?.id ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete Permanently"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
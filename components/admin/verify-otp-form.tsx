@@ -12,7 +12,7 @@ import { Button } from "@/components/ui/button"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { toast } from "@/components/ui/use-toast"
-// import { verifyOtp, sendResetPasswordEmail } from "@/lib/actions/auth-actions"
+import { resetPassword, verifyOTPAction } from "@/lib/actions/auth-actions"
 
 const formSchema = z.object({
   otp: z.string().min(6, {
@@ -73,33 +73,40 @@ export function VerifyOtpForm() {
 
     setIsLoading(true)
 
-    // try {
-    //   const result = await verifyOtp(email, values.otp)
-
-    //   if (result.success) {
-    //     toast({
-    //       title: "OTP verified",
-    //       description: "You can now set a new password.",
-    //     })
-    //     // Store verification token in session storage for the next step
-    //     sessionStorage.setItem("verificationToken", result.token)
-    //     router.push("/admin/new-password")
-    //   } else {
-    //     toast({
-    //       title: "Verification failed",
-    //       description: result.message || "Invalid or expired OTP. Please try again.",
-    //       variant: "destructive",
-    //     })
-    //   }
-    // } catch (error) {
-    //   toast({
-    //     title: "Error",
-    //     description: "An unexpected error occurred. Please try again.",
-    //     variant: "destructive",
-    //   })
-    // } finally {
-    //   setIsLoading(false)
-    // }
+    try {
+      const formData = new FormData()
+      formData.append("email", email)
+      formData.append("otp", values.otp)
+
+      const result = await verifyOTPAction(formData)
+
+      if (result.success) {
+        toast({
+          title: "OTP verified",
+          description: "You can now set a new password.",
+        })
+        // The code is checked again (and used up) when the new password is saved
+        sessionStorage.setItem("verificationToken", values.otp)
+        router.push("/admin/new-password")
+      } else {
+        toast({
+          title: "Verification failed",
+          description:
+            (result.errors && "otp" in result.errors && result.errors.otp?.[0]) ||
+            (result.errors && "_form" in result.errors && result.errors._form?.[0]) ||
+            "Invalid or expired OTP. Please try again.",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   async function handleResendOtp() {
@@ -107,30 +114,35 @@ export function VerifyOtpForm() {
 
     setResendDisabled(true)
 
-    // try {
-    //   const result = await sendResetPasswordEmail(email)
-
-    //   if (result.success) {
-    //     toast({
-    //       title: "OTP resent",
-    //       description: "A new verification code has been sent to your email.",
-    //     })
-    //   } else {
-    //     toast({
-    //       title: "Error",
-    //       description: result.message || "Failed to resend OTP. Please try again.",
-    //       variant: "destructive",
-    //     })
-    //     setResendDisabled(false)
-    //   }
-    // } catch (error) {
-    //   toast({
-    //     title: "Error",
-    //     description: "An unexpected error occurred. Please try again.",
-    //     variant: "destructive",
-    //   })
-    //   setResendDisabled(false)
-    // }
+    try {
+      const formData = new FormData()
+      formData.append("email", email)
+
+      const result = await resetPassword(formData)
+
+      if (result.success) {
+        toast({
+          title: "OTP resent",
+          description: "A new verification code has been sent to your email.",
+        })
+      } else {
+        toast({
+          title: "Error",
+          description:
+            (result.errors && "_form" in result.errors && result.errors._form?.[0]) ||
+            "Failed to resend OTP. Please try again.",
+          variant: "destructive",
+        })
+        setResendDisabled(false)
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred. Please try again.",
+        variant: "destructive",
+      })
+      setResendDisabled(false)
+    }
   }
 
   return (
@@ -0,0 +1,43 @@
+import { cn } from "@/lib/utils"
+import { numberFootnotes } from "@/lib/article-content"
+
+interface ArticleContentProps {
+  html: string
+  className?: string
+}
+
+// Renders an article written in the rich text editor, with its footnotes
+export function ArticleContent({ html, className }: ArticleContentProps) {
+  const { html: body, footnotes } = numberFootnotes(html)
+
+  return (
+    <div className={cn("w-full", className)}>
+      <div
+        className="prose prose-stone max-w-none text-justify prose-headings:font-serif prose-img:mx-auto"
+        dangerouslySetInnerHTML={{ __html: body }}
+      />
+
+      {footnotes.length > 0 && (
+        <section className="footnotes mt-12 border-t border-stone-200 pt-6 text-sm text-stone-700">
+          <h2 id="footnotes-label" className="mb-3 text-base font-semibold uppercase tracking-wide text-stone-800">
+            Footnotes
+          </h2>
+          <ol className="list-decimal space-y-2 pl-6">
+            {footnotes.map((footnote) => (
+              <li key={footnote.number} id={`fn-${footnote.number}`} className="scroll-mt-24">
+                {footnote.note}{" "}
+                <a
+                  href={`#fnref-${footnote.number}`}
+                  aria-label={`Back to reference ${footnote.number}`}
+                  className="text-primary no-underline hover:underline"
+                >
+                  ↩
+                </a>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+    </div>
+  )
+}
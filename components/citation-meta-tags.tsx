@@ -0,0 +1,17 @@
+import { getCitationMetaTags, type CitationMetaSource } from "@/lib/metadata"
+
+interface CitationMetaTagsProps {
+  article: CitationMetaSource
+  issn?: string | null
+}
+
+// Highwire tags for Google Scholar; React hoists them into <head> in order
+export function CitationMetaTags({ article, issn }: CitationMetaTagsProps) {
+  return (
+    <>
+      {getCitationMetaTags(article, { issn }).map(({ name, content }, index) => (
+        <meta key={`${name}-${index}`} name={name} content={content} />
+      ))}
+    </>
+  )
+}
@@ -34,6 +34,8 @@ interface Article {
   volume?: number
   issue?: number
   year?: number
+  startPage?: number | null // Pages in the printed issue
+  endPage?: number | null
   authors?: AuthorArticle[] // New structure with junction table
   author?: string // Legacy field for backward compatibility
   keywords?: string[]
@@ -262,24 +264,29 @@ export function JournalCitation({ article }: JournalCitationProps) {
     const volume = article.JournalIssue?.volume || article.volume || 1
     const issue = article.JournalIssue?.issue || article.issue || 1
 
+    // Page range in the printed issue, e.g. "12–30"; styles that cite a pinpoint use the first page
+    const { startPage, endPage } = article
+    const pages = startPage ? (endPage && endPage !== startPage ? `${startPage}–${endPage}` : `${startPage}`) : null
+    const pagesLabel = pages?.includes("–") ? "pp." : "p."
+
     switch (style) {
       case "APA":
-        return `${formattedAuthors} (${year}). ${article.title}. LegalInsight Journal. ${article.doi ? `https://doi.org/${article.doi}` : `Retrieved from https://legalinsight.com/journals/${article.slug}`}`
+        return `${formattedAuthors} (${year}). ${article.title}. LegalInsight Journal${pages ? `, ${pages}` : ""}. ${article.doi ? `https://doi.org/${article.doi}` : `Retrieved from https://legalinsight.com/journals/${article.slug}`}`
 
       case "MLA":
-        return `${formattedAuthors}. "${article.title}." LegalInsight Journal, ${day} ${month} ${year}, ${article.doi ? `doi:${article.doi}` : `legalinsight.com/journals/${article.slug}`}.`
+        return `${formattedAuthors}. "${article.title}." LegalInsight Journal, ${day} ${month} ${year}${pages ? `, ${pagesLabel} ${pages}` : ""}, ${article.doi ? `doi:${article.doi}` : `legalinsight.com/journals/${article.slug}`}.`
 
       case "Chicago":
-        return `${formattedAuthors}. "${article.title}." LegalInsight Journal (${month} ${day}, ${year}). ${article.doi ? `https://doi.org/${article.doi}` : `https://legalinsight.com/journals/${article.slug}`}.`
+        return `${formattedAuthors}. "${article.title}." LegalInsight Journal (${month} ${day}, ${year})${pages ? `: ${pages}` : ""}. ${article.doi ? `https://doi.org/${article.doi}` : `https://legalinsight.com/journals/${article.slug}`}.`
 
       case "Harvard":
-        return `${formattedAuthors} (${year}) '${article.title}', LegalInsight Journal, ${article.doi ? `DOI: ${article.doi}` : `Available at: https://legalinsight.com/journals/${article.slug}`} (Accessed: ${new Date().toLocaleDateString("en-US", { day: "numeric", month: "long", year: "numeric" })}).`
+        return `${formattedAuthors} (${year}) '${article.title}', LegalInsight Journal, ${pages ? `${pagesLabel} ${pages}, ` : ""}${article.doi ? `DOI: ${article.doi}` : `Available at: https://legalinsight.com/journals/${article.slug}`} (Accessed: ${new Date().toLocaleDateString("en-US", { day: "numeric", month: "long", year: "numeric" })}).`
 
       case "Bluebook":
-        return `${formattedAuthors}, ${article.title}, LegalInsight J. (${month}. ${day}, ${year}), ${article.doi ? `https://doi.org/${article.doi}` : `https://legalinsight.com/journals/${article.slug}`}.`
+        return `${formattedAuthors}, ${article.title}, LegalInsight J.${startPage ? ` ${startPage}` : ""} (${month}. ${day}, ${year}), ${article.doi ? `https://doi.org/${article.doi}` : `https://legalinsight.com/journals/${article.slug}`}.`
 
       case "OSCOLA":
-        return `${formattedAuthors}, '${article.title}' [${year}] LegalInsight Journal ${volume}(${issue}) ${article.doi ? `<${article.doi}>` : `<https://legalinsight.com/journals/${article.slug}>`} accessed ${new Date().toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" })}`
+        return `${formattedAuthors}, '${article.title}' [${year}] LegalInsight Journal ${volume}(${issue})${startPage ? ` ${startPage}` : ""} ${article.doi ? `<${article.doi}>` : `<https://legalinsight.com/journals/${article.slug}>`} accessed ${new Date().toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" })}`
 
       default:
         return `${formattedAuthors}. (${year}). ${article.title}. LegalInsight Journal.`
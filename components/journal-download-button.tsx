@@ -8,7 +8,7 @@ import { Input } from "@/components/ui/input"
 import { useToast } from "@/hooks/use-toast"
 import type { Article } from "@/lib/types"
 import { useOnClickOutside } from "@/hooks/use-on-click-outside"
-import { jsPDF } from "jspdf"
+import { articleToPlainText } from "@/lib/article-content"
 
 interface JournalDownloadButtonProps {
   article: Article
@@ -109,7 +109,8 @@ export function JournalDownloadButton({ article }: JournalDownloadButtonProps) {
       const title = `# ${article.title}\n\n`
       const author = `By: ${getAuthorString()}\n`
       const date = `Date: ${article.date}\n\n`
-      const content = article.content
+      // Footnote references become [N] with the notes listed at the end
+      const content = articleToPlainText(article.content)
 
       // Format the content for download
       const formattedContent = `${title}${author}${date}${content}`
@@ -144,138 +145,14 @@ export function JournalDownloadButton({ article }: JournalDownloadButtonProps) {
     }
   }
 
-  const downloadAsPdf = async () => {
-    setIsDownloading(true)
-
-    try {
-      // Create a new jsPDF instance
-      const doc = new jsPDF({
-        orientation: "portrait",
-        unit: "mm",
-        format: "a4",
-      })
-
-      // Set font to a serif font for academic look
-      doc.setFont("times", "normal")
-
-      // Page dimensions
-      const pageWidth = doc.internal.pageSize.getWidth()
-      const pageHeight = doc.internal.pageSize.getHeight()
-      const margin = 25 // 25mm margins
-      const contentWidth = pageWidth - margin * 2
-
-      // Add title (centered, uppercase)
-      doc.setFontSize(14)
-      doc.setFont("times", "bold")
-
-      // Split title into multiple lines if needed
-      const titleLines = doc.splitTextToSize(article.title.toUpperCase(), contentWidth)
-      let yPosition = margin + 10
-
-      // Center and add each line of the title
-      titleLines.forEach((line) => {
-        doc.text(line, pageWidth / 2, yPosition, { align: "center" })
-        yPosition += 7
-      })
-
-      // Add author (centered, italic)
-      yPosition += 5
-      doc.setFontSize(12)
-      doc.setFont("times", "italic")
-      doc.text(getAuthorString(), pageWidth / 2, yPosition, { align: "center" })
-
-      // Add horizontal line
-      yPosition += 10
-      doc.setLineWidth(0.5)
-      doc.line(margin, yPosition, pageWidth - margin, yPosition)
-
-      // Add "Abstract" header
-      yPosition += 15
-      doc.setFont("times", "normal")
-      doc.text("Abstract", pageWidth / 2, yPosition, { align: "center" })
-
-      // Add abstract text (justified)
-      yPosition += 10
-      doc.setFontSize(11)
-      const abstractText =
-        article.excerpt ||
-        "This article examines the legal implications and constitutional framework surrounding the subject matter, providing analysis of relevant case law and statutory provisions. The research explores the tension between established precedent and evolving legal interpretations, with particular attention to recent developments in jurisprudence."
-
-      const abstractLines = doc.splitTextToSize(abstractText, contentWidth)
-      doc.text(abstractLines, margin, yPosition, { align: "justify" })
-
-      // Update y position after abstract
-      yPosition += abstractLines.length * 5 + 5
-
-      // Add keywords if available
-      doc.setFont("times", "italic")
-      const keywordsText = article.keywords && article.keywords.length > 0 
-        ? `Keywords: ${article.keywords.join(", ")}`
-        : "Keywords: Legal Analysis, Constitutional Law, Jurisprudence, Case Study, Legal Theory"
-      const keywordsLines = doc.splitTextToSize(keywordsText, contentWidth)
-      doc.text(keywordsLines, margin, yPosition)
-
-      // Add second horizontal line
-      yPosition += keywordsLines.length * 5 + 10
-      doc.line(margin, yPosition, pageWidth - margin, yPosition)
-
-      // Add journal info at bottom left
-      doc.setFontSize(10)
-      doc.setFont("times", "italic")
-      const journalInfo = `Legal Insight Journal · Vol. ${article.volume || "12"} · No. ${article.issue || "2"} · ${article.year || new Date(article.date).getFullYear()}`
-      doc.text(journalInfo, margin, yPosition + 10)
-
-      // Add DOI if available
-      if (article.doi) {
-        doc.text(`DOI: ${article.doi}`, margin, yPosition + 15)
-      }
-
-      // Add "Introduction" header
-      yPosition += 20
-      doc.setFontSize(12)
-      doc.setFont("times", "normal")
-      doc.text("Introduction", pageWidth / 2, yPosition, { align: "center" })
-
-      // Add content paragraphs
-      yPosition += 10
-      doc.setFontSize(11)
-
-      // Split content into paragraphs
-      const paragraphs = article.content.split("\n\n")
-
-      // Process each paragraph
-      paragraphs.forEach((paragraph) => {
-        // Skip empty paragraphs
-        if (!paragraph.trim()) return
-
-        // Split paragraph into lines that fit the content width
-        const lines = doc.splitTextToSize(paragraph, contentWidth)
-
-        // Check if we need a new page
-        if (yPosition + lines.length * 5 > pageHeight - margin) {
-          doc.addPage()
-          yPosition = margin + 10
-        }
-
-        // Add the paragraph with justified text
-        doc.text(lines, margin, yPosition, { align: "justify" })
-
-        // Update y position for next paragraph (add some spacing)
-        yPosition += lines.length * 5 + 5
-      })
-
-      // Save the PDF
-      doc.save(`${article.slug}.pdf`)
-    } catch (error) {
-      console.error("Error downloading journal as PDF:", error)
-      toast({
-        title: "Download Failed",
-        description: "There was a problem generating the PDF. Please try again.",
-        variant: "destructive",
-      })
-    } finally {
-      setIsDownloading(false)
-    }
+  // The PDF is typeset on the server from the article's stored content
+  const downloadAsPdf = () => {
+    const a = document.createElement("a")
+    a.href = `/journals/${article.slug}/pdf`
+    a.download = `${article.slug}.pdf`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
   }
 
   if (isDownloading) {
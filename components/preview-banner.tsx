@@ -0,0 +1,31 @@
+import { format } from "date-fns"
+import { Eye } from "lucide-react"
+
+interface PreviewBannerProps {
+  expiresAt: Date
+  returnTo: string
+}
+
+// Shown above articles opened through a secret preview link
+export function PreviewBanner({ expiresAt, returnTo }: PreviewBannerProps) {
+  return (
+    <div className="sticky top-0 z-50 border-b border-amber-300 bg-amber-50 text-amber-900">
+      <div className="container flex flex-wrap items-center justify-between gap-2 px-4 py-2 text-sm md:px-6">
+        <div className="flex items-center gap-2">
+          <Eye className="h-4 w-4" />
+          <span className="font-semibold uppercase tracking-wide">Preview</span>
+          <span>
+            This article is not public yet. The link expires on {format(expiresAt, "MMMM d, yyyy 'at' h:mm a")}.
+          </span>
+        </div>
+        {/* Plain anchor so the route handler runs instead of a client-side navigation */}
+        <a
+          href={`/api/preview/exit?redirect=${encodeURIComponent(returnTo)}`}
+          className="font-medium underline underline-offset-2 hover:text-amber-700"
+        >
+          Exit preview
+        </a>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { AlertCircle, CheckCircle2, Download, Loader2, Send, XCircle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  getReviewerManuscriptUrl,
+  respondToReviewInvitation,
+  submitReview,
+} from "@/lib/actions/review-actions"
+import {
+  REVIEW_DECISION_LABELS,
+  type ReviewAssignmentStatusValue,
+  type ReviewDecisionValue,
+} from "@/lib/peer-review"
+
+interface ReviewWorkspaceProps {
+  token: string
+  assignment: {
+    reviewerName: string
+    status: ReviewAssignmentStatusValue
+    dueDate: string | null
+    round: number
+    // The author's response to the previous round's reviews
+    hasResponseLetter: boolean
+    submission: {
+      id: string
+      title: string
+      abstract: string
+      keywords: string[]
+      type: "blog" | "journal"
+    }
+    review: {
+      recommendation: ReviewDecisionValue
+      createdAt: string
+    } | null
+  }
+}
+
+export function ReviewWorkspace({ token, assignment }: ReviewWorkspaceProps) {
+  const router = useRouter()
+  const [formState, setFormState] = useState<"idle" | "submitting" | "error">("idle")
+  const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[] | undefined>>({})
+  const [recommendation, setRecommendation] = useState<ReviewDecisionValue | "">("")
+
+  const { submission } = assignment
+
+  const handleRespond = async (accept: boolean) => {
+    setFormState("submitting")
+    setError(null)
+
+    const result = await respondToReviewInvitation(token, accept)
+    if (result.success) {
+      setFormState("idle")
+      router.refresh()
+    } else {
+      setFormState("error")
+      setError(result.error || "Failed to record your response")
+    }
+  }
+
+  const handleDownload = async (file: "manuscript" | "responseLetter") => {
+    setError(null)
+    const result = await getReviewerManuscriptUrl(token, file)
+    if (result.success && result.url) {
+      window.open(result.url, "_blank", "noopener,noreferrer")
+    } else {
+      setError(result.error || "Failed to download file")
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+
+    if (!recommendation) {
+      setFormState("error")
+      setError("Please choose a recommendation.")
+      return
+    }
+
+    setFormState("submitting")
+    setError(null)
+    setFieldErrors({})
+
+    const formData = new FormData(e.currentTarget)
+
+    try {
+      const result = await submitReview(token, {
+        recommendation,
+        summary: String(formData.get("summary") || ""),
+        strengths: String(formData.get("strengths") || ""),
+        weaknesses: String(formData.get("weaknesses") || ""),
+        commentsToAuthor: String(formData.get("commentsToAuthor") || ""),
+        commentsToEditor: String(formData.get("commentsToEditor") || ""),
+      })
+
+      if (result.success) {
+        setFormState("idle")
+        router.refresh()
+      } else {
+        setFormState("error")
+        setError(result.error || "Failed to submit review")
+        setFieldErrors(("errors" in result && result.errors) || {})
+      }
+    } catch (err) {
+      setFormState("error")
+      setError("There was an error submitting your review. Please try again later.")
+    }
+  }
+
+  const fieldError = (name: string) =>
+    fieldErrors[name]?.length ? <p className="text-sm text-red-600">{fieldErrors[name]![0]}</p> : null
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-card rounded-lg p-6 shadow-sm border space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary" className="capitalize">{submission.type}</Badge>
+          {assignment.dueDate && (
+            <span className="text-sm text-muted-foreground">
+              Review due {format(new Date(assignment.dueDate), "MMM d, yyyy")}
+            </span>
+          )}
+        </div>
+        <h2 className="text-2xl font-semibold">{submission.title}</h2>
+        <p className="text-base text-stone-600 whitespace-pre-line">{submission.abstract}</p>
+        {submission.keywords.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {submission.keywords.map((keyword) => (
+              <Badge key={keyword} variant="outline" className="text-xs">
+                {keyword}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          This is a double-blind review. The author's identity is withheld from you, and yours from the author.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-700 rounded-md flex items-start">
+          <AlertCircle className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {assignment.status === "invited" && (
+        <div className="bg-card rounded-lg p-6 shadow-sm border space-y-4">
+          <p>
+            Dear {assignment.reviewerName}, would you be willing to review this manuscript?
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={() => handleRespond(true)} disabled={formState === "submitting"}>
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Accept Invitation
+            </Button>
+            <Button variant="outline" onClick={() => handleRespond(false)} disabled={formState === "submitting"}>
+              <XCircle className="mr-2 h-4 w-4" />
+              Decline
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {assignment.status === "declined" && (
+        <div className="p-4 bg-stone-50 text-stone-700 rounded-md">
+          You have declined this invitation. Thank you for letting us know.
+        </div>
+      )}
+
+      {assignment.status === "completed" && assignment.review && (
+        <div className="p-4 bg-green-50 text-green-700 rounded-md flex items-start">
+          <CheckCircle2 className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+          <p>
+            Thank you! Your review ({REVIEW_DECISION_LABELS[assignment.review.recommendation]}) was submitted on{" "}
+            {format(new Date(assignment.review.createdAt), "MMM d, yyyy")}.
+          </p>
+        </div>
+      )}
+
+      {(assignment.status === "accepted" || assignment.status === "completed") && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => handleDownload("manuscript")}>
+            <Download className="mr-2 h-4 w-4" />
+            Download Anonymized Manuscript
+          </Button>
+          {assignment.hasResponseLetter && (
+            <Button variant="outline" onClick={() => handleDownload("responseLetter")}>
+              <Download className="mr-2 h-4 w-4" />
+              Download Response to Round {assignment.round - 1} Reviews
+            </Button>
+          )}
+        </div>
+      )}
+
+      {assignment.status === "accepted" && (
+        <form onSubmit={handleSubmit} className="bg-card rounded-lg p-6 shadow-sm border space-y-4">
+          <h3 className="text-xl font-semibold">Your Report</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="recommendation">Recommendation</Label>
+            <Select value={recommendation} onValueChange={(value) => setRecommendation(value as ReviewDecisionValue)}>
+              <SelectTrigger id="recommendation">
+                <SelectValue placeholder="Choose a recommendation" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REVIEW_DECISION_LABELS) as ReviewDecisionValue[]).map((decision) => (
+                  <SelectItem key={decision} value={decision}>
+                    {REVIEW_DECISION_LABELS[decision]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fieldError("recommendation")}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="summary">Summary of the Manuscript</Label>
+            <Textarea id="summary" name="summary" rows={4} required />
+            {fieldError("summary")}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="strengths">Strengths</Label>
+              <Textarea id="strengths" name="strengths" rows={4} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="weaknesses">Weaknesses</Label>
+              <Textarea id="weaknesses" name="weaknesses" rows={4} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="commentsToAuthor">Comments to the Author</Label>
+            <Textarea id="commentsToAuthor" name="commentsToAuthor" rows={6} required />
+            <p className="text-xs text-muted-foreground">Shared with the author anonymously.</p>
+            {fieldError("commentsToAuthor")}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="commentsToEditor">Confidential Comments to the Editor</Label>
+            <Textarea id="commentsToEditor" name="commentsToEditor" rows={3} />
+            <p className="text-xs text-muted-foreground">Only visible to the editors.</p>
+          </div>
+
+          <Button type="submit" className="w-full rounded-sm" disabled={formState === "submitting"}>
+            {formState === "submitting" ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              <>
+                <Send className="mr-2 h-4 w-4" />
+                Submit Review
+              </>
+            )}
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
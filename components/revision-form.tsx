@@ -0,0 +1,93 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { AlertCircle, CheckCircle2, Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { submitRevision } from "@/lib/actions/submission-actions"
+
+interface RevisionFormProps {
+  token: string
+}
+
+export function RevisionForm({ token }: RevisionFormProps) {
+  const [formState, setFormState] = useState<"idle" | "submitting" | "success" | "error">("idle")
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setFormState("submitting")
+    setError(null)
+
+    try {
+      const result = await submitRevision(token, new FormData(e.currentTarget))
+
+      if (result.success) {
+        setFormState("success")
+      } else {
+        setFormState("error")
+        setError(result.error || "Failed to submit revision")
+      }
+    } catch (err) {
+      setFormState("error")
+      setError("There was an error submitting your revision. Please try again later.")
+    }
+  }
+
+  if (formState === "success") {
+    return (
+      <div className="p-4 bg-green-50 text-green-700 rounded-md flex items-start">
+        <CheckCircle2 className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+        <p>Thank you! Your revised manuscript has been received and will be sent back to the reviewers.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-card rounded-lg p-6 shadow-sm border">
+      <h3 className="text-2xl font-semibold mb-2">Upload Your Revision</h3>
+      <p className="text-base text-stone-600 mb-6">
+        Upload the revised, anonymized manuscript and a letter responding to each of the reviewers' comments.
+      </p>
+
+      {formState === "error" && error && (
+        <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-md flex items-start">
+          <AlertCircle className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="manuscript">Revised Manuscript (.doc/.docx)</Label>
+            <Input id="manuscript" name="manuscript" type="file" accept=".doc,.docx" required />
+            <p className="text-xs text-muted-foreground">Remove all identifying information from this file.</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="responseLetter">Response to Reviewers (.doc/.docx)</Label>
+            <Input id="responseLetter" name="responseLetter" type="file" accept=".doc,.docx" required />
+            <p className="text-xs text-muted-foreground">Explain how each comment has been addressed.</p>
+          </div>
+        </div>
+
+        <Button type="submit" size="lg" className="w-full rounded-sm" disabled={formState === "submitting"}>
+          {formState === "submitting" ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Uploading...
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Submit Revision
+            </>
+          )}
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+"use client"
+
+import type * as React from "react"
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { ChevronDown, SlidersHorizontal } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { getSearchUrl, type SearchFilter } from "@/lib/search"
+import {
+  buildSearchQuery,
+  EMPTY_ADVANCED_FIELDS,
+  getAdvancedSearchFields,
+  type AdvancedSearchFields,
+} from "@/lib/search-query"
+
+interface AdvancedSearchFormProps {
+  // The current query, which the form is filled in from
+  query: string
+  filter: SearchFilter
+  defaultOpen?: boolean
+}
+
+const TEXT_INPUTS: { name: keyof AdvancedSearchFields; label: string; placeholder: string }[] = [
+  { name: "allWords", label: "All of these words", placeholder: "privacy surveillance" },
+  { name: "phrase", label: "This exact phrase", placeholder: "basic structure" },
+  { name: "anyWords", label: "Any of these words", placeholder: "constitution amendment" },
+  { name: "noneWords", label: "None of these words", placeholder: "draft" },
+  { name: "author", label: "Author", placeholder: "Sharma" },
+  { name: "keyword", label: "Keyword", placeholder: "data protection" },
+]
+
+export function AdvancedSearchForm({ query, filter, defaultOpen = false }: AdvancedSearchFormProps) {
+  const router = useRouter()
+  const initialFields = getAdvancedSearchFields(query)
+  const [fields, setFields] = useState<AdvancedSearchFields>(initialFields ?? EMPTY_ADVANCED_FIELDS)
+  const preview = buildSearchQuery(fields)
+
+  const setField = (name: keyof AdvancedSearchFields, value: string) => {
+    setFields((current) => ({ ...current, [name]: value }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!preview) return
+
+    // The form only writes the query string, so the URL stays shareable and
+    // the same search can be typed by hand
+    router.push(getSearchUrl({ query: preview, filter: filter === "authors" ? "all" : filter }))
+  }
+
+  return (
+    <Collapsible defaultOpen={defaultOpen} className="rounded-lg border">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between px-4">
+          <span className="flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4" />
+            Advanced search
+          </span>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        <form onSubmit={handleSubmit} className="space-y-4 border-t p-4">
+          {query && !initialFields && (
+            <p className="text-sm text-muted-foreground">
+              Your current search uses syntax the form can't show. Searching from here will replace it.
+            </p>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {TEXT_INPUTS.map((input) => (
+              <div key={input.name} className="space-y-2">
+                <Label htmlFor={`advanced-${input.name}`}>{input.label}</Label>
+                <Input
+                  id={`advanced-${input.name}`}
+                  value={fields[input.name]}
+                  placeholder={input.placeholder}
+                  onChange={(e) => setField(input.name, e.target.value)}
+                />
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <Label htmlFor="advanced-yearFrom">Published between</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="advanced-yearFrom"
+                  inputMode="numeric"
+                  pattern="\d{4}"
+                  placeholder="2023"
+                  value={fields.yearFrom}
+                  onChange={(e) => setField("yearFrom", e.target.value)}
+                />
+                <span className="text-muted-foreground">and</span>
+                <Input
+                  aria-label="Published up to"
+                  inputMode="numeric"
+                  pattern="\d{4}"
+                  placeholder="2025"
+                  value={fields.yearTo}
+                  onChange={(e) => setField("yearTo", e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="advanced-type">Type</Label>
+              <Select value={fields.type || "any"} onValueChange={(value) => setField("type", value === "any" ? "" : value)}>
+                <SelectTrigger id="advanced-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Journal articles and blog posts</SelectItem>
+                  <SelectItem value="journal">Journal articles</SelectItem>
+                  <SelectItem value="blog">Blog posts</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm text-muted-foreground break-all">
+              {preview ? (
+                <>
+                  Searches for <code className="rounded bg-muted px-1 py-0.5 text-foreground">{preview}</code>
+                </>
+              ) : (
+                "Fill in any of the fields to build a search."
+              )}
+            </p>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => setFields(EMPTY_ADVANCED_FIELDS)}>
+                Clear
+              </Button>
+              <Button type="submit" disabled={!preview}>
+                Search
+              </Button>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            You can also type these into the search box: <code>"exact phrase"</code>, <code>OR</code>,{" "}
+            <code>NOT</code> or <code>-word</code>, parentheses, <code>author:</code>, <code>keyword:</code>,{" "}
+            <code>title:</code>, <code>abstract:</code>, <code>year:2023..2025</code> and <code>type:journal</code>.
+          </p>
+        </form>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -1,125 +1,170 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { Fragment, useState, useEffect, useMemo } from "react"
 import Link from "next/link"
 import Image from "next/image"
-import { Calendar, Clock, User, FileText, Search } from "lucide-react"
+import { format } from "date-fns"
+import { Calendar, Clock, User, FileText, Search, X } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardFooter } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { articles } from "@/lib/data"
-import { getAuthors } from "@/lib/authors"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { cn } from "@/lib/utils"
+import { searchSite, type SearchSiteResult } from "@/lib/actions/search-actions"
+import { getSearchUrl, type HighlightedText, type SearchFacet, type SearchFilter, type SearchParams } from "@/lib/search"
 
 interface SearchResultsProps {
   query: string
   filter?: string
   dialogMode?: boolean
+  // Facet selections and page, from the search page URL
+  issue?: string
+  year?: number
+  author?: string
+  page?: number
 }
 
-export function SearchResults({ query, filter = "all", dialogMode = false }: SearchResultsProps) {
-  const [results, setResults] = useState<any[]>([])
-  const [loading, setLoading] = useState(true)
-  const [authors, setAuthors] = useState<any[]>([])
-
-  useEffect(() => {
-    // Simulate loading
-    setLoading(true)
-
-    // Get authors data
-    const authorsList = getAuthors()
-    setAuthors(authorsList)
-
-    // Only perform search if query has minimum length
-    if (query.length > 1) {
-      // Perform search
-      const searchResults = performSearch(query, filter)
-
-      // Simulate async search
-      const timer = setTimeout(() => {
-        setResults(searchResults)
-        setLoading(false)
-      }, 300)
-
-      return () => clearTimeout(timer)
-    } else {
-      setResults([])
-      setLoading(false)
-    }
-  }, [query, filter])
-
-  const performSearch = (searchQuery: string, filterType: string) => {
-    const normalizedQuery = searchQuery.toLowerCase().trim()
-
-    if (!normalizedQuery) return []
-
-    let filteredResults: any[] = []
+function Highlighted({ parts }: { parts: HighlightedText }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.highlight ? (
+          <mark key={index} className="rounded-sm bg-amber-100 px-0.5 text-foreground">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  )
+}
 
-    // Search in articles (journals and blogs)
-    if (filterType === "all" || filterType === "journals" || filterType === "blogs") {
-      const filteredArticles = articles.filter((article) => {
-        // Filter by type if needed
-        if (filterType === "journals" && article.type !== "journal") return false
-        if (filterType === "blogs" && article.type !== "blog") return false
+// Parts of an advanced query that were ignored, so a typo isn't silently dropped
+function QueryWarnings({ warnings }: { warnings: string[] }) {
+  if (warnings.length === 0) return null
 
-        // Search in title
-        const titleMatch = article.title.toLowerCase().includes(normalizedQuery)
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+      <p className="font-medium">Part of your search was ignored:</p>
+      <ul className="list-disc pl-5">
+        {warnings.map((warning) => (
+          <li key={warning}>{warning}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
 
-        // Search in author
-        const authorMatch = article.author.toLowerCase().includes(normalizedQuery)
+interface FacetGroupProps {
+  title: string
+  facets: SearchFacet[]
+  selected?: string
+  getHref: (value: string | undefined) => string
+}
 
-        // Search in keywords
-        const keywordsMatch =
-          article.keywords?.some((keyword) => keyword.toLowerCase().includes(normalizedQuery)) || false
+function FacetGroup({ title, facets, selected, getHref }: FacetGroupProps) {
+  if (facets.length === 0) return null
 
-        // Search in categories (for backward compatibility)
-        const categoriesMatch =
-          article.categories?.some((category) => category.toLowerCase().includes(normalizedQuery)) || false
+  return (
+    <div>
+      <h3 className="mb-2 text-sm font-semibold">{title}</h3>
+      <ul className="space-y-1 text-sm">
+        {facets.map((facet) => {
+          const isSelected = facet.value === selected
+          return (
+            <li key={facet.value}>
+              <Link
+                href={getHref(isSelected ? undefined : facet.value)}
+                className={cn(
+                  "flex items-center justify-between gap-2 rounded-md px-2 py-1 hover:bg-accent",
+                  isSelected && "bg-accent font-medium"
+                )}
+              >
+                <span className="truncate">{facet.label}</span>
+                {isSelected ? (
+                  <X className="h-3 w-3 shrink-0" />
+                ) : (
+                  <span className="shrink-0 text-muted-foreground">{facet.count}</span>
+                )}
+              </Link>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
 
-        // Search in content (with lower priority)
-        const contentMatch = article.content.toLowerCase().includes(normalizedQuery)
+export function SearchResults({
+  query,
+  filter = "all",
+  dialogMode = false,
+  issue,
+  year,
+  author,
+  page = 1,
+}: SearchResultsProps) {
+  const [result, setResult] = useState<SearchSiteResult | null>(null)
+  const [loading, setLoading] = useState(true)
 
-        return titleMatch || authorMatch || keywordsMatch || categoriesMatch || contentMatch
-      })
+  const effectivePage = dialogMode ? 1 : page
+  const params: SearchParams = useMemo(
+    () => ({ query, filter: filter as SearchFilter, issue, year, author, page: effectivePage }),
+    [query, filter, issue, year, author, effectivePage]
+  )
 
-      // Add type property for rendering
-      filteredResults = [
-        ...filteredResults,
-        ...filteredArticles.map((article) => ({
-          ...article,
-          resultType: article.type,
-        })),
-      ]
-    }
+  useEffect(() => {
+    setLoading(true)
 
-    // Search in authors
-    if (filterType === "all" || filterType === "authors") {
-      const authorsList = getAuthors()
-      const filteredAuthors = authorsList.filter((author) => {
-        const nameMatch = author.name.toLowerCase().includes(normalizedQuery)
-        const bioMatch = author.bio?.toLowerCase().includes(normalizedQuery) || false
-        const expertiseMatch =
-          author.expertise?.some((exp: string) => exp.toLowerCase().includes(normalizedQuery)) || false
-
-        return nameMatch || bioMatch || expertiseMatch
-      })
-
-      // Add type property for rendering
-      filteredResults = [
-        ...filteredResults,
-        ...filteredAuthors.map((author) => ({
-          ...author,
-          resultType: "author",
-        })),
-      ]
+    // Only perform search if query has minimum length
+    if (params.query.trim().length < 2) {
+      setResult(null)
+      setLoading(false)
+      return
     }
 
-    // Limit results in dialog mode
-    if (dialogMode) {
-      return filteredResults.slice(0, 5)
+    let cancelled = false
+    // Wait for a pause in typing before searching
+    const timer = setTimeout(() => {
+      searchSite(params, dialogMode)
+        .then((response) => {
+          if (!cancelled) setResult(response)
+        })
+        .catch((error) => {
+          console.error("Search request failed:", error)
+          if (!cancelled) {
+            setResult({
+              success: false,
+              error: "Search is unavailable right now. Please try again later.",
+              articles: [],
+              authors: [],
+              total: 0,
+              page: params.page,
+              pageCount: 0,
+              facets: { type: [], issue: [], year: [], author: [] },
+              warnings: [],
+            })
+          }
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false)
+        })
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
     }
-
-    return filteredResults
-  }
+  }, [params, dialogMode])
 
   if (loading) {
     return (
@@ -132,161 +177,270 @@ export function SearchResults({ query, filter = "all", dialogMode = false }: Sea
     )
   }
 
-  if (results.length === 0) {
+  if (result && !result.success) {
+    return (
+      <div className={`p-4 ${dialogMode ? "" : "min-h-[300px]"} flex items-center justify-center`}>
+        <p className="text-muted-foreground">{result.error}</p>
+      </div>
+    )
+  }
+
+  const hasFacetSelection = Boolean(issue || year || author)
+
+  if (!result || (result.articles.length === 0 && result.authors.length === 0)) {
     return (
       <div className={`p-4 ${dialogMode ? "" : "min-h-[300px]"} flex items-center justify-center`}>
         <div className="flex flex-col items-center text-center">
+          {!dialogMode && result && (
+            <div className="mb-4 text-left">
+              <QueryWarnings warnings={result.warnings} />
+            </div>
+          )}
           <Search className="h-10 w-10 text-muted-foreground mb-2" />
           <p className="text-muted-foreground">No results found for "{query}"</p>
           <p className="text-sm text-muted-foreground mt-1">Try different keywords or filters</p>
+          {!dialogMode && hasFacetSelection && (
+            <Button asChild variant="link" size="sm" className="mt-2">
+              <Link href={getSearchUrl({ query, filter: params.filter })}>Clear filters</Link>
+            </Button>
+          )}
         </div>
       </div>
     )
   }
 
-  return (
-    <div className={dialogMode ? "p-2" : "space-y-6"}>
-      {results.map((result, index) => (
-        <div key={`${result.resultType}-${result.slug || result.id}-${index}`} className="mb-4">
-          {result.resultType === "journal" || result.resultType === "blog" ? (
-            <Card className={dialogMode ? "hover:bg-accent transition-colors" : ""}>
-              <CardContent className={dialogMode ? "p-3" : "p-4"}>
-                <div className="flex items-start gap-3">
-                  {!dialogMode && (
-                    <div className="hidden sm:block flex-shrink-0">
-                      <div className="relative w-20 h-20 overflow-hidden rounded-md">
-                        <Image
-                          src={result.image || "/placeholder.svg?height=80&width=80"}
-                          alt={result.title}
-                          fill
-                          className="object-cover"
-                        />
-                      </div>
+  // Facet links keep the other selections and go back to the first page
+  const withParams = (changes: Partial<SearchParams>) => getSearchUrl({ ...params, page: 1, ...changes })
+
+  const authorCards = result.authors.map((author) => (
+    <Card key={`author-${author.slug}`} className={dialogMode ? "hover:bg-accent transition-colors" : ""}>
+      <CardContent className={dialogMode ? "p-3" : "p-4"}>
+        <Link href={`/authors/${author.slug}`} className="hover:underline">
+          <h3 className={`font-semibold ${dialogMode ? "text-base" : "text-lg"}`}>{author.name}</h3>
+        </Link>
+
+        {author.title && <p className="text-sm text-muted-foreground">{author.title}</p>}
+
+        {!dialogMode && author.bio && <p className="text-muted-foreground text-sm mt-2 line-clamp-2">{author.bio}</p>}
+      </CardContent>
+
+      {!dialogMode && (
+        <CardFooter className="pt-0">
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/authors/${author.slug}`}>View Profile</Link>
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  ))
+
+  const articleCards = result.articles.map((article) => {
+    const href = `/${article.type === "journal" ? "journals" : "blogs"}/${article.slug}`
+
+    return (
+      <Card key={article.id} className={dialogMode ? "hover:bg-accent transition-colors" : ""}>
+        <CardContent className={dialogMode ? "p-3" : "p-4"}>
+          <div className="flex items-start gap-3">
+            {!dialogMode && (
+              <div className="hidden sm:block flex-shrink-0">
+                <div className="relative w-20 h-20 overflow-hidden rounded-md">
+                  <Image
+                    src={article.image || "/placeholder.svg?height=80&width=80"}
+                    alt={article.title.map((part) => part.text).join("")}
+                    fill
+                    className="object-cover"
+                  />
+                </div>
+              </div>
+            )}
+            <div className="flex-1">
+              <Link href={href} className="hover:underline">
+                <h3 className={`font-semibold ${dialogMode ? "text-base" : "text-lg"}`}>
+                  <Highlighted parts={article.title} />
+                </h3>
+              </Link>
+
+              <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground mt-1">
+                <div className="flex items-center gap-1">
+                  <FileText className="h-3 w-3" />
+                  <span className="capitalize">{article.type}</span>
+                </div>
+                {article.authors.length > 0 && (
+                  <div className="flex items-center gap-1">
+                    <User className="h-3 w-3" />
+                    <span>
+                      {article.authors.map((author, index) => (
+                        <span key={author.slug}>
+                          {index > 0 && ", "}
+                          <Link
+                            href={`/authors/${author.slug}`}
+                            className="hover:underline hover:text-primary transition-colors"
+                          >
+                            {author.name}
+                          </Link>
+                        </span>
+                      ))}
+                    </span>
+                  </div>
+                )}
+                {!dialogMode && (
+                  <>
+                    <div className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      <span>{format(new Date(article.publishedAt), "MMMM d, yyyy")}</span>
                     </div>
-                  )}
-                  <div className="flex-1">
-                    <Link
-                      href={`/${result.resultType === "journal" ? "journals" : "blogs"}/${result.slug}`}
-                      className="hover:underline"
-                    >
-                      <h3 className={`font-semibold ${dialogMode ? "text-base" : "text-lg"}`}>{result.title}</h3>
-                    </Link>
-
-                    <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground mt-1">
-                      <div className="flex items-center gap-1">
-                        <FileText className="h-3 w-3" />
-                        <span className="capitalize">{result.resultType}</span>
-                      </div>
+                    {article.readTime && (
                       <div className="flex items-center gap-1">
-                        <User className="h-3 w-3" />
-                        <Link
-                          href={`/authors/${result.authorSlug}`}
-                          className="hover:underline hover:text-primary transition-colors"
-                        >
-                          {result.author}
-                        </Link>
+                        <Clock className="h-3 w-3" />
+                        <span>{article.readTime} min read</span>
                       </div>
-                      {!dialogMode && (
-                        <>
-                          <div className="flex items-center gap-1">
-                            <Calendar className="h-3 w-3" />
-                            <span>{result.date}</span>
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <Clock className="h-3 w-3" />
-                            <span>{result.readTime} min read</span>
-                          </div>
-                        </>
-                      )}
-                    </div>
+                    )}
+                    {article.issue && (
+                      <span>
+                        Vol. {article.issue.volume}, Issue {article.issue.issue} ({article.issue.year})
+                      </span>
+                    )}
+                  </>
+                )}
+              </div>
 
-                    {!dialogMode && <p className="text-muted-foreground text-sm mt-2 line-clamp-2">{result.excerpt}</p>}
+              {!dialogMode && article.snippet.length > 0 && (
+                <p className="text-muted-foreground text-sm mt-2 line-clamp-3">
+                  <Highlighted parts={article.snippet} />
+                </p>
+              )}
 
-                    {!dialogMode && result.keywords && result.keywords.length > 0 && (
-                      <div className="flex flex-wrap gap-1 mt-3">
-                        {result.keywords.map((keyword: string) => (
-                          <Badge key={keyword} variant="outline" className="text-xs">
-                            {keyword}
-                          </Badge>
-                        ))}
-                      </div>
-                    )}
-                  </div>
+              {!dialogMode && article.keywords.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-3">
+                  {article.keywords.map((keyword) => (
+                    <Badge key={keyword} variant="outline" className="text-xs">
+                      {keyword}
+                    </Badge>
+                  ))}
                 </div>
-              </CardContent>
-
-              {!dialogMode && (
-                <CardFooter className="pt-0">
-                  <Button asChild variant="outline" size="sm">
-                    <Link href={`/${result.resultType === "journal" ? "journals" : "blogs"}/${result.slug}`}>
-                      Read {result.resultType === "journal" ? "Article" : "Blog"}
-                    </Link>
-                  </Button>
-                </CardFooter>
               )}
-            </Card>
-          ) : (
-            result.resultType === "author" && (
-              <Card className={dialogMode ? "hover:bg-accent transition-colors" : ""}>
-                <CardContent className={dialogMode ? "p-3" : "p-4"}>
-                  <div className="flex items-center gap-3">
-                    {!dialogMode && (
-                      <div className="hidden sm:block flex-shrink-0">
-                        <div className="relative w-12 h-12 overflow-hidden rounded-full">
-                          <Image
-                            src={result.image || "/placeholder.svg?height=48&width=48&query=person"}
-                            alt={result.name}
-                            fill
-                            className="object-cover"
-                          />
-                        </div>
-                      </div>
-                    )}
-                    <div className="flex-1">
-                      <Link href={`/authors/${result.slug}`} className="hover:underline">
-                        <h3 className={`font-semibold ${dialogMode ? "text-base" : "text-lg"}`}>{result.name}</h3>
-                      </Link>
-
-                      {result.title && <p className="text-sm text-muted-foreground">{result.title}</p>}
-
-                      {!dialogMode && result.expertise && result.expertise.length > 0 && (
-                        <div className="flex flex-wrap gap-1 mt-2">
-                          {result.expertise.slice(0, 3).map((exp: string) => (
-                            <Badge key={exp} variant="outline" className="text-xs">
-                              {exp}
-                            </Badge>
-                          ))}
-                          {result.expertise.length > 3 && (
-                            <span className="text-xs text-muted-foreground">+{result.expertise.length - 3} more</span>
-                          )}
-                        </div>
-                      )}
-
-                      {!dialogMode && result.bio && (
-                        <p className="text-muted-foreground text-sm mt-2 line-clamp-2">{result.bio}</p>
-                      )}
-                    </div>
-                  </div>
-                </CardContent>
+            </div>
+          </div>
+        </CardContent>
+
+        {!dialogMode && (
+          <CardFooter className="pt-0">
+            <Button asChild variant="outline" size="sm">
+              <Link href={href}>Read {article.type === "journal" ? "Article" : "Blog"}</Link>
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    )
+  })
 
-                {!dialogMode && (
-                  <CardFooter className="pt-0">
-                    <Button asChild variant="outline" size="sm">
-                      <Link href={`/authors/${result.slug}`}>View Profile</Link>
-                    </Button>
-                  </CardFooter>
-                )}
-              </Card>
-            )
-          )}
-        </div>
-      ))}
+  if (dialogMode) {
+    return (
+      <div className="p-2 space-y-4">
+        {authorCards}
+        {articleCards}
+        {result.total > result.articles.length && (
+          <div className="text-center text-sm text-muted-foreground p-2">
+            <p>Showing the top {result.articles.length} of {result.total} results. Search to see more.</p>
+          </div>
+        )}
+      </div>
+    )
+  }
 
-      {dialogMode && results.length > 4 && (
-        <div className="text-center text-sm text-muted-foreground p-2">
-          <p>Showing top 5 results. Search to see more.</p>
-        </div>
+  const { facets } = result
+  const showFacets = filter !== "authors"
+
+  return (
+    <div className={cn("grid gap-8", showFacets && "md:grid-cols-[200px_1fr]")}>
+      {showFacets && (
+        <aside className="space-y-6">
+          <FacetGroup
+            title="Type"
+            facets={facets.type.map((facet) => ({ ...facet, value: facet.value === "journal" ? "journals" : "blogs" }))}
+            selected={filter}
+            getHref={(value) => withParams({ filter: (value as SearchFilter | undefined) ?? "all" })}
+          />
+          <FacetGroup
+            title="Issue"
+            facets={facets.issue}
+            selected={issue}
+            getHref={(value) => withParams({ issue: value })}
+          />
+          <FacetGroup
+            title="Year"
+            facets={facets.year}
+            selected={year?.toString()}
+            getHref={(value) => withParams({ year: value ? Number(value) : undefined })}
+          />
+          <FacetGroup
+            title="Author"
+            facets={facets.author}
+            selected={author}
+            getHref={(value) => withParams({ author: value })}
+          />
+        </aside>
       )}
+
+      <div className="space-y-6">
+        <QueryWarnings warnings={result.warnings} />
+
+        <p className="text-sm text-muted-foreground">
+          {result.total} {filter === "authors" ? "author" : "result"}
+          {result.total === 1 ? "" : "s"}
+          {result.pageCount > 1 && ` · page ${result.page} of ${result.pageCount}`}
+        </p>
+
+        {authorCards.length > 0 && (
+          <div className="space-y-4">
+            {filter === "all" && <h2 className="text-sm font-semibold uppercase tracking-wide">Authors</h2>}
+            {authorCards}
+          </div>
+        )}
+
+        {articleCards.length > 0 && (
+          <div className="space-y-4">
+            {filter === "all" && authorCards.length > 0 && (
+              <h2 className="text-sm font-semibold uppercase tracking-wide">Articles</h2>
+            )}
+            {articleCards}
+          </div>
+        )}
+
+        {result.pageCount > 1 && (
+          <Pagination>
+            <PaginationContent>
+              {result.page > 1 && (
+                <PaginationItem>
+                  <PaginationPrevious href={getSearchUrl({ ...params, page: result.page - 1 })} />
+                </PaginationItem>
+              )}
+              {Array.from({ length: result.pageCount }, (_, index) => index + 1)
+                // The first, the last and the pages around the current one
+                .filter((number) => number === 1 || number === result.pageCount || Math.abs(number - result.page) <= 2)
+                .map((number, index, shown) => (
+                  <Fragment key={number}>
+                    {index > 0 && number - shown[index - 1] > 1 && (
+                      <PaginationItem>
+                        <PaginationEllipsis />
+                      </PaginationItem>
+                    )}
+                    <PaginationItem>
+                      <PaginationLink href={getSearchUrl({ ...params, page: number })} isActive={number === result.page}>
+                        {number}
+                      </PaginationLink>
+                    </PaginationItem>
+                  </Fragment>
+                ))}
+              {result.page < result.pageCount && (
+                <PaginationItem>
+                  <PaginationNext href={getSearchUrl({ ...params, page: result.page + 1 })} />
+                </PaginationItem>
+              )}
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
     </div>
   )
 }
@@ -0,0 +1,205 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { format } from "date-fns"
+import { AlertCircle, CheckCircle2, Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { submitManuscript } from "@/lib/actions/submission-actions"
+
+interface OpenCall {
+  id: string
+  title: string
+  volume: number
+  issue: string
+  year: number
+  deadline: string
+}
+
+interface SubmissionFormProps {
+  calls: OpenCall[]
+}
+
+const NO_CALL = "general"
+
+export function SubmissionForm({ calls }: SubmissionFormProps) {
+  const formRef = useRef<HTMLFormElement>(null)
+  const [formState, setFormState] = useState<"idle" | "submitting" | "success" | "error">("idle")
+  const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[] | undefined>>({})
+  const [reference, setReference] = useState<string | null>(null)
+  const [type, setType] = useState<"journal" | "blog">("journal")
+  const [callId, setCallId] = useState<string>(NO_CALL)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setFormState("submitting")
+    setError(null)
+    setFieldErrors({})
+
+    const formData = new FormData(e.currentTarget)
+    formData.set("type", type)
+    if (callId !== NO_CALL) {
+      formData.set("callForPapersId", callId)
+    }
+
+    try {
+      const result = await submitManuscript(formData)
+
+      if (result.success) {
+        setFormState("success")
+        setReference(result.reference || null)
+        formRef.current?.reset()
+        setCallId(NO_CALL)
+      } else {
+        setFormState("error")
+        setError(result.error || "Failed to submit manuscript")
+        setFieldErrors(("errors" in result && result.errors) || {})
+      }
+    } catch (err) {
+      setFormState("error")
+      setError("There was an error submitting your manuscript. Please try again later.")
+    }
+  }
+
+  const fieldError = (name: string) =>
+    fieldErrors[name]?.length ? <p className="text-sm text-red-600">{fieldErrors[name]![0]}</p> : null
+
+  return (
+    <div className="bg-card rounded-lg p-6 shadow-sm border text-left">
+      <h3 className="text-2xl font-semibold mb-2">Submit Online</h3>
+      <p className="text-base text-stone-600 mb-6">
+        Upload your anonymized manuscript and a separate title page. You will receive a reference number once your
+        submission has been received.
+      </p>
+
+      {formState === "success" && (
+        <div className="mb-6 p-4 bg-green-50 text-green-700 rounded-md flex items-start">
+          <CheckCircle2 className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+          <div>
+            <p>Thank you! Your manuscript has been received and will be reviewed by our editors.</p>
+            {reference && (
+              <p className="mt-1 text-sm">
+                Reference number: <span className="font-mono font-medium">{reference}</span>
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {formState === "error" && error && (
+        <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-md flex items-start">
+          <AlertCircle className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      <form ref={formRef} onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="submission-type">Submission Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as "journal" | "blog")}>
+              <SelectTrigger id="submission-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="journal">Journal Article</SelectItem>
+                <SelectItem value="blog">Blog Post</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="submission-call">Call for Papers</Label>
+            <Select value={callId} onValueChange={setCallId}>
+              <SelectTrigger id="submission-call">
+                <SelectValue placeholder="General submission" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CALL}>General submission</SelectItem>
+                {calls.map((call) => (
+                  <SelectItem key={call.id} value={call.id}>
+                    {call.title} (Vol. {call.volume}, Issue {call.issue} · due {format(new Date(call.deadline), "MMM d, yyyy")})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="title">Manuscript Title</Label>
+          <Input id="title" name="title" placeholder="Title of your manuscript" required />
+          {fieldError("title")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="abstract">Abstract</Label>
+          <Textarea id="abstract" name="abstract" placeholder="Abstract (at least 50 characters)" rows={5} required />
+          {fieldError("abstract")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="keywords">Keywords</Label>
+          <Input id="keywords" name="keywords" placeholder="Comma separated, e.g. federalism, privacy" />
+          {fieldError("keywords")}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="authorName">Corresponding Author</Label>
+            <Input id="authorName" name="authorName" placeholder="Full name" required />
+            {fieldError("authorName")}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="authorEmail">Email</Label>
+            <Input id="authorEmail" name="authorEmail" type="email" placeholder="your.email@example.com" required />
+            {fieldError("authorEmail")}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="authorAffiliation">Affiliation</Label>
+          <Input id="authorAffiliation" name="authorAffiliation" placeholder="University or organisation" />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="coverLetter">Note to the Editors</Label>
+          <Textarea id="coverLetter" name="coverLetter" placeholder="Optional cover letter" rows={3} />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="manuscript">Anonymized Manuscript (.doc/.docx)</Label>
+            <Input id="manuscript" name="manuscript" type="file" accept=".doc,.docx" required />
+            <p className="text-xs text-muted-foreground">Remove all identifying information from this file.</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="titlePage">Title Page (.doc/.docx)</Label>
+            <Input id="titlePage" name="titlePage" type="file" accept=".doc,.docx" required />
+            <p className="text-xs text-muted-foreground">Include author names, affiliations and a short bio.</p>
+          </div>
+        </div>
+
+        <Button type="submit" size="lg" className="w-full rounded-sm" disabled={formState === "submitting"}>
+          {formState === "submitting" ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Uploading...
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Submit Manuscript
+            </>
+          )}
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "error"
+
+interface UseAutosaveOptions<T> {
+  enabled: boolean
+  getValues: () => T
+  save: (values: T) => Promise<{ success: boolean; data?: { savedAt: string } }>
+  intervalMs?: number
+}
+
+/**
+ * Periodically saves form values while they differ from the last saved (or
+ * loaded) snapshot, and once more when the tab is hidden or closed.
+ */
+export function useAutosave<T>({ enabled, getValues, save, intervalMs = 15000 }: UseAutosaveOptions<T>) {
+  const [status, setStatus] = useState<AutosaveStatus>("idle")
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+  const snapshotRef = useRef<string | null>(null)
+  const savingRef = useRef(false)
+
+  // Treat the given values as saved, e.g. right after loading the article
+  const markClean = useCallback((values: T) => {
+    snapshotRef.current = JSON.stringify(values)
+    setStatus("idle")
+  }, [])
+
+  const flush = useCallback(async () => {
+    if (savingRef.current) return
+
+    const values = getValues()
+    const snapshot = JSON.stringify(values)
+    if (snapshot === snapshotRef.current) return
+
+    savingRef.current = true
+    setStatus("saving")
+    try {
+      const result = await save(values)
+      if (result.success) {
+        snapshotRef.current = snapshot
+        setLastSavedAt(result.data ? new Date(result.data.savedAt) : new Date())
+        setStatus("saved")
+      } else {
+        setStatus("error")
+      }
+    } catch (error) {
+      console.error("Autosave failed:", error)
+      setStatus("error")
+    } finally {
+      savingRef.current = false
+    }
+  }, [getValues, save])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const interval = setInterval(flush, intervalMs)
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        flush()
+      }
+    }
+
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [enabled, flush, intervalMs])
+
+  return { status, lastSavedAt, markClean, flush }
+}
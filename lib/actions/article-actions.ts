@@ -1,10 +1,15 @@
 "use server"
 
-import { revalidatePath } from "next/cache"
+import { revalidatePath, revalidateTag } from "next/cache"
+import { ARTICLE_FEEDS_TAG } from "@/lib/feeds"
 import { getCurrentUser } from "@/lib/auth"
 import { checkPermission } from "@/lib/permissions/checker"
 import { UserWithPermissions } from "@/lib/permissions/types"
 import { prisma } from "@/lib/prisma"
+import { recordArticleRevision } from "@/lib/controllers/article-revisions"
+import { deleteArticlePdfSnapshotFile } from "@/lib/controllers/article-pdf-snapshots"
+import { issuePlacementReset, syncArticlePdfSnapshot } from "@/lib/controllers/articles"
+import { describeSanitizeReport, hasSanitizeChanges, sanitizeArticleContent } from "@/lib/sanitize"
 
 // Helper function to get current user with permissions
 async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
@@ -112,8 +117,14 @@ export async function createArticle(data: {
       return { success: false, error: "At least one valid author is required" }
     }
 
+    // Strip anything outside the editor's allow-list before it is stored
+    const sanitized = sanitizeArticleContent(data.content)
+    if (hasSanitizeChanges(sanitized.report)) {
+      console.warn(`🧹 Stripped disallowed markup from new article ${slug}:`, sanitized.report)
+    }
+
     // Calculate read time
-    const readTime = data.readTime || calculateReadTime(data.content)
+    const readTime = data.readTime || calculateReadTime(sanitized.content)
 
     // Create the article with authors in a transaction
     const article = await prisma.$transaction(async (tx) => {
@@ -123,11 +134,12 @@ export async function createArticle(data: {
           title: data.title,
           slug,
           abstract: data.abstract || data.content.substring(0, 200) + "...",
-          content: data.content,
+          content: sanitized.content,
           type: data.type,
           image: data.image || null,
           readTime,
           publishedAt: new Date(),
+          status: "published",
           keywords: data.keywords || [],
           issueId: data.journalIssueId || null,
           featured: data.featured || false,
@@ -137,6 +149,12 @@ export async function createArticle(data: {
         }
       })
 
+      await recordArticleRevision(tx, {
+        articleId: newArticle.id,
+        current: newArticle,
+        editorId: currentUser.id,
+      })
+
       // Create author-article relationships
       for (let i = 0; i < authors.length; i++) {
         await tx.authorArticle.create({
@@ -153,16 +171,19 @@ export async function createArticle(data: {
 
     console.log(`✅ Article created successfully: ${article.title}`)
 
+    await syncArticlePdfSnapshot(article.id)
+
     // Revalidate relevant paths
     revalidatePath("/")
     revalidatePath("/blogs")
     revalidatePath("/journals")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     revalidatePath("/featured")
     revalidatePath(`/${data.type === "blog" ? "blogs" : "journals"}/${article.slug}`)
     revalidatePath("/admin/posts")
     revalidatePath("/admin/journal-articles")
 
-    return { success: true, article }
+    return { success: true, article, sanitizeWarning: describeSanitizeReport(sanitized.report) }
   } catch (error) {
     console.error("Error creating article:", error)
     return { success: false, error: "Failed to create article" }
@@ -238,10 +259,16 @@ export async function updateArticle(
       }
     }
 
+    // Strip anything outside the editor's allow-list before it is stored
+    const sanitized = data.content ? sanitizeArticleContent(data.content) : null
+    if (sanitized && hasSanitizeChanges(sanitized.report)) {
+      console.warn(`🧹 Stripped disallowed markup from article ${slug}:`, sanitized.report)
+    }
+
     // Calculate new read time if content is updated
     let readTime = existingArticle.readTime
-    if (data.content) {
-      readTime = data.readTime || calculateReadTime(data.content)
+    if (sanitized) {
+      readTime = data.readTime || calculateReadTime(sanitized.content)
     }
 
     // Handle authors if provided
@@ -260,7 +287,7 @@ export async function updateArticle(
         where: { id: existingArticle.id },
         data: {
           ...(data.title && { title: data.title, slug: newSlug }),
-          ...(data.content && { content: data.content, readTime }),
+          ...(sanitized && { content: sanitized.content, readTime }),
           ...(data.abstract !== undefined && { abstract: data.abstract }),
           ...(data.image !== undefined && { image: data.image }),
           ...(data.type && { type: data.type }),
@@ -268,11 +295,19 @@ export async function updateArticle(
           ...(data.carousel !== undefined && { carousel: data.carousel }),
           ...(data.keywords !== undefined && { keywords: data.keywords }),
           ...(data.journalIssueId !== undefined && { issueId: data.journalIssueId }),
+          ...issuePlacementReset(existingArticle.issueId, data.journalIssueId),
           ...(data.contentLink !== undefined && { contentLink: data.contentLink }),
           ...(data.archived !== undefined && { archived: data.archived }),
         }
       })
 
+      await recordArticleRevision(tx, {
+        articleId: article.id,
+        current: article,
+        previous: existingArticle,
+        editorId: currentUser.id,
+      })
+
       // Update author relationships if authors were provided
       if (authors.length > 0) {
         // Remove all existing author relationships
@@ -297,16 +332,23 @@ export async function updateArticle(
 
     console.log(`✅ Article updated successfully: ${updatedArticle.title}`)
 
+    await syncArticlePdfSnapshot(updatedArticle.id)
+
     // Revalidate relevant paths
     revalidatePath("/")
     revalidatePath("/blogs")
     revalidatePath("/journals")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     revalidatePath("/featured")
     revalidatePath(`/${data.type === "blog" ? "blogs" : "journals"}/${updatedArticle.slug}`)
     revalidatePath("/admin/posts")
     revalidatePath("/admin/journal-articles")
 
-    return { success: true, article: updatedArticle }
+    return {
+      success: true,
+      article: updatedArticle,
+      sanitizeWarning: sanitized ? describeSanitizeReport(sanitized.report) : null,
+    }
   } catch (error) {
     console.error("Error updating article:", error)
     return { success: false, error: "Failed to update article" }
@@ -353,12 +395,15 @@ export async function deleteArticle(slug: string) {
       where: { id: existingArticle.id }
     })
 
+    await deleteArticlePdfSnapshotFile(existingArticle.pdfSnapshotPath)
+
     console.log(`🗑️ Article deleted: ${existingArticle.title}`)
 
     // Revalidate relevant paths
     revalidatePath("/")
     revalidatePath("/blogs")
     revalidatePath("/journals")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     revalidatePath("/featured")
     revalidatePath("/admin/posts")
     revalidatePath("/admin/journal-articles")
@@ -479,6 +524,7 @@ export async function toggleArticleArchive(slug: string) {
     revalidatePath("/")
     revalidatePath("/blogs")
     revalidatePath("/journals")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     revalidatePath("/admin/posts")
     revalidatePath("/admin/journal-articles")
 
@@ -505,16 +551,16 @@ export async function incrementArticleViews(slug: string) {
   }
 }
 
+// Raw SQL so a download doesn't count as an edit: Prisma would bump
+// updatedAt, which the stale-save check, OAI-PMH, the sitemap and feeds read
 export async function incrementArticleDownloads(slug: string) {
   try {
-    const updatedArticle = await prisma.article.update({
-      where: { slug },
-      data: {
-        downloadCount: { increment: 1 }
-      }
-    })
+    const updated = await prisma.$executeRaw`UPDATE "Article" SET "downloadCount" = "downloadCount" + 1 WHERE slug = ${slug}`
+    if (updated === 0) {
+      return { success: false, error: "Article not found" }
+    }
 
-    return { success: true, article: updatedArticle }
+    return { success: true }
   } catch (error) {
     console.error("Error incrementing article downloads:", error)
     return { success: false, error: "Failed to increment article downloads" }
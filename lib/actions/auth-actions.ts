@@ -3,9 +3,18 @@
 import { signIn, signOut } from "next-auth/react"
 import { redirect } from "next/navigation"
 import { z } from "zod"
-import { generateOTP } from "@/lib/email-utils"
+import { generateOTP, sendEmail } from "@/lib/email-utils"
+import { otpEmail } from "@/lib/email/templates"
 import prisma from "@/lib/prisma"
 import { hashPassword } from "@/lib/auth-utils"
+import { consumeOTP, OTP_TTL_MS, storeOTP, verifyOTP } from "@/lib/controllers/password-reset"
+import { rateLimit } from "@/lib/rate-limit"
+
+// 3 reset codes per email address in a 15-minute window
+const resetLimiter = rateLimit({
+  interval: 15 * 60 * 1000,
+  uniqueTokenPerInterval: 500,
+})
 
 // Login schema with validation
 const LoginSchema = z.object({
@@ -98,6 +107,19 @@ export async function resetPassword(formData: FormData) {
 
   const { email } = validatedFields.data
 
+  // Limited before the lookup, so registered and unknown emails hit the limit
+  // alike and the response doesn't reveal which have accounts
+  try {
+    await resetLimiter.check(3, email.toLowerCase())
+  } catch (error) {
+    return {
+      success: false,
+      errors: {
+        _form: ["Too many reset requests. Please try again later."],
+      },
+    }
+  }
+
   // Check if user exists
   const user = await prisma.user.findUnique({
     where: { email },
@@ -113,13 +135,15 @@ export async function resetPassword(formData: FormData) {
 
   try {
     // Generate OTP
-    const otp = generateOTP()
+    const otp = await generateOTP()
 
-    // Store OTP (in a real app, this would be in a database with expiration)
+    // Only a hash of the OTP is stored, with an expiry and attempt limit
     await storeOTP(email, otp)
 
-    // In a real app, you would send an email with the OTP
-    console.log(`OTP for ${email}: ${otp}`)
+    await sendEmail({
+      to: email,
+      ...otpEmail({ otp, expiresInMinutes: OTP_TTL_MS / 60000 }),
+    })
 
     return {
       success: true,
@@ -194,10 +218,10 @@ export async function setNewPassword(formData: FormData) {
   const { email, otp, password } = validatedFields.data
 
   try {
-    // Verify OTP one more time
-    const isValid = await verifyOTP(email, otp)
+    // Verify the OTP one more time and use it up so it can't be replayed
+    const userId = await consumeOTP(email, otp)
 
-    if (!isValid) {
+    if (!userId) {
       return {
         success: false,
         errors: {
@@ -209,10 +233,19 @@ export async function setNewPassword(formData: FormData) {
     // Update user password
     const hashedPassword = await hashPassword(password)
 
-    await prisma.user.update({
-      where: { email },
-      data: { password: hashedPassword },
-    })
+    // Bumping sessionVersion signs the user out of every existing session
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          password: hashedPassword,
+          sessionVersion: { increment: 1 },
+        },
+      }),
+      prisma.passwordResetToken.deleteMany({
+        where: { userId },
+      }),
+    ])
 
     return {
       success: true,
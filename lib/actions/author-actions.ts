@@ -1,7 +1,8 @@
 // lib/actions/author-actions.ts - Updated for actual schema
 "use server"
 
-import { revalidatePath } from "next/cache"
+import { revalidatePath, revalidateTag } from "next/cache"
+import { ARTICLE_FEEDS_TAG } from "@/lib/feeds"
 import { getCurrentUser } from "@/lib/auth"
 import { checkPermission } from "@/lib/permissions/checker"
 import { UserWithPermissions } from "@/lib/permissions/types"
@@ -140,6 +141,7 @@ export async function createNewAuthor(data: z.infer<typeof authorSchema>) {
     
     revalidatePath("/admin/authors")
     revalidatePath("/authors")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     
     return { success: true, data: author }
   } catch (error) {
@@ -200,6 +202,7 @@ export async function updateExistingAuthor(slug: string, data: Partial<z.infer<t
     revalidatePath("/admin/authors")
     revalidatePath(`/authors/${slug}`)
     revalidatePath(`/authors/${author.slug}`)
+    revalidateTag(ARTICLE_FEEDS_TAG)
     
     return { success: true, data: author }
   } catch (error) {
@@ -263,6 +266,7 @@ export async function deleteExistingAuthor(slug: string) {
     
     revalidatePath("/admin/authors")
     revalidatePath("/authors")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     
     return { success: true }
   } catch (error) {
@@ -0,0 +1,143 @@
+"use server"
+
+import { getCurrentUser } from "@/lib/auth"
+import { checkPermission } from "@/lib/permissions/checker"
+import { UserWithPermissions } from "@/lib/permissions/types"
+import { deleteArticleDrafts, getArticleDraft, saveArticleDraft } from "@/lib/controllers/article-drafts"
+import prisma from "@/lib/prisma"
+
+// Keeps a runaway form (e.g. pasted base64 images) from filling the table
+const MAX_DRAFT_SIZE = 2 * 1024 * 1024
+
+// Helper function to get current user with permissions
+async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return null
+
+    if ('role' in user && user.role) {
+      return user as UserWithPermissions
+    }
+
+    const fullUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { role: true }
+    })
+
+    return fullUser as UserWithPermissions
+  } catch (error) {
+    console.error('Error getting user with permissions:', error)
+    return null
+  }
+}
+
+// Editing an article needs article.UPDATE, starting a new one article.CREATE
+function checkDraftPermission(user: UserWithPermissions, articleId: string | null) {
+  return checkPermission(user, articleId ? 'article.UPDATE' : 'article.CREATE')
+}
+
+/**
+ * Autosave the editor's unsaved form values. Nothing is published: the
+ * working draft is only offered back to the same editor when they return.
+ */
+export async function saveWorkingDraft(input: {
+  articleId: string | null
+  type: "blog" | "journal"
+  data: Record<string, unknown>
+  baseVersion: number | null
+}) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkDraftPermission(currentUser, input.articleId)
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to save drafts" }
+    }
+
+    if (JSON.stringify(input.data).length > MAX_DRAFT_SIZE) {
+      return { success: false, error: "The draft is too large to autosave" }
+    }
+
+    const draft = await saveArticleDraft({
+      userId: currentUser.id,
+      articleId: input.articleId,
+      type: input.type,
+      data: JSON.parse(JSON.stringify(input.data)),
+      baseVersion: input.baseVersion,
+    })
+
+    return { success: true, data: { savedAt: draft.updatedAt.toISOString() } }
+  } catch (error) {
+    console.error("Failed to autosave working draft:", error)
+    return { success: false, error: "Failed to autosave" }
+  }
+}
+
+/**
+ * The editor's working draft, if they left one behind. `stale` means the
+ * article has been saved since the draft was started, so restoring it will
+ * run into the conflict check on save.
+ */
+export async function getWorkingDraft(articleId: string | null, type: "blog" | "journal") {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkDraftPermission(currentUser, articleId)
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to view drafts" }
+    }
+
+    const draft = await getArticleDraft({ userId: currentUser.id, articleId, type })
+
+    if (!draft) {
+      return { success: true, data: null }
+    }
+
+    let stale = false
+    if (articleId) {
+      const article = await prisma.article.findUnique({
+        where: { id: articleId },
+        select: { version: true }
+      })
+      stale = !!article && (draft.baseVersion === null || article.version > draft.baseVersion)
+    }
+
+    return {
+      success: true,
+      data: {
+        data: draft.data as Record<string, unknown>,
+        savedAt: draft.updatedAt.toISOString(),
+        baseVersion: draft.baseVersion,
+        stale,
+      },
+    }
+  } catch (error) {
+    console.error("Failed to fetch working draft:", error)
+    return { success: false, error: "Failed to fetch working draft" }
+  }
+}
+
+export async function discardWorkingDraft(articleId: string | null, type: "blog" | "journal") {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    await deleteArticleDrafts({ userId: currentUser.id, articleId, type })
+
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to discard working draft:", error)
+    return { success: false, error: "Failed to discard working draft" }
+  }
+}
@@ -8,6 +8,9 @@ import { checkPermission } from "@/lib/permissions/checker"
 import { UserWithPermissions } from "@/lib/permissions/types"
 import { NotificationType, Priority } from "@prisma/client"
 import { format } from "date-fns"
+import { queueEmail } from "@/lib/email-utils"
+import { callForPapersEmail } from "@/lib/email/templates"
+import { sanitizeNotification } from "@/lib/sanitize"
 
 // Helper function to get current user with permissions
 async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
@@ -436,8 +439,10 @@ Don't miss this opportunity to contribute to our journal!`
           where: { id: associatedNotification.id },
           data: {
             title: call.title,
-            content: notificationContent,
-            linkUrl: call.contentLink || `/call-for-papers/${call.id}`,
+            ...sanitizeNotification({
+              content: notificationContent,
+              linkUrl: call.contentLink || `/call-for-papers/${call.id}`,
+            }).data,
             expiresAt: call.deadline,
           },
         })
@@ -557,6 +562,61 @@ export async function deleteCallForPapers(id: string) {
   }
 }
 
+const announcementRecipientsSchema = z.array(
+  z.string().trim().toLowerCase().email("Invalid email address")
+).min(1, "Add at least one recipient").max(500, "At most 500 recipients per announcement")
+
+// Emails the call for papers to a list of recipients through the mail queue
+export async function announceCallForPapers(id: string, recipients: string[]) {
+  try {
+    console.log(`📣 Announcing call for papers: ${id}`)
+
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return createErrorResponse("Authentication required")
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'callforpapers.UPDATE')
+    if (!permissionCheck.allowed) {
+      return createErrorResponse(
+        permissionCheck.reason || "You don't have permission to announce calls for papers"
+      )
+    }
+
+    const validation = announcementRecipientsSchema.safeParse(recipients)
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, validation.error.errors)
+    }
+
+    const call = await prisma.callForPapers.findUnique({
+      where: { id },
+    })
+
+    if (!call) {
+      return createErrorResponse("Call for papers not found.")
+    }
+
+    if (call.deadline <= new Date()) {
+      return createErrorResponse("The deadline for this call for papers has passed.")
+    }
+
+    const content = callForPapersEmail(call)
+    const uniqueRecipients = Array.from(new Set(validation.data))
+
+    for (const to of uniqueRecipients) {
+      await queueEmail({ to, ...content })
+    }
+
+    console.log(`✅ User ${currentUser.email} queued "${call.title}" announcement for ${uniqueRecipients.length} recipients`)
+
+    return { success: true, queued: uniqueRecipients.length }
+  } catch (error: any) {
+    console.error("❌ Failed to announce call for papers:", error)
+    return createErrorResponse("Failed to send the announcement. Please try again.", error.message)
+  }
+}
+
 // Get active calls for papers for public display (no auth required)
 export async function getActiveCallsForPapers() {
   try {
@@ -0,0 +1,97 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getCurrentUser } from "@/lib/auth"
+import { checkPermission } from "@/lib/permissions/checker"
+import { UserWithPermissions } from "@/lib/permissions/types"
+import { getCrossrefDeposit } from "@/lib/controllers/crossref-deposits"
+import { getDoiConfig, isValidDoiPrefix } from "@/lib/doi"
+import prisma from "@/lib/prisma"
+
+// Helper function to get current user with permissions
+async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return null
+
+    if ('role' in user && user.role) {
+      return user as UserWithPermissions
+    }
+
+    const fullUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { role: true }
+    })
+
+    return fullUser as UserWithPermissions
+  } catch (error) {
+    console.error('Error getting user with permissions:', error)
+    return null
+  }
+}
+
+/**
+ * Generate the Crossref deposit XML for an issue, assigning DOIs to the
+ * issue and any of its published articles that don't have one yet. The file
+ * is checked against the Crossref schema first; `problems` lists what failed.
+ */
+export async function generateCrossrefDeposit(issueId: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    // Assigning DOIs changes the issue and its articles
+    const permissionCheck = checkPermission(currentUser, 'journalissue.UPDATE')
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to register DOIs for this issue" }
+    }
+
+    const config = getDoiConfig()
+    if (!config.prefix || !isValidDoiPrefix(config.prefix)) {
+      return { success: false, error: "DOI_PREFIX is not set to a valid DOI prefix (for example 10.12345)" }
+    }
+    if (!config.depositorEmail) {
+      return { success: false, error: "CROSSREF_DEPOSITOR_EMAIL is not set" }
+    }
+
+    const deposit = await getCrossrefDeposit(issueId, {
+      prefix: config.prefix,
+      depositorName: config.depositorName,
+      depositorEmail: config.depositorEmail,
+      issn: config.issn,
+    })
+
+    if (!deposit) {
+      return { success: false, error: "Journal issue not found" }
+    }
+
+    if (deposit.xml === null) {
+      return { success: false, error: "This issue has no published articles to register" }
+    }
+
+    if (deposit.problems.length > 0) {
+      console.error(`❌ Crossref deposit for volume ${deposit.issue.volume}, issue ${deposit.issue.issue} failed validation:`, deposit.problems)
+      return {
+        success: false,
+        error: "The deposit did not pass validation against the Crossref schema",
+        problems: deposit.problems,
+      }
+    }
+
+    console.log(`🔖 User ${currentUser.email} generated a Crossref deposit for volume ${deposit.issue.volume}, issue ${deposit.issue.issue} (${deposit.articleCount} articles, ${deposit.assignedDoiCount} new DOIs)`)
+
+    if (deposit.assignedDoiCount > 0) {
+      revalidatePath("/admin/journals")
+      revalidatePath(`/admin/journals/${issueId}/edit`)
+      deposit.articleSlugs.forEach((slug) => revalidatePath(`/journals/${slug}`))
+    }
+
+    return { success: true, xml: deposit.xml, filename: deposit.filename }
+  } catch (error) {
+    console.error(`Failed to generate Crossref deposit for issue ${issueId}:`, error)
+    return { success: false, error: "Failed to generate the Crossref deposit" }
+  }
+}
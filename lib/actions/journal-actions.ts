@@ -1,7 +1,8 @@
 // lib/actions/journal-actions.ts - Updated for actual schema
 "use server"
 
-import { revalidatePath } from "next/cache"
+import { revalidatePath, revalidateTag } from "next/cache"
+import { ARTICLE_FEEDS_TAG } from "@/lib/feeds"
 import { getCurrentUser } from "@/lib/auth"
 import { checkPermission } from "@/lib/permissions/checker"
 import { UserWithPermissions } from "@/lib/permissions/types"
@@ -11,7 +12,10 @@ import {
   getJournalIssueById,
   createJournalIssue as createJournalIssueController,
   updateJournalIssue as updateJournalIssueController,
-  deleteJournalIssue as deleteJournalIssueController
+  deleteJournalIssue as deleteJournalIssueController,
+  getIssueArticlesForOrdering,
+  reorderIssueArticles as reorderIssueArticlesController,
+  updateIssueArticlePages as updateIssueArticlePagesController
 } from "../controllers/journal-issues"
 import { z } from "zod"
 
@@ -48,6 +52,32 @@ const journalIssueSchema = z.object({
 
 export type JournalIssueFormData = z.infer<typeof journalIssueSchema>
 
+const pageNumber = z.coerce.number().int("Page numbers must be whole numbers").min(1, "Page numbers start at 1")
+
+const issueArticlePagesSchema = z.array(
+  z.object({
+    id: z.string().min(1),
+    startPage: pageNumber.nullable(),
+    endPage: pageNumber.nullable(),
+  })
+    .refine((pages) => pages.endPage === null || pages.startPage !== null, "An end page needs a start page")
+    .refine(
+      (pages) => pages.startPage === null || pages.endPage === null || pages.endPage >= pages.startPage,
+      "The end page cannot come before the start page"
+    )
+)
+
+export type IssueArticlePagesData = z.infer<typeof issueArticlePagesSchema>
+
+// Revalidate everywhere an issue's table of contents or citations appear
+function revalidateIssueArticles(issue: { id: string; volume: number; issue: number }, slugs: string[]) {
+  revalidatePath(`/admin/journals/${issue.id}/edit`)
+  revalidatePath("/journals")
+  revalidatePath("/journals/archive")
+  revalidatePath(`/journals/archive/volume/${issue.volume}/issue/${issue.issue}`)
+  slugs.forEach((slug) => revalidatePath(`/journals/${slug}`))
+}
+
 export async function getJournalIssues() {
   try {
     // Check authentication and permissions
@@ -217,6 +247,8 @@ export async function updateJournalIssue(id: string, data: JournalIssueFormData)
     revalidatePath("/admin/journals")
     revalidatePath(`/admin/journals/${id}/edit`)
     revalidatePath("/journals")
+    // Entries name their issue
+    revalidateTag(ARTICLE_FEEDS_TAG)
     
     return { success: true, issue }
   } catch (error) {
@@ -271,6 +303,7 @@ export async function deleteJournalIssue(id: string) {
 
     revalidatePath("/admin/journals")
     revalidatePath("/journals")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     
     return { success: true }
   } catch (error) {
@@ -279,6 +312,148 @@ export async function deleteJournalIssue(id: string) {
   }
 }
 
+// ADMIN: Articles assigned to an issue, in issue order, for arranging it
+export async function getIssueArticles(issueId: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+    
+    if (!currentUser) {
+      return { error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'journalissue.READ')
+    if (!permissionCheck.allowed) {
+      return { 
+        error: permissionCheck.reason || "You don't have permission to view journal issue details" 
+      }
+    }
+
+    const articles = await getIssueArticlesForOrdering(issueId)
+
+    return {
+      articles: articles.map(article => ({
+        id: article.id,
+        title: article.title,
+        slug: article.slug,
+        status: article.status,
+        publishedAt: article.publishedAt.toISOString(),
+        doi: article.doi,
+        issueOrder: article.issueOrder,
+        startPage: article.startPage,
+        endPage: article.endPage,
+        authors: article.authors.map(aa => aa.author.name).join(', '),
+      }))
+    }
+  } catch (error) {
+    console.error("Failed to fetch issue articles:", error)
+    return { error: "Failed to fetch issue articles" }
+  }
+}
+
+// ADMIN: Reorder the articles in an issue - mirrors reorderBoardMembers
+export async function reorderIssueArticles(issueId: string, orderedIds: string[]) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+    
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    // Reordering is an update to the issue
+    const permissionCheck = checkPermission(currentUser, 'journalissue.UPDATE')
+    if (!permissionCheck.allowed) {
+      return { 
+        success: false, 
+        error: permissionCheck.reason || "You don't have permission to reorder this journal issue" 
+      }
+    }
+
+    const issue = await prisma.journalIssue.findUnique({ where: { id: issueId } })
+    if (!issue) {
+      return { success: false, error: "Journal issue not found" }
+    }
+
+    // Validate that all provided IDs belong to this issue
+    const existingArticles = await prisma.article.findMany({
+      where: {
+        id: { in: orderedIds },
+        issueId,
+      },
+      select: { id: true, slug: true }
+    })
+
+    if (new Set(orderedIds).size !== orderedIds.length || existingArticles.length !== orderedIds.length) {
+      return { 
+        success: false, 
+        error: "Some articles were not found in this issue" 
+      }
+    }
+
+    await reorderIssueArticlesController(issueId, orderedIds)
+
+    console.log(`✅ User ${currentUser.email} reordered ${orderedIds.length} articles in Volume ${issue.volume}, Issue ${issue.issue}`)
+
+    revalidateIssueArticles(issue, existingArticles.map(article => article.slug))
+
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to reorder issue articles:", error)
+    return { success: false, error: "Failed to reorder issue articles" }
+  }
+}
+
+// ADMIN: Set the page range each article occupies in the printed issue
+export async function updateIssueArticlePages(issueId: string, data: IssueArticlePagesData) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+    
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'journalissue.UPDATE')
+    if (!permissionCheck.allowed) {
+      return { 
+        success: false, 
+        error: permissionCheck.reason || "You don't have permission to update this journal issue" 
+      }
+    }
+
+    const pages = issueArticlePagesSchema.parse(data)
+
+    const issue = await prisma.journalIssue.findUnique({ where: { id: issueId } })
+    if (!issue) {
+      return { success: false, error: "Journal issue not found" }
+    }
+
+    const existingArticles = await prisma.article.findMany({
+      where: {
+        id: { in: pages.map(page => page.id) },
+        issueId,
+      },
+      select: { id: true, slug: true }
+    })
+
+    if (existingArticles.length !== pages.length) {
+      return { success: false, error: "Some articles were not found in this issue" }
+    }
+
+    await updateIssueArticlePagesController(issueId, pages)
+
+    console.log(`✅ User ${currentUser.email} updated page ranges for ${pages.length} articles in Volume ${issue.volume}, Issue ${issue.issue}`)
+
+    revalidateIssueArticles(issue, existingArticles.map(article => article.slug))
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map((e) => e.message).join(", ") }
+    }
+    console.error("Failed to update issue article pages:", error)
+    return { success: false, error: "Failed to update page ranges" }
+  }
+}
+
 // Function to get journal issues with permission context
 export async function getJournalIssuesWithPermissions() {
   try {
@@ -1,11 +1,19 @@
 // lib/actions/journal-article-actions.ts - Updated for journal articles without content/image
 "use server"
 
-import { revalidatePath } from "next/cache"
+import { revalidatePath, revalidateTag } from "next/cache"
+import { ARTICLE_FEEDS_TAG } from "@/lib/feeds"
 import { getCurrentUser } from "@/lib/auth"
 import { checkPermission } from "@/lib/permissions/checker"
 import { UserWithPermissions } from "@/lib/permissions/types"
 import { prisma } from "@/lib/prisma"
+import { getLastArticleEditor, recordArticleRevision } from "@/lib/controllers/article-revisions"
+import { deleteArticleDrafts } from "@/lib/controllers/article-drafts"
+import { deleteArticlePdfSnapshotFile } from "@/lib/controllers/article-pdf-snapshots"
+import { issuePlacementReset, syncArticlePdfSnapshot } from "@/lib/controllers/articles"
+import { describeSanitizeReport, hasSanitizeChanges, sanitizeArticleContent } from "@/lib/sanitize"
+import type { SaveConflict } from "@/lib/merge-form-values"
+import { ARTICLE_STATUS_VALUES, resolveArticleStatus } from "@/lib/article-status"
 import { z } from "zod"
 
 // Helper function to get current user with permissions
@@ -36,17 +44,19 @@ const authorSchema = z.object({
   email: z.string().email(),
 })
 
-// Updated form schema for journal articles (no content/image fields)
+// Updated form schema for journal articles (optional full text, no image)
 const journalArticleSchema = z.object({
   title: z.string().min(5).max(200),
   slug: z.string().min(3).max(100),
   abstract: z.string().min(20),
+  content: z.string().optional(),
   contentLink: z.string().url("Please enter a valid URL"),
   publishedAt: z.date(),
   readTime: z.number().int().min(1).max(180),
   authors: z.array(authorSchema).min(1).max(10),
   issueId: z.string().optional(),
   keywords: z.array(z.string()).default([]),
+  status: z.enum(ARTICLE_STATUS_VALUES).optional(),
   archived: z.boolean().default(false),
   featured: z.boolean().default(false),
   carousel: z.boolean().default(false),
@@ -61,6 +71,21 @@ function createErrorResponse(message: string, details?: string) {
   }
 }
 
+// Tells the form that someone else saved the article after it was opened
+async function createConflictResponse(article: { id: string; version: number; updatedAt: Date }) {
+  const editor = await getLastArticleEditor(article.id)
+
+  return {
+    success: false,
+    error: `This article was changed${editor ? ` by ${editor.name}` : ""} after you opened it.`,
+    conflict: {
+      version: article.version,
+      updatedAt: article.updatedAt.toISOString(),
+      updatedBy: editor?.name ?? null,
+    } satisfies SaveConflict,
+  }
+}
+
 /**
  * Find or create authors based on email addresses
  */
@@ -256,6 +281,12 @@ export async function createJournalArticle(data: JournalArticleFormData) {
 
     const validatedData = validation.data
 
+    // Strip anything outside the editor's allow-list before it is stored
+    const sanitized = validatedData.content ? sanitizeArticleContent(validatedData.content) : null
+    if (sanitized && hasSanitizeChanges(sanitized.report)) {
+      console.warn(`🧹 Stripped disallowed markup from new journal article ${validatedData.slug}:`, sanitized.report)
+    }
+
     // Check for duplicate slug
     const existingSlug = await prisma.article.findUnique({
       where: { slug: validatedData.slug }
@@ -269,15 +300,16 @@ export async function createJournalArticle(data: JournalArticleFormData) {
 
     // Create the article with authors in a transaction
     const result = await prisma.$transaction(async (tx) => {
-      // Create the article (without content and image fields)
+      // Create the article (the full text is optional, images are not stored)
       const article = await tx.article.create({
         data: {
           title: validatedData.title,
           slug: validatedData.slug,
           abstract: validatedData.abstract,
-          content: null, // Journal articles don't store content locally
+          content: sanitized?.content || null, // Imported full text, if any
           contentLink: validatedData.contentLink,
           publishedAt: validatedData.publishedAt,
+          status: resolveArticleStatus(validatedData.status ?? "draft", validatedData.publishedAt),
           readTime: validatedData.readTime,
           image: null, // Journal articles don't store images locally
           type: 'journal',
@@ -291,6 +323,12 @@ export async function createJournalArticle(data: JournalArticleFormData) {
         }
       })
 
+      await recordArticleRevision(tx, {
+        articleId: article.id,
+        current: article,
+        editorId: currentUser.id,
+      })
+
       // Create author-article relationships
       for (let i = 0; i < authors.length; i++) {
         await tx.authorArticle.create({
@@ -309,11 +347,19 @@ export async function createJournalArticle(data: JournalArticleFormData) {
     console.log(`👥 With ${authors.length} author(s): ${authors.map(a => a.name).join(", ")}`)
     console.log(`🔗 External link: ${result.contentLink}`)
 
+    await deleteArticleDrafts({ userId: currentUser.id, articleId: null, type: "journal" })
+    await syncArticlePdfSnapshot(result.id)
+
     // Revalidate relevant pages
     revalidatePath("/admin/journal-articles")
     revalidatePath("/articles")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     
-    return { success: true, data: result }
+    return {
+      success: true,
+      data: result,
+      sanitizeWarning: sanitized ? describeSanitizeReport(sanitized.report) : null,
+    }
 
   } catch (error) {
     console.error("💥 Error creating journal article:", error)
@@ -327,7 +373,16 @@ export async function createJournalArticle(data: JournalArticleFormData) {
 /**
  * Update an existing journal article with multiple authors (no content/image)
  */
-export async function updateJournalArticle(slug: string, data: JournalArticleFormData) {
+/**
+ * Update a journal article. Pass the `version` the form was loaded with as
+ * `expectedVersion`; if the article has been saved since, nothing is
+ * written and the response carries `conflict`.
+ */
+export async function updateJournalArticle(
+  slug: string,
+  data: JournalArticleFormData,
+  expectedVersion?: number
+) {
   try {
     console.log(`🔄 Updating journal article: ${slug}`)
     
@@ -361,6 +416,11 @@ export async function updateJournalArticle(slug: string, data: JournalArticleFor
         error: permissionCheck.reason || "You don't have permission to update this journal article" 
       }
     }
+
+    if (expectedVersion !== undefined && existingArticle.version !== expectedVersion) {
+      console.log(`⚠️ Rejected stale save of journal article ${slug} by ${currentUser.email}`)
+      return createConflictResponse(existingArticle)
+    }
     
     // Validate the input data
     const validation = journalArticleSchema.safeParse(data)
@@ -374,6 +434,12 @@ export async function updateJournalArticle(slug: string, data: JournalArticleFor
 
     const validatedData = validation.data
 
+    // Strip anything outside the editor's allow-list before it is stored
+    const sanitized = validatedData.content ? sanitizeArticleContent(validatedData.content) : null
+    if (sanitized && hasSanitizeChanges(sanitized.report)) {
+      console.warn(`🧹 Stripped disallowed markup from journal article ${slug}:`, sanitized.report)
+    }
+
     // Check for duplicate slug (excluding current article)
     if (validatedData.slug !== slug) {
       const duplicateSlug = await prisma.article.findUnique({
@@ -389,25 +455,40 @@ export async function updateJournalArticle(slug: string, data: JournalArticleFor
 
     // Update the article and its authors in a transaction
     const result = await prisma.$transaction(async (tx) => {
-      // Update the article (without content and image fields)
-      const updatedArticle = await tx.article.update({
-        where: { id: existingArticle.id },
+      // Update the article (without the image field), only if nobody has saved
+      // since it was read above, so two saves arriving together can't both
+      // pass the expectedVersion check
+      const { count } = await tx.article.updateMany({
+        where: { id: existingArticle.id, version: existingArticle.version },
         data: {
+          version: { increment: 1 },
           title: validatedData.title,
           slug: validatedData.slug,
           abstract: validatedData.abstract,
-          // content: Not updated for journal articles
+          content: sanitized?.content || null,
           contentLink: validatedData.contentLink,
           publishedAt: validatedData.publishedAt,
+          status: resolveArticleStatus(validatedData.status ?? existingArticle.status, validatedData.publishedAt),
           readTime: validatedData.readTime,
           // image: Not updated for journal articles
           issueId: validatedData.issueId || null,
+          ...issuePlacementReset(existingArticle.issueId, validatedData.issueId || null),
           keywords: validatedData.keywords,
           archived: validatedData.archived,
           featured: validatedData.featured,
           carousel: validatedData.carousel,
         }
       })
+      if (count === 0) return null
+
+      const updatedArticle = await tx.article.findUniqueOrThrow({ where: { id: existingArticle.id } })
+
+      await recordArticleRevision(tx, {
+        articleId: updatedArticle.id,
+        current: updatedArticle,
+        previous: existingArticle,
+        editorId: currentUser.id,
+      })
 
       // Remove all existing author relationships
       await tx.authorArticle.deleteMany({
@@ -428,16 +509,31 @@ export async function updateJournalArticle(slug: string, data: JournalArticleFor
       return updatedArticle
     })
 
+    if (!result) {
+      console.log(`⚠️ Rejected stale save of journal article ${slug} by ${currentUser.email}`)
+      const current = await prisma.article.findUniqueOrThrow({ where: { id: existingArticle.id } })
+      return createConflictResponse(current)
+    }
+
     console.log(`✅ User ${currentUser.email} updated journal article: ${result.title}`)
     console.log(`👥 With ${authors.length} author(s): ${authors.map(a => a.name).join(", ")}`)
     console.log(`🔗 External link: ${result.contentLink}`)
 
+    // The working draft has been saved for real
+    await deleteArticleDrafts({ userId: currentUser.id, articleId: result.id, type: "journal" })
+    await syncArticlePdfSnapshot(result.id)
+
     // Revalidate relevant pages
     revalidatePath("/admin/journal-articles")
     revalidatePath("/articles")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     revalidatePath(`/articles/${result.slug}`)
     
-    return { success: true, data: result }
+    return {
+      success: true,
+      data: result,
+      sanitizeWarning: sanitized ? describeSanitizeReport(sanitized.report) : null,
+    }
 
   } catch (error) {
     console.error("💥 Error updating journal article:", error)
@@ -489,11 +585,14 @@ export async function deleteJournalArticle(slug: string) {
       where: { id: existingArticle.id }
     })
 
+    await deleteArticlePdfSnapshotFile(existingArticle.pdfSnapshotPath)
+
     console.log(`🗑️ User ${currentUser.email} deleted journal article: ${existingArticle.title}`)
 
     // Revalidate relevant pages
     revalidatePath("/admin/journal-articles")
     revalidatePath("/articles")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     
     return { success: true }
   } catch (error) {
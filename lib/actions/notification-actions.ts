@@ -3,9 +3,11 @@
 import { getCurrentUser } from "@/lib/auth"
 import { checkPermission } from "@/lib/permissions/checker"
 import { UserWithPermissions } from "@/lib/permissions/types"
-import { revalidatePath } from "next/cache"
+import { revalidatePath, revalidateTag } from "next/cache"
+import { NOTIFICATION_FEEDS_TAG } from "@/lib/feeds"
 import { prisma } from "@/lib/prisma"
 import { NotificationType } from "@prisma/client"
+import { describeSanitizeReport, hasSanitizeChanges, sanitizeNotification } from "@/lib/sanitize"
 
 // Helper function to get current user with permissions
 async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
@@ -183,10 +185,16 @@ export async function updateExistingNotification(
       }
     }
 
+    // Strip markup and unsafe links before the notification is stored
+    const sanitized = sanitizeNotification(data)
+    if (hasSanitizeChanges(sanitized.report)) {
+      console.warn(`🧹 Stripped disallowed content from notification ${notificationId}:`, sanitized.report)
+    }
+
     const updatedNotification = await prisma.notification.update({
       where: { id: notificationId },
       data: {
-        ...data,
+        ...sanitized.data,
         updatedAt: new Date()
       }
     })
@@ -195,8 +203,13 @@ export async function updateExistingNotification(
 
     revalidatePath("/admin/notifications")
     revalidatePath("/notifications")
+    revalidateTag(NOTIFICATION_FEEDS_TAG)
 
-    return { success: true, data: updatedNotification }
+    return {
+      success: true,
+      data: updatedNotification,
+      sanitizeWarning: describeSanitizeReport(sanitized.report),
+    }
   } catch (error) {
     console.error("Failed to update notification:", error)
     return { success: false, error: "Failed to update notification" }
@@ -243,6 +256,7 @@ export async function deleteExistingNotification(notificationId: string) {
 
     revalidatePath("/admin/notifications")
     revalidatePath("/notifications")
+    revalidateTag(NOTIFICATION_FEEDS_TAG)
 
     return { success: true }
   } catch (error) {
@@ -327,9 +341,19 @@ export async function createNotification(data: {
       return { success: false, error: "Invalid notification type provided" }
     }
 
+    // Strip markup and unsafe links before the notification is stored
+    const sanitized = sanitizeNotification(data)
+    if (hasSanitizeChanges(sanitized.report)) {
+      console.warn(`🧹 Stripped disallowed content from new notification "${data.title}":`, sanitized.report)
+    }
+
+    if (!sanitized.data.content.trim()) {
+      return { success: false, error: "Content is empty once unsupported markup is removed" }
+    }
+
     const notification = await prisma.notification.create({
       data: {
-        ...data,
+        ...sanitized.data,
         priority: data.priority || "medium",
         type: data.type as NotificationType,
       },
@@ -339,8 +363,9 @@ export async function createNotification(data: {
 
     revalidatePath("/admin/notifications")
     revalidatePath("/notifications")
+    revalidateTag(NOTIFICATION_FEEDS_TAG)
 
-    return { success: true, data: notification }
+    return { success: true, data: notification, sanitizeWarning: describeSanitizeReport(sanitized.report) }
   } catch (error) {
     console.error("Failed to create notification:", error)
     return { success: false, error: "Failed to create notification" }
@@ -398,17 +423,24 @@ export async function updateNotification(
       }
     }
 
+    // Strip markup and unsafe links before the notification is stored
+    const sanitized = sanitizeNotification(data)
+    if (hasSanitizeChanges(sanitized.report)) {
+      console.warn(`🧹 Stripped disallowed content from notification ${id}:`, sanitized.report)
+    }
+
     const notification = await prisma.notification.update({
       where: { id },
-      data,
+      data: sanitized.data,
     })
 
     console.log(`✅ User ${currentUser.email} updated notification: ${notification.title}`)
 
     revalidatePath("/admin/notifications")
     revalidatePath("/notifications")
+    revalidateTag(NOTIFICATION_FEEDS_TAG)
 
-    return { success: true, data: notification }
+    return { success: true, data: notification, sanitizeWarning: describeSanitizeReport(sanitized.report) }
   } catch (error) {
     console.error("Failed to update notification:", error)
     return { success: false, error: "Failed to update notification" }
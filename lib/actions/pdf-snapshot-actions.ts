@@ -0,0 +1,136 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getCurrentUser } from "@/lib/auth"
+import { checkPermission } from "@/lib/permissions/checker"
+import { UserWithPermissions } from "@/lib/permissions/types"
+import { getGoogleDocInfo, refreshArticlePdfSnapshot } from "@/lib/controllers/articles"
+import prisma from "@/lib/prisma"
+
+// Helper function to get current user with permissions
+async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return null
+
+    if ('role' in user && user.role) {
+      return user as UserWithPermissions
+    }
+
+    const fullUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { role: true }
+    })
+
+    return fullUser as UserWithPermissions
+  } catch (error) {
+    console.error('Error getting user with permissions:', error)
+    return null
+  }
+}
+
+function revalidateArticlePages(article: { slug: string; type: string }) {
+  if (article.type === "journal") {
+    revalidatePath(`/admin/journal-articles/${article.slug}/edit`)
+    revalidatePath(`/journals/${article.slug}`)
+  } else {
+    revalidatePath(`/admin/posts/${article.slug}/edit`)
+    revalidatePath(`/blogs/${article.slug}`)
+  }
+}
+
+/**
+ * The state of an article's Google Doc snapshot, for the edit pages.
+ * `data` is null when the article doesn't link to a Google Doc.
+ */
+export async function getPdfSnapshotStatus(articleId: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'article.READ')
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to view this article" }
+    }
+
+    const article = await prisma.article.findUnique({
+      where: { id: articleId },
+      select: {
+        status: true,
+        contentLink: true,
+        pdfSnapshotChecksum: true,
+        pdfSnapshotSource: true,
+        pdfSnapshotAt: true,
+        pdfSnapshotError: true,
+      }
+    })
+
+    if (!article) {
+      return { success: false, error: "Article not found" }
+    }
+
+    if (!article.contentLink || !getGoogleDocInfo(article.contentLink).isValid) {
+      return { success: true, data: null }
+    }
+
+    return {
+      success: true,
+      data: {
+        published: article.status === "published",
+        checksum: article.pdfSnapshotChecksum,
+        takenAt: article.pdfSnapshotAt,
+        // The link was changed since the snapshot was taken
+        outdated: !!article.pdfSnapshotAt && article.pdfSnapshotSource !== article.contentLink,
+        error: article.pdfSnapshotError,
+      },
+    }
+  } catch (error) {
+    console.error(`Failed to fetch PDF snapshot status for article ${articleId}:`, error)
+    return { success: false, error: "Failed to fetch PDF snapshot status" }
+  }
+}
+
+/**
+ * Fetch the article's Google Doc again and replace the stored PDF. Used after
+ * the doc has been edited, or to check that it is still shared.
+ */
+export async function refreshPdfSnapshot(articleId: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'article.UPDATE')
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to refresh this PDF" }
+    }
+
+    const article = await prisma.article.findUnique({
+      where: { id: articleId },
+      select: { id: true, slug: true, type: true }
+    })
+
+    if (!article) {
+      return { success: false, error: "Article not found" }
+    }
+
+    const result = await refreshArticlePdfSnapshot(article.id)
+    revalidateArticlePages(article)
+
+    if (!result.success) {
+      return { success: false, error: result.error || "Failed to refresh the PDF snapshot" }
+    }
+
+    console.log(`📸 User ${currentUser.email} refreshed the PDF snapshot of article ${article.slug}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error(`Failed to refresh PDF snapshot for article ${articleId}:`, error)
+    return { success: false, error: "Failed to refresh the PDF snapshot" }
+  }
+}
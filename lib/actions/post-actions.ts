@@ -1,10 +1,20 @@
 "use server"
 
-import { revalidatePath } from "next/cache"
+import { revalidatePath, revalidateTag } from "next/cache"
+import { ARTICLE_FEEDS_TAG } from "@/lib/feeds"
 import { getCurrentUser } from "@/lib/auth"
 import { checkPermission } from "@/lib/permissions/checker"
 import { UserWithPermissions } from "@/lib/permissions/types"
 import { prisma } from "@/lib/prisma"
+import { logSubmissionEvent } from "@/lib/controllers/submissions"
+import { getLastArticleEditor, recordArticleRevision } from "@/lib/controllers/article-revisions"
+import { deleteArticleDrafts } from "@/lib/controllers/article-drafts"
+import { deleteArticlePdfSnapshotFile } from "@/lib/controllers/article-pdf-snapshots"
+import { issuePlacementReset, syncArticlePdfSnapshot } from "@/lib/controllers/articles"
+import type { SaveConflict } from "@/lib/merge-form-values"
+import { slugify } from "@/lib/utils"
+import { ARTICLE_STATUS_VALUES, resolveArticleStatus } from "@/lib/article-status"
+import { describeSanitizeReport, hasSanitizeChanges, sanitizeArticleContent } from "@/lib/sanitize"
 import { z } from "zod"
 
 // Helper function to get current user with permissions
@@ -54,6 +64,7 @@ const postSchema = z.object({
   image: z.string().optional(),
   keywords: z.array(z.string()).default([]),
   contentLink: z.string().optional(),
+  status: z.enum(ARTICLE_STATUS_VALUES).default("draft"),
   // Article-specific fields with correct schema mapping
   archived: z.boolean().default(false),
   featured: z.boolean().default(false),
@@ -77,6 +88,21 @@ function calculateReadTime(content: string): number {
   return Math.max(1, Math.ceil(words / wordsPerMinute))
 }
 
+// Tells the form that someone else saved the post after it was opened
+async function createConflictResponse(article: { id: string; version: number; updatedAt: Date }) {
+  const editor = await getLastArticleEditor(article.id)
+
+  return {
+    success: false,
+    error: `This post was changed${editor ? ` by ${editor.name}` : ""} after you opened it.`,
+    conflict: {
+      version: article.version,
+      updatedAt: article.updatedAt.toISOString(),
+      updatedBy: editor?.name ?? null,
+    } satisfies SaveConflict,
+  }
+}
+
 /**
  * Find or create authors based on email addresses
  */
@@ -239,6 +265,12 @@ export async function createPost(data: z.infer<typeof postSchema>) {
     console.log("📝 Creating post with data:", data)
     
     const validatedData = postSchema.parse(data)
+
+    // Strip anything outside the editor's allow-list before it is stored
+    const sanitized = sanitizeArticleContent(validatedData.content)
+    if (hasSanitizeChanges(sanitized.report)) {
+      console.warn(`🧹 Stripped disallowed markup from new post ${validatedData.slug}:`, sanitized.report)
+    }
     
     // Check if slug already exists
     if (await prisma.article.findUnique({ where: { slug: validatedData.slug } })) {
@@ -249,7 +281,7 @@ export async function createPost(data: z.infer<typeof postSchema>) {
     const authors = await findOrCreateAuthors(validatedData.authors)
     
     // Use provided readTime or calculate from content
-    const readTime = validatedData.readTime || calculateReadTime(validatedData.content)
+    const readTime = validatedData.readTime || calculateReadTime(sanitized.content)
     
     // Create the post using transaction for data consistency
     const post = await prisma.$transaction(async (tx) => {
@@ -259,9 +291,10 @@ export async function createPost(data: z.infer<typeof postSchema>) {
           title: validatedData.title,
           slug: validatedData.slug,
           abstract: validatedData.abstract,
-          content: validatedData.content,
+          content: sanitized.content,
           type: validatedData.type,
           publishedAt: validatedData.publishedAt,
+          status: resolveArticleStatus(validatedData.status, validatedData.publishedAt),
           readTime: readTime,
           image: validatedData.image || null,
           keywords: validatedData.keywords,
@@ -274,6 +307,12 @@ export async function createPost(data: z.infer<typeof postSchema>) {
           downloadCount: 0,
         }
       })
+
+      await recordArticleRevision(tx, {
+        articleId: newPost.id,
+        current: newPost,
+        editorId: currentUser.id,
+      })
       
       // Create author relationships
       for (let i = 0; i < authors.length; i++) {
@@ -290,17 +329,21 @@ export async function createPost(data: z.infer<typeof postSchema>) {
     })
 
     console.log(`✅ User ${currentUser.email} created post: ${post.title} with ${authors.length} author(s)`)
+
+    await deleteArticleDrafts({ userId: currentUser.id, articleId: null, type: post.type })
+    await syncArticlePdfSnapshot(post.id)
     
     // Revalidate relevant paths
     revalidatePath("/admin/posts")
     revalidatePath("/")
     revalidatePath("/blogs")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     if (validatedData.type === "journal") {
       revalidatePath("/journals")
       revalidatePath("/admin/journal-articles")
     }
     
-    return { success: true, data: post }
+    return { success: true, data: post, sanitizeWarning: describeSanitizeReport(sanitized.report) }
   } catch (error) {
     console.error("Failed to create post:", error)
     if (error instanceof z.ZodError) {
@@ -310,7 +353,16 @@ export async function createPost(data: z.infer<typeof postSchema>) {
   }
 }
 
-export async function updatePost(slug: string, data: Partial<z.infer<typeof postSchema>>) {
+/**
+ * Update a post. Pass the `version` the form was loaded with as
+ * `expectedVersion`; if the post has been saved since, nothing is written
+ * and the response carries `conflict` so the editor can merge or overwrite.
+ */
+export async function updatePost(
+  slug: string,
+  data: Partial<z.infer<typeof postSchema>>,
+  expectedVersion?: number
+) {
   try {
     // Check authentication and permissions
     const currentUser = await getCurrentUserWithPermissions()
@@ -337,6 +389,10 @@ export async function updatePost(slug: string, data: Partial<z.infer<typeof post
       }
     })
 
+    if (!existingPost) {
+      return createErrorResponse("Post not found")
+    }
+
     // Check if user has permission to update articles
     const permissionCheck = checkPermission(currentUser, 'article.UPDATE')
 
@@ -346,9 +402,20 @@ export async function updatePost(slug: string, data: Partial<z.infer<typeof post
       )
     }
 
+    if (expectedVersion !== undefined && existingPost.version !== expectedVersion) {
+      console.log(`⚠️ Rejected stale save of post ${slug} by ${currentUser.email}`)
+      return createConflictResponse(existingPost)
+    }
+
     // Validate data
     const validatedData = postSchema.partial().parse(data)
 
+    // Strip anything outside the editor's allow-list before it is stored
+    const sanitized = validatedData.content !== undefined ? sanitizeArticleContent(validatedData.content) : null
+    if (sanitized && hasSanitizeChanges(sanitized.report)) {
+      console.warn(`🧹 Stripped disallowed markup from post ${slug}:`, sanitized.report)
+    }
+
     // Check for slug conflicts if slug is being changed
     if (validatedData.slug && validatedData.slug !== existingPost.slug) {
       const existingSlug = await prisma.article.findUnique({ 
@@ -367,24 +434,35 @@ export async function updatePost(slug: string, data: Partial<z.infer<typeof post
 
     // Calculate read time if content is updated
     let readTime = existingPost.readTime
-    if (validatedData.content) {
-      readTime = validatedData.readTime || calculateReadTime(validatedData.content)
+    if (sanitized?.content) {
+      readTime = validatedData.readTime || calculateReadTime(sanitized.content)
     } else if (validatedData.readTime) {
       readTime = validatedData.readTime
     }
 
+    // Status and publication date are reconciled together, whichever one changed
+    const status = validatedData.status !== undefined || validatedData.publishedAt !== undefined
+      ? resolveArticleStatus(
+          validatedData.status ?? existingPost.status,
+          validatedData.publishedAt ?? existingPost.publishedAt
+        )
+      : undefined
+
     // Update the post using transaction
     const post = await prisma.$transaction(async (tx) => {
-      // Update the article
-      const updatedPost = await tx.article.update({
-        where: { slug },
+      // Written only if nobody has saved since it was read above, so two saves
+      // arriving together can't both pass the expectedVersion check
+      const { count } = await tx.article.updateMany({
+        where: { id: existingPost.id, version: existingPost.version },
         data: {
+          version: { increment: 1 },
           ...(validatedData.title !== undefined && { title: validatedData.title }),
           ...(validatedData.slug !== undefined && { slug: validatedData.slug }),
           ...(validatedData.abstract !== undefined && { abstract: validatedData.abstract }),
-          ...(validatedData.content !== undefined && { content: validatedData.content }),
+          ...(sanitized && { content: sanitized.content }),
           ...(validatedData.type !== undefined && { type: validatedData.type }),
           ...(validatedData.publishedAt !== undefined && { publishedAt: validatedData.publishedAt }),
+          ...(status !== undefined && { status }),
           ...(readTime !== undefined && { readTime: readTime }),
           ...(validatedData.image !== undefined && { image: validatedData.image || null }),
           ...(validatedData.keywords !== undefined && { keywords: validatedData.keywords }),
@@ -393,8 +471,22 @@ export async function updatePost(slug: string, data: Partial<z.infer<typeof post
           ...(validatedData.featured !== undefined && { featured: validatedData.featured }),
           ...(validatedData.carousel !== undefined && { carousel: validatedData.carousel }),
           ...(validatedData.issueId !== undefined && { issueId: validatedData.issueId || null }),
+          ...issuePlacementReset(
+            existingPost.issueId,
+            validatedData.issueId === undefined ? undefined : validatedData.issueId || null
+          ),
         }
       })
+      if (count === 0) return null
+
+      const updatedPost = await tx.article.findUniqueOrThrow({ where: { id: existingPost.id } })
+
+      await recordArticleRevision(tx, {
+        articleId: updatedPost.id,
+        current: updatedPost,
+        previous: existingPost,
+        editorId: currentUser.id,
+      })
       
       // Update authors if provided
       if (authorsToUpdate.length > 0) {
@@ -418,7 +510,17 @@ export async function updatePost(slug: string, data: Partial<z.infer<typeof post
       return updatedPost
     })
 
+    if (!post) {
+      console.log(`⚠️ Rejected stale save of post ${slug} by ${currentUser.email}`)
+      const current = await prisma.article.findUniqueOrThrow({ where: { id: existingPost.id } })
+      return createConflictResponse(current)
+    }
+
     console.log(`✅ User ${currentUser.email} updated post: ${post.title}`)
+
+    // The working draft has been saved for real
+    await deleteArticleDrafts({ userId: currentUser.id, articleId: post.id, type: post.type })
+    await syncArticlePdfSnapshot(post.id)
     
     // Revalidate paths
     const newSlug = validatedData.slug || slug
@@ -426,6 +528,7 @@ export async function updatePost(slug: string, data: Partial<z.infer<typeof post
     revalidatePath("/")
     revalidatePath(`/blogs/${slug}`)
     revalidatePath(`/blogs/${newSlug}`)
+    revalidateTag(ARTICLE_FEEDS_TAG)
     if (post.type === "journal") {
       revalidatePath("/journals")
       revalidatePath(`/journals/${slug}`)
@@ -433,7 +536,11 @@ export async function updatePost(slug: string, data: Partial<z.infer<typeof post
       revalidatePath("/admin/journal-articles")
     }
     
-    return { success: true, data: post }
+    return {
+      success: true,
+      data: post,
+      sanitizeWarning: sanitized ? describeSanitizeReport(sanitized.report) : null,
+    }
   } catch (error) {
     console.error(`Failed to update post ${slug}:`, error)
     if (error instanceof z.ZodError) {
@@ -486,11 +593,14 @@ export async function deletePost(slug: string) {
       where: { slug }
     })
 
+    await deleteArticlePdfSnapshotFile(existingPost.pdfSnapshotPath)
+
     console.log(`✅ User ${currentUser.email} deleted post: ${existingPost.title}`)
     
     revalidatePath("/admin/posts")
     revalidatePath("/")
     revalidatePath("/blogs")
+    revalidateTag(ARTICLE_FEEDS_TAG)
     revalidatePath("/journals")
     if (existingPost.type === "journal") {
       revalidatePath("/admin/journal-articles")
@@ -503,6 +613,117 @@ export async function deletePost(slug: string) {
   }
 }
 
+/**
+ * Create a draft article from an accepted submission, with the
+ * submitting author pre-filled
+ */
+export async function createDraftFromSubmission(submissionId: string) {
+  try {
+    // Check authentication and permissions
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return createErrorResponse("Authentication required")
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'article.CREATE')
+    if (!permissionCheck.allowed) {
+      return createErrorResponse(
+        permissionCheck.reason || "You don't have permission to create posts"
+      )
+    }
+
+    const submission = await prisma.submission.findUnique({
+      where: { id: submissionId }
+    })
+
+    if (!submission) {
+      return createErrorResponse("Submission not found")
+    }
+
+    if (submission.decision !== "accepted") {
+      return createErrorResponse("Only accepted submissions can be converted into articles")
+    }
+
+    if (submission.articleId) {
+      return createErrorResponse("This submission has already been converted into an article")
+    }
+
+    // Find a free slug based on the title
+    const baseSlug = slugify(submission.title).replace(/_/g, "-").slice(0, 90).replace(/-+$/, "") || "article"
+    let slug = baseSlug
+    let suffix = 2
+    while (await prisma.article.findUnique({ where: { slug } })) {
+      slug = `${baseSlug}-${suffix++}`
+    }
+
+    // Find or create authors
+    const authors = await findOrCreateAuthors([
+      { name: submission.authorName, email: submission.authorEmail }
+    ])
+
+    const post = await prisma.$transaction(async (tx) => {
+      // Drafts stay off the public site until an editor publishes them
+      const newPost = await tx.article.create({
+        data: {
+          title: submission.title,
+          slug,
+          abstract: submission.abstract,
+          type: submission.type,
+          keywords: submission.keywords,
+          status: "draft",
+          views: 0,
+          downloadCount: 0,
+        }
+      })
+
+      await recordArticleRevision(tx, {
+        articleId: newPost.id,
+        current: newPost,
+        editorId: currentUser.id,
+      })
+
+      for (let i = 0; i < authors.length; i++) {
+        await tx.authorArticle.create({
+          data: {
+            authorId: authors[i].id,
+            articleId: newPost.id,
+            authorOrder: i + 1
+          }
+        })
+      }
+
+      await tx.submission.update({
+        where: { id: submission.id },
+        data: { articleId: newPost.id }
+      })
+
+      await logSubmissionEvent({
+        submissionId: submission.id,
+        round: submission.round,
+        type: "converted_to_article",
+        actor: currentUser.email,
+        details: slug,
+      }, tx)
+
+      return newPost
+    })
+
+    console.log(`✅ User ${currentUser.email} created draft post ${post.slug} from submission ${submission.id}`)
+
+    revalidatePath("/admin/posts")
+    revalidatePath(`/admin/submissions/${submission.id}`)
+    if (post.type === "journal") {
+      revalidatePath("/admin/journal-articles")
+    }
+
+    return { success: true, data: post }
+  } catch (error) {
+    console.error(`Failed to create draft from submission ${submissionId}:`, error)
+    return createErrorResponse("Failed to create draft article", error instanceof Error ? error.message : "Unknown error")
+  }
+}
+
 // Function to get posts with permission context
 export async function getPostsWithPermissions(type?: "blog" | "journal") {
   try {
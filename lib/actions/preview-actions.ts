@@ -0,0 +1,175 @@
+"use server"
+
+import { randomBytes } from "crypto"
+import { revalidatePath } from "next/cache"
+import { getCurrentUser } from "@/lib/auth"
+import { checkPermission } from "@/lib/permissions/checker"
+import { UserWithPermissions } from "@/lib/permissions/types"
+import { siteConfig } from "@/lib/metadata"
+import {
+  createPreviewToken,
+  getPreviewTokensForArticle,
+  revokePreviewToken,
+} from "@/lib/controllers/article-previews"
+import prisma from "@/lib/prisma"
+
+// Preview links can't outlive a month; editors can always issue a new one
+const MAX_PREVIEW_DAYS = 30
+
+// Helper function to get current user with permissions
+async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return null
+
+    if ('role' in user && user.role) {
+      return user as UserWithPermissions
+    }
+
+    const fullUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { role: true }
+    })
+
+    return fullUser as UserWithPermissions
+  } catch (error) {
+    console.error('Error getting user with permissions:', error)
+    return null
+  }
+}
+
+function getPreviewUrl(token: string) {
+  return `${siteConfig.url}/api/preview?token=${token}`
+}
+
+function revalidateEditPage(article: { slug: string; type: string }) {
+  if (article.type === "journal") {
+    revalidatePath(`/admin/journal-articles/${article.slug}/edit`)
+  } else {
+    revalidatePath(`/admin/posts/${article.slug}/edit`)
+  }
+}
+
+/**
+ * Create a secret link that shows an article to anyone who has it, whatever
+ * the article's status, until it expires or is revoked.
+ */
+export async function createPreviewLink(articleId: string, expiresInDays = 7) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'article.UPDATE')
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to share previews" }
+    }
+
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_PREVIEW_DAYS) {
+      return { success: false, error: `Links can last between 1 and ${MAX_PREVIEW_DAYS} days` }
+    }
+
+    const article = await prisma.article.findUnique({
+      where: { id: articleId },
+      select: { id: true, slug: true, type: true }
+    })
+
+    if (!article) {
+      return { success: false, error: "Article not found" }
+    }
+
+    const token = randomBytes(32).toString("hex")
+    const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+
+    const previewToken = await createPreviewToken({
+      articleId,
+      token,
+      createdBy: currentUser.email,
+      expiresAt,
+    })
+
+    console.log(`✅ User ${currentUser.email} created a preview link for article ${article.slug}`)
+
+    revalidateEditPage(article)
+
+    return {
+      success: true,
+      data: { id: previewToken.id, url: getPreviewUrl(token), expiresAt },
+    }
+  } catch (error) {
+    console.error(`Failed to create preview link for article ${articleId}:`, error)
+    return { success: false, error: "Failed to create preview link" }
+  }
+}
+
+export async function getPreviewLinks(articleId: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'article.READ')
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to view preview links" }
+    }
+
+    const tokens = await getPreviewTokensForArticle(articleId)
+    const now = new Date()
+
+    return {
+      success: true,
+      data: tokens.map((previewToken) => ({
+        id: previewToken.id,
+        url: getPreviewUrl(previewToken.token),
+        createdBy: previewToken.createdBy,
+        createdAt: previewToken.createdAt,
+        expiresAt: previewToken.expiresAt,
+        revokedAt: previewToken.revokedAt,
+        active: !previewToken.revokedAt && previewToken.expiresAt > now,
+      })),
+    }
+  } catch (error) {
+    console.error(`Failed to fetch preview links for article ${articleId}:`, error)
+    return { success: false, error: "Failed to fetch preview links" }
+  }
+}
+
+export async function revokePreviewLink(id: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'article.UPDATE')
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to revoke previews" }
+    }
+
+    const existing = await prisma.articlePreviewToken.findUnique({
+      where: { id },
+      include: { article: { select: { slug: true, type: true } } }
+    })
+
+    if (!existing) {
+      return { success: false, error: "Preview link not found" }
+    }
+
+    if (!existing.revokedAt) {
+      await revokePreviewToken(id)
+      console.log(`🗑️ User ${currentUser.email} revoked preview link ${id} for article ${existing.article.slug}`)
+    }
+
+    revalidateEditPage(existing.article)
+
+    return { success: true }
+  } catch (error) {
+    console.error(`Failed to revoke preview link ${id}:`, error)
+    return { success: false, error: "Failed to revoke preview link" }
+  }
+}
@@ -0,0 +1,644 @@
+"use server"
+
+import { randomBytes } from "crypto"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { ReviewDecision } from "@prisma/client"
+import { getCurrentUser } from "@/lib/auth"
+import { checkPermission } from "@/lib/permissions/checker"
+import { UserWithPermissions } from "@/lib/permissions/types"
+import { getSignedFileUrl } from "@/lib/supabase"
+import { sendEmail } from "@/lib/email-utils"
+import { reviewerInvitationEmail, revisionRequestEmail } from "@/lib/email/templates"
+import { siteConfig } from "@/lib/metadata"
+import { createDraftFromSubmission } from "@/lib/actions/post-actions"
+import { logSubmissionEvent } from "@/lib/controllers/submissions"
+import { REVIEW_DECISION_LABELS } from "@/lib/peer-review"
+import {
+  createReview,
+  createReviewAssignment,
+  getReviewAssignmentByToken,
+  getReviewAssignmentsByEmail,
+  getReviewAssignmentsForSubmission,
+} from "@/lib/controllers/reviews"
+import prisma from "@/lib/prisma"
+
+// Must match the bucket used in submission-actions.ts
+const SUBMISSION_BUCKET = "submissions"
+
+// The submit page promises review by at least two subject experts
+const MIN_REVIEWS_FOR_DECISION = 2
+
+// Helper function to get current user with permissions
+async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return null
+
+    if ('role' in user && user.role) {
+      return user as UserWithPermissions
+    }
+
+    const fullUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { role: true }
+    })
+
+    return fullUser as UserWithPermissions
+  } catch (error) {
+    console.error('Error getting user with permissions:', error)
+    return null
+  }
+}
+
+function getReviewUrl(token: string) {
+  return `${siteConfig.url}/review/${token}`
+}
+
+// The files the author sent for a review round, if it has its own version
+function getReviewRoundVersion(submissionId: string, round: number) {
+  return prisma.submissionVersion.findUnique({
+    where: { submissionId_round: { submissionId, round } },
+    select: { manuscriptPath: true, responseLetterPath: true }
+  })
+}
+
+const invitationSchema = z.object({
+  reviewerName: z.string()
+    .min(2, "Name must be at least 2 characters")
+    .max(100, "Name must be less than 100 characters"),
+  reviewerEmail: z.string().email("Please enter a valid email address"),
+  dueDate: z.coerce.date().optional(),
+})
+
+const reviewSchema = z.object({
+  recommendation: z.nativeEnum(ReviewDecision),
+  summary: z.string()
+    .min(50, "Summary must be at least 50 characters")
+    .max(5000, "Summary must be less than 5000 characters"),
+  strengths: z.string().max(5000).optional(),
+  weaknesses: z.string().max(5000).optional(),
+  commentsToAuthor: z.string()
+    .min(20, "Comments to the author must be at least 20 characters")
+    .max(10000, "Comments to the author must be less than 10000 characters"),
+  commentsToEditor: z.string().max(5000).optional(),
+})
+
+/**
+ * Invite a reviewer to a submission. The reviewer receives a private link
+ * that gives access to the anonymized manuscript only.
+ */
+export async function inviteReviewer(
+  submissionId: string,
+  data: { reviewerName: string; reviewerEmail: string; dueDate?: string }
+) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'review.CREATE')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to invite reviewers"
+      }
+    }
+
+    const validation = invitationSchema.safeParse({
+      ...data,
+      dueDate: data.dueDate || undefined,
+    })
+    if (!validation.success) {
+      return {
+        success: false,
+        error: "Invalid reviewer details",
+        errors: validation.error.flatten().fieldErrors,
+      }
+    }
+
+    const { reviewerName, reviewerEmail, dueDate } = validation.data
+    const email = reviewerEmail.toLowerCase().trim()
+
+    const submission = await prisma.submission.findUnique({
+      where: { id: submissionId },
+      include: { reviewAssignments: true }
+    })
+
+    if (!submission) {
+      return { success: false, error: "Submission not found" }
+    }
+
+    if (submission.status === "decided") {
+      return { success: false, error: "A decision has already been recorded for this submission" }
+    }
+
+    // Authors can't review their own work
+    if (submission.authorEmail === email) {
+      return { success: false, error: "The reviewer can't be the submitting author" }
+    }
+
+    const alreadyInvited = submission.reviewAssignments.some(
+      (assignment) =>
+        assignment.round === submission.round &&
+        assignment.reviewerEmail === email &&
+        assignment.status !== "declined"
+    )
+    if (alreadyInvited) {
+      return { success: false, error: "This reviewer has already been invited" }
+    }
+
+    const token = randomBytes(32).toString("hex")
+
+    const assignment = await createReviewAssignment({
+      submissionId,
+      reviewerName: reviewerName.trim(),
+      reviewerEmail: email,
+      token,
+      round: submission.round,
+      dueDate,
+    })
+
+    await logSubmissionEvent({
+      submissionId,
+      round: submission.round,
+      type: "reviewer_invited",
+      actor: currentUser.email,
+      details: `${reviewerName.trim()} <${email}>`,
+    })
+
+    if (submission.status === "received" || submission.status === "desk_reviewed") {
+      await prisma.submission.update({
+        where: { id: submissionId },
+        data: { status: "under_review" }
+      })
+    }
+
+    const reviewUrl = getReviewUrl(token)
+
+    await sendEmail({
+      to: email,
+      ...reviewerInvitationEmail({
+        reviewerName: reviewerName.trim(),
+        title: submission.title,
+        reviewUrl,
+        dueDate,
+      }),
+    })
+
+    console.log(`✅ User ${currentUser.email} invited ${email} to review submission ${submissionId}`)
+
+    revalidatePath("/admin/submissions")
+    revalidatePath(`/admin/submissions/${submissionId}`)
+
+    return { success: true, data: { id: assignment.id, reviewUrl } }
+  } catch (error) {
+    console.error(`Failed to invite reviewer for submission ${submissionId}:`, error)
+    return { success: false, error: "Failed to invite reviewer" }
+  }
+}
+
+export async function withdrawReviewAssignment(assignmentId: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'review.DELETE')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to withdraw reviewer invitations"
+      }
+    }
+
+    const assignment = await prisma.reviewAssignment.findUnique({ where: { id: assignmentId } })
+    if (!assignment) {
+      return { success: false, error: "Review assignment not found" }
+    }
+
+    // Deleting would take the submitted review with it, and it is part of the
+    // editorial record
+    if (assignment.status === "completed") {
+      return { success: false, error: "A completed review can't be withdrawn" }
+    }
+
+    await prisma.reviewAssignment.delete({ where: { id: assignmentId } })
+
+    await logSubmissionEvent({
+      submissionId: assignment.submissionId,
+      round: assignment.round,
+      type: "reviewer_withdrawn",
+      actor: currentUser.email,
+      details: assignment.reviewerName,
+    })
+
+    console.log(`🗑️ User ${currentUser.email} withdrew review assignment ${assignmentId}`)
+
+    revalidatePath(`/admin/submissions/${assignment.submissionId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error(`Failed to withdraw review assignment ${assignmentId}:`, error)
+    return { success: false, error: "Failed to withdraw reviewer invitation" }
+  }
+}
+
+/**
+ * Review assignments for a submission. Editors (review.UPDATE) see every
+ * reviewer; anyone with only review.READ sees just their own assignment, so
+ * reviewers can't identify each other or read confidential comments. Review
+ * links are never listed: they let whoever holds them act as the reviewer.
+ */
+export async function getSubmissionReviews(submissionId: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'review.READ')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to view reviews"
+      }
+    }
+
+    const isEditor = checkPermission(currentUser, 'review.UPDATE').allowed
+    const assignments = await getReviewAssignmentsForSubmission(submissionId)
+
+    return {
+      success: true,
+      data: assignments
+        .filter((assignment) => isEditor || assignment.reviewerEmail === currentUser.email.toLowerCase())
+        .map(({ token, ...assignment }) => assignment)
+    }
+  } catch (error) {
+    console.error(`Failed to fetch reviews for submission ${submissionId}:`, error)
+    return { success: false, error: "Failed to fetch reviews" }
+  }
+}
+
+/**
+ * The private review link for one assignment, for an editor to pass on to
+ * the reviewer again
+ */
+export async function getReviewAssignmentLink(assignmentId: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'review.UPDATE')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to view reviewer links"
+      }
+    }
+
+    const assignment = await prisma.reviewAssignment.findUnique({
+      where: { id: assignmentId },
+      select: { token: true }
+    })
+    if (!assignment) {
+      return { success: false, error: "Review assignment not found" }
+    }
+
+    return { success: true, url: getReviewUrl(assignment.token) }
+  } catch (error) {
+    console.error(`Failed to get link for review assignment ${assignmentId}:`, error)
+    return { success: false, error: "Failed to get reviewer link" }
+  }
+}
+
+/**
+ * Record the editorial decision for a submission
+ */
+export async function recordDecision(submissionId: string, decision: ReviewDecision, editorNotes?: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'review.UPDATE')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to record decisions"
+      }
+    }
+
+    const decisionValidation = z.nativeEnum(ReviewDecision).safeParse(decision)
+    if (!decisionValidation.success) {
+      return { success: false, error: "Invalid decision" }
+    }
+
+    const submission = await prisma.submission.findUnique({
+      where: { id: submissionId },
+      include: { reviewAssignments: { where: { status: "completed" } } }
+    })
+
+    if (!submission) {
+      return { success: false, error: "Submission not found" }
+    }
+
+    if (submission.decision) {
+      return { success: false, error: "A decision has already been recorded for this round" }
+    }
+
+    const completedReviews = submission.reviewAssignments.filter(
+      (assignment) => assignment.round === submission.round
+    )
+
+    // Desk rejections don't need reviewer reports; every other outcome does
+    if (decisionValidation.data !== "reject" && completedReviews.length < MIN_REVIEWS_FOR_DECISION) {
+      return {
+        success: false,
+        error: `At least ${MIN_REVIEWS_FOR_DECISION} completed reviews are required before recording this decision`
+      }
+    }
+
+    const decidedAt = new Date()
+    const needsRevision = decisionValidation.data === "minor_revisions" || decisionValidation.data === "revise_and_resubmit"
+    const revisionToken = needsRevision ? randomBytes(32).toString("hex") : null
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.submissionVersion.update({
+        where: { submissionId_round: { submissionId, round: submission.round } },
+        data: { decision: decisionValidation.data, decidedAt }
+      })
+
+      await logSubmissionEvent({
+        submissionId,
+        round: submission.round,
+        type: "decision_recorded",
+        actor: currentUser.email,
+        details: REVIEW_DECISION_LABELS[decisionValidation.data],
+      }, tx)
+
+      return tx.submission.update({
+        where: { id: submissionId },
+        data: {
+          decision: decisionValidation.data,
+          decidedAt,
+          status: "decided",
+          revisionToken,
+          ...(editorNotes !== undefined && { editorNotes: editorNotes.trim() || null }),
+        }
+      })
+    })
+
+    console.log(`✅ User ${currentUser.email} recorded decision "${updated.decision}" for submission ${submissionId}`)
+
+    if (revisionToken) {
+      const revisionUrl = `${siteConfig.url}/submit/revision/${revisionToken}`
+      const label = REVIEW_DECISION_LABELS[decisionValidation.data]
+
+      await sendEmail({
+        to: submission.authorEmail,
+        ...revisionRequestEmail({
+          authorName: submission.authorName,
+          title: submission.title,
+          decisionLabel: label,
+          revisionUrl,
+        }),
+      })
+    }
+
+    // Accepted manuscripts become a draft article for the editors to finish
+    if (decisionValidation.data === "accepted") {
+      const conversion = await createDraftFromSubmission(submissionId)
+      if ("error" in conversion) {
+        console.error(`❌ Failed to create draft article for submission ${submissionId}:`, conversion.error)
+        return {
+          success: true,
+          data: updated,
+          warning: `Decision recorded, but the draft article could not be created: ${conversion.error}`
+        }
+      }
+    }
+
+    revalidatePath("/admin/submissions")
+    revalidatePath(`/admin/submissions/${submissionId}`)
+
+    return { success: true, data: updated }
+  } catch (error) {
+    console.error(`Failed to record decision for submission ${submissionId}:`, error)
+    return { success: false, error: "Failed to record decision" }
+  }
+}
+
+/**
+ * Review assignments for the signed-in reviewer
+ */
+export async function getMyReviewAssignments() {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'review.READ')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to view reviews"
+      }
+    }
+
+    const assignments = await getReviewAssignmentsByEmail(currentUser.email)
+
+    return { success: true, data: assignments }
+  } catch (error) {
+    console.error("Failed to fetch review assignments:", error)
+    return { success: false, error: "Failed to fetch review assignments" }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reviewer actions (authorized by the invitation token, no login required)
+// ---------------------------------------------------------------------------
+
+export async function getReviewerAssignment(token: string) {
+  try {
+    if (!token || typeof token !== 'string') {
+      return { success: false, error: "Invalid review link" }
+    }
+
+    const assignment = await getReviewAssignmentByToken(token)
+    if (!assignment) {
+      return { success: false, error: "This review link is invalid or has been withdrawn" }
+    }
+
+    const version = await getReviewRoundVersion(assignment.submission.id, assignment.round)
+
+    return { success: true, data: { ...assignment, hasResponseLetter: Boolean(version?.responseLetterPath) } }
+  } catch (error) {
+    console.error("Failed to fetch review assignment:", error)
+    return { success: false, error: "Failed to load review" }
+  }
+}
+
+export async function respondToReviewInvitation(token: string, accept: boolean) {
+  try {
+    const assignment = await prisma.reviewAssignment.findUnique({ where: { token } })
+    if (!assignment) {
+      return { success: false, error: "This review link is invalid or has been withdrawn" }
+    }
+
+    if (assignment.status !== "invited") {
+      return { success: false, error: "You have already responded to this invitation" }
+    }
+
+    await prisma.reviewAssignment.update({
+      where: { id: assignment.id },
+      data: {
+        status: accept ? "accepted" : "declined",
+        respondedAt: new Date(),
+      }
+    })
+
+    await logSubmissionEvent({
+      submissionId: assignment.submissionId,
+      round: assignment.round,
+      type: accept ? "reviewer_accepted" : "reviewer_declined",
+      actor: assignment.reviewerName,
+    })
+
+    console.log(`✅ Reviewer ${accept ? "accepted" : "declined"} assignment ${assignment.id}`)
+
+    revalidatePath(`/review/${token}`)
+    revalidatePath(`/admin/submissions/${assignment.submissionId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to respond to review invitation:", error)
+    return { success: false, error: "Failed to record your response" }
+  }
+}
+
+/**
+ * A short-lived link to the anonymized manuscript for the reviewer's round,
+ * or to the author's response letter for rounds after the first
+ */
+export async function getReviewerManuscriptUrl(token: string, file: "manuscript" | "responseLetter" = "manuscript") {
+  try {
+    const assignment = await prisma.reviewAssignment.findUnique({
+      where: { token },
+      include: { submission: { select: { id: true, manuscriptPath: true } } }
+    })
+
+    if (!assignment) {
+      return { success: false, error: "This review link is invalid or has been withdrawn" }
+    }
+
+    if (assignment.status !== "accepted" && assignment.status !== "completed") {
+      return { success: false, error: "Please accept the invitation before downloading the manuscript" }
+    }
+
+    const version = await getReviewRoundVersion(assignment.submission.id, assignment.round)
+    const path = file === "manuscript"
+      ? version?.manuscriptPath ?? assignment.submission.manuscriptPath
+      : version?.responseLetterPath
+
+    if (!path) {
+      return { success: false, error: "There is no response letter for this round" }
+    }
+
+    // Neutral file name: the uploaded one may identify the author
+    const extension = path.split('.').pop()
+    const name = file === "manuscript" ? "manuscript" : `response-letter-round-${assignment.round}`
+    const url = await getSignedFileUrl(
+      path,
+      SUBMISSION_BUCKET,
+      60 * 10,
+      `${name}-${assignment.submission.id}.${extension}`
+    )
+
+    if (!url) {
+      return { success: false, error: "Failed to create download link" }
+    }
+
+    return { success: true, url }
+  } catch (error) {
+    console.error("Failed to get manuscript for reviewer:", error)
+    return { success: false, error: "Failed to get manuscript" }
+  }
+}
+
+export async function submitReview(
+  token: string,
+  data: {
+    recommendation: ReviewDecision
+    summary: string
+    strengths?: string
+    weaknesses?: string
+    commentsToAuthor: string
+    commentsToEditor?: string
+  }
+) {
+  try {
+    const assignment = await prisma.reviewAssignment.findUnique({ where: { token } })
+    if (!assignment) {
+      return { success: false, error: "This review link is invalid or has been withdrawn" }
+    }
+
+    if (assignment.status === "completed") {
+      return { success: false, error: "Your review has already been submitted" }
+    }
+
+    if (assignment.status !== "accepted") {
+      return { success: false, error: "Please accept the invitation before submitting a review" }
+    }
+
+    const validation = reviewSchema.safeParse({
+      ...data,
+      strengths: data.strengths || undefined,
+      weaknesses: data.weaknesses || undefined,
+      commentsToEditor: data.commentsToEditor || undefined,
+    })
+    if (!validation.success) {
+      return {
+        success: false,
+        error: "Please correct the highlighted fields and try again.",
+        errors: validation.error.flatten().fieldErrors,
+      }
+    }
+
+    await createReview(assignment.id, {
+      ...validation.data,
+      summary: validation.data.summary.trim(),
+      commentsToAuthor: validation.data.commentsToAuthor.trim(),
+    })
+
+    await logSubmissionEvent({
+      submissionId: assignment.submissionId,
+      round: assignment.round,
+      type: "review_submitted",
+      actor: assignment.reviewerName,
+      details: REVIEW_DECISION_LABELS[validation.data.recommendation],
+    })
+
+    console.log(`✅ Review submitted for assignment ${assignment.id}`)
+
+    revalidatePath(`/review/${token}`)
+    revalidatePath(`/admin/submissions/${assignment.submissionId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to submit review:", error)
+    return { success: false, error: "Failed to submit review. Please try again later." }
+  }
+}
@@ -0,0 +1,188 @@
+"use server"
+
+import { revalidatePath, revalidateTag } from "next/cache"
+import { ARTICLE_FEEDS_TAG } from "@/lib/feeds"
+import { getCurrentUser } from "@/lib/auth"
+import { checkPermission } from "@/lib/permissions/checker"
+import { UserWithPermissions } from "@/lib/permissions/types"
+import {
+  getArticleRevision,
+  getArticleRevisions,
+  getPreviousArticleRevision,
+  recordArticleRevision,
+} from "@/lib/controllers/article-revisions"
+import { diffKeywords, diffRichText, diffText } from "@/lib/revision-diff"
+import { describeSanitizeReport, sanitizeArticleContent } from "@/lib/sanitize"
+import prisma from "@/lib/prisma"
+
+// Helper function to get current user with permissions
+async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return null
+
+    if ('role' in user && user.role) {
+      return user as UserWithPermissions
+    }
+
+    const fullUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { role: true }
+    })
+
+    return fullUser as UserWithPermissions
+  } catch (error) {
+    console.error('Error getting user with permissions:', error)
+    return null
+  }
+}
+
+// Helper function to calculate read time (rough estimate)
+function calculateReadTime(content: string): number {
+  const wordsPerMinute = 200
+  const words = content.split(/\s+/).length
+  return Math.max(1, Math.ceil(words / wordsPerMinute))
+}
+
+export async function getRevisionHistory(articleId: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'article.READ')
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to view revisions" }
+    }
+
+    const revisions = await getArticleRevisions(articleId)
+
+    return { success: true, data: revisions }
+  } catch (error) {
+    console.error(`Failed to fetch revisions for article ${articleId}:`, error)
+    return { success: false, error: "Failed to fetch revisions" }
+  }
+}
+
+/**
+ * Word-level diff of a revision against the revision before it, or against
+ * the article as it is now.
+ */
+export async function compareRevision(revisionId: string, against: "previous" | "current") {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'article.READ')
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to view revisions" }
+    }
+
+    const revision = await getArticleRevision(revisionId)
+
+    if (!revision) {
+      return { success: false, error: "Revision not found" }
+    }
+
+    // Diffs always read from the older copy to the newer one
+    let before, after
+    if (against === "current") {
+      before = revision
+      after = revision.article
+    } else {
+      const previous = await getPreviousArticleRevision(revision.articleId, revision.createdAt)
+      before = previous ?? { title: "", abstract: null, content: null, keywords: [] }
+      after = revision
+    }
+
+    return {
+      success: true,
+      data: {
+        title: diffText(before.title, after.title),
+        abstract: diffText(before.abstract, after.abstract),
+        content: diffRichText(before.content, after.content),
+        keywords: diffKeywords(before.keywords, after.keywords),
+      },
+    }
+  } catch (error) {
+    console.error(`Failed to compare revision ${revisionId}:`, error)
+    return { success: false, error: "Failed to compare revision" }
+  }
+}
+
+/**
+ * Put an older revision's copy back on the article. The restore is saved as
+ * a new revision, so it can itself be undone.
+ */
+export async function restoreArticleRevision(revisionId: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'article.UPDATE')
+    if (!permissionCheck.allowed) {
+      return { success: false, error: permissionCheck.reason || "You don't have permission to restore revisions" }
+    }
+
+    const revision = await getArticleRevision(revisionId)
+
+    if (!revision) {
+      return { success: false, error: "Revision not found" }
+    }
+
+    // Revisions from before sanitizing started go through the same allow-list
+    const sanitized = revision.content ? sanitizeArticleContent(revision.content) : null
+
+    const article = await prisma.$transaction(async (tx) => {
+      const restored = await tx.article.update({
+        where: { id: revision.articleId },
+        data: {
+          title: revision.title,
+          abstract: revision.abstract,
+          content: sanitized ? sanitized.content : revision.content,
+          keywords: revision.keywords,
+          ...(sanitized && { readTime: calculateReadTime(sanitized.content) }),
+          // Counts as an edit, so forms opened before the restore can't save over it
+          version: { increment: 1 },
+        }
+      })
+
+      await recordArticleRevision(tx, {
+        articleId: restored.id,
+        current: restored,
+        editorId: currentUser.id,
+      })
+
+      return restored
+    })
+
+    console.log(`♻️ User ${currentUser.email} restored revision ${revisionId} of article ${article.slug}`)
+
+    const section = article.type === "journal" ? "journals" : "blogs"
+    revalidatePath("/")
+    revalidatePath(`/${section}`)
+    revalidatePath(`/${section}/${article.slug}`)
+    revalidateTag(ARTICLE_FEEDS_TAG)
+    revalidatePath("/admin/posts")
+    revalidatePath(`/admin/posts/${article.slug}/edit`)
+    revalidatePath("/admin/journal-articles")
+    revalidatePath(`/admin/journal-articles/${article.slug}/edit`)
+
+    return {
+      success: true,
+      data: { slug: article.slug },
+      sanitizeWarning: sanitized ? describeSanitizeReport(sanitized.report) : null,
+    }
+  } catch (error) {
+    console.error(`Failed to restore revision ${revisionId}:`, error)
+    return { success: false, error: "Failed to restore revision" }
+  }
+}
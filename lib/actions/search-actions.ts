@@ -0,0 +1,92 @@
+"use server"
+
+import { searchArticles, searchAuthors } from "@/lib/controllers/search"
+import {
+  DIALOG_PAGE_SIZE,
+  SEARCH_PAGE_SIZE,
+  type ArticleSearchResult,
+  type AuthorSearchResult,
+  type SearchFacets,
+  type SearchParams,
+} from "@/lib/search"
+import { getAuthorSearchText, parseSearchQuery } from "@/lib/search-query"
+
+// Authors shown above the articles on the first page of an "all" search
+const AUTHOR_PREVIEW_LIMIT = 3
+
+const EMPTY_FACETS: SearchFacets = { type: [], issue: [], year: [], author: [] }
+
+export type SearchSiteResult = {
+  success: boolean
+  error?: string
+  articles: ArticleSearchResult[]
+  authors: AuthorSearchResult[]
+  // Of the filter's own kind: authors on the authors tab, articles otherwise
+  total: number
+  page: number
+  pageCount: number
+  facets: SearchFacets
+  // Parts of the query that were ignored, for the page to point out
+  warnings: string[]
+}
+
+/**
+ * Public site search. The query may use the advanced syntax in
+ * lib/search-query.ts. Articles are ranked by relevance and come with facet
+ * counts; the authors tab searches author profiles instead. The page size is
+ * fixed here rather than taken from the caller, so a request can't ask for
+ * the whole table.
+ */
+export async function searchSite(params: SearchParams, dialogMode: boolean = false): Promise<SearchSiteResult> {
+  const pageSize = dialogMode ? DIALOG_PAGE_SIZE : SEARCH_PAGE_SIZE
+  const query = params.query.trim()
+  const page = Math.max(1, Math.floor(params.page) || 1)
+  const { node, warnings } = parseSearchQuery(query)
+  const authorQuery = getAuthorSearchText(node)
+  const empty = { articles: [], authors: [], total: 0, page, pageCount: 0, facets: EMPTY_FACETS, warnings }
+
+  if (query.length < 2 || !node) {
+    return { success: true, ...empty }
+  }
+
+  try {
+    if (params.filter === "authors") {
+      if (!authorQuery) return { success: true, ...empty }
+
+      const { results, total } = await searchAuthors(authorQuery, { page, pageSize })
+      return { success: true, ...empty, authors: results, total, pageCount: Math.ceil(total / pageSize) }
+    }
+
+    const [articles, authors] = await Promise.all([
+      searchArticles(
+        node,
+        {
+          type: params.filter === "journals" ? "journal" : params.filter === "blogs" ? "blog" : undefined,
+          issueId: params.issue,
+          year: params.year,
+          authorSlug: params.author,
+        },
+        { page, pageSize }
+      ),
+      params.filter === "all" && page === 1 && authorQuery
+        ? searchAuthors(authorQuery, { pageSize: AUTHOR_PREVIEW_LIMIT })
+        : null,
+    ])
+
+    console.log(`🔎 Search "${query}" (${params.filter}): ${articles.total} articles`)
+
+    return {
+      success: true,
+      articles: articles.results,
+      authors: authors?.results ?? [],
+      total: articles.total,
+      page,
+      pageCount: Math.ceil(articles.total / pageSize),
+      facets: articles.facets,
+      warnings,
+    }
+  } catch (error) {
+    console.error(`Failed to search for "${query}":`, error)
+    return { success: false, error: "Search is unavailable right now. Please try again later.", ...empty }
+  }
+}
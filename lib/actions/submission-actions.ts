@@ -0,0 +1,609 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { SubmissionStatus } from "@prisma/client"
+import { getCurrentUser } from "@/lib/auth"
+import { checkPermission } from "@/lib/permissions/checker"
+import { UserWithPermissions } from "@/lib/permissions/types"
+import { uploadFile, deleteImage, getSignedFileUrl } from "@/lib/supabase"
+import { rateLimit } from "@/lib/rate-limit"
+import { logSubmissionEvent } from "@/lib/controllers/submissions"
+import { sendEmail } from "@/lib/email-utils"
+import { submissionReceiptEmail } from "@/lib/email/templates"
+import prisma from "@/lib/prisma"
+
+// Manuscripts live in a private bucket; editors download them through signed URLs
+const SUBMISSION_BUCKET = "submissions"
+
+// 3 submissions per email address per hour
+const submissionLimiter = rateLimit({
+  interval: 60 * 60 * 1000,
+  uniqueTokenPerInterval: 500,
+})
+
+// Helper function to get current user with permissions
+async function getCurrentUserWithPermissions(): Promise<UserWithPermissions | null> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return null
+
+    if ('role' in user && user.role) {
+      return user as UserWithPermissions
+    }
+
+    const fullUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { role: true }
+    })
+
+    return fullUser as UserWithPermissions
+  } catch (error) {
+    console.error('Error getting user with permissions:', error)
+    return null
+  }
+}
+
+const submissionSchema = z.object({
+  title: z.string()
+    .min(5, "Title must be at least 5 characters")
+    .max(200, "Title must be less than 200 characters"),
+  abstract: z.string()
+    .min(50, "Abstract must be at least 50 characters")
+    .max(3000, "Abstract must be less than 3000 characters"),
+  keywords: z.array(z.string().min(1).max(50)).max(10, "Maximum 10 keywords allowed").default([]),
+  type: z.enum(["blog", "journal"]).default("journal"),
+  authorName: z.string()
+    .min(2, "Name must be at least 2 characters")
+    .max(100, "Name must be less than 100 characters"),
+  authorEmail: z.string().email("Please enter a valid email address"),
+  authorAffiliation: z.string().max(200).optional(),
+  coverLetter: z.string().max(3000).optional(),
+  callForPapersId: z.string().optional(),
+})
+
+const statusSchema = z.nativeEnum(SubmissionStatus)
+
+// Helper function to validate uploaded Word documents
+function validateManuscriptFile(file: File | null, label: string): { isValid: boolean; error?: string } {
+  const allowedTypes = [
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ]
+  const allowedExtensions = ['doc', 'docx']
+  const maxSize = 10 * 1024 * 1024 // 10MB
+
+  if (!file || typeof file === 'string' || file.size === 0) {
+    return { isValid: false, error: `${label} is required` }
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || ''
+  if (!allowedExtensions.includes(extension) || (file.type && !allowedTypes.includes(file.type))) {
+    return { isValid: false, error: `${label} must be a Microsoft Word document (.doc or .docx)` }
+  }
+
+  if (file.size > maxSize) {
+    return { isValid: false, error: `${label} is too large. Maximum size is 10MB.` }
+  }
+
+  return { isValid: true }
+}
+
+/**
+ * Public manuscript submission (no authentication required)
+ */
+export async function submitManuscript(formData: FormData) {
+  const uploadedPaths: string[] = []
+
+  try {
+    const validation = submissionSchema.safeParse({
+      title: formData.get("title"),
+      abstract: formData.get("abstract"),
+      keywords: String(formData.get("keywords") || "")
+        .split(",")
+        .map((keyword) => keyword.trim())
+        .filter(Boolean),
+      type: formData.get("type") || undefined,
+      authorName: formData.get("authorName"),
+      authorEmail: formData.get("authorEmail"),
+      authorAffiliation: formData.get("authorAffiliation") || undefined,
+      coverLetter: formData.get("coverLetter") || undefined,
+      callForPapersId: formData.get("callForPapersId") || undefined,
+    })
+
+    if (!validation.success) {
+      return {
+        success: false,
+        errors: validation.error.flatten().fieldErrors,
+        error: "Please correct the highlighted fields and try again.",
+      }
+    }
+
+    const data = validation.data
+
+    const manuscript = formData.get("manuscript") as File | null
+    const titlePage = formData.get("titlePage") as File | null
+
+    const manuscriptCheck = validateManuscriptFile(manuscript, "Anonymized manuscript")
+    if (!manuscriptCheck.isValid) {
+      return { success: false, error: manuscriptCheck.error }
+    }
+
+    const titlePageCheck = validateManuscriptFile(titlePage, "Title page")
+    if (!titlePageCheck.isValid) {
+      return { success: false, error: titlePageCheck.error }
+    }
+
+    try {
+      await submissionLimiter.check(3, data.authorEmail.toLowerCase())
+    } catch (error) {
+      return { success: false, error: "Too many submissions from this email address. Please try again later." }
+    }
+
+    // Only open calls can receive submissions
+    if (data.callForPapersId) {
+      const call = await prisma.callForPapers.findUnique({
+        where: { id: data.callForPapersId }
+      })
+
+      if (!call) {
+        return { success: false, error: "The selected call for papers could not be found." }
+      }
+
+      if (call.deadline <= new Date()) {
+        return { success: false, error: "The deadline for the selected call for papers has passed." }
+      }
+    }
+
+    console.log(`📤 Receiving submission "${data.title}" from ${data.authorEmail}`)
+
+    const manuscriptUpload = await uploadFile(manuscript!, SUBMISSION_BUCKET, "manuscripts")
+    if (!manuscriptUpload) {
+      return { success: false, error: "Failed to upload manuscript. Please try again." }
+    }
+    uploadedPaths.push(manuscriptUpload.path)
+
+    const titlePageUpload = await uploadFile(titlePage!, SUBMISSION_BUCKET, "title-pages")
+    if (!titlePageUpload) {
+      throw new Error("Failed to upload title page")
+    }
+    uploadedPaths.push(titlePageUpload.path)
+
+    const submission = await prisma.submission.create({
+      data: {
+        title: data.title.trim(),
+        abstract: data.abstract.trim(),
+        keywords: data.keywords,
+        type: data.type,
+        authorName: data.authorName.trim(),
+        authorEmail: data.authorEmail.toLowerCase().trim(),
+        authorAffiliation: data.authorAffiliation?.trim() || null,
+        coverLetter: data.coverLetter?.trim() || null,
+        manuscriptName: manuscript!.name,
+        manuscriptPath: manuscriptUpload.path,
+        titlePageName: titlePage!.name,
+        titlePagePath: titlePageUpload.path,
+        callForPapersId: data.callForPapersId || null,
+        versions: {
+          create: {
+            round: 1,
+            manuscriptName: manuscript!.name,
+            manuscriptPath: manuscriptUpload.path,
+          }
+        },
+        events: {
+          create: {
+            round: 1,
+            type: "submitted",
+            actor: data.authorName.trim(),
+          }
+        },
+      }
+    })
+
+    console.log(`✅ Submission received: ${submission.title} (ID: ${submission.id})`)
+
+    await sendEmail({
+      to: submission.authorEmail,
+      ...submissionReceiptEmail({
+        authorName: submission.authorName,
+        title: submission.title,
+        reference: submission.id,
+      }),
+    })
+
+    revalidatePath("/admin/submissions")
+
+    return {
+      success: true,
+      reference: submission.id,
+      message: "Thank you! Your manuscript has been received. Please keep your reference number for any correspondence.",
+    }
+  } catch (error) {
+    console.error("❌ Failed to receive submission:", error)
+
+    // Don't leave orphaned files behind
+    for (const path of uploadedPaths) {
+      await deleteImage(path, SUBMISSION_BUCKET)
+    }
+
+    return { success: false, error: "Failed to submit manuscript. Please try again later." }
+  }
+}
+
+export async function getSubmissions(status?: SubmissionStatus) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'submission.READ')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to view submissions"
+      }
+    }
+
+    const submissions = await prisma.submission.findMany({
+      where: status ? { status } : {},
+      include: {
+        callForPapers: {
+          select: { id: true, title: true, volume: true, issue: true, year: true }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    })
+
+    console.log(`✅ User ${currentUser.email} fetched ${submissions.length} submissions`)
+
+    return { success: true, data: submissions }
+  } catch (error) {
+    console.error("Failed to fetch submissions:", error)
+    return { success: false, error: "Failed to fetch submissions" }
+  }
+}
+
+export async function updateSubmissionStatus(id: string, status: SubmissionStatus, editorNotes?: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    if (!id || typeof id !== 'string') {
+      return { success: false, error: "Invalid submission ID provided" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'submission.UPDATE')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to update submissions"
+      }
+    }
+
+    const statusValidation = statusSchema.safeParse(status)
+    if (!statusValidation.success) {
+      return { success: false, error: "Invalid submission status" }
+    }
+
+    const existing = await prisma.submission.findUnique({ where: { id } })
+    if (!existing) {
+      return { success: false, error: "Submission not found" }
+    }
+
+    const submission = await prisma.submission.update({
+      where: { id },
+      data: {
+        status: statusValidation.data,
+        ...(editorNotes !== undefined && { editorNotes: editorNotes.trim() || null }),
+      }
+    })
+
+    if (existing.status !== submission.status) {
+      await logSubmissionEvent({
+        submissionId: submission.id,
+        round: submission.round,
+        type: "status_changed",
+        actor: currentUser.email,
+        details: `${existing.status} → ${submission.status}`,
+      })
+    }
+
+    console.log(`✅ User ${currentUser.email} moved submission ${submission.id} to ${submission.status}`)
+
+    revalidatePath("/admin/submissions")
+
+    return { success: true, data: submission }
+  } catch (error) {
+    console.error(`Failed to update submission ${id}:`, error)
+    return { success: false, error: "Failed to update submission" }
+  }
+}
+
+export async function deleteSubmission(id: string) {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'submission.DELETE')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to delete submissions"
+      }
+    }
+
+    const submission = await prisma.submission.findUnique({
+      where: { id },
+      include: { versions: true }
+    })
+    if (!submission) {
+      return { success: false, error: "Submission not found" }
+    }
+
+    await prisma.submission.delete({ where: { id } })
+
+    // Every round keeps its own files
+    const paths = new Set([submission.manuscriptPath, submission.titlePagePath])
+    for (const version of submission.versions) {
+      paths.add(version.manuscriptPath)
+      if (version.responseLetterPath) paths.add(version.responseLetterPath)
+    }
+    for (const path of paths) {
+      await deleteImage(path, SUBMISSION_BUCKET)
+    }
+
+    console.log(`🗑️ User ${currentUser.email} deleted submission: ${submission.title}`)
+
+    revalidatePath("/admin/submissions")
+
+    return { success: true }
+  } catch (error) {
+    console.error(`Failed to delete submission ${id}:`, error)
+    return { success: false, error: "Failed to delete submission" }
+  }
+}
+
+/**
+ * Get a short-lived download link for a submission file
+ */
+export async function getSubmissionFileUrl(id: string, file: "manuscript" | "titlePage") {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'submission.READ')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to download submission files"
+      }
+    }
+
+    const submission = await prisma.submission.findUnique({ where: { id } })
+    if (!submission) {
+      return { success: false, error: "Submission not found" }
+    }
+
+    const path = file === "manuscript" ? submission.manuscriptPath : submission.titlePagePath
+    const url = await getSignedFileUrl(path, SUBMISSION_BUCKET)
+
+    if (!url) {
+      return { success: false, error: "Failed to create download link" }
+    }
+
+    return { success: true, url }
+  } catch (error) {
+    console.error(`Failed to get file for submission ${id}:`, error)
+    return { success: false, error: "Failed to get submission file" }
+  }
+}
+
+/**
+ * Get a short-lived download link for a file from a specific revision round
+ */
+export async function getSubmissionVersionFileUrl(versionId: string, file: "manuscript" | "responseLetter") {
+  try {
+    const currentUser = await getCurrentUserWithPermissions()
+
+    if (!currentUser) {
+      return { success: false, error: "Authentication required" }
+    }
+
+    const permissionCheck = checkPermission(currentUser, 'submission.READ')
+    if (!permissionCheck.allowed) {
+      return {
+        success: false,
+        error: permissionCheck.reason || "You don't have permission to download submission files"
+      }
+    }
+
+    const version = await prisma.submissionVersion.findUnique({ where: { id: versionId } })
+    if (!version) {
+      return { success: false, error: "Version not found" }
+    }
+
+    const path = file === "manuscript" ? version.manuscriptPath : version.responseLetterPath
+    if (!path) {
+      return { success: false, error: "This round has no response letter" }
+    }
+
+    const url = await getSignedFileUrl(path, SUBMISSION_BUCKET)
+
+    if (!url) {
+      return { success: false, error: "Failed to create download link" }
+    }
+
+    return { success: true, url }
+  } catch (error) {
+    console.error(`Failed to get file for submission version ${versionId}:`, error)
+    return { success: false, error: "Failed to get submission file" }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Author revision actions (authorized by the revision token, no login required)
+// ---------------------------------------------------------------------------
+
+export async function getRevisionRequest(token: string) {
+  try {
+    if (!token || typeof token !== 'string') {
+      return { success: false, error: "Invalid revision link" }
+    }
+
+    const submission = await prisma.submission.findUnique({
+      where: { revisionToken: token },
+      select: {
+        id: true,
+        title: true,
+        round: true,
+        decision: true,
+        decidedAt: true,
+        reviewAssignments: {
+          where: { status: "completed" },
+          select: {
+            round: true,
+            // Reviewer identity is never shown to the author
+            review: {
+              select: { recommendation: true, commentsToAuthor: true }
+            }
+          },
+          orderBy: { createdAt: "asc" }
+        }
+      }
+    })
+
+    if (!submission) {
+      return { success: false, error: "This revision link is invalid or has already been used" }
+    }
+
+    return {
+      success: true,
+      data: {
+        id: submission.id,
+        title: submission.title,
+        round: submission.round,
+        decision: submission.decision,
+        decidedAt: submission.decidedAt,
+        reviews: submission.reviewAssignments
+          .filter((assignment) => assignment.round === submission.round && assignment.review)
+          .map((assignment) => assignment.review!),
+      }
+    }
+  } catch (error) {
+    console.error("Failed to fetch revision request:", error)
+    return { success: false, error: "Failed to load revision request" }
+  }
+}
+
+/**
+ * Upload a revised manuscript and response letter, starting the next review round
+ */
+export async function submitRevision(token: string, formData: FormData) {
+  const uploadedPaths: string[] = []
+
+  try {
+    const submission = await prisma.submission.findUnique({ where: { revisionToken: token } })
+    if (!submission) {
+      return { success: false, error: "This revision link is invalid or has already been used" }
+    }
+
+    if (submission.decision !== "minor_revisions" && submission.decision !== "revise_and_resubmit") {
+      return { success: false, error: "No revision has been requested for this submission" }
+    }
+
+    const manuscript = formData.get("manuscript") as File | null
+    const responseLetter = formData.get("responseLetter") as File | null
+
+    const manuscriptCheck = validateManuscriptFile(manuscript, "Revised manuscript")
+    if (!manuscriptCheck.isValid) {
+      return { success: false, error: manuscriptCheck.error }
+    }
+
+    const responseLetterCheck = validateManuscriptFile(responseLetter, "Response to reviewers")
+    if (!responseLetterCheck.isValid) {
+      return { success: false, error: responseLetterCheck.error }
+    }
+
+    const manuscriptUpload = await uploadFile(manuscript!, SUBMISSION_BUCKET, "manuscripts")
+    if (!manuscriptUpload) {
+      return { success: false, error: "Failed to upload revised manuscript. Please try again." }
+    }
+    uploadedPaths.push(manuscriptUpload.path)
+
+    const responseLetterUpload = await uploadFile(responseLetter!, SUBMISSION_BUCKET, "response-letters")
+    if (!responseLetterUpload) {
+      throw new Error("Failed to upload response letter")
+    }
+    uploadedPaths.push(responseLetterUpload.path)
+
+    const round = submission.round + 1
+
+    // Earlier rounds keep their files; the submission always points at the latest manuscript
+    await prisma.$transaction(async (tx) => {
+      await tx.submissionVersion.create({
+        data: {
+          submissionId: submission.id,
+          round,
+          manuscriptName: manuscript!.name,
+          manuscriptPath: manuscriptUpload.path,
+          responseLetterName: responseLetter!.name,
+          responseLetterPath: responseLetterUpload.path,
+        }
+      })
+
+      await tx.submission.update({
+        where: { id: submission.id },
+        data: {
+          round,
+          manuscriptName: manuscript!.name,
+          manuscriptPath: manuscriptUpload.path,
+          status: "under_review",
+          decision: null,
+          decidedAt: null,
+          revisionToken: null,
+        }
+      })
+
+      await logSubmissionEvent({
+        submissionId: submission.id,
+        round,
+        type: "revision_submitted",
+        actor: submission.authorName,
+        details: `Round ${round}`,
+      }, tx)
+    })
+
+    console.log(`✅ Revision received for submission ${submission.id} (round ${round})`)
+
+    revalidatePath("/admin/submissions")
+    revalidatePath(`/admin/submissions/${submission.id}`)
+
+    return {
+      success: true,
+      message: "Thank you! Your revised manuscript has been received and will be sent back to the reviewers.",
+    }
+  } catch (error) {
+    console.error("❌ Failed to receive revision:", error)
+
+    // Don't leave orphaned files behind
+    for (const path of uploadedPaths) {
+      await deleteImage(path, SUBMISSION_BUCKET)
+    }
+
+    return { success: false, error: "Failed to submit revision. Please try again later." }
+  }
+}
@@ -22,6 +22,8 @@ import {
   PermissionContext
 } from "@/lib/permissions/types"
 import { prisma } from "@/lib/prisma"
+import { sendEmail } from "@/lib/email-utils"
+import { userInvitationEmail } from "@/lib/email/templates"
 
 // Response helpers
 function createSuccessResponse<T>(data: T, message?: string) {
@@ -206,6 +208,19 @@ export async function createUser(formData: FormData) {
     // Create user
     const newUser = await createUserInDB(validatedData)
 
+    // A failed invitation shouldn't undo the account; the mail queue keeps retrying
+    const invitation = await sendEmail({
+      to: newUser.email,
+      ...userInvitationEmail({
+        name: newUser.name,
+        email: newUser.email,
+        role: newUser.role?.name,
+      }),
+    })
+    if (!invitation.success) {
+      console.error(`❌ Failed to send invitation to ${newUser.email}:`, invitation.error)
+    }
+
     // Revalidate relevant pages
     revalidatePath("/admin/users")
     
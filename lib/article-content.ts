@@ -0,0 +1,310 @@
+// Article body helpers shared by the editor, the public pages and the exports.
+//
+// Older articles store plain text with blank lines between paragraphs; articles
+// written in the rich text editor store HTML. Footnotes are stored inline as
+// `<sup data-footnote data-note="...">` and numbered when the article is shown.
+
+export type Footnote = {
+  number: number
+  note: string
+}
+
+const RICH_TEXT_PATTERN = /^\s*<(p|h[1-6]|ul|ol|blockquote|div|table|figure|img|pre|hr)[\s>/]/i
+const FOOTNOTE_PATTERN = /<sup\b[^>]*\bdata-footnote\b[^>]*>[\s\S]*?<\/sup>/gi
+const NOTE_ATTRIBUTE_PATTERN = /\bdata-note="([^"]*)"/i
+
+const ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+export function decodeEntities(value: string) {
+  return value.replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (entity) => ENTITIES[entity])
+}
+
+export function isRichText(content: string | null | undefined) {
+  return !!content && RICH_TEXT_PATTERN.test(content)
+}
+
+/**
+ * Convert a plain-text article to editor HTML. Paragraphs that already hold
+ * markup (inline images) are kept as they are.
+ */
+export function legacyTextToHtml(content: string) {
+  return content
+    .split("\n\n")
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph) =>
+      paragraph.includes("<img") ? paragraph : `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`
+    )
+    .join("")
+}
+
+/**
+ * Number the footnotes in document order. Each reference becomes a linked
+ * superscript pointing at `#fn-N`, and the notes are returned for the list
+ * rendered after the article.
+ */
+export function numberFootnotes(html: string): { html: string; footnotes: Footnote[] } {
+  const footnotes: Footnote[] = []
+
+  const numbered = html.replace(FOOTNOTE_PATTERN, (reference) => {
+    const number = footnotes.length + 1
+    const note = decodeEntities(reference.match(NOTE_ATTRIBUTE_PATTERN)?.[1] || "")
+    footnotes.push({ number, note })
+
+    return `<sup class="footnote-ref" id="fnref-${number}"><a href="#fn-${number}" aria-describedby="footnotes-label">${number}</a></sup>`
+  })
+
+  return { html: numbered, footnotes }
+}
+
+// A stretch of text in one style; case citations and <em> are italic
+export type TextRun = {
+  text: string
+  italic?: boolean
+  bold?: boolean
+}
+
+export type TableRow = {
+  cells: { text: string; header: boolean }[]
+}
+
+export type ArticleBlock =
+  | { type: "heading"; level: number; runs: TextRun[] }
+  | { type: "paragraph"; runs: TextRun[] }
+  | { type: "list-item"; marker: string; depth: number; runs: TextRun[] }
+  | { type: "quote"; paragraphs: TextRun[][]; attribution: string | null }
+  | { type: "table"; rows: TableRow[] }
+
+export const TOKEN_PATTERN = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^>]*)>|([^<]+)/g
+const ITALIC_TAGS = new Set(["em", "i", "cite"])
+const BOLD_TAGS = new Set(["strong", "b"])
+const TEXT_BLOCK_TAGS = new Set(["p", "h1", "h2", "h3", "h4", "h5", "h6"])
+
+export function getAttribute(attributes: string, name: string) {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`, "i"))
+  return match ? decodeEntities(match[1]) : null
+}
+
+export function runsToText(runs: TextRun[]) {
+  return runs
+    .map((run) => run.text)
+    .join("")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .trim()
+}
+
+/**
+ * Break an article body into the blocks the downloads lay out: headings,
+ * paragraphs, list items, attributed quotes and tables. Footnote references
+ * become [N] and the notes are returned separately.
+ *
+ * This only understands the markup the rich text editor produces; legacy
+ * plain-text articles come back as one paragraph per blank-line break.
+ */
+export function articleToBlocks(content: string | null | undefined): {
+  blocks: ArticleBlock[]
+  footnotes: Footnote[]
+} {
+  if (!content) return { blocks: [], footnotes: [] }
+
+  if (!isRichText(content)) {
+    return {
+      blocks: content
+        .split("\n\n")
+        .filter((paragraph) => paragraph.trim())
+        .map((paragraph) => ({ type: "paragraph" as const, runs: [{ text: paragraph.trim() }] })),
+      footnotes: [],
+    }
+  }
+
+  const blocks: ArticleBlock[] = []
+  const footnotes: Footnote[] = []
+  const lists: { ordered: boolean; count: number }[] = []
+  let italic = 0
+  let bold = 0
+  let skipping = false
+  let runs: TextRun[] | null = null
+  let quote: Extract<ArticleBlock, { type: "quote" }> | null = null
+  let table: Extract<ArticleBlock, { type: "table" }> | null = null
+  let cell: { text: string; header: boolean } | null = null
+
+  const closeRuns = () => {
+    if (runs && quote && !runs.length) {
+      quote.paragraphs.pop()
+    }
+    runs = null
+  }
+
+  // Text outside any block still needs somewhere to go
+  const currentRuns = () => {
+    if (runs) return runs
+    runs = []
+    if (quote) {
+      quote.paragraphs.push(runs)
+    } else {
+      blocks.push({ type: "paragraph", runs })
+    }
+    return runs
+  }
+
+  const write = (text: string) => {
+    if (cell) {
+      cell.text += text
+      return
+    }
+    if (!runs && !text.trim()) return
+
+    const target = currentRuns()
+    const last = target[target.length - 1]
+    if (last && !!last.italic === italic > 0 && !!last.bold === bold > 0) {
+      last.text += text
+    } else {
+      target.push({ text, ...(italic > 0 && { italic: true }), ...(bold > 0 && { bold: true }) })
+    }
+  }
+
+  for (const [, closing, rawTag, attributes, text] of content.matchAll(TOKEN_PATTERN)) {
+    if (text !== undefined) {
+      if (!skipping) write(decodeEntities(text).replace(/\s+/g, " "))
+      continue
+    }
+    if (!rawTag) continue
+
+    const tag = rawTag.toLowerCase()
+
+    if (skipping) {
+      if (closing && tag === "sup") skipping = false
+      continue
+    }
+
+    if (closing) {
+      if (ITALIC_TAGS.has(tag)) italic = Math.max(0, italic - 1)
+      else if (BOLD_TAGS.has(tag)) bold = Math.max(0, bold - 1)
+      else if (TEXT_BLOCK_TAGS.has(tag) && !lists.length && !cell) closeRuns()
+      else if (tag === "li") closeRuns()
+      else if (tag === "ul" || tag === "ol") lists.pop()
+      else if (tag === "th" || tag === "td") {
+        if (cell && table) {
+          cell.text = cell.text.replace(/\s+/g, " ").trim()
+          table.rows[table.rows.length - 1]?.cells.push(cell)
+        }
+        cell = null
+      } else if (tag === "table") table = null
+      else if (tag === "blockquote") {
+        closeRuns()
+        quote = null
+      }
+      continue
+    }
+
+    if (tag === "sup" && /\bdata-footnote\b/i.test(attributes)) {
+      const number = footnotes.length + 1
+      footnotes.push({ number, note: getAttribute(attributes, "data-note") || "" })
+      write(`[${number}]`)
+      skipping = !attributes.trim().endsWith("/")
+    } else if (ITALIC_TAGS.has(tag)) italic++
+    else if (BOLD_TAGS.has(tag)) bold++
+    else if (tag === "br") write("\n")
+    else if (TEXT_BLOCK_TAGS.has(tag)) {
+      if (cell) {
+        if (cell.text) cell.text += " "
+      } else if (lists.length) {
+        if (runs && (runs as TextRun[]).length) write(" ")
+      } else {
+        closeRuns()
+        runs = []
+        if (quote) {
+          quote.paragraphs.push(runs)
+        } else if (tag === "p") {
+          blocks.push({ type: "paragraph", runs })
+        } else {
+          blocks.push({ type: "heading", level: Number(tag[1]), runs })
+        }
+      }
+    } else if (tag === "ul" || tag === "ol") {
+      closeRuns()
+      lists.push({ ordered: tag === "ol", count: Number(getAttribute(attributes, "start")) || 1 })
+    } else if (tag === "li") {
+      closeRuns()
+      const list = lists[lists.length - 1]
+      runs = []
+      blocks.push({
+        type: "list-item",
+        marker: list?.ordered ? `${list.count++}.` : "•",
+        depth: Math.max(0, lists.length - 1),
+        runs,
+      })
+    } else if (tag === "blockquote") {
+      closeRuns()
+      quote = { type: "quote", paragraphs: [], attribution: getAttribute(attributes, "data-attribution") }
+      blocks.push(quote)
+    } else if (tag === "table") {
+      closeRuns()
+      table = { type: "table", rows: [] }
+      blocks.push(table)
+    } else if (tag === "tr") {
+      table?.rows.push({ cells: [] })
+    } else if (tag === "th" || tag === "td") {
+      cell = { text: "", header: tag === "th" }
+    }
+  }
+
+  return {
+    blocks: blocks.filter((block) => {
+      if (block.type === "quote") return block.paragraphs.length > 0
+      if (block.type === "table") return block.rows.length > 0
+      return runsToText(block.runs) !== ""
+    }),
+    footnotes,
+  }
+}
+
+/**
+ * Plain-text version of an article body for the TXT download. Paragraphs are
+ * separated by blank lines, table cells by " | ", footnote references become
+ * [N] and the notes are appended under a "Notes" heading.
+ */
+export function articleToPlainText(content: string | null | undefined) {
+  if (!content) return ""
+  if (!isRichText(content)) return content
+
+  const { blocks, footnotes } = articleToBlocks(content)
+
+  const text = blocks
+    .map((block) => {
+      switch (block.type) {
+        case "quote":
+          return [
+            ...block.paragraphs.map((paragraph) => `    ${runsToText(paragraph)}`),
+            ...(block.attribution ? [`    — ${block.attribution}`] : []),
+          ].join("\n")
+        case "table":
+          return block.rows.map((row) => row.cells.map((cell) => cell.text).join(" | ")).join("\n")
+        case "list-item":
+          return `${"  ".repeat(block.depth)}${block.marker} ${runsToText(block.runs)}`
+        default:
+          return runsToText(block.runs)
+      }
+    })
+    .join("\n\n")
+
+  if (footnotes.length === 0) return text
+
+  return `${text}\n\nNotes\n\n${footnotes.map(({ number, note }) => `${number}. ${note}`).join("\n\n")}`
+}
@@ -0,0 +1,387 @@
+// Typesets a journal article into the journal's branded PDF: a masthead with
+// the issue, the title block with authors and affiliations, DOI and licence,
+// then the body laid out from the stored content with its footnotes.
+//
+// Runs on the server; the route at /journals/[slug]/pdf serves the result.
+import { createHash } from "crypto"
+import { jsPDF } from "jspdf"
+import { articleToBlocks, runsToText, type TableRow, type TextRun } from "@/lib/article-content"
+import { siteConfig } from "@/lib/metadata"
+
+export type ArticlePdfSource = {
+  id: string
+  slug: string
+  title: string
+  abstract?: string | null
+  content?: string | null
+  keywords?: string[]
+  doi?: string | null
+  publishedAt: Date
+  updatedAt: Date
+  // Ordered as they appear on the article; the affiliation is printed under each name
+  authors: { name: string; affiliation?: string | null }[]
+  issue?: { volume: number; issue: number; year: number; theme?: string | null } | null
+}
+
+const MARGIN = 25
+const LINE_HEIGHT = 5
+// Space kept free at the top and bottom of every page for the running header and footer
+const HEADER_SPACE = 12
+const FOOTER_SPACE = 12
+
+export function getIssueLine(issue: ArticlePdfSource["issue"]) {
+  return issue ? `Vol. ${issue.volume}, No. ${issue.issue} (${issue.year})` : null
+}
+
+export function getArticlePdfFilename(article: Pick<ArticlePdfSource, "slug">) {
+  return `${article.slug}.pdf`
+}
+
+/**
+ * Render an article to PDF. Legacy plain-text articles come out as plain
+ * paragraphs; rich text keeps its headings, lists, quotes, tables and notes.
+ * Page numbers can be left off for documents that number their own pages,
+ * such as the full issue.
+ */
+export function renderArticlePdf(article: ArticlePdfSource, { pageNumbers = true } = {}): Buffer {
+  const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const contentWidth = pageWidth - MARGIN * 2
+  const top = MARGIN + HEADER_SPACE - 10
+  const bottom = pageHeight - MARGIN - FOOTER_SPACE + 10
+  const issueLine = getIssueLine(article.issue)
+  const authorNames = article.authors.map((author) => author.name)
+
+  doc.setProperties({
+    title: article.title,
+    author: authorNames.join(", "),
+    subject: article.abstract || "",
+    keywords: (article.keywords || []).join(", "),
+    creator: siteConfig.name,
+  })
+
+  let y = top
+
+  // Start a new page when the next piece won't fit
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      doc.addPage()
+      y = top
+    }
+  }
+
+  const writeCentered = (text: string, size: number, style: string, lineHeight = LINE_HEIGHT) => {
+    doc.setFontSize(size)
+    doc.setFont("times", style)
+    doc.splitTextToSize(text, contentWidth).forEach((line: string) => {
+      ensureSpace(lineHeight)
+      doc.text(line, pageWidth / 2, y, { align: "center" })
+      y += lineHeight
+    })
+  }
+
+  const rule = () => {
+    doc.setDrawColor(120, 120, 120)
+    doc.setLineWidth(0.3)
+    doc.line(MARGIN, y, pageWidth - MARGIN, y)
+    doc.setDrawColor(0, 0, 0)
+  }
+
+  // Lay out runs word by word so case citations and emphasis keep their style
+  const writeRuns = (runs: TextRun[], x: number, width: number, baseStyle: "normal" | "italic" = "normal") => {
+    const styleOf = (run: TextRun) => {
+      const italic = run.italic ? baseStyle !== "italic" : baseStyle === "italic"
+      return run.bold ? (italic ? "bolditalic" : "bold") : italic ? "italic" : "normal"
+    }
+
+    // Plain paragraphs keep the justified layout
+    if (runs.every((run) => styleOf(run) === baseStyle)) {
+      doc.setFont("times", baseStyle)
+      const lines = doc.splitTextToSize(runsToText(runs), width)
+      lines.forEach((line: string, index: number) => {
+        ensureSpace(LINE_HEIGHT)
+        const isLast = index === lines.length - 1
+        doc.text(line, x, y, isLast ? {} : { align: "justify", maxWidth: width })
+        y += LINE_HEIGHT
+      })
+      return
+    }
+
+    const words = runs.flatMap((run) =>
+      run.text
+        .split(/(\s+)/)
+        .filter(Boolean)
+        .map((text) => ({ text, style: styleOf(run) }))
+    )
+
+    let lineX = x
+    ensureSpace(LINE_HEIGHT)
+    words.forEach((word) => {
+      if (word.text.includes("\n")) {
+        y += LINE_HEIGHT
+        ensureSpace(LINE_HEIGHT)
+        lineX = x
+        return
+      }
+      if (/^\s+$/.test(word.text)) {
+        if (lineX > x) lineX += doc.getTextWidth(" ")
+        return
+      }
+      doc.setFont("times", word.style)
+      const wordWidth = doc.getTextWidth(word.text)
+      if (lineX > x && lineX + wordWidth > x + width) {
+        y += LINE_HEIGHT
+        ensureSpace(LINE_HEIGHT)
+        lineX = x
+      }
+      doc.text(word.text, lineX, y)
+      lineX += wordWidth
+    })
+    y += LINE_HEIGHT
+  }
+
+  const writeTable = (rows: TableRow[]) => {
+    const columns = Math.max(...rows.map((row) => row.cells.length))
+    const columnWidth = contentWidth / columns
+    const padding = 2
+
+    rows.forEach((row) => {
+      const cellLines = row.cells.map((cell) => {
+        doc.setFont("times", cell.header ? "bold" : "normal")
+        return doc.splitTextToSize(cell.text, columnWidth - padding * 2) as string[]
+      })
+      const rowHeight = Math.max(1, ...cellLines.map((lines) => lines.length)) * LINE_HEIGHT + padding * 2
+
+      ensureSpace(rowHeight)
+      for (let column = 0; column < columns; column++) {
+        const cell = row.cells[column]
+        const x = MARGIN + column * columnWidth
+        if (cell?.header) {
+          doc.setFillColor(240, 240, 240)
+          doc.rect(x, y, columnWidth, rowHeight, "FD")
+        } else {
+          doc.rect(x, y, columnWidth, rowHeight)
+        }
+        if (cell) {
+          doc.setFont("times", cell.header ? "bold" : "normal")
+          doc.text(cellLines[column], x + padding, y + padding + LINE_HEIGHT - 1.5)
+        }
+      }
+      y += rowHeight
+    })
+  }
+
+  // Masthead
+  writeCentered(siteConfig.name.toUpperCase(), 11, "bold")
+  if (issueLine) {
+    writeCentered(article.issue?.theme ? `${issueLine} · ${article.issue.theme}` : issueLine, 9, "italic", 4)
+  }
+  y += 2
+  rule()
+  y += 12
+
+  // Title block
+  writeCentered(article.title, 16, "bold", 7)
+  y += 4
+  article.authors.forEach((author) => {
+    writeCentered(author.name, 12, "normal")
+    if (author.affiliation) {
+      writeCentered(author.affiliation, 10, "italic", 4.5)
+    }
+    y += 1.5
+  })
+
+  y += 3
+  const published = article.publishedAt.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" })
+  writeCentered(article.doi ? `Published ${published} · https://doi.org/${article.doi}` : `Published ${published}`, 9, "normal", 4)
+  writeCentered(
+    `© ${article.publishedAt.getFullYear()} The Author(s). Published under the ${siteConfig.license.name} (${siteConfig.license.shortName}): ${siteConfig.license.url}`,
+    9,
+    "normal",
+    4
+  )
+
+  // Abstract and keywords
+  if (article.abstract) {
+    y += 6
+    writeCentered("Abstract", 11, "bold")
+    y += 1
+    doc.setFontSize(10)
+    article.abstract
+      .split(/\n\s*\n/)
+      .filter((paragraph) => paragraph.trim())
+      .forEach((paragraph) => {
+        writeRuns([{ text: paragraph.trim() }], MARGIN + 8, contentWidth - 16)
+        y += 1
+      })
+  }
+
+  if (article.keywords && article.keywords.length > 0) {
+    y += 1
+    doc.setFontSize(10)
+    writeRuns([{ text: "Keywords: ", bold: true }, { text: article.keywords.join(", ") }], MARGIN + 8, contentWidth - 16)
+  }
+
+  y += 4
+  rule()
+  y += 10
+
+  // Body
+  const { blocks, footnotes } = articleToBlocks(article.content)
+
+  blocks.forEach((block) => {
+    doc.setFontSize(11)
+
+    switch (block.type) {
+      case "heading":
+        ensureSpace(LINE_HEIGHT * 3)
+        y += 2
+        doc.setFontSize(block.level <= 2 ? 12 : 11)
+        doc.setFont("times", "bold")
+        doc.splitTextToSize(runsToText(block.runs), contentWidth).forEach((line: string) => {
+          doc.text(line, MARGIN, y)
+          y += LINE_HEIGHT + 1
+        })
+        break
+
+      case "list-item": {
+        const indent = 6 + block.depth * 6
+        ensureSpace(LINE_HEIGHT)
+        doc.setFont("times", "normal")
+        doc.text(block.marker, MARGIN + indent - 1, y, { align: "right" })
+        writeRuns(block.runs, MARGIN + indent + 1, contentWidth - indent - 1)
+        y -= 3
+        break
+      }
+
+      case "quote": {
+        const indent = 10
+        const startPage = doc.getNumberOfPages()
+        let quoteTop = y - 4
+        block.paragraphs.forEach((paragraph) => {
+          writeRuns(paragraph, MARGIN + indent, contentWidth - indent * 2, "italic")
+        })
+        if (block.attribution) {
+          ensureSpace(LINE_HEIGHT)
+          doc.setFont("times", "normal")
+          doc.setFontSize(10)
+          doc.text(`— ${block.attribution}`, pageWidth - MARGIN - indent, y, { align: "right" })
+          y += LINE_HEIGHT
+        }
+        // Rule down the left of the quote (on its last page)
+        if (doc.getNumberOfPages() !== startPage) {
+          quoteTop = top - 4
+        }
+        doc.setLineWidth(0.8)
+        doc.line(MARGIN + 4, quoteTop, MARGIN + 4, y - 3)
+        doc.setLineWidth(0.2)
+        break
+      }
+
+      case "table":
+        ensureSpace(LINE_HEIGHT * 2)
+        doc.setFontSize(10)
+        doc.setLineWidth(0.2)
+        writeTable(block.rows)
+        break
+
+      default:
+        writeRuns(block.runs, MARGIN, contentWidth)
+    }
+
+    // Space between blocks
+    y += 5
+  })
+
+  // Footnotes go after the article, in a smaller size
+  if (footnotes.length > 0) {
+    ensureSpace(LINE_HEIGHT * 3)
+    doc.setFontSize(11)
+    doc.setFont("times", "bold")
+    doc.text("Notes", MARGIN, y)
+    y += LINE_HEIGHT + 2
+
+    doc.setFontSize(9)
+    doc.setFont("times", "normal")
+    footnotes.forEach(({ number, note }) => {
+      const lines = doc.splitTextToSize(note, contentWidth - 8)
+      ensureSpace(lines.length * 4)
+      doc.text(`${number}.`, MARGIN + 6, y, { align: "right" })
+      doc.text(lines, MARGIN + 8, y)
+      y += lines.length * 4 + 1
+    })
+  }
+
+  // Running header and footer, added once the page count is known
+  const pageCount = doc.getNumberOfPages()
+  const runningTitle = doc.splitTextToSize(article.title, contentWidth / 2)[0] as string
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page)
+    doc.setFontSize(8)
+    doc.setFont("times", "italic")
+    doc.setTextColor(100, 100, 100)
+
+    // The first page already carries the masthead
+    if (page > 1) {
+      doc.text(siteConfig.name, MARGIN, MARGIN - 8)
+      doc.text(issueLine || runningTitle, pageWidth - MARGIN, MARGIN - 8, { align: "right" })
+    }
+
+    doc.setFont("times", "normal")
+    doc.text(`${siteConfig.license.shortName} · ${siteConfig.url}/journals/${article.slug}`, MARGIN, pageHeight - MARGIN + 12)
+    if (pageNumbers) {
+      doc.text(`${page} / ${pageCount}`, pageWidth - MARGIN, pageHeight - MARGIN + 12, { align: "right" })
+    }
+    doc.setTextColor(0, 0, 0)
+  }
+
+  return Buffer.from(doc.output("arraybuffer"))
+}
+
+/**
+ * A hash of everything the rendered PDF is made from. The article's own
+ * updatedAt isn't enough: the issue, authors' names and affiliations are
+ * edited on their own records.
+ */
+export function getArticlePdfFingerprint(article: ArticlePdfSource) {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        article: [article.slug, article.title, article.abstract, article.content, article.keywords, article.doi],
+        publishedAt: article.publishedAt,
+        authors: article.authors.map((author) => [author.name, author.affiliation]),
+        issue: article.issue && [article.issue.volume, article.issue.issue, article.issue.year, article.issue.theme],
+      })
+    )
+    .digest("hex")
+}
+
+// Rendered PDFs by article id, kept until anything they are made from
+// changes. Small and per-process: a cold instance simply renders again.
+const MAX_CACHED_PDFS = 50
+const pdfCache = new Map<string, { fingerprint: string; pdf: Buffer }>()
+
+/**
+ * Return the article's PDF and its fingerprint, rendering it only if the
+ * article, its authors or its issue have changed since it was last rendered.
+ */
+export function getArticlePdf(article: ArticlePdfSource): { pdf: Buffer; fingerprint: string } {
+  const fingerprint = getArticlePdfFingerprint(article)
+  const cached = pdfCache.get(article.id)
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached
+  }
+
+  const pdf = renderArticlePdf(article)
+  console.log(`📄 Rendered PDF for ${article.slug} (${pdf.length} bytes)`)
+
+  // Re-inserting keeps the map in least-recently-rendered order
+  pdfCache.delete(article.id)
+  pdfCache.set(article.id, { fingerprint, pdf })
+  if (pdfCache.size > MAX_CACHED_PDFS) {
+    pdfCache.delete(pdfCache.keys().next().value!)
+  }
+
+  return { pdf, fingerprint }
+}
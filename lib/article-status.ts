@@ -0,0 +1,27 @@
+// Article publication lifecycle (shared by the admin forms and server actions)
+
+export type ArticleStatusValue = "draft" | "scheduled" | "published" | "unpublished"
+
+export const ARTICLE_STATUS_VALUES = ["draft", "scheduled", "published", "unpublished"] as const
+
+export const ARTICLE_STATUS_LABELS: Record<ArticleStatusValue, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  published: "Published",
+  unpublished: "Unpublished",
+}
+
+/**
+ * Reconcile the chosen status with the publication date: publishing with a
+ * future date schedules the article, and scheduling for a date that has
+ * already passed publishes it straight away.
+ */
+export function resolveArticleStatus(
+  status: ArticleStatusValue,
+  publishedAt: Date,
+  now = new Date()
+): ArticleStatusValue {
+  if (status === "published" && publishedAt > now) return "scheduled"
+  if (status === "scheduled" && publishedAt <= now) return "published"
+  return status
+}
@@ -28,6 +28,11 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
       return null
     }
 
+    // Sessions issued before the last password reset are no longer valid
+    if ((session.user.sessionVersion ?? 0) !== user.sessionVersion) {
+      return null
+    }
+
     return user
   } catch (error) {
     console.error("Error getting current user:", error)
@@ -418,6 +423,8 @@ export function getUserPermissions(user: AuthUser): string[] {
       "callforpapers.ALL",
       "notification.ALL",
       "editorialboardmember.ALL",
+      "submission.ALL",
+      "review.ALL",
       "user.ALL",
       "role.ALL"
     ]
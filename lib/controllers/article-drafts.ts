@@ -0,0 +1,49 @@
+// lib/controllers/article-drafts.ts
+import prisma from "@/lib/prisma"
+import { ArticleType, Prisma } from "@prisma/client"
+
+// Each editor has at most one working draft per article, and one per type
+// for the article they are writing from scratch
+type DraftKey = {
+  userId: string
+  articleId: string | null
+  type: ArticleType
+}
+
+function draftWhere({ userId, articleId, type }: DraftKey) {
+  return articleId ? { userId, articleId } : { userId, articleId: null, type }
+}
+
+export async function getArticleDraft(key: DraftKey) {
+  return prisma.articleDraft.findFirst({
+    where: draftWhere(key),
+    orderBy: { updatedAt: "desc" },
+  })
+}
+
+export async function saveArticleDraft(
+  key: DraftKey & {
+    data: Prisma.InputJsonValue
+    baseVersion: number | null
+  }
+) {
+  const { data, baseVersion, ...draftKey } = key
+  const existing = await getArticleDraft(draftKey)
+
+  if (existing) {
+    return prisma.articleDraft.update({
+      where: { id: existing.id },
+      data: { data, baseVersion },
+    })
+  }
+
+  return prisma.articleDraft.create({
+    data: { ...draftKey, data, baseVersion },
+  })
+}
+
+export async function deleteArticleDrafts(key: DraftKey) {
+  return prisma.articleDraft.deleteMany({
+    where: draftWhere(key),
+  })
+}
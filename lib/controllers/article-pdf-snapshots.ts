@@ -0,0 +1,86 @@
+// lib/controllers/article-pdf-snapshots.ts
+import { createHash } from "crypto"
+import prisma from "@/lib/prisma"
+import { deleteImage, downloadFile, uploadBuffer } from "@/lib/supabase"
+
+// Private bucket: snapshots are only ever served through /journals/[slug]/pdf
+export const PDF_SNAPSHOT_BUCKET = "article-pdfs"
+
+function getSnapshotPath(articleId: string) {
+  return `snapshots/${articleId}.pdf`
+}
+
+export function getPdfChecksum(buffer: Buffer) {
+  return createHash("sha256").update(buffer).digest("hex")
+}
+
+/**
+ * Store a freshly fetched PDF as the article's snapshot and record where it
+ * came from. Any earlier refresh error is cleared.
+ */
+export async function storeArticlePdfSnapshot(articleId: string, source: string, buffer: Buffer) {
+  const path = getSnapshotPath(articleId)
+  const upload = await uploadBuffer(buffer, path, PDF_SNAPSHOT_BUCKET, "application/pdf")
+
+  if (!upload) {
+    throw new Error("Failed to store PDF snapshot")
+  }
+
+  return prisma.article.update({
+    where: { id: articleId },
+    data: {
+      pdfSnapshotPath: upload.path,
+      pdfSnapshotChecksum: getPdfChecksum(buffer),
+      pdfSnapshotSource: source,
+      pdfSnapshotAt: new Date(),
+      pdfSnapshotError: null,
+    },
+    select: { pdfSnapshotChecksum: true, pdfSnapshotAt: true },
+  })
+}
+
+// Keeps the existing snapshot: readers still get the last good copy
+export async function recordArticlePdfSnapshotError(articleId: string, error: string) {
+  return prisma.article.update({
+    where: { id: articleId },
+    data: { pdfSnapshotError: error },
+  })
+}
+
+// Also used once an article has been deleted, when only its file is left
+export async function deleteArticlePdfSnapshotFile(path: string | null) {
+  if (path) {
+    await deleteImage(path, PDF_SNAPSHOT_BUCKET)
+  }
+}
+
+export async function clearArticlePdfSnapshot(articleId: string, path: string | null) {
+  await deleteArticlePdfSnapshotFile(path)
+
+  return prisma.article.update({
+    where: { id: articleId },
+    data: {
+      pdfSnapshotPath: null,
+      pdfSnapshotChecksum: null,
+      pdfSnapshotSource: null,
+      pdfSnapshotAt: null,
+      pdfSnapshotError: null,
+    },
+  })
+}
+
+/**
+ * Read a stored snapshot back. Returns null if the file is missing or no
+ * longer matches the checksum recorded when it was taken.
+ */
+export async function readArticlePdfSnapshot(snapshot: { pdfSnapshotPath: string; pdfSnapshotChecksum: string | null }) {
+  const buffer = await downloadFile(snapshot.pdfSnapshotPath, PDF_SNAPSHOT_BUCKET)
+  if (!buffer) return null
+
+  if (getPdfChecksum(buffer) !== snapshot.pdfSnapshotChecksum) {
+    console.error(`❌ PDF snapshot ${snapshot.pdfSnapshotPath} does not match its checksum`)
+    return null
+  }
+
+  return buffer
+}
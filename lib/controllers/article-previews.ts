@@ -0,0 +1,44 @@
+// lib/controllers/article-previews.ts
+import prisma from "@/lib/prisma"
+
+export async function getPreviewTokensForArticle(articleId: string) {
+  return prisma.articlePreviewToken.findMany({
+    where: { articleId },
+    orderBy: { createdAt: "desc" },
+  })
+}
+
+export async function createPreviewToken(data: {
+  articleId: string
+  token: string
+  createdBy: string
+  expiresAt: Date
+}) {
+  return prisma.articlePreviewToken.create({ data })
+}
+
+export async function revokePreviewToken(id: string) {
+  return prisma.articlePreviewToken.update({
+    where: { id },
+    data: { revokedAt: new Date() },
+  })
+}
+
+/**
+ * Look up a preview token that can still be used, together with the
+ * article it unlocks. Revoked and expired tokens return null.
+ */
+export async function getActivePreviewToken(token: string) {
+  return prisma.articlePreviewToken.findFirst({
+    where: {
+      token,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    include: {
+      article: {
+        select: { id: true, slug: true, type: true },
+      },
+    },
+  })
+}
@@ -0,0 +1,123 @@
+// lib/controllers/article-revisions.ts
+import prisma from "@/lib/prisma"
+import { Prisma } from "@prisma/client"
+
+// The parts of an article that make up its copy
+export type ArticleCopy = {
+  title: string
+  abstract: string | null
+  content: string | null
+  keywords: string[]
+}
+
+function sameCopy(a: ArticleCopy, b: ArticleCopy) {
+  return (
+    a.title === b.title &&
+    (a.abstract ?? null) === (b.abstract ?? null) &&
+    (a.content ?? null) === (b.content ?? null) &&
+    a.keywords.join("\u0000") === b.keywords.join("\u0000")
+  )
+}
+
+function toCopy(article: ArticleCopy): ArticleCopy {
+  return {
+    title: article.title,
+    abstract: article.abstract,
+    content: article.content,
+    keywords: article.keywords,
+  }
+}
+
+/**
+ * Record the copy of an article as it was just saved. Run it inside the
+ * transaction that saves the article.
+ *
+ * Articles saved before revision history existed have no revisions yet; for
+ * those, pass the copy from before the save and it is kept as a baseline.
+ * Saves that leave the copy untouched (e.g. toggling "featured") add nothing.
+ */
+export async function recordArticleRevision(
+  tx: Prisma.TransactionClient,
+  {
+    articleId,
+    current,
+    previous,
+    editorId,
+  }: {
+    articleId: string
+    current: ArticleCopy
+    previous?: ArticleCopy
+    editorId: string
+  }
+) {
+  const latest = await tx.articleRevision.findFirst({
+    where: { articleId },
+    orderBy: { createdAt: "desc" },
+  })
+
+  if (latest && sameCopy(latest, current)) {
+    return null
+  }
+
+  if (!latest && previous && !sameCopy(previous, current)) {
+    await tx.articleRevision.create({
+      data: { articleId, ...toCopy(previous), editorId: null },
+    })
+  }
+
+  return tx.articleRevision.create({
+    data: { articleId, ...toCopy(current), editorId },
+  })
+}
+
+export async function getArticleRevisions(articleId: string) {
+  return prisma.articleRevision.findMany({
+    where: { articleId },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      title: true,
+      createdAt: true,
+      editor: {
+        select: { id: true, name: true, email: true },
+      },
+    },
+  })
+}
+
+export async function getArticleRevision(id: string) {
+  return prisma.articleRevision.findUnique({
+    where: { id },
+    include: {
+      editor: {
+        select: { id: true, name: true, email: true },
+      },
+      article: {
+        select: { id: true, slug: true, type: true, title: true, abstract: true, content: true, keywords: true },
+      },
+    },
+  })
+}
+
+// The revision saved just before the given one, if any
+export async function getPreviousArticleRevision(articleId: string, createdAt: Date) {
+  return prisma.articleRevision.findFirst({
+    where: { articleId, createdAt: { lt: createdAt } },
+    orderBy: { createdAt: "desc" },
+  })
+}
+
+// Who saved the article last, as far as the revision history knows
+export async function getLastArticleEditor(articleId: string) {
+  const latest = await prisma.articleRevision.findFirst({
+    where: { articleId },
+    orderBy: { createdAt: "desc" },
+    select: {
+      editor: {
+        select: { name: true, email: true },
+      },
+    },
+  })
+
+  return latest?.editor ?? null
+}
@@ -1,6 +1,14 @@
 // lib/controllers/articles.ts - Updated for AuthorArticle junction table with Google Doc PDF download
 import { prisma } from "@/lib/prisma"
-import { ArticleType } from "@prisma/client"
+import { ArticleType, Prisma } from "@prisma/client"
+import { getActivePreviewToken } from "@/lib/controllers/article-previews"
+import {
+  clearArticlePdfSnapshot,
+  readArticlePdfSnapshot,
+  recordArticlePdfSnapshotError,
+  storeArticlePdfSnapshot,
+} from "@/lib/controllers/article-pdf-snapshots"
+import { getArticlePdf, getArticlePdfFilename, renderArticlePdf, type ArticlePdfSource } from "@/lib/article-pdf"
 
 export interface ArticleFilters {
   type?: ArticleType | 'all'
@@ -26,6 +34,10 @@ export interface GoogleDocDownloadResult {
   buffer?: Buffer
   filename?: string
   error?: string
+  // Set for PDFs served for an article (snapshots and rendered copies), which change only when it does
+  lastModified?: Date
+  // Set for rendered copies: a hash of what they are rendered from, for the ETag
+  fingerprint?: string
 }
 
 // Base include for consistent article data - FIXED to use proper AuthorArticle table
@@ -41,6 +53,65 @@ const articleInclude = {
   JournalIssue: true,
 }
 
+/**
+ * Articles visible on the public site: published, not archived, and past
+ * their publication date
+ */
+export function publishedArticleWhere() {
+  return {
+    archived: false,
+    status: 'published',
+    publishedAt: { lte: new Date() },
+  } satisfies Prisma.ArticleWhereInput
+}
+
+/**
+ * The order an issue prints its articles in. Articles not yet placed by an
+ * editor follow the placed ones, newest first.
+ */
+export const issueArticleOrderBy = [
+  { issueOrder: { sort: 'asc', nulls: 'last' } },
+  { publishedAt: 'desc' },
+] satisfies Prisma.ArticleOrderByWithRelationInput[]
+
+/**
+ * Position and page range only mean something in the issue they were set
+ * for, so they are cleared when an article moves to another issue
+ */
+export function issuePlacementReset(previousIssueId: string | null, nextIssueId: string | null | undefined) {
+  if (nextIssueId === undefined || nextIssueId === previousIssueId) return {}
+  return { issueOrder: null, startPage: null, endPage: null }
+}
+
+/**
+ * Flip scheduled articles whose publication date has passed to published.
+ * Returns the articles that went live so their pages can be revalidated.
+ */
+export async function publishDueArticles(now: Date = new Date()) {
+  const due = await prisma.article.findMany({
+    where: {
+      status: 'scheduled',
+      publishedAt: { lte: now },
+    },
+    select: { id: true, slug: true, type: true, issueId: true }
+  })
+
+  if (due.length === 0) return []
+
+  // Re-check the status so an article unscheduled in the meantime stays put
+  await prisma.article.updateMany({
+    where: {
+      id: { in: due.map(article => article.id) },
+      status: 'scheduled',
+    },
+    data: { status: 'published' }
+  })
+
+  console.log(`🗓️ Published ${due.length} scheduled article(s)`)
+
+  return due
+}
+
 /**
  * OPTIMIZED: Single function to get all home page data in one database call
  * This reduces 3 separate database calls to 1
@@ -49,9 +120,7 @@ export async function getHomePageData(): Promise<HomePageData> {
   try {
     // Get all articles we need in one query
     const allArticles = await prisma.article.findMany({
-      where: {
-        archived: false, // Only non-archived articles
-      },
+      where: publishedArticleWhere(),
       include: articleInclude,
       orderBy: {
         publishedAt: 'desc'
@@ -168,6 +237,15 @@ export async function downloadGoogleDocAsPDF(
 
     // Get the PDF buffer
     const buffer = Buffer.from(await response.arrayBuffer())
+
+    // Docs that are no longer shared can come back as a sign-in page rather than a 403
+    if (buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      console.error(`❌ Google Doc export did not return a PDF: ${docId}`)
+      return {
+        success: false,
+        error: 'Access denied. The document may be private or sharing restrictions apply.'
+      }
+    }
     
     // Generate filename if not provided
     const pdfFilename = filename || `google-doc-${docId}.pdf`
@@ -189,16 +267,158 @@ export async function downloadGoogleDocAsPDF(
   }
 }
 
+// What the PDF renderer needs from an article loaded with its authors and issue
+export function toArticlePdfSource(
+  article: Prisma.ArticleGetPayload<{ include: typeof articleInclude }>
+): ArticlePdfSource {
+  return {
+    id: article.id,
+    slug: article.slug,
+    title: article.title,
+    abstract: article.abstract,
+    content: article.content,
+    keywords: article.keywords,
+    doi: article.doi,
+    publishedAt: article.publishedAt,
+    updatedAt: article.updatedAt,
+    // An author's title holds their designation and institution
+    authors: article.authors.map(({ author }) => ({ name: author.name, affiliation: author.title })),
+    issue: article.JournalIssue,
+  }
+}
+
 /**
- * NEW: Download article content as PDF (supports both Google Docs and direct content)
+ * Take a fresh snapshot of the article's Google Doc. If the doc can't be
+ * fetched the error is recorded and the previous snapshot is kept; articles
+ * whose link is no longer a Google Doc lose their snapshot.
+ */
+export async function refreshArticlePdfSnapshot(articleId: string): Promise<GoogleDocDownloadResult> {
+  const article = await prisma.article.findUnique({
+    where: { id: articleId },
+    select: { id: true, slug: true, contentLink: true, pdfSnapshotPath: true }
+  })
+
+  if (!article) {
+    return { success: false, error: 'Article not found' }
+  }
+
+  if (!article.contentLink || !isValidGoogleDocsUrl(article.contentLink)) {
+    if (article.pdfSnapshotPath) {
+      await clearArticlePdfSnapshot(article.id, article.pdfSnapshotPath)
+      console.log(`🗑️ Removed PDF snapshot for ${article.slug}: its link is no longer a Google Doc`)
+    }
+    return { success: false, error: 'This article does not link to a Google Doc' }
+  }
+
+  const result = await downloadGoogleDocAsPDF(article.contentLink, `${article.slug}.pdf`)
+
+  if (!result.success || !result.buffer) {
+    const error = result.error || 'No PDF data received'
+    await recordArticlePdfSnapshotError(article.id, error)
+    console.error(`⚠️ PDF snapshot for ${article.slug} could not be refreshed: ${error}`)
+    return { success: false, error }
+  }
+
+  const snapshot = await storeArticlePdfSnapshot(article.id, article.contentLink, result.buffer)
+  console.log(`📸 Stored PDF snapshot for ${article.slug} (${result.buffer.length} bytes)`)
+
+  return { ...result, lastModified: snapshot.pdfSnapshotAt ?? undefined }
+}
+
+/**
+ * Keep the snapshot in step with the article after it is saved or goes live:
+ * published articles are snapshotted when their Google Doc link is new or
+ * has changed. Failures are logged and recorded, never thrown, so they can't
+ * undo the save.
+ */
+export async function syncArticlePdfSnapshot(articleId: string) {
+  try {
+    const article = await prisma.article.findUnique({
+      where: { id: articleId },
+      select: { status: true, contentLink: true, pdfSnapshotPath: true, pdfSnapshotSource: true }
+    })
+    if (!article) return
+
+    const isGoogleDoc = !!article.contentLink && isValidGoogleDocsUrl(article.contentLink)
+    const isStale = !article.pdfSnapshotPath || article.pdfSnapshotSource !== article.contentLink
+
+    if ((!isGoogleDoc && article.pdfSnapshotPath) || (isGoogleDoc && article.status === 'published' && isStale)) {
+      await refreshArticlePdfSnapshot(articleId)
+    }
+  } catch (error) {
+    console.error(`Error syncing PDF snapshot for article ${articleId}:`, error)
+  }
+}
+
+/**
+ * The stored snapshot of an article's Google Doc, taken now if there isn't a
+ * usable one (published before snapshots existed, or the copy has gone missing).
+ */
+async function getGoogleDocSnapshotPdf(article: {
+  id: string
+  contentLink: string | null
+  pdfSnapshotPath: string | null
+  pdfSnapshotChecksum: string | null
+  pdfSnapshotSource: string | null
+  pdfSnapshotAt: Date | null
+}): Promise<GoogleDocDownloadResult> {
+  const { pdfSnapshotPath, pdfSnapshotChecksum, pdfSnapshotSource, pdfSnapshotAt } = article
+
+  if (pdfSnapshotPath && pdfSnapshotSource === article.contentLink) {
+    const buffer = await readArticlePdfSnapshot({ pdfSnapshotPath, pdfSnapshotChecksum })
+    if (buffer) {
+      return { success: true, buffer, lastModified: pdfSnapshotAt ?? undefined }
+    }
+  }
+
+  return refreshArticlePdfSnapshot(article.id)
+}
+
+/**
+ * Published articles attached to an issue, in the order the issue prints them
+ */
+export async function getPublishedIssueArticles(issueId: string) {
+  return prisma.article.findMany({
+    where: { issueId, ...publishedArticleWhere() },
+    include: articleInclude,
+    orderBy: issueArticleOrderBy
+  })
+}
+
+/**
+ * The pages an article contributes to the full-issue PDF: its Google Doc
+ * snapshot, or its content typeset without page numbers (the issue numbers
+ * its own pages). Null when the article has neither.
+ */
+export async function getArticlePdfForIssue(
+  article: Prisma.ArticleGetPayload<{ include: typeof articleInclude }>
+): Promise<Buffer | null> {
+  if (article.contentLink && isValidGoogleDocsUrl(article.contentLink)) {
+    const snapshot = await getGoogleDocSnapshotPdf(article)
+    if (snapshot.success && snapshot.buffer) return snapshot.buffer
+  }
+
+  if (!article.content?.trim()) return null
+
+  return renderArticlePdf(toArticlePdfSource(article), { pageNumbers: false })
+}
+
+/**
+ * Download a published article as PDF. Google Docs manuscripts are served
+ * from the snapshot taken when the article was published (taken now if
+ * there isn't one yet); otherwise the stored content is typeset by the
+ * journal's own renderer (cached until the article is next updated).
  */
 export async function downloadArticleAsPDF(
   articleSlug: string,
   filename?: string
 ): Promise<GoogleDocDownloadResult> {
   try {
-    // Get the article
-    const article = await getArticleBySlug(articleSlug)
+    // Not getArticleBySlug: a download shouldn't count as a page view
+    const article = await prisma.article.findFirst({
+      where: { slug: articleSlug, ...publishedArticleWhere() },
+      include: articleInclude
+    })
     
     if (!article) {
       return {
@@ -207,17 +427,35 @@ export async function downloadArticleAsPDF(
       }
     }
 
-    // If article has a contentLink and it's a Google Doc, download from there
+    const pdfFilename = filename || getArticlePdfFilename(article)
+
     if (article.contentLink && isValidGoogleDocsUrl(article.contentLink)) {
-      const customFilename = filename || `${article.slug}.pdf`
-      return await downloadGoogleDocAsPDF(article.contentLink, customFilename)
+      const snapshot = await getGoogleDocSnapshotPdf(article)
+      if (snapshot.success) {
+        return { ...snapshot, filename: pdfFilename }
+      }
+
+      // Fall back to the article's own content when there is any
+      if (!article.content?.trim()) {
+        return snapshot
+      }
     }
 
-    // If no contentLink or not a Google Doc, return error for now
-    // In the future, you could generate PDF from article.content
+    if (!article.content?.trim()) {
+      return {
+        success: false,
+        error: 'No downloadable content available for this article'
+      }
+    }
+
+    const { pdf, fingerprint } = getArticlePdf(toArticlePdfSource(article))
+
     return {
-      success: false,
-      error: 'No downloadable content link available for this article'
+      success: true,
+      buffer: pdf,
+      filename: pdfFilename,
+      lastModified: article.updatedAt,
+      fingerprint
     }
 
   } catch (error) {
@@ -284,7 +522,7 @@ export async function getCarouselArticles(limit: number = 5) {
     return await prisma.article.findMany({
       where: {
         carousel: true,
-        archived: false,
+        ...publishedArticleWhere(),
       },
       include: articleInclude,
       orderBy: {
@@ -307,7 +545,7 @@ export async function getFeaturedArticles(limit: number = 6) {
       where: {
         featured: true,
         carousel: false, // Exclude carousel articles from featured
-        archived: false,
+        ...publishedArticleWhere(),
       },
       include: articleInclude,
       orderBy: {
@@ -341,6 +579,7 @@ export async function getArticles(filters: ArticleFilters = {}) {
 
     // Build where clause
     const where: any = {
+      ...publishedArticleWhere(),
       archived: archived
     }
 
@@ -422,8 +661,8 @@ export async function getArticles(filters: ArticleFilters = {}) {
  */
 export async function getArticleBySlug(slug: string) {
   try {
-    const article = await prisma.article.findUnique({
-      where: { slug },
+    const article = await prisma.article.findFirst({
+      where: { slug, ...publishedArticleWhere() },
       include: articleInclude
     })
 
@@ -445,6 +684,29 @@ export async function getArticleBySlug(slug: string) {
   }
 }
 
+/**
+ * Get an article through a preview link, whatever its status. The token must
+ * belong to this article, and views are not counted.
+ */
+export async function getArticleForPreview(slug: string, token: string) {
+  try {
+    const preview = await getActivePreviewToken(token)
+    if (!preview || preview.article.slug !== slug) {
+      return null
+    }
+
+    const article = await prisma.article.findUnique({
+      where: { slug },
+      include: articleInclude
+    })
+
+    return article ? { article, expiresAt: preview.expiresAt } : null
+  } catch (error) {
+    console.error("Error fetching article preview:", error)
+    throw new Error("Failed to fetch article preview")
+  }
+}
+
 /**
  * Get blog articles specifically
  */
@@ -466,7 +728,7 @@ export async function getRecentArticles(limit: number = 6) {
   try {
     return await prisma.article.findMany({
       where: {
-        archived: false,
+        ...publishedArticleWhere(),
         featured: false,
         carousel: false,
       },
@@ -491,12 +753,10 @@ export async function getArticlesByJournalIssue(issueId: string) {
       where: {
         issueId: issueId,
         type: 'journal',
-        archived: false,
+        ...publishedArticleWhere(),
       },
       include: articleInclude,
-      orderBy: {
-        publishedAt: 'desc'
-      }
+      orderBy: issueArticleOrderBy
     })
   } catch (error) {
     console.error("Error fetching articles by journal issue:", error)
@@ -516,7 +776,7 @@ export async function getRelatedArticles(
   try {
     const where: any = {
       id: { not: articleId },
-      archived: false,
+      ...publishedArticleWhere(),
       OR: []
     }
 
@@ -562,19 +822,29 @@ export async function getRelatedArticles(
  */
 export async function getArticleStats() {
   try {
-    const [totalArticles, publishedArticles, featuredArticles, carouselArticles] = await Promise.all([
+    const [totalArticles, statusCounts, publishedArticles, featuredArticles, carouselArticles, archivedArticles, views] = await Promise.all([
       prisma.article.count(),
-      prisma.article.count({ where: { archived: false } }),
-      prisma.article.count({ where: { featured: true, archived: false } }),
-      prisma.article.count({ where: { carousel: true, archived: false } })
+      prisma.article.groupBy({ by: ['status'], _count: { _all: true } }),
+      prisma.article.count({ where: publishedArticleWhere() }),
+      prisma.article.count({ where: { featured: true, ...publishedArticleWhere() } }),
+      prisma.article.count({ where: { carousel: true, ...publishedArticleWhere() } }),
+      prisma.article.count({ where: { archived: true } }),
+      prisma.article.aggregate({ _sum: { views: true } })
     ])
 
+    const countFor = (status: string) =>
+      statusCounts.find(group => group.status === status)?._count._all || 0
+
     return {
       total: totalArticles,
       published: publishedArticles,
+      drafts: countFor('draft'),
+      scheduled: countFor('scheduled'),
+      unpublished: countFor('unpublished'),
       featured: featuredArticles,
       carousel: carouselArticles,
-      archived: totalArticles - publishedArticles
+      archived: archivedArticles,
+      views: views._sum.views || 0
     }
   } catch (error) {
     console.error("Error fetching article stats:", error)
@@ -610,53 +880,13 @@ export async function getArticlesByAuthorSlug(authorSlug: string, limit?: number
   }
 }
 
-/**
- * ADDED: Search articles with better author name matching
- */
-export async function searchArticles(query: string, limit: number = 20) {
-  try {
-    return await prisma.article.findMany({
-      where: {
-        archived: false,
-        OR: [
-          { title: { contains: query, mode: 'insensitive' } },
-          { abstract: { contains: query, mode: 'insensitive' } },
-          { content: { contains: query, mode: 'insensitive' } },
-          { keywords: { hasSome: [query] } },
-          // Search in author names
-          {
-            authors: {
-              some: {
-                author: {
-                  name: { contains: query, mode: 'insensitive' }
-                }
-              }
-            }
-          }
-        ]
-      },
-      include: articleInclude,
-      orderBy: [
-        { featured: 'desc' }, // Featured articles first
-        { publishedAt: 'desc' }
-      ],
-      take: limit
-    })
-  } catch (error) {
-    console.error("Error searching articles:", error)
-    throw new Error("Failed to search articles")
-  }
-}
-
 /**
  * ADDED: Get trending articles based on views and recency
  */
 export async function getTrendingArticles(limit: number = 6) {
   try {
     return await prisma.article.findMany({
-      where: {
-        archived: false,
-      },
+      where: publishedArticleWhere(),
       include: articleInclude,
       orderBy: [
         { views: 'desc' },
@@ -679,9 +909,7 @@ export async function getAuthorsWithArticleCounts(limit?: number) {
       include: {
         authorArticles: {
           where: {
-            article: {
-              archived: false
-            }
+            article: publishedArticleWhere()
           },
           include: {
             article: {
@@ -1,6 +1,7 @@
 // lib/controllers/authors.ts - Updated for actual schema
 import { prisma } from "@/lib/prisma"
 import { slugify } from "@/lib/utils"
+import { publishedArticleWhere } from "@/lib/controllers/articles"
 
 export async function getAuthors() {
   try {
@@ -42,6 +43,9 @@ export async function getAuthorBySlug(slug: string) {
       where: { slug },
       include: {
         authorArticles: {
+          where: {
+            article: publishedArticleWhere()
+          },
           include: {
             article: {
               select: {
@@ -0,0 +1,99 @@
+// lib/controllers/crossref-deposits.ts
+import prisma from "@/lib/prisma"
+import { getPublishedIssueArticles } from "@/lib/controllers/articles"
+import { buildCrossrefDeposit, getCrossrefDepositFilename, validateCrossrefDeposit } from "@/lib/crossref"
+import { generateArticleDoi, getIssueDoi } from "@/lib/doi"
+import { siteConfig } from "@/lib/metadata"
+
+type DepositSettings = {
+  prefix: string
+  depositorName: string
+  depositorEmail: string
+  issn: string | null
+}
+
+// Retries the rare clash with a DOI already given to another article
+async function getUnusedArticleDoi(prefix: string, year: number, pending: Set<string>) {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const doi = generateArticleDoi(prefix, year)
+    if (pending.has(doi)) continue
+
+    const taken = await prisma.article.findUnique({ where: { doi }, select: { id: true } })
+    if (!taken) return doi
+  }
+
+  throw new Error("Could not generate an unused DOI")
+}
+
+/**
+ * Build the Crossref deposit for an issue and its published articles.
+ * Anything without a DOI yet gets one, but new DOIs are only saved when the
+ * file passes validation, so a failed attempt leaves nothing half-assigned.
+ * An issue with no published articles has nothing to deposit: `xml` is null
+ * and no DOI is assigned.
+ */
+export async function getCrossrefDeposit(issueId: string, settings: DepositSettings) {
+  const issue = await prisma.journalIssue.findUnique({ where: { id: issueId } })
+  if (!issue) return null
+
+  const articles = await getPublishedIssueArticles(issueId)
+  if (articles.length === 0) {
+    return { xml: null, issue, articleCount: 0 }
+  }
+
+  const issueDoi = issue.doi ?? getIssueDoi(settings.prefix, issue)
+  const newArticleDois = new Map<string, string>()
+  for (const article of articles) {
+    if (!article.doi) {
+      newArticleDois.set(
+        article.id,
+        await getUnusedArticleDoi(settings.prefix, issue.year, new Set(newArticleDois.values()))
+      )
+    }
+  }
+
+  const xml = buildCrossrefDeposit({
+    depositorName: settings.depositorName,
+    depositorEmail: settings.depositorEmail,
+    issn: settings.issn,
+    journalDoi: `${settings.prefix}/${siteConfig.shortName.toLowerCase()}`,
+    issue: {
+      volume: issue.volume,
+      issue: issue.issue,
+      year: issue.year,
+      theme: issue.theme,
+      publishDate: issue.publishDate,
+      doi: issueDoi,
+      url: `${siteConfig.url}/journals/archive/volume/${issue.volume}/issue/${issue.issue}`,
+    },
+    articles: articles.map((article) => ({
+      title: article.title,
+      abstract: article.abstract,
+      authors: article.authors.map(({ author }) => author.name),
+      publishedAt: article.publishedAt,
+      startPage: article.startPage,
+      endPage: article.endPage,
+      doi: article.doi ?? newArticleDois.get(article.id)!,
+      url: `${siteConfig.url}/journals/${article.slug}`,
+    })),
+  })
+
+  const problems = validateCrossrefDeposit(xml)
+
+  if (problems.length === 0) {
+    await prisma.$transaction([
+      ...(issue.doi ? [] : [prisma.journalIssue.update({ where: { id: issue.id }, data: { doi: issueDoi } })]),
+      ...Array.from(newArticleDois, ([id, doi]) => prisma.article.update({ where: { id }, data: { doi } })),
+    ])
+  }
+
+  return {
+    xml,
+    problems,
+    filename: getCrossrefDepositFilename(issue),
+    issue,
+    articleCount: articles.length,
+    assignedDoiCount: newArticleDois.size + (issue.doi ? 0 : 1),
+    articleSlugs: articles.map((article) => article.slug),
+  }
+}
@@ -0,0 +1,148 @@
+// lib/controllers/feeds.ts
+import { unstable_cache } from "next/cache"
+import { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import { getGoogleDocInfo, publishedArticleWhere } from "@/lib/controllers/articles"
+import { getActiveNotifications } from "@/lib/controllers/notifications"
+import {
+  ARTICLE_FEEDS_TAG,
+  FEED_ENTRY_LIMIT,
+  NOTIFICATION_FEEDS_TAG,
+  getFeedEntryId,
+  getNotificationText,
+  renderFeed,
+  type Feed,
+  type FeedEntry,
+  type FeedFormat,
+} from "@/lib/feeds"
+import { siteConfig } from "@/lib/metadata"
+
+const feedArticleSelect = {
+  id: true,
+  slug: true,
+  type: true,
+  title: true,
+  abstract: true,
+  keywords: true,
+  content: true,
+  contentLink: true,
+  publishedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  authors: { select: { author: { select: { name: true, slug: true } } }, orderBy: { authorOrder: "asc" } },
+  JournalIssue: { select: { volume: true, issue: true, year: true } },
+} satisfies Prisma.ArticleSelect
+
+type FeedArticle = Prisma.ArticleGetPayload<{ select: typeof feedArticleSelect }>
+
+function toFeedEntry(article: FeedArticle): FeedEntry {
+  const url = `${siteConfig.url}/${article.type === "journal" ? "journals" : "blogs"}/${article.slug}`
+  // Same test as the download button on the article page
+  const hasPdf =
+    article.type === "journal" &&
+    Boolean(article.content?.trim() || getGoogleDocInfo(article.contentLink || "").isValid)
+  const issue = article.JournalIssue
+
+  return {
+    id: getFeedEntryId("article", article.id, article.createdAt),
+    title: article.title,
+    url,
+    summary: article.abstract,
+    published: article.publishedAt,
+    updated: article.updatedAt,
+    authors: article.authors.map(({ author }) => ({
+      name: author.name,
+      url: `${siteConfig.url}/authors/${author.slug}`,
+    })),
+    categories: [
+      ...(issue ? [`Volume ${issue.volume}, Issue ${issue.issue} (${issue.year})`] : []),
+      ...article.keywords,
+    ],
+    enclosure: hasPdf ? { url: `${url}/pdf`, type: "application/pdf" } : null,
+  }
+}
+
+async function getFeedArticles(where: Prisma.ArticleWhereInput) {
+  const articles = await prisma.article.findMany({
+    where: { ...where, ...publishedArticleWhere() },
+    select: feedArticleSelect,
+    orderBy: { publishedAt: "desc" },
+    take: FEED_ENTRY_LIMIT,
+  })
+
+  return articles.map(toFeedEntry)
+}
+
+async function buildSiteFeed(name: "blogs" | "journal"): Promise<Feed> {
+  if (name === "blogs") {
+    return {
+      title: `${siteConfig.name}: Blog`,
+      description: `Commentary and analysis from the ${siteConfig.name} blog.`,
+      url: `${siteConfig.url}/blogs`,
+      path: "/feeds/blogs",
+      entries: await getFeedArticles({ type: "blog" }),
+    }
+  }
+
+  return {
+    title: `${siteConfig.name}: Journal Articles`,
+    description: `Articles published in the issues of the ${siteConfig.name}.`,
+    url: `${siteConfig.url}/journals`,
+    path: "/feeds/journal",
+    entries: await getFeedArticles({ type: "journal" }),
+  }
+}
+
+async function buildNotificationFeed(): Promise<Feed> {
+  const notifications = await getActiveNotifications()
+
+  return {
+    title: `${siteConfig.name}: Notifications`,
+    description: `Calls for papers, vacancies, events and other announcements from the ${siteConfig.name}.`,
+    url: `${siteConfig.url}/notifications`,
+    path: "/feeds/notifications",
+    entries: notifications.map((notification) => ({
+      id: getFeedEntryId("notification", notification.id, notification.createdAt),
+      title: notification.title,
+      url: notification.linkUrl || `${siteConfig.url}/notifications`,
+      summary: getNotificationText(notification.content),
+      published: notification.createdAt,
+      updated: notification.updatedAt,
+      authors: [],
+      categories: [notification.type.replace(/_/g, " ")],
+    })),
+  }
+}
+
+/**
+ * Rendered site feeds, cached until the articles or notifications behind
+ * them change. The XML is cached rather than the rows so dates survive.
+ */
+export const getSiteFeed = unstable_cache(
+  async (name: "blogs" | "journal" | "notifications", format: FeedFormat) =>
+    renderFeed(name === "notifications" ? await buildNotificationFeed() : await buildSiteFeed(name), format),
+  ["site-feed"],
+  // Notifications also drop out when they expire, which no write announces
+  { tags: [ARTICLE_FEEDS_TAG, NOTIFICATION_FEEDS_TAG], revalidate: 3600 }
+)
+
+// An author's articles, newest first; null for an unknown author
+export const getAuthorFeed = unstable_cache(
+  async (slug: string, format: FeedFormat) => {
+    const author = await prisma.author.findUnique({ where: { slug }, select: { id: true, name: true } })
+    if (!author) return null
+
+    return renderFeed(
+      {
+        title: `${siteConfig.name}: ${author.name}`,
+        description: `Articles by ${author.name} in the ${siteConfig.name}.`,
+        url: `${siteConfig.url}/authors/${slug}`,
+        path: `/authors/${slug}/feed`,
+        entries: await getFeedArticles({ authors: { some: { authorId: author.id } } }),
+      },
+      format
+    )
+  },
+  ["author-feed"],
+  { tags: [ARTICLE_FEEDS_TAG], revalidate: 3600 }
+)
@@ -0,0 +1,88 @@
+// lib/controllers/issue-pdfs.ts
+import { createHash } from "crypto"
+import prisma from "@/lib/prisma"
+import { getArticlePdfForIssue, getPublishedIssueArticles, toArticlePdfSource } from "@/lib/controllers/articles"
+import { PDF_SNAPSHOT_BUCKET } from "@/lib/controllers/article-pdf-snapshots"
+import { getEditorialBoardMembersByType } from "@/lib/controllers/editorial-board"
+import { getArticlePdfFingerprint } from "@/lib/article-pdf"
+import { compileIssuePdf } from "@/lib/issue-pdf"
+import { downloadFile, uploadBuffer } from "@/lib/supabase"
+
+// Kept in the same private bucket as the article snapshots
+function getIssuePdfPath(issueId: string) {
+  return `issues/${issueId}.pdf`
+}
+
+/**
+ * Return the compiled PDF for an issue, rebuilding it when anything it is
+ * made from has changed: the issue's details, which articles are published
+ * in it and in what order, any of those articles or their Google Doc
+ * snapshots, or the editorial board.
+ */
+export async function getIssuePdf(issueId: string) {
+  const issue = await prisma.journalIssue.findUnique({ where: { id: issueId } })
+  if (!issue) return null
+
+  const [articles, editors, advisors] = await Promise.all([
+    getPublishedIssueArticles(issueId),
+    getEditorialBoardMembersByType("Editor"),
+    getEditorialBoardMembersByType("Advisor"),
+  ])
+
+  // Not issue.updatedAt: storing the compiled PDF on the issue bumps it
+  const fingerprint = createHash("sha256")
+    .update(
+      JSON.stringify({
+        issue: [issue.volume, issue.issue, issue.year, issue.theme, issue.publishDate],
+        articles: articles.map((article) => [
+          article.id,
+          getArticlePdfFingerprint(toArticlePdfSource(article)),
+          article.pdfSnapshotChecksum,
+        ]),
+        board: [...editors, ...advisors].map((member) => [member.id, member.updatedAt]),
+      })
+    )
+    .digest("hex")
+
+  if (issue.pdfPath && issue.pdfFingerprint === fingerprint) {
+    const stored = await downloadFile(issue.pdfPath, PDF_SNAPSHOT_BUCKET)
+    if (stored) {
+      return { pdf: stored, fingerprint, generatedAt: issue.pdfGeneratedAt ?? issue.updatedAt }
+    }
+  }
+
+  const parts = []
+  for (const article of articles) {
+    const pdf = await getArticlePdfForIssue(article)
+    if (!pdf) {
+      console.log(`⚠️ Issue ${issue.volume}.${issue.issue}: ${article.slug} has no PDF and is left out`)
+      continue
+    }
+    parts.push({ title: article.title, authors: article.authors.map(({ author }) => author.name), pdf })
+  }
+
+  const pdf = await compileIssuePdf({
+    volume: issue.volume,
+    issue: issue.issue,
+    year: issue.year,
+    theme: issue.theme,
+    publishDate: issue.publishDate,
+    editors: editors.map(({ name, designation }) => ({ name, designation })),
+    advisors: advisors.map(({ name, designation }) => ({ name, designation })),
+    articles: parts,
+  })
+
+  console.log(`📚 Compiled PDF for volume ${issue.volume}, issue ${issue.issue} (${parts.length} articles, ${pdf.length} bytes)`)
+
+  // A failed upload still serves this copy; the next request tries again
+  const upload = await uploadBuffer(pdf, getIssuePdfPath(issue.id), PDF_SNAPSHOT_BUCKET, "application/pdf")
+  const generatedAt = new Date()
+  if (upload) {
+    await prisma.journalIssue.update({
+      where: { id: issue.id },
+      data: { pdfPath: upload.path, pdfFingerprint: fingerprint, pdfGeneratedAt: generatedAt },
+    })
+  }
+
+  return { pdf, fingerprint, generatedAt }
+}
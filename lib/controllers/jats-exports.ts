@@ -0,0 +1,82 @@
+// lib/controllers/jats-exports.ts
+import { createHash } from "crypto"
+import JSZip from "jszip"
+import { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import { getPublishedIssueArticles, publishedArticleWhere } from "@/lib/controllers/articles"
+import { getDoiConfig } from "@/lib/doi"
+import { getJatsFilename, renderArticleJats, type JatsArticleSource } from "@/lib/jats"
+
+type JatsArticle = Prisma.ArticleGetPayload<{ include: { authors: { include: { author: true } }; JournalIssue: true } }>
+
+function toJatsSource(article: JatsArticle): JatsArticleSource {
+  return {
+    slug: article.slug,
+    title: article.title,
+    abstract: article.abstract,
+    content: article.content,
+    keywords: article.keywords,
+    doi: article.doi,
+    publishedAt: article.publishedAt,
+    startPage: article.startPage,
+    endPage: article.endPage,
+    // An author's title holds their designation and institution
+    authors: article.authors.map(({ author }) => ({ name: author.name, affiliation: author.title })),
+    issue: article.JournalIssue,
+  }
+}
+
+function renderJats(article: JatsArticle) {
+  return renderArticleJats(toJatsSource(article), { issn: getDoiConfig().issn })
+}
+
+/**
+ * JATS XML for a published journal article, or null if there is no such
+ * article. Changes only when the article does.
+ */
+export async function getArticleJats(slug: string) {
+  const article = await prisma.article.findFirst({
+    where: { slug, type: "journal", ...publishedArticleWhere() },
+    include: {
+      authors: { include: { author: true }, orderBy: { authorOrder: "asc" } },
+      JournalIssue: true,
+    },
+  })
+  if (!article) return null
+
+  return { xml: renderJats(article), filename: getJatsFilename(article), lastModified: article.updatedAt }
+}
+
+export function getIssueJatsZipFilename(issue: { volume: number; issue: number; year: number }) {
+  return `volume-${issue.volume}-issue-${issue.issue}-${issue.year}-jats.zip`
+}
+
+/**
+ * Every published article in an issue as JATS, one XML file each, zipped in
+ * issue order. Null if the issue doesn't exist or has nothing published.
+ */
+export async function getIssueJatsZip(issueId: string) {
+  const issue = await prisma.journalIssue.findUnique({ where: { id: issueId } })
+  if (!issue) return null
+
+  const articles = (await getPublishedIssueArticles(issueId)).filter((article) => article.type === "journal")
+  if (articles.length === 0) return null
+
+  const lastModified = new Date(Math.max(...articles.map((article) => article.updatedAt.getTime())))
+  const zip = new JSZip()
+  articles.forEach((article, index) => {
+    // Numbered so the files list in the order the issue prints them
+    const name = `${String(index + 1).padStart(2, "0")}-${getJatsFilename(article)}`
+    zip.file(name, renderJats(article), { date: article.updatedAt })
+  })
+
+  return {
+    zip: await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }),
+    filename: getIssueJatsZipFilename(issue),
+    lastModified,
+    // Also changes when articles are reordered, added or taken out
+    fingerprint: createHash("sha256")
+      .update(JSON.stringify(articles.map((article) => [article.id, article.updatedAt])))
+      .digest("hex"),
+  }
+}
@@ -1,14 +1,13 @@
 // lib/controllers/journal-issues.ts - Enhanced for comprehensive archive view
 import { prisma } from "@/lib/prisma"
+import { issueArticleOrderBy, publishedArticleWhere } from "@/lib/controllers/articles"
 
 export async function getJournalIssues() {
   return prisma.journalIssue.findMany({
     orderBy: [{ year: "desc" }, { volume: "desc" }, { issue: "desc" }],
     include: {
       Article: {
-        where: {
-          archived: false // Only include non-archived articles
-        },
+        where: publishedArticleWhere(), // Only include live articles
         include: {
           authors: {
             include: {
@@ -19,13 +18,12 @@ export async function getJournalIssues() {
             }
           },
         },
+        orderBy: issueArticleOrderBy
       },
       _count: {
         select: {
           Article: {
-            where: {
-              archived: false
-            }
+            where: publishedArticleWhere()
           }
         }
       }
@@ -38,9 +36,7 @@ export async function getJournalIssueById(id: string) {
     where: { id },
     include: {
       Article: {
-        where: {
-          archived: false
-        },
+        where: publishedArticleWhere(),
         include: {
           authors: {
             include: {
@@ -51,16 +47,12 @@ export async function getJournalIssueById(id: string) {
             }
           }
         },
-        orderBy: {
-          publishedAt: 'desc'
-        }
+        orderBy: issueArticleOrderBy
       },
       _count: {
         select: {
           Article: {
-            where: {
-              archived: false
-            }
+            where: publishedArticleWhere()
           }
         }
       }
@@ -77,9 +69,7 @@ export async function getJournalIssueByVolume(volume: number, issue: number, yea
     },
     include: {
       Article: {
-        where: {
-          archived: false
-        },
+        where: publishedArticleWhere(),
         include: {
           authors: {
             include: {
@@ -90,9 +80,7 @@ export async function getJournalIssueByVolume(volume: number, issue: number, yea
             }
           }
         },
-        orderBy: {
-          publishedAt: 'desc'
-        }
+        orderBy: issueArticleOrderBy
       },
     },
   })
@@ -106,9 +94,7 @@ export async function getJournalIssueByVolumeAndIssue(volumeNumber: number, issu
     },
     include: {
       Article: {
-        where: {
-          archived: false
-        },
+        where: publishedArticleWhere(),
         include: {
           authors: {
             include: {
@@ -119,9 +105,7 @@ export async function getJournalIssueByVolumeAndIssue(volumeNumber: number, issu
             }
           }
         },
-        orderBy: {
-          publishedAt: 'desc'
-        }
+        orderBy: issueArticleOrderBy
       },
     },
   })
@@ -138,16 +122,12 @@ export async function createJournalIssue(data: {
     data,
     include: {
       Article: {
-        where: {
-          archived: false
-        }
+        where: publishedArticleWhere()
       },
       _count: {
         select: {
           Article: {
-            where: {
-              archived: false
-            }
+            where: publishedArticleWhere()
           }
         }
       }
@@ -170,16 +150,12 @@ export async function updateJournalIssue(
     data,
     include: {
       Article: {
-        where: {
-          archived: false
-        }
+        where: publishedArticleWhere()
       },
       _count: {
         select: {
           Article: {
-            where: {
-              archived: false
-            }
+            where: publishedArticleWhere()
           }
         }
       }
@@ -193,14 +169,70 @@ export async function deleteJournalIssue(id: string) {
   })
 }
 
+// Every article assigned to the issue, including ones not yet live, for arranging it
+export async function getIssueArticlesForOrdering(issueId: string) {
+  return prisma.article.findMany({
+    where: {
+      issueId,
+      archived: false,
+    },
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      status: true,
+      publishedAt: true,
+      doi: true,
+      issueOrder: true,
+      startPage: true,
+      endPage: true,
+      authors: {
+        select: {
+          author: {
+            select: { name: true }
+          }
+        },
+        orderBy: {
+          authorOrder: 'asc'
+        }
+      },
+    },
+    orderBy: issueArticleOrderBy,
+  })
+}
+
+export async function reorderIssueArticles(issueId: string, orderedIds: string[]) {
+  // Update the position of each article based on its place in the array
+  const updates = orderedIds.map((id, index) => {
+    return prisma.article.update({
+      where: { id, issueId },
+      data: { issueOrder: index + 1 },
+    })
+  })
+
+  return Promise.all(updates)
+}
+
+export async function updateIssueArticlePages(
+  issueId: string,
+  pages: { id: string; startPage: number | null; endPage: number | null }[],
+) {
+  const updates = pages.map(({ id, startPage, endPage }) => {
+    return prisma.article.update({
+      where: { id, issueId },
+      data: { startPage, endPage },
+    })
+  })
+
+  return Promise.all(updates)
+}
+
 export async function getLatestIssue() {
   return prisma.journalIssue.findFirst({
     orderBy: [{ year: "desc" }, { volume: "desc" }, { issue: "desc" }],
     include: {
       Article: {
-        where: {
-          archived: false
-        },
+        where: publishedArticleWhere(),
         include: {
           authors: {
             include: {
@@ -211,6 +243,7 @@ export async function getLatestIssue() {
             }
           },
         },
+        orderBy: issueArticleOrderBy
       },
     },
   })
@@ -222,22 +255,19 @@ export async function getJournalVolumes() {
     orderBy: [{ volume: "desc" }, { issue: "asc" }],
     include: {
       Article: {
-        where: {
-          archived: false
-        },
+        where: publishedArticleWhere(),
         select: {
           id: true,
           title: true,
           slug: true,
           publishedAt: true,
-        }
+        },
+        orderBy: issueArticleOrderBy
       },
       _count: {
         select: {
           Article: {
-            where: {
-              archived: false
-            }
+            where: publishedArticleWhere()
           }
         }
       }
@@ -303,9 +333,7 @@ export async function getVolumeByNumber(volumeNumber: number) {
     },
     include: {
       Article: {
-        where: {
-          archived: false
-        },
+        where: publishedArticleWhere(),
         include: {
           authors: {
             include: {
@@ -316,16 +344,12 @@ export async function getVolumeByNumber(volumeNumber: number) {
             }
           },
         },
-        orderBy: {
-          publishedAt: 'desc'
-        }
+        orderBy: issueArticleOrderBy
       },
       _count: {
         select: {
           Article: {
-            where: {
-              archived: false
-            }
+            where: publishedArticleWhere()
           }
         }
       }
@@ -366,7 +390,7 @@ export async function getArchiveStats() {
     prisma.article.count({
       where: {
         type: 'journal',
-        archived: false
+        ...publishedArticleWhere()
       }
     })
   ])
@@ -392,7 +416,7 @@ export async function searchArchive(query: string) {
         _count: {
           select: {
             Article: {
-              where: { archived: false }
+              where: publishedArticleWhere()
             }
           }
         }
@@ -404,7 +428,7 @@ export async function searchArchive(query: string) {
       where: {
         AND: [
           { type: 'journal' },
-          { archived: false },
+          publishedArticleWhere(),
           {
             OR: [
               { title: { contains: query, mode: 'insensitive' } },
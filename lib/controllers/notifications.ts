@@ -3,6 +3,7 @@
 
 import prisma from "@/lib/prisma"
 import { NotificationType } from "@prisma/client"
+import { sanitizeNotification } from "@/lib/sanitize"
 
 export async function getNotifications() {
   return prisma.notification.findMany({
@@ -42,7 +43,7 @@ export async function createNotification(data: {
 }) {
   return prisma.notification.create({
     data: {
-      ...data,
+      ...sanitizeNotification(data).data,
       priority: data.priority || "medium",
       type: data.type as NotificationType,
     },
@@ -63,7 +64,7 @@ export async function updateNotification(
 ) {
   return prisma.notification.update({
     where: { id },
-    data,
+    data: sanitizeNotification(data).data,
   })
 }
 
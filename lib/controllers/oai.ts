@@ -0,0 +1,199 @@
+// lib/controllers/oai.ts
+import { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import { publishedArticleWhere } from "@/lib/controllers/articles"
+import { getDoiConfig } from "@/lib/doi"
+import {
+  OAI_METADATA_PREFIX,
+  OAI_PAGE_SIZE,
+  buildIdentify,
+  buildMetadataFormats,
+  buildOaiHeader,
+  buildOaiRecord,
+  buildResumptionToken,
+  buildSets,
+  parseOaiIdentifier,
+  parseOaiRequest,
+  parseSetSpec,
+  renderOaiResponse,
+  type OaiListQuery,
+  type OaiRecordSource,
+} from "@/lib/oai"
+import { el } from "@/lib/xml"
+
+const oaiArticleSelect = {
+  id: true,
+  slug: true,
+  type: true,
+  title: true,
+  abstract: true,
+  keywords: true,
+  doi: true,
+  publishedAt: true,
+  updatedAt: true,
+  startPage: true,
+  endPage: true,
+  authors: { select: { author: { select: { name: true } } }, orderBy: { authorOrder: "asc" } },
+  JournalIssue: { select: { volume: true, issue: true, year: true } },
+} satisfies Prisma.ArticleSelect
+
+type OaiArticle = Prisma.ArticleGetPayload<{ select: typeof oaiArticleSelect }>
+
+function toRecordSource(article: OaiArticle): OaiRecordSource {
+  return {
+    ...article,
+    authors: article.authors.map(({ author }) => author.name),
+    issue: article.JournalIssue,
+  }
+}
+
+// Records are the published articles; drafts, scheduled and archived ones stay out
+function getRecordWhere(setSpec?: string): Prisma.ArticleWhereInput | null {
+  if (!setSpec) return publishedArticleWhere()
+
+  const set = parseSetSpec(setSpec)
+  if (!set) return null
+
+  return {
+    ...publishedArticleWhere(),
+    type: set.type,
+    ...(set.volume !== undefined && {
+      JournalIssue: { volume: set.volume, ...(set.issue !== undefined && { issue: set.issue }) },
+    }),
+  }
+}
+
+async function getRecord(identifier: string) {
+  const id = parseOaiIdentifier(identifier)
+  if (!id) return null
+
+  const article = await prisma.article.findFirst({
+    where: { id, ...publishedArticleWhere() },
+    select: oaiArticleSelect,
+  })
+
+  return article && toRecordSource(article)
+}
+
+/**
+ * One page of records, oldest change first. Paging continues after the last
+ * record's (updatedAt, id), so records edited mid-harvest move to the end of
+ * the list rather than shifting the pages in between.
+ */
+async function listRecords(query: OaiListQuery) {
+  const where = getRecordWhere(query.setSpec)
+  if (!where) return null
+
+  const listWhere: Prisma.ArticleWhereInput = {
+    ...where,
+    updatedAt: { gte: query.from, lt: query.before },
+  }
+
+  const [completeListSize, articles] = await Promise.all([
+    prisma.article.count({ where: listWhere }),
+    prisma.article.findMany({
+      where: {
+        ...listWhere,
+        ...(query.after && {
+          OR: [
+            { updatedAt: { gt: query.after.updatedAt } },
+            { updatedAt: query.after.updatedAt, id: { gt: query.after.id } },
+          ],
+        }),
+      },
+      select: oaiArticleSelect,
+      orderBy: [{ updatedAt: "asc" }, { id: "asc" }],
+      take: OAI_PAGE_SIZE + 1,
+    }),
+  ])
+
+  const page = articles.slice(0, OAI_PAGE_SIZE)
+  const last = page[page.length - 1]
+  const nextQuery: OaiListQuery | null =
+    articles.length > OAI_PAGE_SIZE
+      ? { ...query, cursor: query.cursor + page.length, after: { updatedAt: last.updatedAt, id: last.id } }
+      : null
+
+  return { records: page.map(toRecordSource), completeListSize, nextQuery }
+}
+
+function cannotDisseminate(metadataPrefix: string) {
+  return {
+    code: "cannotDisseminateFormat" as const,
+    message: `"${metadataPrefix}" is not supported; use ${OAI_METADATA_PREFIX}`,
+  }
+}
+
+/**
+ * Answer an OAI-PMH request. Protocol errors are part of the response, so
+ * this always returns a document; only database failures throw.
+ */
+export async function getOaiResponse(baseUrl: string, entries: Iterable<[string, string]>) {
+  const parsed = parseOaiRequest(entries)
+  if (!parsed.success) return renderOaiResponse(baseUrl, parsed.args, parsed.error)
+
+  const { request, args } = parsed
+  const respond = (content: Parameters<typeof renderOaiResponse>[2]) => renderOaiResponse(baseUrl, args, content)
+
+  switch (request.verb) {
+    case "Identify": {
+      const earliest = await prisma.article.findFirst({
+        where: publishedArticleWhere(),
+        select: { updatedAt: true },
+        orderBy: { updatedAt: "asc" },
+      })
+      // The protocol requires one, so a harvester is better off with an error
+      // than with a response that fails validation
+      const adminEmail = process.env.OAI_ADMIN_EMAIL?.trim() || getDoiConfig().depositorEmail
+      if (!adminEmail) {
+        throw new Error("Neither OAI_ADMIN_EMAIL nor CROSSREF_DEPOSITOR_EMAIL is set")
+      }
+
+      return respond(buildIdentify(baseUrl, earliest?.updatedAt ?? new Date(), adminEmail))
+    }
+
+    case "ListMetadataFormats":
+      if (request.identifier && !(await getRecord(request.identifier))) {
+        return respond({ code: "idDoesNotExist", message: `No record has the identifier "${request.identifier}"` })
+      }
+      return respond(buildMetadataFormats())
+
+    case "ListSets": {
+      const issues = await prisma.journalIssue.findMany({
+        select: { volume: true, issue: true, year: true, theme: true },
+      })
+      return respond(buildSets(issues))
+    }
+
+    case "GetRecord": {
+      if (request.metadataPrefix !== OAI_METADATA_PREFIX) return respond(cannotDisseminate(request.metadataPrefix))
+
+      const record = await getRecord(request.identifier)
+      if (!record) {
+        return respond({ code: "idDoesNotExist", message: `No record has the identifier "${request.identifier}"` })
+      }
+      return respond(el("GetRecord", null, buildOaiRecord(record)))
+    }
+
+    case "ListIdentifiers":
+    case "ListRecords": {
+      const { query } = request
+      if (query.metadataPrefix !== OAI_METADATA_PREFIX) return respond(cannotDisseminate(query.metadataPrefix))
+
+      const result = await listRecords(query)
+      if (!result || result.records.length === 0) {
+        return respond({ code: "noRecordsMatch", message: "No records match the request" })
+      }
+
+      const build = request.verb === "ListRecords" ? buildOaiRecord : buildOaiHeader
+      return respond(
+        el(
+          request.verb,
+          null,
+          result.records.map(build),
+          buildResumptionToken(query, result.nextQuery, result.completeListSize)
+        )
+      )
+    }
+  }
+}
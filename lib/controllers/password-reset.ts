@@ -0,0 +1,99 @@
+// lib/controllers/password-reset.ts
+import prisma from "@/lib/prisma"
+import { comparePassword, hashPassword } from "@/lib/auth-utils"
+
+export const OTP_TTL_MS = 10 * 60 * 1000 // 10 minutes
+const MAX_OTP_ATTEMPTS = 5
+
+// The newest code that can still be used for this email address
+async function findActiveToken(email: string) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  })
+
+  if (!user) return null
+
+  return prisma.passwordResetToken.findFirst({
+    where: {
+      userId: user.id,
+      usedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: "desc" },
+  })
+}
+
+/**
+ * Store a hashed OTP for the user, replacing any code issued before it
+ */
+export async function storeOTP(email: string, otp: string) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  })
+
+  if (!user) {
+    throw new Error("User not found")
+  }
+
+  const otpHash = await hashPassword(otp)
+
+  return prisma.$transaction(async (tx) => {
+    await tx.passwordResetToken.deleteMany({
+      where: { userId: user.id },
+    })
+
+    return tx.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        otpHash,
+        expiresAt: new Date(Date.now() + OTP_TTL_MS),
+      },
+    })
+  })
+}
+
+/**
+ * Check an OTP without using it up. Every wrong guess counts towards the
+ * attempt limit, after which the code stops working.
+ */
+export async function verifyOTP(email: string, otp: string): Promise<boolean> {
+  const token = await findActiveToken(email)
+
+  if (!token || token.attempts >= MAX_OTP_ATTEMPTS) {
+    return false
+  }
+
+  if (await comparePassword(otp, token.otpHash)) {
+    return true
+  }
+
+  await prisma.passwordResetToken.update({
+    where: { id: token.id },
+    data: { attempts: { increment: 1 } },
+  })
+
+  return false
+}
+
+/**
+ * Verify and use up an OTP. Returns the user id when the code was valid,
+ * or null otherwise. A code can only be consumed once.
+ */
+export async function consumeOTP(email: string, otp: string): Promise<string | null> {
+  if (!(await verifyOTP(email, otp))) {
+    return null
+  }
+
+  const token = await findActiveToken(email)
+  if (!token) return null
+
+  // Only one concurrent request can flip usedAt
+  const { count } = await prisma.passwordResetToken.updateMany({
+    where: { id: token.id, usedAt: null },
+    data: { usedAt: new Date() },
+  })
+
+  return count === 1 ? token.userId : null
+}
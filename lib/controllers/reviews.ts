@@ -0,0 +1,127 @@
+// lib/controllers/reviews.ts
+import prisma from "@/lib/prisma"
+import { ReviewDecision } from "@prisma/client"
+
+// Everything a reviewer may see about a submission. Author details,
+// cover letter, title page and the original file name are left out on
+// purpose so the review stays double-blind.
+export const anonymizedSubmissionSelect = {
+  id: true,
+  title: true,
+  abstract: true,
+  keywords: true,
+  type: true,
+  createdAt: true,
+}
+
+export async function getReviewAssignmentByToken(token: string) {
+  return prisma.reviewAssignment.findUnique({
+    where: { token },
+    select: {
+      id: true,
+      reviewerName: true,
+      round: true,
+      status: true,
+      dueDate: true,
+      respondedAt: true,
+      createdAt: true,
+      submission: {
+        select: anonymizedSubmissionSelect,
+      },
+      review: true,
+    },
+  })
+}
+
+export async function getReviewAssignmentsForSubmission(submissionId: string) {
+  return prisma.reviewAssignment.findMany({
+    where: { submissionId },
+    include: {
+      review: true,
+    },
+    orderBy: [
+      { round: "asc" },
+      { createdAt: "asc" },
+    ],
+  })
+}
+
+export async function getReviewAssignmentsByEmail(email: string) {
+  return prisma.reviewAssignment.findMany({
+    where: {
+      reviewerEmail: email.toLowerCase(),
+    },
+    select: {
+      id: true,
+      token: true,
+      status: true,
+      dueDate: true,
+      createdAt: true,
+      submission: {
+        select: anonymizedSubmissionSelect,
+      },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  })
+}
+
+export async function createReviewAssignment(data: {
+  submissionId: string
+  reviewerName: string
+  reviewerEmail: string
+  token: string
+  round: number
+  dueDate?: Date
+}) {
+  return prisma.reviewAssignment.create({
+    data: {
+      submissionId: data.submissionId,
+      reviewerName: data.reviewerName,
+      reviewerEmail: data.reviewerEmail.toLowerCase(),
+      token: data.token,
+      round: data.round,
+      dueDate: data.dueDate || null,
+    },
+  })
+}
+
+export async function deleteReviewAssignment(id: string) {
+  return prisma.reviewAssignment.delete({
+    where: { id },
+  })
+}
+
+export async function createReview(
+  assignmentId: string,
+  data: {
+    recommendation: ReviewDecision
+    summary: string
+    strengths?: string
+    weaknesses?: string
+    commentsToAuthor: string
+    commentsToEditor?: string
+  },
+) {
+  return prisma.$transaction(async (tx) => {
+    const review = await tx.review.create({
+      data: {
+        assignmentId,
+        recommendation: data.recommendation,
+        summary: data.summary,
+        strengths: data.strengths || null,
+        weaknesses: data.weaknesses || null,
+        commentsToAuthor: data.commentsToAuthor,
+        commentsToEditor: data.commentsToEditor || null,
+      },
+    })
+
+    await tx.reviewAssignment.update({
+      where: { id: assignmentId },
+      data: { status: "completed" },
+    })
+
+    return review
+  })
+}
@@ -0,0 +1,380 @@
+// lib/controllers/search.ts
+import { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  splitHighlights,
+  type ArticleSearchResult,
+  type AuthorSearchResult,
+  type SearchFacet,
+  type SearchFacets,
+} from "@/lib/search"
+import { getRankingTerms, type QueryNode } from "@/lib/search-query"
+
+type MatchRow = { id: string; total: number }
+
+type FacetRow = { value: string; count: number }
+
+type HeadlineRow = { id: string; title: string; snippet: string }
+
+export type ArticleSearchFilters = {
+  type?: "blog" | "journal"
+  issueId?: string
+  year?: number
+  authorSlug?: string
+}
+
+type ResolvedFilters = Omit<ArticleSearchFilters, "authorSlug"> & { authorId?: string }
+
+// Most authors a facet lists; the selected one is always kept
+const AUTHOR_FACET_LIMIT = 10
+
+const HEADLINE_MARKERS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}"`
+const TITLE_HEADLINE_OPTIONS = `HighlightAll=true, ${HEADLINE_MARKERS}`
+const SNIPPET_HEADLINE_OPTIONS = `MaxFragments=2, MinWords=15, MaxWords=35, FragmentDelimiter=" … ", ${HEADLINE_MARKERS}`
+
+function toTsquery(config: "english" | "simple", term: { value: string; phrase: boolean }) {
+  return term.phrase
+    ? Prisma.sql`phraseto_tsquery(${config}::regconfig, ${term.value})`
+    : Prisma.sql`plainto_tsquery(${config}::regconfig, ${term.value})`
+}
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+function compileField(node: Extract<QueryNode, { kind: "field" }>) {
+  switch (node.field) {
+    case "title":
+      return Prisma.sql`to_tsvector('english', a.title) @@ ${toTsquery("english", node)}`
+    case "abstract":
+      return Prisma.sql`to_tsvector('english', coalesce(a.abstract, '')) @@ ${toTsquery("english", node)}`
+    case "author":
+      return Prisma.sql`EXISTS (
+        SELECT 1 FROM "AuthorArticle" aa
+        JOIN "Author" au ON au.id = aa."authorId"
+        WHERE aa."articleId" = a.id AND au.name ILIKE ${`%${escapeLike(node.value)}%`}
+      )`
+    case "keyword":
+      return Prisma.sql`EXISTS (
+        SELECT 1 FROM unnest(a.keywords) keyword
+        WHERE keyword ILIKE ${`%${escapeLike(node.value)}%`}
+      )`
+  }
+}
+
+/**
+ * The SQL condition for a parsed query, against "Article" aliased as a. Bare
+ * words and phrases use the weighted searchVector column or an author's name;
+ * title: and abstract: are full-text matches on that column alone, author: and
+ * keyword: match part of a name or keyword.
+ */
+function compileQuery(node: QueryNode): Prisma.Sql {
+  switch (node.kind) {
+    case "and":
+    case "or":
+      return Prisma.sql`(${Prisma.join(node.children.map(compileQuery), node.kind === "and" ? " AND " : " OR ")})`
+    case "not":
+      return Prisma.sql`NOT ${compileQuery(node.child)}`
+    case "text":
+      return Prisma.sql`(a."searchVector" @@ ${toTsquery("english", node)} OR EXISTS (
+        SELECT 1 FROM "AuthorArticle" aa
+        JOIN "Author" au ON au.id = aa."authorId"
+        WHERE aa."articleId" = a.id AND to_tsvector('simple', au.name) @@ ${toTsquery("simple", node)}
+      ))`
+    case "field":
+      return compileField(node)
+    case "year":
+      return Prisma.sql`EXTRACT(YEAR FROM a."publishedAt")::int BETWEEN ${node.from ?? 0} AND ${node.to ?? 9999}`
+    case "type":
+      return Prisma.sql`a.type::text = ${node.value}`
+  }
+}
+
+// One tsquery matching any of the ranking terms, or null when the query is
+// only filters
+function getRankingQuery(node: QueryNode) {
+  const terms = getRankingTerms(node)
+  return terms.length > 0 ? Prisma.sql`(${Prisma.join(terms.map((term) => toTsquery("english", term)), " || ")})` : null
+}
+
+// The facet selections, leaving out one facet when counting its own values
+function getFilterConditions(filters: ResolvedFilters, ignore?: keyof ResolvedFilters) {
+  const conditions: Prisma.Sql[] = []
+
+  if (ignore !== "type" && filters.type) {
+    conditions.push(Prisma.sql`a.type::text = ${filters.type}`)
+  }
+  if (ignore !== "issueId" && filters.issueId) {
+    conditions.push(Prisma.sql`a."issueId" = ${filters.issueId}`)
+  }
+  if (ignore !== "year" && filters.year) {
+    conditions.push(Prisma.sql`EXTRACT(YEAR FROM a."publishedAt")::int = ${filters.year}`)
+  }
+  if (ignore !== "authorId" && filters.authorId !== undefined) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "AuthorArticle" aa
+      WHERE aa."articleId" = a.id AND aa."authorId" = ${filters.authorId}
+    )`)
+  }
+
+  return conditions
+}
+
+// Published articles matching the query and the facet selections
+function getMatchCondition(node: QueryNode, filters: ResolvedFilters, ignore?: keyof ResolvedFilters) {
+  return Prisma.join(
+    [
+      Prisma.sql`a.archived = false`,
+      Prisma.sql`a.status = 'published'`,
+      Prisma.sql`a."publishedAt" <= ${new Date()}`,
+      compileQuery(node),
+      ...getFilterConditions(filters, ignore),
+    ],
+    " AND "
+  )
+}
+
+/**
+ * One page of matching articles, best first, and how many match in all.
+ * Queries made only of filters, such as author:Sharma year:2024, have nothing
+ * to rank by and list the newest first.
+ */
+async function getMatches(node: QueryNode, filters: ResolvedFilters, { page, pageSize }: { page: number; pageSize: number }) {
+  const rankingQuery = getRankingQuery(node)
+  const where = getMatchCondition(node, filters)
+
+  const rows = await prisma.$queryRaw<MatchRow[]>`
+    SELECT
+      a.id,
+      count(*) OVER ()::int AS total
+    FROM "Article" a
+    WHERE ${where}
+    ORDER BY ${rankingQuery ? Prisma.sql`ts_rank_cd(a."searchVector", ${rankingQuery}) DESC, ` : Prisma.empty}a."publishedAt" DESC
+    LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}
+  `
+  if (rows.length > 0) {
+    return { ids: rows.map((row) => row.id), total: rows[0].total }
+  }
+
+  // Past the last page the window count has no rows to ride on
+  const [{ total }] = page > 1
+    ? await prisma.$queryRaw<{ total: number }[]>`SELECT count(*)::int AS total FROM "Article" a WHERE ${where}`
+    : [{ total: 0 }]
+  return { ids: [], total }
+}
+
+async function getHeadlines(node: QueryNode, ids: string[]) {
+  const rankingQuery = getRankingQuery(node)
+  if (ids.length === 0 || !rankingQuery) return new Map<string, HeadlineRow>()
+
+  const rows = await prisma.$queryRaw<HeadlineRow[]>`
+    SELECT
+      a.id,
+      ts_headline('english', a.title, terms.query, ${TITLE_HEADLINE_OPTIONS}) AS title,
+      ts_headline(
+        'english',
+        concat_ws(' ', a.abstract, article_html_to_text(a.content)),
+        terms.query,
+        ${SNIPPET_HEADLINE_OPTIONS}
+      ) AS snippet
+    FROM "Article" a
+    CROSS JOIN (SELECT ${rankingQuery} AS query) terms
+    WHERE a.id IN (${Prisma.join(ids)})
+  `
+
+  return new Map(rows.map((row) => [row.id, row]))
+}
+
+function toCounts(rows: FacetRow[]) {
+  return new Map(rows.map((row) => [row.value, row.count]))
+}
+
+/**
+ * Facet counts for the matches. Each facet is counted with the other facets'
+ * selections applied but not its own, so picking a year still shows how many
+ * results the other years have.
+ */
+async function getFacets(node: QueryNode, filters: ResolvedFilters): Promise<SearchFacets> {
+  const [typeRows, issueRows, yearRows, authorRows] = await Promise.all([
+    prisma.$queryRaw<FacetRow[]>`
+      SELECT a.type::text AS value, count(*)::int AS count
+      FROM "Article" a
+      WHERE ${getMatchCondition(node, filters, "type")}
+      GROUP BY a.type
+    `,
+    prisma.$queryRaw<FacetRow[]>`
+      SELECT a."issueId" AS value, count(*)::int AS count
+      FROM "Article" a
+      WHERE a."issueId" IS NOT NULL AND ${getMatchCondition(node, filters, "issueId")}
+      GROUP BY a."issueId"
+    `,
+    prisma.$queryRaw<FacetRow[]>`
+      SELECT EXTRACT(YEAR FROM a."publishedAt")::int::text AS value, count(*)::int AS count
+      FROM "Article" a
+      WHERE ${getMatchCondition(node, filters, "year")}
+      GROUP BY 1
+    `,
+    // The most frequent authors, and the selected one wherever it ranks
+    prisma.$queryRaw<FacetRow[]>`
+      SELECT aa."authorId" AS value, count(*)::int AS count
+      FROM "Article" a
+      JOIN "AuthorArticle" aa ON aa."articleId" = a.id
+      WHERE ${getMatchCondition(node, filters, "authorId")}
+      GROUP BY aa."authorId"
+      ORDER BY aa."authorId" = ${filters.authorId ?? ""} DESC, count DESC
+      LIMIT ${AUTHOR_FACET_LIMIT + (filters.authorId ? 1 : 0)}
+    `,
+  ])
+
+  const typeCounts = toCounts(typeRows)
+  const issueCounts = toCounts(issueRows)
+  const yearCounts = toCounts(yearRows)
+  const authorCounts = toCounts(authorRows)
+  // The query fetched one extra row to make room for the selected author
+  const topAuthorIds = authorRows
+    .sort((a, b) => b.count - a.count)
+    .filter((row, index) => index < AUTHOR_FACET_LIMIT || row.value === filters.authorId)
+    .map((row) => row.value)
+  if (filters.authorId && !authorCounts.has(filters.authorId)) topAuthorIds.push(filters.authorId)
+
+  const [issues, authors] = await Promise.all([
+    prisma.journalIssue.findMany({
+      where: { id: { in: Array.from(issueCounts.keys()) } },
+      select: { id: true, volume: true, issue: true, year: true },
+      orderBy: [{ volume: "desc" }, { issue: "desc" }],
+    }),
+    prisma.author.findMany({
+      where: { id: { in: topAuthorIds } },
+      select: { id: true, slug: true, name: true },
+    }),
+  ])
+
+  return {
+    type: (["journal", "blog"] as const)
+      .filter((type) => typeCounts.has(type))
+      .map((type) => ({
+        value: type,
+        label: type === "journal" ? "Journal articles" : "Blog posts",
+        count: typeCounts.get(type)!,
+      })),
+    issue: issues.map((issue) => ({
+      value: issue.id,
+      label: `Vol. ${issue.volume}, Issue ${issue.issue} (${issue.year})`,
+      count: issueCounts.get(issue.id)!,
+    })),
+    year: Array.from(yearCounts.entries())
+      .sort((a, b) => Number(b[0]) - Number(a[0]))
+      .map(([year, count]) => ({ value: year, label: year, count })),
+    author: authors
+      .map((author): SearchFacet => ({ value: author.slug, label: author.name, count: authorCounts.get(author.id) ?? 0 }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+  }
+}
+
+/**
+ * Search over published articles for a parsed query, ranked by relevance,
+ * with highlighted titles and snippets for the requested page and facet
+ * counts for the whole result set.
+ */
+export async function searchArticles(
+  query: QueryNode,
+  filters: ArticleSearchFilters = {},
+  { page = 1, pageSize }: { page?: number; pageSize: number }
+) {
+  try {
+    const author = filters.authorSlug
+      ? await prisma.author.findUnique({ where: { slug: filters.authorSlug }, select: { id: true } })
+      : null
+    const resolved: ResolvedFilters = {
+      type: filters.type,
+      issueId: filters.issueId,
+      year: filters.year,
+      // An unknown author matches nothing rather than being ignored
+      authorId: filters.authorSlug ? author?.id ?? "" : undefined,
+    }
+
+    const [{ ids: pageIds, total }, facets] = await Promise.all([
+      getMatches(query, resolved, { page, pageSize }),
+      getFacets(query, resolved),
+    ])
+
+    const [articles, headlines] = await Promise.all([
+      prisma.article.findMany({
+        where: { id: { in: pageIds } },
+        select: {
+          id: true,
+          slug: true,
+          type: true,
+          title: true,
+          abstract: true,
+          image: true,
+          publishedAt: true,
+          readTime: true,
+          keywords: true,
+          authors: { select: { author: { select: { name: true, slug: true } } }, orderBy: { authorOrder: "asc" } },
+          JournalIssue: { select: { volume: true, issue: true, year: true } },
+        },
+      }),
+      getHeadlines(query, pageIds),
+    ])
+
+    const byId = new Map(articles.map((article) => [article.id, article]))
+    const results: ArticleSearchResult[] = pageIds.flatMap((id) => {
+      const article = byId.get(id)
+      if (!article) return []
+
+      const headline = headlines.get(id)
+      return [
+        {
+          id: article.id,
+          slug: article.slug,
+          type: article.type,
+          title: splitHighlights(headline?.title ?? article.title),
+          snippet: splitHighlights(headline?.snippet ?? article.abstract ?? ""),
+          image: article.image,
+          publishedAt: article.publishedAt,
+          readTime: article.readTime,
+          keywords: article.keywords,
+          authors: article.authors.map(({ author }) => author),
+          issue: article.JournalIssue,
+        },
+      ]
+    })
+
+    return { results, total, facets }
+  } catch (error) {
+    console.error("Error searching articles:", error)
+    throw new Error("Failed to search articles")
+  }
+}
+
+// Authors whose name, title or bio mention the query
+export async function searchAuthors(query: string, { page = 1, pageSize }: { page?: number; pageSize: number }) {
+  const where: Prisma.AuthorWhereInput = {
+    OR: [
+      { name: { contains: query, mode: "insensitive" } },
+      { title: { contains: query, mode: "insensitive" } },
+      { bio: { contains: query, mode: "insensitive" } },
+    ],
+  }
+
+  try {
+    const [authors, total] = await Promise.all([
+      prisma.author.findMany({
+        where,
+        select: { slug: true, name: true, title: true, bio: true },
+        orderBy: { name: "asc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.author.count({ where }),
+    ])
+
+    return { results: authors satisfies AuthorSearchResult[], total }
+  } catch (error) {
+    console.error("Error searching authors:", error)
+    throw new Error("Failed to search authors")
+  }
+}
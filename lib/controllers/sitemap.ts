@@ -0,0 +1,100 @@
+// lib/controllers/sitemap.ts
+import prisma from "@/lib/prisma"
+import { publishedArticleWhere } from "@/lib/controllers/articles"
+import { siteConfig } from "@/lib/metadata"
+import { getAbsoluteUrl, latestDate, type SitemapEntry } from "@/lib/sitemap"
+
+/**
+ * Every public URL on the site, built from the live rows. Listing pages take
+ * their lastModified from the newest row they show; pages with fixed content
+ * have none rather than a made-up one.
+ */
+export async function getSitemapEntries(): Promise<SitemapEntry[]> {
+  const baseUrl = siteConfig.url
+
+  const [articles, issues, authors, latestCallForPapers] = await Promise.all([
+    prisma.article.findMany({
+      where: publishedArticleWhere(),
+      select: { slug: true, type: true, image: true, updatedAt: true, issueId: true },
+      orderBy: { publishedAt: "desc" },
+    }),
+    prisma.journalIssue.findMany({
+      select: { id: true, volume: true, issue: true, updatedAt: true },
+      orderBy: [{ volume: "desc" }, { issue: "desc" }],
+    }),
+    // Only authors with something published have a page worth indexing
+    prisma.author.findMany({
+      where: { authorArticles: { some: { article: publishedArticleWhere() } } },
+      select: {
+        slug: true,
+        updatedAt: true,
+        authorArticles: {
+          where: { article: publishedArticleWhere() },
+          select: { article: { select: { updatedAt: true } } },
+        },
+      },
+    }),
+    prisma.callForPapers.findFirst({ select: { updatedAt: true }, orderBy: { updatedAt: "desc" } }),
+  ])
+
+  const latestOf = (type?: "blog" | "journal") =>
+    latestDate(articles.filter((article) => !type || article.type === type).map((article) => article.updatedAt))
+
+  const latestInIssue = new Map<string, Date>()
+  for (const article of articles) {
+    if (!article.issueId) continue
+    latestInIssue.set(article.issueId, latestDate([latestInIssue.get(article.issueId), article.updatedAt])!)
+  }
+
+  const staticEntries: SitemapEntry[] = [
+    { url: baseUrl, lastModified: latestOf(), changeFrequency: "daily", priority: 1.0 },
+    { url: `${baseUrl}/blogs`, lastModified: latestOf("blog"), changeFrequency: "daily", priority: 0.9 },
+    { url: `${baseUrl}/journals`, lastModified: latestOf("journal"), changeFrequency: "weekly", priority: 0.9 },
+    {
+      url: `${baseUrl}/journals/archive`,
+      lastModified: latestDate([...issues.map((issue) => issue.updatedAt), latestOf("journal")]),
+      changeFrequency: "monthly",
+      priority: 0.7,
+    },
+    {
+      url: `${baseUrl}/journals/call-for-papers`,
+      lastModified: latestCallForPapers?.updatedAt,
+      changeFrequency: "weekly",
+      priority: 0.8,
+    },
+    { url: `${baseUrl}/submit`, changeFrequency: "monthly", priority: 0.8 },
+    { url: `${baseUrl}/about`, changeFrequency: "monthly", priority: 0.7 },
+    { url: `${baseUrl}/contact`, changeFrequency: "monthly", priority: 0.7 },
+    { url: `${baseUrl}/editorial-board`, changeFrequency: "monthly", priority: 0.7 },
+    { url: `${baseUrl}/board-of-advisors`, changeFrequency: "monthly", priority: 0.7 },
+    { url: `${baseUrl}/privacy-policy`, changeFrequency: "yearly", priority: 0.3 },
+    { url: `${baseUrl}/terms-of-service`, changeFrequency: "yearly", priority: 0.3 },
+  ]
+
+  const issueEntries: SitemapEntry[] = issues.map((issue) => ({
+    url: `${baseUrl}/journals/archive/volume/${issue.volume}/issue/${issue.issue}`,
+    lastModified: latestDate([issue.updatedAt, latestInIssue.get(issue.id)]),
+    changeFrequency: "monthly",
+    priority: 0.7,
+  }))
+
+  const articleEntries: SitemapEntry[] = articles.map((article) => {
+    const image = article.image ? getAbsoluteUrl(article.image) : null
+    return {
+      url: `${baseUrl}/${article.type === "blog" ? "blogs" : "journals"}/${article.slug}`,
+      lastModified: article.updatedAt,
+      changeFrequency: "monthly",
+      priority: 0.8,
+      images: image ? [image] : undefined,
+    }
+  })
+
+  const authorEntries: SitemapEntry[] = authors.map((author) => ({
+    url: `${baseUrl}/authors/${author.slug}`,
+    lastModified: latestDate([author.updatedAt, ...author.authorArticles.map(({ article }) => article.updatedAt)]),
+    changeFrequency: "monthly",
+    priority: 0.7,
+  }))
+
+  return [...staticEntries, ...issueEntries, ...articleEntries, ...authorEntries]
+}
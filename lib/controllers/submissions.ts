@@ -0,0 +1,159 @@
+// lib/controllers/submissions.ts
+import prisma from "@/lib/prisma"
+import { ArticleType, Prisma, SubmissionEventType, SubmissionStatus } from "@prisma/client"
+
+const submissionInclude = {
+  callForPapers: {
+    select: {
+      id: true,
+      title: true,
+      volume: true,
+      issue: true,
+      year: true,
+    },
+  },
+}
+
+export async function getSubmissions(params?: {
+  status?: SubmissionStatus
+  callForPapersId?: string
+}) {
+  const { status, callForPapersId } = params || {}
+
+  return prisma.submission.findMany({
+    where: {
+      ...(status && { status }),
+      ...(callForPapersId && { callForPapersId }),
+    },
+    include: submissionInclude,
+    orderBy: {
+      createdAt: "desc",
+    },
+  })
+}
+
+export async function getSubmissionById(id: string) {
+  return prisma.submission.findUnique({
+    where: { id },
+    include: {
+      ...submissionInclude,
+      versions: {
+        orderBy: { round: "asc" },
+      },
+      events: {
+        orderBy: { createdAt: "asc" },
+      },
+      article: {
+        select: { id: true, slug: true, title: true, type: true },
+      },
+    },
+  })
+}
+
+// Append an entry to the submission timeline (pass a transaction client to log atomically)
+export async function logSubmissionEvent(
+  data: {
+    submissionId: string
+    round: number
+    type: SubmissionEventType
+    actor: string
+    details?: string
+  },
+  client: Prisma.TransactionClient = prisma,
+) {
+  return client.submissionEvent.create({
+    data: {
+      submissionId: data.submissionId,
+      round: data.round,
+      type: data.type,
+      actor: data.actor,
+      details: data.details || null,
+    },
+  })
+}
+
+export async function createSubmission(data: {
+  title: string
+  abstract: string
+  keywords?: string[]
+  type: ArticleType
+  authorName: string
+  authorEmail: string
+  authorAffiliation?: string
+  coverLetter?: string
+  manuscriptName: string
+  manuscriptPath: string
+  titlePageName: string
+  titlePagePath: string
+  callForPapersId?: string
+}) {
+  return prisma.submission.create({
+    data: {
+      title: data.title,
+      abstract: data.abstract,
+      keywords: data.keywords || [],
+      type: data.type,
+      authorName: data.authorName,
+      authorEmail: data.authorEmail.toLowerCase(),
+      authorAffiliation: data.authorAffiliation || null,
+      coverLetter: data.coverLetter || null,
+      manuscriptName: data.manuscriptName,
+      manuscriptPath: data.manuscriptPath,
+      titlePageName: data.titlePageName,
+      titlePagePath: data.titlePagePath,
+      callForPapersId: data.callForPapersId || null,
+      versions: {
+        create: {
+          round: 1,
+          manuscriptName: data.manuscriptName,
+          manuscriptPath: data.manuscriptPath,
+        },
+      },
+    },
+  })
+}
+
+export async function updateSubmissionStatus(
+  id: string,
+  data: {
+    status: SubmissionStatus
+    editorNotes?: string
+  },
+) {
+  return prisma.submission.update({
+    where: { id },
+    data: {
+      status: data.status,
+      ...(data.editorNotes !== undefined && { editorNotes: data.editorNotes || null }),
+    },
+  })
+}
+
+export async function deleteSubmission(id: string) {
+  return prisma.submission.delete({
+    where: { id },
+  })
+}
+
+export async function getSubmissionStats() {
+  const [total, grouped] = await Promise.all([
+    prisma.submission.count(),
+    prisma.submission.groupBy({
+      by: ["status"],
+      _count: { _all: true },
+    }),
+  ])
+
+  const byStatus: Record<SubmissionStatus, number> = {
+    received: 0,
+    desk_reviewed: 0,
+    under_review: 0,
+    decided: 0,
+  }
+
+  for (const row of grouped) {
+    byStatus[row.status] = row._count._all
+  }
+
+  return { total, byStatus }
+}
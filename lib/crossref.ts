@@ -0,0 +1,417 @@
+// Crossref deposit XML (schema 5.3.1) for a journal issue and its articles,
+// plus a local check of the generated file against the schema's rules so a
+// bad deposit is caught here rather than in Crossref's submission log.
+import { XMLParser, XMLValidator } from "fast-xml-parser"
+import { siteConfig } from "@/lib/metadata"
+import { el, renderXml, type XmlNode } from "@/lib/xml"
+
+export const CROSSREF_SCHEMA_VERSION = "5.3.1"
+const CROSSREF_NAMESPACE = `http://www.crossref.org/schema/${CROSSREF_SCHEMA_VERSION}`
+const JATS_NAMESPACE = "http://www.ncbi.nlm.nih.gov/JATS1"
+const ACCESS_INDICATORS_NAMESPACE = "http://www.crossref.org/AccessIndicators.xsd"
+
+export type CrossrefDepositSource = {
+  depositorName: string
+  depositorEmail: string
+  issn: string | null
+  // Only used when there is no ISSN: Crossref needs one or the other to identify the journal
+  journalDoi: string
+  issue: {
+    volume: number
+    issue: number
+    year: number
+    theme?: string | null
+    publishDate?: string | null
+    doi: string
+    url: string
+  }
+  articles: {
+    title: string
+    abstract?: string | null
+    authors: string[]
+    publishedAt: Date
+    startPage?: number | null
+    endPage?: number | null
+    doi: string
+    url: string
+  }[]
+}
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0")
+}
+
+function publicationDate(date: Date) {
+  return el(
+    "publication_date",
+    { media_type: "online" },
+    el("month", null, pad(date.getUTCMonth() + 1)),
+    el("day", null, pad(date.getUTCDate())),
+    el("year", null, date.getUTCFullYear())
+  )
+}
+
+// Crossref wants the family name on its own; everything before it is the given name
+function personName(name: string, index: number) {
+  const parts = name.trim().split(/\s+/)
+  const surname = parts.pop()!
+  return el(
+    "person_name",
+    { sequence: index === 0 ? "first" : "additional", contributor_role: "author" },
+    parts.length > 0 && el("given_name", null, parts.join(" ")),
+    el("surname", null, surname)
+  )
+}
+
+function doiData(doi: string, url: string) {
+  return el("doi_data", null, el("doi", null, doi), el("resource", null, url))
+}
+
+export function getCrossrefDepositFilename(issue: { volume: number; issue: number; year: number }) {
+  return `crossref-volume-${issue.volume}-issue-${issue.issue}-${issue.year}.xml`
+}
+
+export function buildCrossrefDeposit(source: CrossrefDepositSource, now: Date = new Date()) {
+  const { issue } = source
+  // Crossref keeps the deposit with the highest timestamp, so it must increase with every upload
+  const timestamp = now.toISOString().replace(/\D/g, "").slice(0, 17)
+  const issueDate = issue.publishDate ? new Date(issue.publishDate) : null
+
+  const journalMetadata = el(
+    "journal_metadata",
+    { language: "en" },
+    el("full_title", null, siteConfig.name),
+    el("abbrev_title", null, siteConfig.shortName),
+    source.issn && el("issn", { media_type: "electronic" }, source.issn),
+    !source.issn && doiData(source.journalDoi, `${siteConfig.url}/journals`)
+  )
+
+  const journalIssue = el(
+    "journal_issue",
+    null,
+    issue.theme && el("titles", null, el("title", null, issue.theme)),
+    issueDate && !isNaN(issueDate.getTime())
+      ? publicationDate(issueDate)
+      : el("publication_date", { media_type: "online" }, el("year", null, issue.year)),
+    el("journal_volume", null, el("volume", null, issue.volume)),
+    el("issue", null, issue.issue),
+    doiData(issue.doi, issue.url)
+  )
+
+  const articles = source.articles.map((article) =>
+    el(
+      "journal_article",
+      { publication_type: "full_text", language: "en" },
+      el("titles", null, el("title", null, article.title)),
+      article.authors.length > 0 && el("contributors", null, article.authors.map(personName)),
+      article.abstract?.trim() &&
+        el(
+          "jats:abstract",
+          null,
+          article.abstract
+            .split(/\n\s*\n/)
+            .map((paragraph) => paragraph.trim())
+            .filter(Boolean)
+            .map((paragraph) => el("jats:p", null, paragraph))
+        ),
+      publicationDate(article.publishedAt),
+      article.startPage
+        ? el(
+            "pages",
+            null,
+            el("first_page", null, article.startPage),
+            article.endPage ? el("last_page", null, article.endPage) : null
+          )
+        : null,
+      el(
+        "ai:program",
+        { name: "AccessIndicators" },
+        el("ai:free_to_read"),
+        el("ai:license_ref", { applies_to: "vor" }, siteConfig.license.url)
+      ),
+      doiData(article.doi, article.url)
+    )
+  )
+
+  const batch: XmlNode = el(
+    "doi_batch",
+    {
+      version: CROSSREF_SCHEMA_VERSION,
+      xmlns: CROSSREF_NAMESPACE,
+      "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+      "xmlns:jats": JATS_NAMESPACE,
+      "xmlns:ai": ACCESS_INDICATORS_NAMESPACE,
+      "xsi:schemaLocation": `${CROSSREF_NAMESPACE} https://www.crossref.org/schemas/crossref${CROSSREF_SCHEMA_VERSION}.xsd`,
+    },
+    el(
+      "head",
+      null,
+      el("doi_batch_id", null, `${siteConfig.shortName.toLowerCase()}-v${issue.volume}i${issue.issue}-${timestamp}`),
+      el("timestamp", null, timestamp),
+      el(
+        "depositor",
+        null,
+        el("depositor_name", null, source.depositorName),
+        el("email_address", null, source.depositorEmail)
+      ),
+      el("registrant", null, siteConfig.name)
+    ),
+    el("body", null, el("journal", null, journalMetadata, journalIssue, articles))
+  )
+
+  return renderXml(batch)
+}
+
+// Validation
+
+type Particle = { name: string; min?: number; max?: number }
+
+type AttributeRule = { required?: boolean; values?: string[]; pattern?: RegExp }
+
+type ElementRule = {
+  // Child elements in schema order; min defaults to 1, max to min or 1
+  sequence?: Particle[]
+  // Simple content: length limits and pattern from the schema's type
+  text?: { min?: number; max?: number; pattern?: RegExp }
+  attributes?: Record<string, AttributeRule>
+  // Content defined by another schema (JATS) and not checked here
+  anyContent?: boolean
+}
+
+const MANY = Infinity
+const MONTH = /^(0?[1-9]|1[0-2]|2[1-4]|3[1-4])$/
+const DAY = /^(0?[1-9]|[12]\d|3[01])$/
+const YEAR = /^(1[4-9]|2[0-1])\d{2}$|^2200$/
+const URL_PATTERN = /^(https?|ftp):\/\/\S+$/
+const CROSSREF_DOI = /^10\.[0-9]{4,9}\/.{1,200}$/
+
+const titles: ElementRule = { sequence: [{ name: "title" }, { name: "subtitle", min: 0 }] }
+const publicationDateRule: ElementRule = {
+  attributes: { media_type: { values: ["print", "online", "other"] } },
+  sequence: [{ name: "month", min: 0 }, { name: "day", min: 0 }, { name: "year" }],
+}
+
+/**
+ * Content models from crossref5.3.1.xsd for every element the deposit above
+ * can contain. Anything not listed here is reported, so the generator cannot
+ * drift from what was checked against the schema.
+ */
+const CROSSREF_RULES: Record<string, ElementRule> = {
+  doi_batch: {
+    attributes: {
+      version: { required: true, values: [CROSSREF_SCHEMA_VERSION] },
+      xmlns: { required: true, values: [CROSSREF_NAMESPACE] },
+    },
+    sequence: [{ name: "head" }, { name: "body" }],
+  },
+  head: {
+    sequence: [{ name: "doi_batch_id" }, { name: "timestamp" }, { name: "depositor" }, { name: "registrant" }],
+  },
+  doi_batch_id: { text: { min: 4, max: 64 } },
+  timestamp: { text: { pattern: /^\d+(\.\d+)?$/ } },
+  depositor: { sequence: [{ name: "depositor_name" }, { name: "email_address" }] },
+  depositor_name: { text: { min: 1, max: 130 } },
+  email_address: { text: { min: 6, max: 200, pattern: /^[^@\s]+@[^@\s]+\.[^@\s]+$/ } },
+  registrant: { text: { min: 1, max: 255 } },
+  body: { sequence: [{ name: "journal", max: MANY }] },
+  journal: {
+    sequence: [
+      { name: "journal_metadata" },
+      { name: "journal_issue", min: 0 },
+      { name: "journal_article", min: 0, max: MANY },
+    ],
+  },
+  journal_metadata: {
+    attributes: { language: { pattern: /^[a-z]{2}$/ } },
+    sequence: [
+      { name: "full_title", max: MANY },
+      { name: "abbrev_title", min: 0, max: MANY },
+      { name: "issn", min: 0, max: 6 },
+      { name: "doi_data", min: 0 },
+    ],
+  },
+  full_title: { text: { min: 1, max: 512 } },
+  abbrev_title: { text: { min: 1, max: 150 } },
+  issn: {
+    attributes: { media_type: { values: ["print", "electronic"] } },
+    text: { pattern: /^\d{4}-?\d{3}[\dX]$/ },
+  },
+  journal_issue: {
+    sequence: [
+      { name: "titles", min: 0 },
+      { name: "publication_date", max: MANY },
+      { name: "journal_volume", min: 0 },
+      { name: "issue", min: 0 },
+      { name: "doi_data", min: 0 },
+    ],
+  },
+  journal_volume: { sequence: [{ name: "volume" }] },
+  volume: { text: { min: 1, max: 32 } },
+  issue: { text: { min: 1, max: 32 } },
+  journal_article: {
+    attributes: {
+      publication_type: { values: ["abstract_only", "full_text", "bibliographic_record"] },
+      language: { pattern: /^[a-z]{2}$/ },
+    },
+    sequence: [
+      { name: "titles", min: 0, max: MANY },
+      { name: "contributors", min: 0 },
+      { name: "jats:abstract", min: 0, max: MANY },
+      { name: "publication_date", max: MANY },
+      { name: "pages", min: 0 },
+      { name: "ai:program", min: 0 },
+      { name: "doi_data" },
+    ],
+  },
+  titles,
+  title: { text: { min: 1 } },
+  subtitle: { text: { min: 1 } },
+  contributors: { sequence: [{ name: "person_name", max: MANY }] },
+  person_name: {
+    attributes: {
+      sequence: { required: true, values: ["first", "additional"] },
+      contributor_role: {
+        required: true,
+        values: ["author", "editor", "chair", "reviewer", "review-assistant", "stats-reviewer", "reviewer-external", "reader", "translator"],
+      },
+    },
+    sequence: [{ name: "given_name", min: 0 }, { name: "surname" }],
+  },
+  given_name: { text: { min: 1, max: 60 } },
+  surname: { text: { min: 1, max: 60 } },
+  "jats:abstract": { anyContent: true },
+  publication_date: publicationDateRule,
+  month: { text: { pattern: MONTH } },
+  day: { text: { pattern: DAY } },
+  year: { text: { pattern: YEAR } },
+  pages: { sequence: [{ name: "first_page" }, { name: "last_page", min: 0 }] },
+  first_page: { text: { min: 1, max: 32 } },
+  last_page: { text: { min: 1, max: 32 } },
+  "ai:program": {
+    attributes: { name: { required: true, values: ["AccessIndicators"] } },
+    sequence: [{ name: "ai:free_to_read", min: 0 }, { name: "ai:license_ref", min: 0, max: MANY }],
+  },
+  "ai:free_to_read": { sequence: [] },
+  "ai:license_ref": {
+    attributes: { applies_to: { values: ["vor", "am", "tdm", "stm-asf"] } },
+    text: { pattern: URL_PATTERN },
+  },
+  doi_data: { sequence: [{ name: "doi" }, { name: "resource" }] },
+  doi: { text: { min: 6, max: 2048, pattern: CROSSREF_DOI } },
+  resource: { text: { min: 1, max: 2048, pattern: URL_PATTERN } },
+}
+
+// fast-xml-parser's ordered output: one key per element, attributes under ":@"
+type ParsedNode = Record<string, ParsedNode[] | string | Record<string, string>>
+
+function getElementName(node: ParsedNode) {
+  return Object.keys(node).find((key) => key !== ":@" && key !== "#text")
+}
+
+function validateElement(node: ParsedNode, path: string, problems: string[], dois: string[]) {
+  const name = getElementName(node)!
+  const rule = CROSSREF_RULES[name]
+  const at = `${path}/${name}`
+
+  if (!rule) {
+    problems.push(`${at}: element is not allowed here`)
+    return
+  }
+  if (rule.anyContent) return
+
+  const attributes = (node[":@"] ?? {}) as Record<string, string>
+  for (const [attribute, attributeRule] of Object.entries(rule.attributes ?? {})) {
+    const value = attributes[attribute]
+    if (value === undefined) {
+      if (attributeRule.required) problems.push(`${at}: missing required attribute "${attribute}"`)
+      continue
+    }
+    if (attributeRule.values && !attributeRule.values.includes(value)) {
+      problems.push(`${at}: attribute "${attribute}" cannot be "${value}"`)
+    }
+    if (attributeRule.pattern && !attributeRule.pattern.test(value)) {
+      problems.push(`${at}: attribute "${attribute}" has an invalid value "${value}"`)
+    }
+  }
+  for (const attribute of Object.keys(attributes)) {
+    if (!rule.attributes?.[attribute] && !attribute.startsWith("xmlns:") && !attribute.startsWith("xsi:")) {
+      problems.push(`${at}: unexpected attribute "${attribute}"`)
+    }
+  }
+
+  const content = (node[name] ?? []) as ParsedNode[]
+  const children = content.filter((child) => getElementName(child))
+  const text = content
+    .filter((child) => "#text" in child)
+    .map((child) => String(child["#text"]))
+    .join("")
+
+  if (rule.text) {
+    if (children.length > 0) problems.push(`${at}: must contain text only`)
+    const { min = 0, max = Infinity, pattern } = rule.text
+    if (text.length < min) problems.push(`${at}: must not be empty`)
+    else if (text.length > max) problems.push(`${at}: is longer than ${max} characters`)
+    else if (pattern && !pattern.test(text)) problems.push(`${at}: "${text}" is not a valid value`)
+    if (name === "doi") dois.push(text)
+    return
+  }
+
+  if (text.trim()) problems.push(`${at}: text is not allowed here`)
+
+  // Walk the sequence, letting each particle take as many matching children as it may
+  let index = 0
+  for (const particle of rule.sequence ?? []) {
+    const min = particle.min ?? 1
+    const max = particle.max ?? Math.max(min, 1)
+    let count = 0
+    while (index < children.length && count < max && getElementName(children[index]) === particle.name) {
+      validateElement(children[index], at, problems, dois)
+      index++
+      count++
+    }
+    if (count < min) problems.push(`${at}: missing <${particle.name}>`)
+  }
+  for (const child of children.slice(index)) {
+    problems.push(`${at}: <${getElementName(child)}> is not allowed here or is out of order`)
+  }
+}
+
+/**
+ * Check a deposit against the Crossref 5.3.1 schema rules above, and that
+ * it does not register the same DOI twice. Returns the problems found; an
+ * empty list means the file can be uploaded.
+ */
+export function validateCrossrefDeposit(xml: string): string[] {
+  const wellFormed = XMLValidator.validate(xml)
+  if (wellFormed !== true) {
+    return [`Line ${wellFormed.err.line}: ${wellFormed.err.msg}`]
+  }
+
+  const parsed = new XMLParser({
+    preserveOrder: true,
+    ignoreAttributes: false,
+    attributeNamePrefix: "",
+    parseTagValue: false,
+    parseAttributeValue: false,
+    ignoreDeclaration: true,
+    trimValues: true,
+  }).parse(xml) as ParsedNode[]
+
+  const roots = parsed.filter((node) => getElementName(node))
+  if (roots.length !== 1 || getElementName(roots[0]) !== "doi_batch") {
+    return ["The document must have a single <doi_batch> root element"]
+  }
+
+  const problems: string[] = []
+  const dois: string[] = []
+  validateElement(roots[0], "", problems, dois)
+
+  const seen = new Set<string>()
+  for (const doi of dois) {
+    const key = doi.toLowerCase() // DOIs are case-insensitive
+    if (seen.has(key)) problems.push(`DOI ${doi} is registered more than once in this deposit`)
+    seen.add(key)
+  }
+
+  return problems
+}
@@ -0,0 +1,114 @@
+// Word manuscript import for the article editor. Runs in the browser: the
+// document is converted locally and only its images are uploaded.
+
+// Uploads an embedded image and returns its public URL, or null if it was rejected
+export type DocxImageUploader = (file: File, index: number) => Promise<string | null>
+
+export type DocxImportResult = {
+  html: string
+  footnotes: number
+  images: number
+  warnings: string[]
+}
+
+// Word styles that have a place in the editor; the editor only has three heading levels
+const STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh",
+  "p[style-name='Heading 4'] => h3:fresh",
+  "p[style-name='Heading 5'] => h3:fresh",
+  "p[style-name='Heading 6'] => h3:fresh",
+  "p[style-name='Quote'] => blockquote > p:fresh",
+  "p[style-name='Intense Quote'] => blockquote > p:fresh",
+  "p[style-name='Block Text'] => blockquote > p:fresh",
+]
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+}
+
+/**
+ * Rewrite mammoth's footnotes and endnotes (a linked [N] in the text and a
+ * list at the end) into the editor's inline `<sup data-footnote>` nodes.
+ */
+function convertNotes(document: Document) {
+  const notes = new Map<string, string>()
+
+  document.querySelectorAll("li[id^='footnote-'], li[id^='endnote-']").forEach((item) => {
+    item.querySelectorAll("a[href^='#footnote-ref-'], a[href^='#endnote-ref-']").forEach((backLink) => backLink.remove())
+    notes.set(item.id, (item.textContent || "").replace(/\s+/g, " ").trim())
+
+    const list = item.parentElement
+    item.remove()
+    if (list && !list.children.length) list.remove()
+  })
+
+  let count = 0
+  document.querySelectorAll("a[href^='#footnote-'], a[href^='#endnote-']").forEach((link) => {
+    const note = notes.get(link.getAttribute("href")!.slice(1))
+    if (note === undefined) return
+
+    const reference = document.createElement("sup")
+    reference.setAttribute("data-footnote", "")
+    reference.setAttribute("data-note", note)
+    const sup = link.parentElement?.tagName === "SUP" ? link.parentElement : link
+    sup.replaceWith(reference)
+    count++
+  })
+
+  return count
+}
+
+export async function convertDocxToHtml(file: File, uploadImage: DocxImageUploader): Promise<DocxImportResult> {
+  const mammoth = await import("mammoth")
+  const warnings: string[] = []
+  let imageIndex = 0
+  let images = 0
+
+  const result = await mammoth.convertToHtml(
+    { arrayBuffer: await file.arrayBuffer() },
+    {
+      styleMap: STYLE_MAP,
+      convertImage: mammoth.images.imgElement(async (image) => {
+        const index = ++imageIndex
+        const extension = IMAGE_EXTENSIONS[image.contentType]
+
+        if (!extension) {
+          warnings.push(`Image ${index} was skipped: ${image.contentType} images are not supported.`)
+          return { src: "" }
+        }
+
+        const baseName = file.name.replace(/\.docx$/i, "")
+        const imageFile = new File([await image.readAsArrayBuffer()], `${baseName}-image-${index}.${extension}`, {
+          type: image.contentType,
+        })
+
+        const url = await uploadImage(imageFile, index)
+        if (!url) {
+          warnings.push(`Image ${index} could not be uploaded to the media library.`)
+          return { src: "" }
+        }
+
+        images++
+        return { src: url }
+      }),
+    }
+  )
+
+  const document = new DOMParser().parseFromString(result.value, "text/html")
+  const footnotes = convertNotes(document)
+
+  // Images that were skipped above, and the anchors Word leaves for bookmarks
+  document.querySelectorAll("img[src='']").forEach((image) => image.remove())
+  document.querySelectorAll("a[id]:not([href])").forEach((anchor) => anchor.replaceWith(...Array.from(anchor.childNodes)))
+
+  return {
+    html: document.body.innerHTML || "<p></p>",
+    footnotes,
+    images,
+    warnings,
+  }
+}
@@ -0,0 +1,60 @@
+// DOI settings and suffix generation. DOIs are registered with Crossref under
+// the prefix in DOI_PREFIX; until it is set no DOIs are assigned.
+import { randomInt } from "crypto"
+import { siteConfig } from "@/lib/metadata"
+
+export type DoiConfig = {
+  prefix: string | null
+  depositorName: string
+  depositorEmail: string | null
+  issn: string | null
+}
+
+// Letters that are hard to misread when a DOI is copied by hand
+const SUFFIX_ALPHABET = "0123456789abcdefghjkmnpqrstvwxyz"
+
+const DOI_PATTERN = /^10\.\d{4,9}\/[-._;()/:a-zA-Z0-9]+$/
+
+export function getDoiConfig(): DoiConfig {
+  return {
+    prefix: process.env.DOI_PREFIX?.trim() || null,
+    depositorName: process.env.CROSSREF_DEPOSITOR_NAME?.trim() || siteConfig.name,
+    depositorEmail: process.env.CROSSREF_DEPOSITOR_EMAIL?.trim() || null,
+    issn: process.env.JOURNAL_ISSN?.trim() || null,
+  }
+}
+
+export function isValidDoiPrefix(prefix: string) {
+  return /^10\.\d{4,9}$/.test(prefix)
+}
+
+/**
+ * Crossref accepts more, but sticking to its recommended characters keeps
+ * DOIs safe to put in URLs and citations unescaped
+ */
+export function isValidDoi(doi: string) {
+  return DOI_PATTERN.test(doi)
+}
+
+export function getDoiUrl(doi: string) {
+  return `https://doi.org/${doi}`
+}
+
+function getSuffixStem(year: number) {
+  return `${siteConfig.shortName.toLowerCase()}.${year}`
+}
+
+// Issues are few and already unique by volume, issue and year, e.g. 10.12345/ojlp.2025.v3i2
+export function getIssueDoi(prefix: string, issue: { volume: number; issue: number; year: number }) {
+  return `${prefix}/${getSuffixStem(issue.year)}.v${issue.volume}i${issue.issue}`
+}
+
+/**
+ * Articles get an opaque suffix, e.g. 10.12345/ojlp.2025.k7q3xz, so the DOI
+ * stays right if the title changes or the article moves in the issue.
+ * Callers check the result is not taken yet.
+ */
+export function generateArticleDoi(prefix: string, year: number) {
+  const random = Array.from({ length: 6 }, () => SUFFIX_ALPHABET[randomInt(SUFFIX_ALPHABET.length)]).join("")
+  return `${prefix}/${getSuffixStem(year)}.${random}`
+}
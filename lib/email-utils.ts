@@ -1,25 +1,21 @@
-"use server"
+// Not a server action module: sendEmail must only be callable from server code
+import { randomInt } from "crypto"
+import { mailQueue } from "@/lib/email/queue"
+import type { EmailContent } from "@/lib/email/templates"
 
-interface EmailOptions {
-  to: string
-  subject: string
-  text: string
-  html: string
+/**
+ * Send an email through the configured transport (see lib/email/transport.ts).
+ * Failed deliveries are retried in the background by the mail queue.
+ */
+export async function sendEmail({ to, ...content }: EmailContent & { to: string }) {
+  return mailQueue.send({ to, ...content })
 }
 
-// In a real application, you would use a proper email service like SendGrid, Mailgun, etc.
-// This is a mock implementation for demonstration purposes
-export async function sendEmail({ to, subject, text, html }: EmailOptions) {
-  // In a real app, you would send an actual email here
-  console.log(`Sending email to ${to}:`)
-  console.log(`Subject: ${subject}`)
-  console.log(`Text: ${text}`)
-  console.log(`HTML: ${html}`)
-
-  // Simulate email sending delay
-  await new Promise((resolve) => setTimeout(resolve, 1000))
-
-  return { success: true }
+/**
+ * Queue an email without waiting for delivery, for bulk sends
+ */
+export async function queueEmail({ to, ...content }: EmailContent & { to: string }) {
+  mailQueue.enqueue({ to, ...content })
 }
 
 // Generate a random OTP of specified length
@@ -28,7 +24,7 @@ export async function generateOTP(length = 6): Promise<string> {
   let otp = ""
 
   for (let i = 0; i < length; i++) {
-    otp += digits[Math.floor(Math.random() * 10)]
+    otp += digits[randomInt(10)]
   }
 
   return otp
@@ -0,0 +1,90 @@
+// lib/email/queue.ts
+import { getMailTransport, type MailMessage } from "./transport"
+
+export interface QueueOptions {
+  maxAttempts: number
+  // Delay before the first retry, doubled after every failed attempt
+  retryDelayMs: number
+}
+
+export type SendResult =
+  | { success: true; messageId: string }
+  | { success: false; queued: boolean; error: string }
+
+interface QueuedEmail {
+  message: MailMessage
+  attempts: number
+}
+
+/**
+ * In-memory send queue. Messages are delivered one at a time and failed
+ * deliveries are retried with exponential backoff, so a flaky mail server
+ * doesn't fail the request that triggered the email.
+ */
+export function createMailQueue(options: QueueOptions) {
+  const pending: QueuedEmail[] = []
+  let processing = false
+
+  const attempt = async (job: QueuedEmail): Promise<SendResult> => {
+    job.attempts++
+
+    try {
+      const { messageId } = await getMailTransport().send(job.message)
+      console.log(`✅ Email "${job.message.subject}" sent to ${job.message.to}`)
+      return { success: true, messageId }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+
+      if (job.attempts >= options.maxAttempts) {
+        console.error(`❌ Giving up on email to ${job.message.to} after ${job.attempts} attempts:`, reason)
+        return { success: false, queued: false, error: reason }
+      }
+
+      const delay = options.retryDelayMs * 2 ** (job.attempts - 1)
+      console.warn(`⚠️ Email to ${job.message.to} failed (attempt ${job.attempts}), retrying in ${delay}ms:`, reason)
+
+      const timer = setTimeout(() => {
+        pending.push(job)
+        void drain()
+      }, delay)
+      timer.unref?.()
+
+      return { success: false, queued: true, error: reason }
+    }
+  }
+
+  const drain = async () => {
+    if (processing) return
+    processing = true
+
+    try {
+      let job: QueuedEmail | undefined
+      while ((job = pending.shift())) {
+        await attempt(job)
+      }
+    } finally {
+      processing = false
+    }
+  }
+
+  return {
+    /**
+     * Try to deliver a message straight away. If that fails it stays queued
+     * for retries and the result reports `queued: true`.
+     */
+    send: (message: MailMessage) => attempt({ message, attempts: 0 }),
+
+    // Fire-and-forget delivery for bulk sends such as announcements
+    enqueue: (message: MailMessage) => {
+      pending.push({ message, attempts: 0 })
+      void drain()
+    },
+
+    size: () => pending.length,
+  }
+}
+
+export const mailQueue = createMailQueue({
+  maxAttempts: Number(process.env.EMAIL_MAX_ATTEMPTS || 5),
+  retryDelayMs: 2000,
+})
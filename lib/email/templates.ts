@@ -0,0 +1,227 @@
+// lib/email/templates.ts
+import { format } from "date-fns"
+import { siteConfig } from "@/lib/metadata"
+
+export interface EmailContent {
+  subject: string
+  text: string
+  html: string
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+// Wraps a message body in the journal's branded layout
+function layout(body: string) {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:#f5f5f4;font-family:Georgia,'Times New Roman',serif;color:#1c1917;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border:1px solid #e7e5e4;">
+            <tr>
+              <td style="padding:20px 32px;border-bottom:3px solid #7f1d1d;font-size:20px;font-weight:bold;">
+                ${escapeHtml(siteConfig.name)}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:24px 32px;font-size:15px;line-height:1.6;">
+                ${body}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 32px;border-top:1px solid #e7e5e4;font-size:12px;color:#78716c;">
+                <a href="${siteConfig.url}" style="color:#78716c;">${siteConfig.url.replace(/^https?:\/\//, "")}</a>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`
+}
+
+function button(href: string, label: string) {
+  return `<p style="margin:24px 0;"><a href="${escapeHtml(href)}" style="background:#7f1d1d;color:#ffffff;padding:10px 20px;text-decoration:none;border-radius:2px;">${escapeHtml(label)}</a></p>`
+}
+
+const signature = {
+  text: "Thank you,\nThe Editors",
+  html: "<p>Thank you,<br/>The Editors</p>",
+}
+
+export function otpEmail({ otp, expiresInMinutes }: { otp: string; expiresInMinutes: number }): EmailContent {
+  return {
+    subject: "Your password reset code",
+    text: `Your password reset code is ${otp}. It expires in ${expiresInMinutes} minutes.
+
+If you didn't request a password reset, you can ignore this email.`,
+    html: layout(`<p>Your password reset code is:</p>
+<p style="font-size:28px;letter-spacing:6px;font-weight:bold;">${escapeHtml(otp)}</p>
+<p>It expires in ${expiresInMinutes} minutes. If you didn't request a password reset, you can ignore this email.</p>`),
+  }
+}
+
+export function userInvitationEmail({ name, email, role }: { name: string; email: string; role?: string }): EmailContent {
+  const loginUrl = `${siteConfig.url}/admin-protected-login`
+  const resetUrl = `${siteConfig.url}/admin/reset-password`
+  const asRole = role ? ` as ${role}` : ""
+
+  return {
+    subject: `You've been invited to ${siteConfig.name}`,
+    text: `Dear ${name},
+
+An account has been created for you${asRole} on ${siteConfig.name}. Sign in with ${email} at ${loginUrl}.
+
+To choose your own password, use "Forgot password" or go to ${resetUrl}.
+
+${signature.text}`,
+    html: layout(`<p>Dear ${escapeHtml(name)},</p>
+<p>An account has been created for you${escapeHtml(asRole)} on ${escapeHtml(siteConfig.name)}. Sign in with <strong>${escapeHtml(email)}</strong>.</p>
+${button(loginUrl, "Sign in")}
+<p>To choose your own password, use <a href="${resetUrl}">Forgot password</a>.</p>
+${signature.html}`),
+  }
+}
+
+export function submissionReceiptEmail({
+  authorName,
+  title,
+  reference,
+}: {
+  authorName: string
+  title: string
+  reference: string
+}): EmailContent {
+  return {
+    subject: `Submission received: ${title}`,
+    text: `Dear ${authorName},
+
+Thank you for submitting "${title}" to ${siteConfig.name}. Your reference number is ${reference}; please quote it in any correspondence.
+
+The editors will screen the manuscript before sending it for double-blind peer review. We will be in touch by email.
+
+${signature.text}`,
+    html: layout(`<p>Dear ${escapeHtml(authorName)},</p>
+<p>Thank you for submitting <strong>"${escapeHtml(title)}"</strong> to ${escapeHtml(siteConfig.name)}.</p>
+<p>Your reference number is <strong>${escapeHtml(reference)}</strong>; please quote it in any correspondence.</p>
+<p>The editors will screen the manuscript before sending it for double-blind peer review. We will be in touch by email.</p>
+${signature.html}`),
+  }
+}
+
+export function callForPapersEmail({
+  title,
+  thematicFocus,
+  description,
+  deadline,
+  volume,
+  issue,
+  year,
+  topics,
+  fee,
+}: {
+  title: string
+  thematicFocus: string
+  description: string
+  deadline: Date
+  volume: number
+  issue: string
+  year: number
+  topics: string[]
+  fee: string | null
+}): EmailContent {
+  const callUrl = `${siteConfig.url}/journals/call-for-papers`
+  const submitUrl = `${siteConfig.url}/submit`
+  const due = format(deadline, "MMMM d, yyyy")
+  const issueLabel = `Volume ${volume}, Issue ${issue} (${year})`
+
+  return {
+    subject: `Call for Papers: ${title}`,
+    text: `${title}
+${issueLabel}
+
+Theme: ${thematicFocus}
+
+${description}
+${topics.length > 0 ? `\nTopics: ${topics.join(", ")}\n` : ""}
+Submission deadline: ${due}
+${fee ? `Submission fee: ${fee}` : "No submission fee"}
+
+Read the full call: ${callUrl}
+Submit your manuscript: ${submitUrl}`,
+    html: layout(`<h2 style="margin:0 0 4px;">${escapeHtml(title)}</h2>
+<p style="margin:0 0 16px;color:#78716c;">${escapeHtml(issueLabel)}</p>
+<p><strong>Theme:</strong> ${escapeHtml(thematicFocus)}</p>
+<p style="white-space:pre-line;">${escapeHtml(description)}</p>
+${topics.length > 0 ? `<ul>${topics.map((topic) => `<li>${escapeHtml(topic)}</li>`).join("")}</ul>` : ""}
+<p><strong>Submission deadline:</strong> ${due}<br/>${fee ? `<strong>Submission fee:</strong> ${escapeHtml(fee)}` : "No submission fee"}</p>
+${button(submitUrl, "Submit a Manuscript")}
+<p><a href="${callUrl}">Read the full call for papers</a></p>`),
+  }
+}
+
+export function reviewerInvitationEmail({
+  reviewerName,
+  title,
+  reviewUrl,
+  dueDate,
+}: {
+  reviewerName: string
+  title: string
+  reviewUrl: string
+  dueDate?: Date | null
+}): EmailContent {
+  const due = dueDate ? ` by ${format(dueDate, "MMMM d, yyyy")}` : ""
+
+  return {
+    subject: `Invitation to review for ${siteConfig.name}`,
+    text: `Dear ${reviewerName},
+
+You have been invited to review the manuscript "${title}"${due}. The review is double-blind: you will not see the author's identity, and the author will not see yours.
+
+Accept or decline the invitation here: ${reviewUrl}
+
+${signature.text}`,
+    html: layout(`<p>Dear ${escapeHtml(reviewerName)},</p>
+<p>You have been invited to review the manuscript <strong>"${escapeHtml(title)}"</strong>${due}. The review is double-blind: you will not see the author's identity, and the author will not see yours.</p>
+${button(reviewUrl, "Accept or decline")}
+${signature.html}`),
+  }
+}
+
+export function revisionRequestEmail({
+  authorName,
+  title,
+  decisionLabel,
+  revisionUrl,
+}: {
+  authorName: string
+  title: string
+  decisionLabel: string
+  revisionUrl: string
+}): EmailContent {
+  return {
+    subject: `Decision on your submission: ${decisionLabel}`,
+    text: `Dear ${authorName},
+
+The editors have reviewed your manuscript "${title}" and the decision is: ${decisionLabel}.
+
+Please read the reviewers' comments and upload your revised manuscript together with a response to the reviewers here: ${revisionUrl}
+
+${signature.text}`,
+    html: layout(`<p>Dear ${escapeHtml(authorName)},</p>
+<p>The editors have reviewed your manuscript <strong>"${escapeHtml(title)}"</strong> and the decision is: <strong>${escapeHtml(decisionLabel)}</strong>.</p>
+<p>Please read the reviewers' comments and upload your revised manuscript together with a response to the reviewers.</p>
+${button(revisionUrl, "Submit a Revision")}
+${signature.html}`),
+  }
+}
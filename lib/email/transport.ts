@@ -0,0 +1,129 @@
+// lib/email/transport.ts
+import { mkdir, writeFile } from "fs/promises"
+import path from "path"
+import nodemailer from "nodemailer"
+import { siteConfig } from "@/lib/metadata"
+
+/**
+ * Mail transports, selected with EMAIL_TRANSPORT:
+ *
+ * - "smtp":    sends through SMTP_HOST / SMTP_PORT, with optional SMTP_USER /
+ *              SMTP_PASSWORD. SMTP_SECURE=true uses TLS from the start.
+ *              A local catcher such as Mailpit (localhost:1025) works as is.
+ * - "outbox":  writes each message as an .eml file to EMAIL_OUTBOX_DIR
+ *              (default ".outbox"), which can be opened in any mail client.
+ * - "console": logs messages only. Bodies are logged in development alone,
+ *              since they carry reset codes and private review links.
+ *
+ * Without EMAIL_TRANSPORT, SMTP is used when SMTP_HOST is set, the outbox in
+ * development and the console in tests. Production refuses to send without
+ * SMTP (or an explicit outbox) rather than dropping mail into the logs.
+ * EMAIL_FROM sets the sender address.
+ */
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+export interface MailTransport {
+  name: "smtp" | "outbox" | "console"
+  send(message: MailMessage): Promise<{ messageId: string }>
+}
+
+function getFromAddress() {
+  return process.env.EMAIL_FROM || `"${siteConfig.name}" <no-reply@${new URL(siteConfig.url).hostname}>`
+}
+
+export function createSmtpTransport(): MailTransport {
+  const port = Number(process.env.SMTP_PORT || 587)
+
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({ from: getFromAddress(), ...message })
+      return { messageId: info.messageId }
+    },
+  }
+}
+
+export function createOutboxTransport(
+  directory = process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), ".outbox")
+): MailTransport {
+  // Builds the full MIME message without delivering it
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true })
+
+  return {
+    name: "outbox",
+    async send(message) {
+      const info = await transporter.sendMail({ from: getFromAddress(), ...message })
+
+      await mkdir(directory, { recursive: true })
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${info.messageId.replace(/[^a-zA-Z0-9.-]/g, "")}.eml`
+      await writeFile(path.join(directory, fileName), info.message as Buffer)
+
+      console.log(`📬 Email to ${message.to} written to ${path.join(directory, fileName)}`)
+      return { messageId: info.messageId }
+    },
+  }
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(`📧 Email to ${message.to}: ${message.subject}`)
+      if (process.env.NODE_ENV === "development") {
+        console.log(message.text)
+      }
+      return { messageId: `console-${Date.now()}` }
+    },
+  }
+}
+
+let transport: MailTransport | null = null
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport
+
+  const configured = process.env.EMAIL_TRANSPORT
+  const name = configured || (process.env.SMTP_HOST
+    ? "smtp"
+    : process.env.NODE_ENV === "development" ? "outbox" : "console")
+
+  if (process.env.NODE_ENV === "production" && (name === "console" || (name === "smtp" && !process.env.SMTP_HOST))) {
+    throw new Error("Email is not configured: set SMTP_HOST (or EMAIL_TRANSPORT=outbox) in production")
+  }
+
+  switch (name) {
+    case "smtp":
+      transport = createSmtpTransport()
+      break
+    case "outbox":
+      transport = createOutboxTransport()
+      break
+    case "console":
+      transport = createConsoleTransport()
+      break
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}"`)
+  }
+
+  return transport
+}
+
+// Lets scripts swap in their own transport, e.g. to capture messages
+export function setMailTransport(custom: MailTransport | null) {
+  transport = custom
+}
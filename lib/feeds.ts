@@ -0,0 +1,152 @@
+// RSS 2.0 and Atom 1.0 feeds. Every feed comes in both formats: ".xml" for
+// RSS and ".atom" for Atom, e.g. /feeds/blogs.xml and /feeds/blogs.atom.
+import { siteConfig } from "@/lib/metadata"
+import { el, renderXml } from "@/lib/xml"
+
+export type FeedFormat = "rss" | "atom"
+
+// Cache tags for the rendered feeds, revalidated whenever their rows change
+export const ARTICLE_FEEDS_TAG = "article-feeds"
+export const NOTIFICATION_FEEDS_TAG = "notification-feeds"
+
+export const FEED_ENTRY_LIMIT = 50
+
+const ATOM_NAMESPACE = "http://www.w3.org/2005/Atom"
+const DC_NAMESPACE = "http://purl.org/dc/elements/1.1/"
+
+export type FeedEntry = {
+  // Permanent, unlike the URL, which changes with the slug
+  id: string
+  title: string
+  url: string
+  summary?: string | null
+  published: Date
+  updated: Date
+  authors: { name: string; url?: string }[]
+  categories: string[]
+  enclosure?: { url: string; type: string } | null
+}
+
+export type Feed = {
+  title: string
+  description: string
+  // The page the feed follows, and the feed's own address without extension
+  url: string
+  path: string
+  entries: FeedEntry[]
+}
+
+const FEED_EXTENSIONS: Record<FeedFormat, string> = { rss: "xml", atom: "atom" }
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+}
+
+export function getFeedUrl(path: string, format: FeedFormat) {
+  return `${siteConfig.url}${path}.${FEED_EXTENSIONS[format]}`
+}
+
+// "blogs.atom" → { name: "blogs", format: "atom" }
+export function parseFeedFilename(filename: string): { name: string; format: FeedFormat } | null {
+  const match = /^([a-z-]+)\.(xml|atom)$/.exec(filename)
+  if (!match) return null
+  return { name: match[1], format: match[2] === "atom" ? "atom" : "rss" }
+}
+
+/**
+ * Tag URI for an entry (RFC 4151), dated by when the row was created so it
+ * never changes afterwards
+ */
+export function getFeedEntryId(kind: string, id: string, createdAt: Date) {
+  return `tag:${new URL(siteConfig.url).hostname},${createdAt.toISOString().slice(0, 10)}:${kind}/${id}`
+}
+
+// Notifications mark links up as hyperLink:[label](url); feeds get plain text
+export function getNotificationText(content: string) {
+  return content.replace(/hyperLink:\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+}
+
+function getFeedUpdated(feed: Feed) {
+  return feed.entries.reduce<Date | null>(
+    (latest, entry) => (!latest || entry.updated > latest ? entry.updated : latest),
+    null
+  )
+}
+
+function renderRss(feed: Feed) {
+  const updated = getFeedUpdated(feed)
+
+  return renderXml(
+    el(
+      "rss",
+      { version: "2.0", "xmlns:atom": ATOM_NAMESPACE, "xmlns:dc": DC_NAMESPACE },
+      el(
+        "channel",
+        null,
+        el("title", null, feed.title),
+        el("link", null, feed.url),
+        el("description", null, feed.description),
+        el("language", null, "en"),
+        el("copyright", null, `${siteConfig.name}. Journal articles are licensed under ${siteConfig.license.shortName}.`),
+        updated && el("lastBuildDate", null, updated.toUTCString()),
+        el("atom:link", { href: getFeedUrl(feed.path, "rss"), rel: "self", type: "application/rss+xml" }),
+        feed.entries.map((entry) =>
+          el(
+            "item",
+            null,
+            el("title", null, entry.title),
+            el("link", null, entry.url),
+            el("guid", { isPermaLink: "false" }, entry.id),
+            el("pubDate", null, entry.published.toUTCString()),
+            el("description", null, entry.summary),
+            // RSS's own author element wants an email address, so names go in dc:creator
+            entry.authors.map((author) => el("dc:creator", null, author.name)),
+            entry.categories.map((category) => el("category", null, category)),
+            // The size isn't known without fetching the PDF; 0 is the accepted placeholder
+            entry.enclosure && el("enclosure", { url: entry.enclosure.url, length: 0, type: entry.enclosure.type })
+          )
+        )
+      )
+    )
+  )
+}
+
+function renderAtom(feed: Feed) {
+  const selfUrl = getFeedUrl(feed.path, "atom")
+
+  return renderXml(
+    el(
+      "feed",
+      { xmlns: ATOM_NAMESPACE, "xml:lang": "en" },
+      el("id", null, selfUrl),
+      el("title", null, feed.title),
+      el("subtitle", null, feed.description),
+      el("link", { rel: "alternate", type: "text/html", href: feed.url }),
+      el("link", { rel: "self", type: "application/atom+xml", href: selfUrl }),
+      // Atom requires updated even on an empty feed
+      el("updated", null, (getFeedUpdated(feed) ?? new Date(0)).toISOString()),
+      el("author", null, el("name", null, siteConfig.name), el("uri", null, siteConfig.url)),
+      el("rights", null, `Journal articles are licensed under ${siteConfig.license.shortName}.`),
+      feed.entries.map((entry) =>
+        el(
+          "entry",
+          null,
+          el("id", null, entry.id),
+          el("title", null, entry.title),
+          el("link", { rel: "alternate", type: "text/html", href: entry.url }),
+          el("published", null, entry.published.toISOString()),
+          el("updated", null, entry.updated.toISOString()),
+          entry.authors.map((author) => el("author", null, el("name", null, author.name), author.url && el("uri", null, author.url))),
+          entry.categories.map((category) => el("category", { term: category })),
+          el("summary", null, entry.summary),
+          entry.enclosure && el("link", { rel: "enclosure", type: entry.enclosure.type, href: entry.enclosure.url })
+        )
+      )
+    )
+  )
+}
+
+export function renderFeed(feed: Feed, format: FeedFormat) {
+  return format === "atom" ? renderAtom(feed) : renderRss(feed)
+}
@@ -0,0 +1,208 @@
+// Compiles a journal issue into one PDF: a cover, the editorial board, a
+// table of contents and then every article's own PDF, numbered throughout.
+//
+// The front matter is typeset with jsPDF like the article PDFs; the articles
+// (typeset or Google Doc snapshots) are appended with pdf-lib.
+import { jsPDF } from "jspdf"
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib"
+import { getIssueLine } from "@/lib/article-pdf"
+import { siteConfig } from "@/lib/metadata"
+
+export type IssuePdfSource = {
+  volume: number
+  issue: number
+  year: number
+  theme?: string | null
+  publishDate?: string | null
+  editors: BoardListing[]
+  advisors: BoardListing[]
+  articles: { title: string; authors: string[]; pdf: Buffer }[]
+}
+
+type BoardListing = { name: string; designation: string }
+
+type ContentsEntry = { title: string; authors: string[]; page: number | null }
+
+const MARGIN = 25
+const LINE_HEIGHT = 5
+const MM_TO_PT = 72 / 25.4
+
+export function getIssuePdfFilename(issue: { volume: number; issue: number; year: number }) {
+  return `volume-${issue.volume}-issue-${issue.issue}-${issue.year}.pdf`
+}
+
+// Cover, board and contents. Page numbers are left blank on the first pass,
+// which only counts the pages the front matter takes.
+function renderFrontMatter(source: IssuePdfSource, contents: ContentsEntry[]) {
+  const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const contentWidth = pageWidth - MARGIN * 2
+  const issueLine = getIssueLine(source)!
+  let y = MARGIN
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      doc.addPage()
+      y = MARGIN
+    }
+  }
+
+  const writeCentered = (text: string, size: number, style: string, lineHeight = LINE_HEIGHT) => {
+    doc.setFontSize(size)
+    doc.setFont("times", style)
+    doc.splitTextToSize(text, contentWidth).forEach((line: string) => {
+      ensureSpace(lineHeight)
+      doc.text(line, pageWidth / 2, y, { align: "center" })
+      y += lineHeight
+    })
+  }
+
+  const rule = (x1 = MARGIN, x2 = pageWidth - MARGIN) => {
+    doc.setDrawColor(120, 120, 120)
+    doc.setLineWidth(0.3)
+    doc.line(x1, y, x2, y)
+    doc.setDrawColor(0, 0, 0)
+  }
+
+  // Cover
+  doc.setLineWidth(0.8)
+  doc.rect(MARGIN - 8, MARGIN - 8, pageWidth - (MARGIN - 8) * 2, pageHeight - (MARGIN - 8) * 2)
+  y = MARGIN + 30
+  writeCentered(siteConfig.name.toUpperCase(), 20, "bold", 9)
+  y += 4
+  rule(pageWidth / 2 - 30, pageWidth / 2 + 30)
+  y += 14
+  writeCentered(issueLine, 14, "normal", 7)
+  if (source.theme) {
+    y += 30
+    writeCentered(source.theme, 24, "bold", 11)
+  }
+  y = pageHeight - MARGIN - 20
+  if (source.publishDate) {
+    const published = new Date(source.publishDate)
+    writeCentered(
+      isNaN(published.getTime())
+        ? source.publishDate
+        : published.toLocaleDateString("en-GB", { month: "long", year: "numeric" }),
+      11,
+      "italic"
+    )
+  }
+  writeCentered(siteConfig.url.replace(/^https?:\/\//, ""), 10, "normal")
+
+  // Editorial board
+  const boardSections = [
+    { heading: "Editorial Board", members: source.editors },
+    { heading: "Board of Advisors", members: source.advisors },
+  ].filter((section) => section.members.length > 0)
+
+  if (boardSections.length > 0) {
+    doc.addPage()
+    y = MARGIN + 10
+    boardSections.forEach((section, index) => {
+      if (index > 0) y += 8
+      ensureSpace(LINE_HEIGHT * 4)
+      writeCentered(section.heading, 14, "bold", 7)
+      y += 4
+      section.members.forEach((member) => {
+        ensureSpace(LINE_HEIGHT * 2)
+        writeCentered(member.name, 11, "bold")
+        writeCentered(member.designation, 10, "italic", 4.5)
+        y += 2.5
+      })
+    })
+  }
+
+  // Contents
+  doc.addPage()
+  y = MARGIN + 10
+  writeCentered("Contents", 14, "bold", 7)
+  y += 6
+
+  const numberWidth = 12
+  contents.forEach((entry) => {
+    doc.setFontSize(11)
+    doc.setFont("times", "bold")
+    const titleLines = doc.splitTextToSize(entry.title, contentWidth - numberWidth) as string[]
+    doc.setFontSize(10)
+    doc.setFont("times", "italic")
+    const authorLines = entry.authors.length
+      ? (doc.splitTextToSize(entry.authors.join(", "), contentWidth - numberWidth) as string[])
+      : []
+    ensureSpace((titleLines.length + authorLines.length) * LINE_HEIGHT + 4)
+
+    doc.setFontSize(11)
+    doc.setFont("times", "bold")
+    titleLines.forEach((line, index) => {
+      doc.text(line, MARGIN, y)
+      if (index === 0 && entry.page !== null) {
+        doc.setFont("times", "normal")
+        doc.text(String(entry.page), pageWidth - MARGIN, y, { align: "right" })
+        doc.setFont("times", "bold")
+      }
+      y += LINE_HEIGHT
+    })
+
+    doc.setFontSize(10)
+    doc.setFont("times", "italic")
+    authorLines.forEach((line) => {
+      doc.text(line, MARGIN, y)
+      y += LINE_HEIGHT - 0.5
+    })
+    y += 4
+  })
+
+  return Buffer.from(doc.output("arraybuffer"))
+}
+
+/**
+ * Build the full-issue PDF. Pages are numbered from the cover on, so the
+ * contents can point at each article's first page.
+ */
+export async function compileIssuePdf(source: IssuePdfSource): Promise<Buffer> {
+  const articles = await Promise.all(source.articles.map((article) => PDFDocument.load(article.pdf)))
+
+  // First pass: how many pages the front matter needs
+  const draft = renderFrontMatter(
+    source,
+    source.articles.map((article) => ({ title: article.title, authors: article.authors, page: null }))
+  )
+  let nextPage = (await PDFDocument.load(draft)).getPageCount() + 1
+
+  const contents = source.articles.map((article, index) => {
+    const page = nextPage
+    nextPage += articles[index].getPageCount()
+    return { title: article.title, authors: article.authors, page }
+  })
+
+  const frontMatter = await PDFDocument.load(renderFrontMatter(source, contents))
+  const issue = await PDFDocument.create()
+
+  for (const part of [frontMatter, ...articles]) {
+    const pages = await issue.copyPages(part, part.getPageIndices())
+    pages.forEach((page) => issue.addPage(page))
+  }
+
+  // Running folio on every page but the cover
+  const font = await issue.embedFont(StandardFonts.TimesRomanItalic)
+  const folio = getIssueLine(source)!
+  issue.getPages().forEach((page, index) => {
+    if (index === 0) return
+    const { width } = page.getSize()
+    const label = `${folio} · ${index + 1}`
+    page.drawText(label, {
+      x: width - MARGIN * MM_TO_PT - font.widthOfTextAtSize(label, 8),
+      y: (MARGIN - 12) * MM_TO_PT,
+      size: 8,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+    })
+  })
+
+  issue.setTitle(source.theme ? `${source.theme} · ${folio}` : `${siteConfig.name} ${folio}`)
+  issue.setAuthor(siteConfig.name)
+  issue.setCreator(siteConfig.name)
+
+  return Buffer.from(await issue.save())
+}
@@ -0,0 +1,386 @@
+// JATS 1.3 (Archiving and Interchange) export of a journal article: the
+// front matter from its metadata and the body converted from the editor's
+// HTML, with footnotes moved to an <fn-group> in the back matter.
+import { decodeEntities, getAttribute, isRichText, TOKEN_PATTERN } from "@/lib/article-content"
+import { siteConfig } from "@/lib/metadata"
+import { el, renderXml, type XmlChild, type XmlNode } from "@/lib/xml"
+
+export type JatsArticleSource = {
+  slug: string
+  title: string
+  abstract?: string | null
+  content?: string | null
+  keywords?: string[]
+  doi?: string | null
+  publishedAt: Date
+  startPage?: number | null
+  endPage?: number | null
+  // In AuthorArticle.authorOrder order
+  authors: { name: string; affiliation?: string | null }[]
+  issue?: { volume: number; issue: number; year: number } | null
+}
+
+const JATS_DOCTYPE =
+  '<!DOCTYPE article PUBLIC "-//NLM//DTD JATS (Z39.96) Journal Archiving and Interchange DTD v1.3 20210610//EN" "JATS-archivearticle1-3.dtd">'
+
+const VOID_TAGS = new Set(["br", "hr", "img", "col", "wbr"])
+const HEADING_TAGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"])
+const BLOCK_TAGS = new Set(["p", "ul", "ol", "blockquote", "table", "pre", "hr", "img", "figure", "div", ...HEADING_TAGS])
+const INLINE_ELEMENTS: Record<string, string> = {
+  strong: "bold",
+  b: "bold",
+  em: "italic",
+  i: "italic",
+  cite: "italic",
+  u: "underline",
+  s: "strike",
+  strike: "strike",
+  del: "strike",
+  sub: "sub",
+  sup: "sup",
+  code: "monospace",
+}
+
+type HtmlElement = { tag: string; attributes: string; children: HtmlNode[] }
+type HtmlNode = HtmlElement | string
+
+// Nest the editor's HTML into a tree; stray closing tags are ignored
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { tag: "root", attributes: "", children: [] }
+  const stack = [root]
+
+  for (const [, closing, rawTag, attributes, text] of html.matchAll(TOKEN_PATTERN)) {
+    const parent = stack[stack.length - 1]
+
+    if (text !== undefined) {
+      parent.children.push(decodeEntities(text))
+      continue
+    }
+    if (!rawTag) continue
+
+    const tag = rawTag.toLowerCase()
+    if (closing) {
+      const index = stack.map((node) => node.tag).lastIndexOf(tag)
+      if (index > 0) stack.length = index
+      continue
+    }
+
+    const element: HtmlElement = { tag, attributes, children: [] }
+    parent.children.push(element)
+    if (!VOID_TAGS.has(tag) && !attributes.trim().endsWith("/")) stack.push(element)
+  }
+
+  return root.children
+}
+
+type Footnotes = { notes: XmlNode[] }
+
+function convertInline(nodes: HtmlNode[], footnotes: Footnotes): XmlChild[] {
+  return nodes.flatMap((node): XmlChild[] => {
+    if (typeof node === "string") return [node.replace(/\s+/g, " ")]
+
+    if (node.tag === "sup" && /\bdata-footnote\b/i.test(node.attributes)) {
+      const number = footnotes.notes.length + 1
+      footnotes.notes.push(
+        el("fn", { id: `fn${number}` }, el("label", null, number), el("p", null, getAttribute(node.attributes, "data-note") || ""))
+      )
+      return [el("xref", { "ref-type": "fn", rid: `fn${number}` }, number)]
+    }
+
+    const jatsTag = INLINE_ELEMENTS[node.tag]
+    if (jatsTag) return [el(jatsTag, null, convertInline(node.children, footnotes))]
+
+    if (node.tag === "a") {
+      const href = getAttribute(node.attributes, "href")
+      const children = convertInline(node.children, footnotes)
+      return href && /^(https?:|mailto:)/i.test(href)
+        ? [el("ext-link", { "ext-link-type": href.startsWith("mailto:") ? "email" : "uri", "xlink:href": href }, children)]
+        : children
+    }
+    if (node.tag === "img") {
+      const src = getAttribute(node.attributes, "src")
+      return src ? [el("inline-graphic", { "xlink:href": src })] : []
+    }
+    // <break/> is not allowed in paragraphs
+    if (node.tag === "br") return [" "]
+
+    return convertInline(node.children, footnotes)
+  })
+}
+
+function hasText(children: XmlChild[]) {
+  return children.some((child) => (typeof child === "string" ? child.trim() !== "" : !!child))
+}
+
+function convertCell(cell: HtmlElement, footnotes: Footnotes) {
+  // Cells hold paragraphs in the editor; JATS cells take inline content with breaks between
+  const parts = cell.children.map((child) =>
+    typeof child !== "string" && child.tag === "p" ? convertInline(child.children, footnotes) : convertInline([child], footnotes)
+  )
+  const content = parts.filter(hasText).flatMap((part, index) => (index > 0 ? [el("break"), ...part] : part))
+
+  return el(
+    cell.tag,
+    {
+      colspan: getAttribute(cell.attributes, "colspan") ?? undefined,
+      rowspan: getAttribute(cell.attributes, "rowspan") ?? undefined,
+    },
+    content
+  )
+}
+
+function convertTable(table: HtmlElement, footnotes: Footnotes): XmlNode {
+  const convertRows = (nodes: HtmlNode[]): XmlNode[] =>
+    nodes.flatMap((node) => {
+      if (typeof node === "string") return []
+      if (node.tag === "tr") {
+        return [
+          el(
+            "tr",
+            null,
+            node.children.flatMap((cell) =>
+              typeof cell !== "string" && (cell.tag === "td" || cell.tag === "th") ? [convertCell(cell, footnotes)] : []
+            )
+          ),
+        ]
+      }
+      if (node.tag === "thead" || node.tag === "tbody" || node.tag === "tfoot") {
+        return [el(node.tag, null, convertRows(node.children))]
+      }
+      return []
+    })
+
+  return el("table-wrap", null, el("table", null, convertRows(table.children)))
+}
+
+// Paragraph-level content; loose text and inline elements are gathered into paragraphs
+function convertBlocks(nodes: HtmlNode[], footnotes: Footnotes): XmlNode[] {
+  const blocks: XmlNode[] = []
+  let pending: HtmlNode[] = []
+
+  const flush = () => {
+    const inline = convertInline(pending, footnotes)
+    if (hasText(inline)) blocks.push(el("p", null, inline))
+    pending = []
+  }
+
+  for (const node of nodes) {
+    if (typeof node === "string" || !BLOCK_TAGS.has(node.tag)) {
+      pending.push(node)
+      continue
+    }
+    flush()
+
+    switch (node.tag) {
+      case "p": {
+        const inline = convertInline(node.children, footnotes)
+        if (hasText(inline)) blocks.push(el("p", null, inline))
+        break
+      }
+      case "ul":
+      case "ol":
+        blocks.push(
+          el(
+            "list",
+            { "list-type": node.tag === "ol" ? "order" : "bullet" },
+            node.children.flatMap((item) =>
+              typeof item !== "string" && item.tag === "li" ? [el("list-item", null, convertBlocks(item.children, footnotes))] : []
+            )
+          )
+        )
+        break
+      case "blockquote": {
+        const attribution = getAttribute(node.attributes, "data-attribution")
+        blocks.push(el("disp-quote", null, convertBlocks(node.children, footnotes), attribution && el("attrib", null, attribution)))
+        break
+      }
+      case "table":
+        blocks.push(convertTable(node, footnotes))
+        break
+      case "pre":
+        blocks.push(el("preformat", null, htmlText(node)))
+        break
+      case "img": {
+        const src = getAttribute(node.attributes, "src")
+        const alt = getAttribute(node.attributes, "alt")
+        if (src) blocks.push(el("fig", null, el("graphic", { "xlink:href": src }, alt && el("alt-text", null, alt))))
+        break
+      }
+      case "hr":
+        break
+      default:
+        // Headings only reach here inside lists and quotes, where sections can't start
+        if (HEADING_TAGS.has(node.tag)) {
+          const inline = convertInline(node.children, footnotes)
+          if (hasText(inline)) blocks.push(el("p", null, el("bold", null, inline)))
+        } else {
+          blocks.push(...convertBlocks(node.children, footnotes))
+        }
+    }
+  }
+
+  flush()
+  return blocks
+}
+
+function htmlText(node: HtmlNode): string {
+  return typeof node === "string" ? node : node.children.map(htmlText).join("")
+}
+
+/**
+ * The article body as JATS: headings open nested <sec>s by level, and the
+ * footnotes are returned for the back matter.
+ */
+function convertBody(content: string) {
+  const footnotes: Footnotes = { notes: [] }
+
+  if (!isRichText(content)) {
+    const paragraphs = content
+      .split("\n\n")
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean)
+      .map((paragraph) => el("p", null, paragraph))
+    return { body: paragraphs, footnotes: [] }
+  }
+
+  const body: XmlNode[] = []
+  const sections: { level: number; node: XmlNode }[] = []
+  let pending: HtmlNode[] = []
+
+  const flush = () => {
+    const blocks = convertBlocks(pending, footnotes)
+    const container = sections.length ? sections[sections.length - 1].node.children! : body
+    container.push(...blocks)
+    pending = []
+  }
+
+  for (const node of parseHtml(content)) {
+    if (typeof node !== "string" && HEADING_TAGS.has(node.tag)) {
+      flush()
+      const level = Number(node.tag[1])
+      while (sections.length && sections[sections.length - 1].level >= level) sections.pop()
+
+      const section = el("sec", null, el("title", null, convertInline(node.children, footnotes)))
+      const container = sections.length ? sections[sections.length - 1].node.children! : body
+      container.push(section)
+      sections.push({ level, node: section })
+    } else {
+      pending.push(node)
+    }
+  }
+  flush()
+
+  return { body, footnotes: footnotes.notes }
+}
+
+// JATS wants the family name on its own; everything before it is the given names
+function contribName(name: string) {
+  const parts = name.trim().split(/\s+/)
+  const surname = parts.pop()!
+  return el("name", null, el("surname", null, surname), parts.length > 0 && el("given-names", null, parts.join(" ")))
+}
+
+export function getJatsFilename(article: { slug: string }) {
+  return `${article.slug}.xml`
+}
+
+export function renderArticleJats(article: JatsArticleSource, { issn }: { issn?: string | null } = {}) {
+  const articleUrl = `${siteConfig.url}/journals/${article.slug}`
+  const { body, footnotes } = convertBody(article.content ?? "")
+
+  // One <aff> per distinct affiliation, shared by the authors who list it
+  const affiliations = Array.from(
+    new Set(article.authors.map((author) => author.affiliation?.trim()).filter((affiliation): affiliation is string => !!affiliation))
+  )
+  const affiliationId = (affiliation?: string | null) =>
+    affiliation?.trim() ? `aff${affiliations.indexOf(affiliation.trim()) + 1}` : null
+
+  const published = article.publishedAt
+
+  const front = el(
+    "front",
+    null,
+    el(
+      "journal-meta",
+      null,
+      el("journal-id", { "journal-id-type": "publisher-id" }, siteConfig.shortName),
+      el(
+        "journal-title-group",
+        null,
+        el("journal-title", null, siteConfig.name),
+        el("abbrev-journal-title", { "abbrev-type": "publisher" }, siteConfig.shortName)
+      ),
+      issn && el("issn", { "publication-format": "electronic" }, issn),
+      el("publisher", null, el("publisher-name", null, siteConfig.name))
+    ),
+    el(
+      "article-meta",
+      null,
+      article.doi && el("article-id", { "pub-id-type": "doi" }, article.doi),
+      el("article-id", { "pub-id-type": "publisher-id" }, article.slug),
+      el("title-group", null, el("article-title", null, article.title)),
+      article.authors.length > 0 &&
+        el(
+          "contrib-group",
+          null,
+          article.authors.map((author) => {
+            const rid = affiliationId(author.affiliation)
+            return el("contrib", { "contrib-type": "author" }, contribName(author.name), rid && el("xref", { "ref-type": "aff", rid }))
+          })
+        ),
+      affiliations.map((affiliation, index) => el("aff", { id: `aff${index + 1}` }, affiliation)),
+      el(
+        "pub-date",
+        { "publication-format": "electronic", "date-type": "pub" },
+        el("day", null, published.getUTCDate().toString().padStart(2, "0")),
+        el("month", null, (published.getUTCMonth() + 1).toString().padStart(2, "0")),
+        el("year", null, published.getUTCFullYear())
+      ),
+      article.issue && el("volume", null, article.issue.volume),
+      article.issue && el("issue", null, article.issue.issue),
+      article.startPage ? el("fpage", null, article.startPage) : null,
+      article.startPage && article.endPage ? el("lpage", null, article.endPage) : null,
+      el(
+        "permissions",
+        null,
+        el(
+          "license",
+          { "license-type": "open-access", "xlink:href": siteConfig.license.url },
+          el("ali:license_ref", null, siteConfig.license.url),
+          el("license-p", null, `This article is published under the ${siteConfig.license.name} (${siteConfig.license.shortName}).`)
+        )
+      ),
+      el("self-uri", { "xlink:href": articleUrl }),
+      el("self-uri", { "xlink:href": `${articleUrl}/pdf`, "content-type": "pdf" }),
+      article.abstract?.trim() &&
+        el(
+          "abstract",
+          null,
+          article.abstract
+            .split(/\n\s*\n/)
+            .map((paragraph) => paragraph.trim())
+            .filter(Boolean)
+            .map((paragraph) => el("p", null, paragraph))
+        ),
+      article.keywords?.length
+        ? el("kwd-group", { "kwd-group-type": "author" }, article.keywords.map((keyword) => el("kwd", null, keyword)))
+        : null
+    )
+  )
+
+  const root = el(
+    "article",
+    {
+      "xmlns:xlink": "http://www.w3.org/1999/xlink",
+      "xmlns:ali": "http://www.niso.org/schemas/ali/1.0/",
+      "article-type": "research-article",
+      "dtd-version": "1.3",
+      "xml:lang": "en",
+    },
+    front,
+    body.length > 0 && el("body", null, body),
+    footnotes.length > 0 && el("back", null, el("fn-group", null, footnotes))
+  )
+
+  return renderXml(root, { doctype: JATS_DOCTYPE })
+}
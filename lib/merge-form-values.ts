@@ -0,0 +1,41 @@
+// Three-way merge of article form values (used when a save hits a newer version)
+
+// Returned by the update actions when the article was saved by someone else
+// after the form loaded it
+export type SaveConflict = {
+  version: number
+  updatedAt: string
+  updatedBy: string | null
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Merge the editor's values with the version someone else saved, field by
+ * field. A field changed on only one side takes that side's value. A field
+ * changed on both sides keeps the editor's value and is reported as a
+ * conflict. Without a base (e.g. a restored draft of unknown origin) every
+ * differing field is a conflict.
+ */
+export function mergeFormValues<T extends Record<string, unknown>>(
+  base: T | null,
+  mine: T,
+  theirs: T
+): { merged: T; conflicts: (keyof T)[] } {
+  const merged = { ...mine }
+  const conflicts: (keyof T)[] = []
+
+  for (const key of Object.keys(mine) as (keyof T)[]) {
+    if (sameValue(mine[key], theirs[key])) continue
+
+    if (base && sameValue(mine[key], base[key])) {
+      merged[key] = theirs[key]
+    } else if (!base || !sameValue(theirs[key], base[key])) {
+      conflicts.push(key)
+    }
+  }
+
+  return { merged, conflicts }
+}
@@ -3,6 +3,7 @@ import type { Metadata } from "next"
 // Base metadata that will be used across the site
 export const siteConfig = {
   name: "Open Journal of Law & Policy",
+  shortName: "OJLP", // abbreviated journal title, also the start of generated DOI suffixes
   description: "Expert analysis and commentary on legal developments, constitutional law, and judicial decisions.",
   url: "https://ojlp.org", // Replace with your actual domain
   ogImage: "https://ojlp.org/og-image.jpg", // Replace with your actual OG image
@@ -10,6 +11,12 @@ export const siteConfig = {
     twitter: "https://twitter.com/ojlp",
     github: "https://github.com/ojlp",
   },
+  // Licence journal articles are published under (see /submit and /terms-of-service)
+  license: {
+    name: "Creative Commons Attribution 4.0 International License",
+    shortName: "CC BY 4.0",
+    url: "https://creativecommons.org/licenses/by/4.0/",
+  },
 }
 
 // Helper function to construct metadata for each page
@@ -20,6 +27,7 @@ export function constructMetadata({
   icons = "/favicon.ico",
   noIndex = false,
   pathname = "",
+  feeds = [],
 }: {
   title?: string
   description?: string
@@ -27,6 +35,8 @@ export function constructMetadata({
   icons?: string
   noIndex?: boolean
   pathname?: string
+  // Advertised for feed readers, each in RSS (path.xml) and Atom (path.atom)
+  feeds?: { title: string; path: string }[]
 }): Metadata {
   const url = `${siteConfig.url}${pathname}`
 
@@ -74,6 +84,63 @@ export function constructMetadata({
     metadataBase: new URL(siteConfig.url),
     alternates: {
       canonical: url,
+      types: feeds.length > 0
+        ? {
+            "application/rss+xml": feeds.map((feed) => ({ title: feed.title, url: `${siteConfig.url}${feed.path}.xml` })),
+            "application/atom+xml": feeds.map((feed) => ({ title: feed.title, url: `${siteConfig.url}${feed.path}.atom` })),
+          }
+        : undefined,
     },
   }
 }
+
+export type CitationMetaSource = {
+  slug: string
+  title: string
+  publishedAt: Date
+  keywords: string[]
+  doi?: string | null
+  startPage?: number | null
+  endPage?: number | null
+  authors: { name: string; affiliation?: string | null }[]
+  issue?: { volume: number; issue: number } | null
+  // Whether /journals/[slug]/pdf has a PDF to serve
+  hasPdf: boolean
+}
+
+/**
+ * Highwire Press citation_* tags for a journal article, which Google Scholar
+ * reads to index it. Order matters: each citation_author_institution belongs
+ * to the author before it, so these are rendered as a list rather than
+ * through Metadata["other"], which groups repeated names together.
+ */
+export function getCitationMetaTags(article: CitationMetaSource, { issn }: { issn?: string | null } = {}) {
+  const url = `${siteConfig.url}/journals/${article.slug}`
+  const date = article.publishedAt.toISOString().slice(0, 10).replace(/-/g, "/")
+
+  const tags: [string, string | number | null | undefined][] = [
+    ["citation_title", article.title],
+    ...article.authors.flatMap(({ name, affiliation }): [string, string | null | undefined][] => [
+      ["citation_author", name],
+      ["citation_author_institution", affiliation],
+    ]),
+    ["citation_publication_date", date],
+    ["citation_journal_title", siteConfig.name],
+    ["citation_journal_abbrev", siteConfig.shortName],
+    ["citation_publisher", siteConfig.name],
+    ["citation_issn", issn],
+    ["citation_volume", article.issue?.volume],
+    ["citation_issue", article.issue?.issue],
+    ["citation_firstpage", article.startPage],
+    ["citation_lastpage", article.endPage],
+    ["citation_doi", article.doi],
+    ["citation_keywords", article.keywords.join("; ")],
+    ["citation_language", "en"],
+    ["citation_abstract_html_url", url],
+    ["citation_pdf_url", article.hasPdf ? `${url}/pdf` : null],
+  ]
+
+  return tags
+    .filter((tag): tag is [string, string | number] => tag[1] !== null && tag[1] !== undefined && tag[1] !== "")
+    .map(([name, content]) => ({ name, content: String(content) }))
+}
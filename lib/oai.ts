@@ -0,0 +1,439 @@
+// OAI-PMH 2.0 for /api/oai: request checking, set specs, resumption tokens
+// and the XML responses, with Dublin Core (oai_dc) as the metadata format.
+// The database side is in lib/controllers/oai.ts.
+import { siteConfig } from "@/lib/metadata"
+import { getDoiUrl } from "@/lib/doi"
+import { el, renderXml, type XmlNode } from "@/lib/xml"
+
+export const OAI_METADATA_PREFIX = "oai_dc"
+export const OAI_PAGE_SIZE = 100
+
+const OAI_NAMESPACE = "http://www.openarchives.org/OAI/2.0/"
+const XSI_NAMESPACE = "http://www.w3.org/2001/XMLSchema-instance"
+const OAI_DC_NAMESPACE = "http://www.openarchives.org/OAI/2.0/oai_dc/"
+const OAI_DC_SCHEMA = "http://www.openarchives.org/OAI/2.0/oai_dc.xsd"
+const DC_NAMESPACE = "http://purl.org/dc/elements/1.1/"
+const OAI_IDENTIFIER_NAMESPACE = "http://www.openarchives.org/OAI/2.0/oai-identifier"
+
+const REPOSITORY_IDENTIFIER = new URL(siteConfig.url).hostname
+
+export type OaiVerb = "Identify" | "ListMetadataFormats" | "ListSets" | "ListIdentifiers" | "ListRecords" | "GetRecord"
+
+export type OaiErrorCode =
+  | "badArgument"
+  | "badResumptionToken"
+  | "badVerb"
+  | "cannotDisseminateFormat"
+  | "idDoesNotExist"
+  | "noRecordsMatch"
+  | "noMetadataFormats"
+  | "noSetHierarchy"
+
+export type OaiError = { code: OaiErrorCode; message: string }
+
+/**
+ * Sets are hierarchical: "blog" and "journal" split by article type, and
+ * journal articles are further grouped by volume ("journal:v3") and issue
+ * ("journal:v3:i2").
+ */
+export type OaiSet = { type: "blog" | "journal"; volume?: number; issue?: number }
+
+export type OaiListQuery = {
+  metadataPrefix: string
+  from?: Date
+  // Exclusive, so a day-granularity `until` covers the whole day
+  before?: Date
+  setSpec?: string
+  // Position of the next page: records returned so far, and the last one's sort key
+  cursor: number
+  after?: { updatedAt: Date; id: string }
+}
+
+export type OaiRequest =
+  | { verb: "Identify" }
+  | { verb: "ListMetadataFormats"; identifier?: string }
+  | { verb: "ListSets" }
+  | { verb: "ListIdentifiers" | "ListRecords"; query: OaiListQuery }
+  | { verb: "GetRecord"; identifier: string; metadataPrefix: string }
+
+export type ParsedOaiRequest =
+  | { success: true; request: OaiRequest; args: Record<string, string> }
+  // args is null when they are not echoed back, i.e. for badVerb and badArgument
+  | { success: false; error: OaiError; args: Record<string, string> | null }
+
+export type OaiRecordSource = {
+  id: string
+  slug: string
+  type: "blog" | "journal"
+  title: string
+  abstract?: string | null
+  keywords: string[]
+  authors: string[]
+  doi?: string | null
+  publishedAt: Date
+  updatedAt: Date
+  startPage?: number | null
+  endPage?: number | null
+  issue?: { volume: number; issue: number; year: number } | null
+}
+
+export type OaiIssueSet = { volume: number; issue: number; year: number; theme?: string | null }
+
+const VERB_ARGUMENTS: Record<OaiVerb, { required: string[]; optional: string[]; exclusive?: string }> = {
+  Identify: { required: [], optional: [] },
+  ListMetadataFormats: { required: [], optional: ["identifier"] },
+  ListSets: { required: [], optional: [], exclusive: "resumptionToken" },
+  ListIdentifiers: { required: ["metadataPrefix"], optional: ["from", "until", "set"], exclusive: "resumptionToken" },
+  ListRecords: { required: ["metadataPrefix"], optional: ["from", "until", "set"], exclusive: "resumptionToken" },
+  GetRecord: { required: ["identifier", "metadataPrefix"], optional: [] },
+}
+
+function isVerb(value: string | undefined): value is OaiVerb {
+  return value !== undefined && Object.prototype.hasOwnProperty.call(VERB_ARGUMENTS, value)
+}
+
+function badArgument(message: string): ParsedOaiRequest {
+  return { success: false, error: { code: "badArgument", message }, args: null }
+}
+
+export function getOaiIdentifier(articleId: string) {
+  return `oai:${REPOSITORY_IDENTIFIER}:${articleId}`
+}
+
+// The article id inside an identifier from this repository, or null
+export function parseOaiIdentifier(identifier: string) {
+  const prefix = `oai:${REPOSITORY_IDENTIFIER}:`
+  return identifier.startsWith(prefix) && identifier.length > prefix.length ? identifier.slice(prefix.length) : null
+}
+
+export function parseSetSpec(setSpec: string): OaiSet | null {
+  if (setSpec === "blog") return { type: "blog" }
+
+  const match = /^journal(?::v(\d+)(?::i(\d+))?)?$/.exec(setSpec)
+  if (!match) return null
+
+  return {
+    type: "journal",
+    volume: match[1] ? Number(match[1]) : undefined,
+    issue: match[2] ? Number(match[2]) : undefined,
+  }
+}
+
+function getSetSpecs(record: OaiRecordSource) {
+  if (record.type === "blog") return ["blog"]
+  if (!record.issue) return ["journal"]
+
+  const volume = `journal:v${record.issue.volume}`
+  return ["journal", volume, `${volume}:i${record.issue.issue}`]
+}
+
+// UTC datestamps at the repository's granularity of seconds
+export function formatDatestamp(date: Date) {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z")
+}
+
+function parseDatestamp(value: string) {
+  const match = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}Z)?$/.exec(value)
+  if (!match) return null
+
+  const date = new Date(match[1] ? value : `${value}T00:00:00Z`)
+  // Rejects dates that roll over, such as 2025-02-30
+  if (isNaN(date.getTime()) || !date.toISOString().startsWith(value.slice(0, 10))) return null
+
+  return { date, granularity: match[1] ? "seconds" : "day" }
+}
+
+/**
+ * Resumption tokens carry the whole query, so paging needs no server-side
+ * state and a token stays usable until the harvest is finished.
+ */
+export function encodeResumptionToken(query: OaiListQuery) {
+  return Buffer.from(
+    JSON.stringify({
+      m: query.metadataPrefix,
+      f: query.from?.toISOString(),
+      b: query.before?.toISOString(),
+      s: query.setSpec,
+      c: query.cursor,
+      a: query.after && [query.after.updatedAt.toISOString(), query.after.id],
+    })
+  ).toString("base64url")
+}
+
+function decodeResumptionToken(token: string): OaiListQuery | null {
+  try {
+    const data = JSON.parse(Buffer.from(token, "base64url").toString("utf8"))
+    const date = (value: unknown) => {
+      if (value === undefined) return undefined
+      const parsed = typeof value === "string" ? new Date(value) : new Date(NaN)
+      if (isNaN(parsed.getTime())) throw new Error("Invalid date in resumption token")
+      return parsed
+    }
+
+    if (typeof data?.m !== "string" || !Number.isInteger(data.c) || data.c < 0) return null
+    if (data.s !== undefined && typeof data.s !== "string") return null
+    if (data.a !== undefined && (!Array.isArray(data.a) || typeof data.a[0] !== "string" || typeof data.a[1] !== "string")) return null
+
+    return {
+      metadataPrefix: data.m,
+      from: date(data.f),
+      before: date(data.b),
+      setSpec: data.s,
+      cursor: data.c,
+      after: data.a && { updatedAt: date(data.a[0])!, id: data.a[1] },
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check a request's arguments against the verb's. Arguments may come from the
+ * query string or a form body, and repeating one is itself an error.
+ */
+export function parseOaiRequest(entries: Iterable<[string, string]>): ParsedOaiRequest {
+  const args: Record<string, string> = {}
+  for (const [key, value] of entries) {
+    if (Object.prototype.hasOwnProperty.call(args, key)) return badArgument(`The argument "${key}" is repeated`)
+    args[key] = value
+  }
+
+  const { verb, ...rest } = args
+  if (!isVerb(verb)) {
+    return {
+      success: false,
+      error: { code: "badVerb", message: verb ? `"${verb}" is not an OAI-PMH verb` : "The verb argument is missing" },
+      args: null,
+    }
+  }
+
+  const allowed = VERB_ARGUMENTS[verb]
+  const names = Object.keys(rest)
+  const unknown = names.find(
+    (name) => !allowed.required.includes(name) && !allowed.optional.includes(name) && name !== allowed.exclusive
+  )
+  if (unknown) return badArgument(`"${unknown}" is not a valid argument for ${verb}`)
+
+  if (allowed.exclusive && names.includes(allowed.exclusive)) {
+    if (names.length > 1) return badArgument(`${allowed.exclusive} must be the only argument besides the verb`)
+  } else {
+    const missing = allowed.required.find((name) => !names.includes(name))
+    if (missing) return badArgument(`${verb} requires the "${missing}" argument`)
+  }
+
+  const parsed = (request: OaiRequest): ParsedOaiRequest => ({ success: true, request, args })
+
+  switch (verb) {
+    case "Identify":
+    case "ListSets":
+      if (rest.resumptionToken !== undefined) {
+        // ListSets is always returned in full, so no token was ever handed out
+        return { success: false, error: { code: "badResumptionToken", message: "The resumption token is invalid" }, args }
+      }
+      return parsed({ verb })
+
+    case "ListMetadataFormats":
+      return parsed({ verb, identifier: rest.identifier })
+
+    case "GetRecord":
+      return parsed({ verb, identifier: rest.identifier, metadataPrefix: rest.metadataPrefix })
+
+    case "ListIdentifiers":
+    case "ListRecords": {
+      if (rest.resumptionToken !== undefined) {
+        const query = decodeResumptionToken(rest.resumptionToken)
+        if (!query) {
+          return { success: false, error: { code: "badResumptionToken", message: "The resumption token is invalid" }, args }
+        }
+        return parsed({ verb, query })
+      }
+
+      const from = rest.from !== undefined ? parseDatestamp(rest.from) : undefined
+      const until = rest.until !== undefined ? parseDatestamp(rest.until) : undefined
+      if (from === null) return badArgument(`"${rest.from}" is not a valid datestamp`)
+      if (until === null) return badArgument(`"${rest.until}" is not a valid datestamp`)
+      if (from && until && from.granularity !== until.granularity) {
+        return badArgument("from and until must have the same granularity")
+      }
+      if (from && until && from.date > until.date) return badArgument("from must not be later than until")
+
+      let before: Date | undefined
+      if (until) {
+        before = new Date(until.date)
+        if (until.granularity === "day") before.setUTCDate(before.getUTCDate() + 1)
+        else before.setUTCSeconds(before.getUTCSeconds() + 1)
+      }
+
+      return parsed({
+        verb,
+        query: { metadataPrefix: rest.metadataPrefix, from: from?.date, before, setSpec: rest.set, cursor: 0 },
+      })
+    }
+  }
+}
+
+function getRecordUrl(record: OaiRecordSource) {
+  return `${siteConfig.url}/${record.type === "journal" ? "journals" : "blogs"}/${record.slug}`
+}
+
+// "Open Journal of Law & Policy; Vol. 3 No. 2 (2025): 14-29"
+function getSource(record: OaiRecordSource) {
+  if (!record.issue) return siteConfig.name
+
+  const { volume, issue, year } = record.issue
+  const pages =
+    record.startPage != null ? `: ${record.startPage}${record.endPage != null ? `-${record.endPage}` : ""}` : ""
+
+  return `${siteConfig.name}; Vol. ${volume} No. ${issue} (${year})${pages}`
+}
+
+export function buildOaiHeader(record: OaiRecordSource) {
+  return el(
+    "header",
+    null,
+    el("identifier", null, getOaiIdentifier(record.id)),
+    el("datestamp", null, formatDatestamp(record.updatedAt)),
+    getSetSpecs(record).map((setSpec) => el("setSpec", null, setSpec))
+  )
+}
+
+function dublinCore(record: OaiRecordSource) {
+  const isJournal = record.type === "journal"
+
+  return el(
+    "oai_dc:dc",
+    {
+      "xmlns:oai_dc": OAI_DC_NAMESPACE,
+      "xmlns:dc": DC_NAMESPACE,
+      "xsi:schemaLocation": `${OAI_DC_NAMESPACE} ${OAI_DC_SCHEMA}`,
+    },
+    el("dc:title", null, record.title),
+    record.authors.map((author) => el("dc:creator", null, author)),
+    record.keywords.map((keyword) => el("dc:subject", null, keyword)),
+    el("dc:description", null, record.abstract?.trim()),
+    el("dc:publisher", null, siteConfig.name),
+    el("dc:date", null, record.publishedAt.toISOString().slice(0, 10)),
+    el("dc:type", null, "Text"),
+    isJournal && el("dc:type", null, "info:eu-repo/semantics/article"),
+    el("dc:format", null, "text/html"),
+    el("dc:identifier", null, getRecordUrl(record)),
+    record.doi && el("dc:identifier", null, getDoiUrl(record.doi)),
+    isJournal && el("dc:source", null, getSource(record)),
+    el("dc:language", null, "en"),
+    // Only journal articles are published under the licence
+    isJournal && el("dc:rights", null, siteConfig.license.url)
+  )
+}
+
+export function buildOaiRecord(record: OaiRecordSource) {
+  return el("record", null, buildOaiHeader(record), el("metadata", null, dublinCore(record)))
+}
+
+/**
+ * The resumptionToken element for a page of a list. The last page of a list
+ * that took several gets an empty token, as the protocol requires.
+ */
+export function buildResumptionToken(query: OaiListQuery, nextQuery: OaiListQuery | null, completeListSize: number) {
+  if (!nextQuery && query.cursor === 0) return null
+
+  return el(
+    "resumptionToken",
+    { completeListSize, cursor: query.cursor },
+    nextQuery && encodeResumptionToken(nextQuery)
+  )
+}
+
+export function buildIdentify(baseUrl: string, earliestDatestamp: Date, adminEmail: string) {
+  return el(
+    "Identify",
+    null,
+    el("repositoryName", null, siteConfig.name),
+    el("baseURL", null, baseUrl),
+    el("protocolVersion", null, "2.0"),
+    el("adminEmail", null, adminEmail),
+    el("earliestDatestamp", null, formatDatestamp(earliestDatestamp)),
+    // Unpublished and archived articles simply drop out of the lists
+    el("deletedRecord", null, "no"),
+    el("granularity", null, "YYYY-MM-DDThh:mm:ssZ"),
+    el(
+      "description",
+      null,
+      el(
+        "oai-identifier",
+        {
+          xmlns: OAI_IDENTIFIER_NAMESPACE,
+          "xsi:schemaLocation": `${OAI_IDENTIFIER_NAMESPACE} http://www.openarchives.org/OAI/2.0/oai-identifier.xsd`,
+        },
+        el("scheme", null, "oai"),
+        el("repositoryIdentifier", null, REPOSITORY_IDENTIFIER),
+        el("delimiter", null, ":"),
+        el("sampleIdentifier", null, getOaiIdentifier("clx0example0000000000000"))
+      )
+    )
+  )
+}
+
+export function buildMetadataFormats() {
+  return el(
+    "ListMetadataFormats",
+    null,
+    el(
+      "metadataFormat",
+      null,
+      el("metadataPrefix", null, OAI_METADATA_PREFIX),
+      el("schema", null, OAI_DC_SCHEMA),
+      el("metadataNamespace", null, OAI_DC_NAMESPACE)
+    )
+  )
+}
+
+export function buildSets(issues: OaiIssueSet[]) {
+  const volumes = Array.from(new Set(issues.map((issue) => issue.volume))).sort((a, b) => a - b)
+  const set = (setSpec: string, setName: string) => el("set", null, el("setSpec", null, setSpec), el("setName", null, setName))
+
+  return el(
+    "ListSets",
+    null,
+    set("blog", "Blog posts"),
+    set("journal", "Journal articles"),
+    volumes.flatMap((volume) => [
+      set(`journal:v${volume}`, `Volume ${volume}`),
+      ...issues
+        .filter((issue) => issue.volume === volume)
+        .sort((a, b) => a.issue - b.issue)
+        .map((issue) =>
+          set(
+            `journal:v${volume}:i${issue.issue}`,
+            `Volume ${volume}, Issue ${issue.issue} (${issue.year})${issue.theme ? `: ${issue.theme}` : ""}`
+          )
+        ),
+    ])
+  )
+}
+
+/**
+ * Wrap a verb's response, or an error, in the OAI-PMH envelope. The request
+ * element echoes the arguments unless they were rejected.
+ */
+export function renderOaiResponse(
+  baseUrl: string,
+  args: Record<string, string> | null,
+  content: XmlNode | OaiError,
+  now: Date = new Date()
+) {
+  const body = "code" in content ? el("error", { code: content.code }, content.message) : content
+
+  return renderXml(
+    el(
+      "OAI-PMH",
+      {
+        xmlns: OAI_NAMESPACE,
+        "xmlns:xsi": XSI_NAMESPACE,
+        "xsi:schemaLocation": `${OAI_NAMESPACE} http://www.openarchives.org/OAI/2.0/OAI-PMH.xsd`,
+      },
+      el("responseDate", null, formatDatestamp(now)),
+      el("request", args ?? undefined, baseUrl),
+      body
+    )
+  )
+}
@@ -0,0 +1,19 @@
+// Display labels for the peer review workflow (shared by the admin and reviewer views)
+
+export type ReviewDecisionValue = "accepted" | "minor_revisions" | "revise_and_resubmit" | "reject"
+
+export type ReviewAssignmentStatusValue = "invited" | "accepted" | "declined" | "completed"
+
+export const REVIEW_DECISION_LABELS: Record<ReviewDecisionValue, string> = {
+  accepted: "Accepted",
+  minor_revisions: "Minor Revisions",
+  revise_and_resubmit: "Revise and Resubmit",
+  reject: "Reject",
+}
+
+export const REVIEW_ASSIGNMENT_STATUS_LABELS: Record<ReviewAssignmentStatusValue, string> = {
+  invited: "Invited",
+  accepted: "Accepted",
+  declined: "Declined",
+  completed: "Review Submitted",
+}
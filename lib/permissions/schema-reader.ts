@@ -316,6 +316,70 @@ const MANUAL_PERMISSIONS: Record<string, PermissionOption[]> = {
       category: "Editorial Board"
     }
   ],
+  "Submissions": [
+    {
+      value: "submission.CREATE",
+      label: "Create Submissions",
+      description: "Record manuscript submissions on behalf of authors",
+      category: "Submissions"
+    },
+    {
+      value: "submission.READ",
+      label: "View Submissions",
+      description: "View the manuscript submission queue and files",
+      category: "Submissions"
+    },
+    {
+      value: "submission.UPDATE",
+      label: "Manage Submissions",
+      description: "Change submission status and editor notes",
+      category: "Submissions"
+    },
+    {
+      value: "submission.DELETE",
+      label: "Delete Submissions",
+      description: "Delete submissions and their uploaded files",
+      category: "Submissions"
+    },
+    {
+      value: "submission.ALL",
+      label: "All Submission Operations",
+      description: "Full access to manuscript submissions",
+      category: "Submissions"
+    }
+  ],
+  "Peer Review": [
+    {
+      value: "review.CREATE",
+      label: "Invite Reviewers",
+      description: "Invite peer reviewers to submissions",
+      category: "Peer Review"
+    },
+    {
+      value: "review.READ",
+      label: "View Reviews",
+      description: "View review assignments and reviewer reports",
+      category: "Peer Review"
+    },
+    {
+      value: "review.UPDATE",
+      label: "Record Decisions",
+      description: "Record editorial decisions based on reviewer reports",
+      category: "Peer Review"
+    },
+    {
+      value: "review.DELETE",
+      label: "Withdraw Invitations",
+      description: "Withdraw reviewer invitations and discard reports",
+      category: "Peer Review"
+    },
+    {
+      value: "review.ALL",
+      label: "All Peer Review Operations",
+      description: "Full access to the peer review workflow",
+      category: "Peer Review"
+    }
+  ],
   "Notifications": [
     {
       value: "notification.CREATE",
@@ -388,6 +452,8 @@ export function getTableNameFromRoute(routePath: string): string | null {
       'call-for-papers': 'callforpapers',
       'editorial-board': 'editorialboard',
       'notifications': 'notification',
+      'submissions': 'submission',
+      'reviews': 'review',
       'sessions': 'session',
       'analytics': 'analytics',
       'settings': 'settings'
@@ -75,7 +75,9 @@ export const ROUTE_TABLE_MAPPING: Record<string, string> = {
   '/admin/call-for-papers': 'callforpapers',
   '/admin/notifications': 'notification',
   '/admin/media': 'media',
-  '/admin/editorial-board': 'editorialboardmember'
+  '/admin/editorial-board': 'editorialboardmember',
+  '/admin/submissions': 'submission',
+  '/admin/reviews': 'review'
 }
 
 // Default role permissions (simplified) - based on your actual schema
@@ -93,7 +95,9 @@ export const DEFAULT_ROLE_PERMISSIONS = {
     'callforpapers.ALL',
     'notification.ALL',
     'media.ALL',
-    'editorialboardmember.ALL'
+    'editorialboardmember.ALL',
+    'submission.ALL',
+    'review.ALL'
   ],
   
   EDITOR: [
@@ -105,7 +109,14 @@ export const DEFAULT_ROLE_PERMISSIONS = {
     'notification.READ',
     'notification.UPDATE',
     'media.ALL',
-    'editorialboardmember.READ'
+    'editorialboardmember.READ',
+    'submission.READ',
+    'submission.UPDATE',
+    'review.ALL'
+  ],
+  
+  REVIEWER: [
+    'review.READ' // Only reviews assigned to their own email address; editors need review.UPDATE
   ],
   
   AUTHOR: [
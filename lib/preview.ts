@@ -0,0 +1,26 @@
+// lib/preview.ts
+import { cookies, draftMode } from "next/headers"
+import { getArticleBySlug, getArticleForPreview } from "@/lib/controllers/articles"
+
+// Holds the preview token once a visitor has opened a preview link
+export const PREVIEW_COOKIE = "article_preview"
+
+/**
+ * Load an article for a public page. Visitors who arrived through a preview
+ * link for this article see it whatever its status; everyone else only sees
+ * published articles.
+ */
+export async function getArticleWithPreview(slug: string) {
+  const { isEnabled } = await draftMode()
+
+  if (isEnabled) {
+    const token = (await cookies()).get(PREVIEW_COOKIE)?.value
+    const preview = token ? await getArticleForPreview(slug, token) : null
+
+    if (preview) {
+      return { article: preview.article, previewExpiresAt: preview.expiresAt }
+    }
+  }
+
+  return { article: await getArticleBySlug(slug), previewExpiresAt: null }
+}
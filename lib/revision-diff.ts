@@ -0,0 +1,61 @@
+// Word-level diffs between article revisions (used by the revision history panel)
+import { diffWordsWithSpace } from "diff"
+
+export type DiffPart = {
+  value: string
+  added?: boolean
+  removed?: boolean
+}
+
+const BLOCK_TAGS = /<\/(p|div|h[1-6]|li|blockquote|pre|tr|table|ul|ol|figure)>/gi
+
+const ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+}
+
+/**
+ * Turn the editor's HTML into readable text, keeping paragraph breaks, so the
+ * diff shows changes to the words rather than to the markup.
+ */
+export function richTextToPlainText(html: string | null) {
+  if (!html) return ""
+
+  return html
+    .replace(/<sup\b[^>]*\bdata-note="([^"]*)"[^>]*>[\s\S]*?<\/sup>/gi, " [footnote: $1]")
+    .replace(/<blockquote\b[^>]*\bdata-attribution="([^"]*)"[^>]*>/gi, "[quote: $1]\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, " | ")
+    .replace(BLOCK_TAGS, "\n\n")
+    .replace(/<img[^>]*alt="([^"]*)"[^>]*>/gi, "[image: $1]")
+    .replace(/<img[^>]*>/gi, "[image]")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (entity) => ENTITIES[entity])
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+export function diffText(before: string | null, after: string | null): DiffPart[] {
+  return diffWordsWithSpace(before || "", after || "").map(({ value, added, removed }) => ({
+    value,
+    ...(added && { added }),
+    ...(removed && { removed }),
+  }))
+}
+
+export function diffRichText(before: string | null, after: string | null): DiffPart[] {
+  return diffText(richTextToPlainText(before), richTextToPlainText(after))
+}
+
+export function diffKeywords(before: string[], after: string[]) {
+  return {
+    added: after.filter((keyword) => !before.includes(keyword)),
+    removed: before.filter((keyword) => !after.includes(keyword)),
+  }
+}
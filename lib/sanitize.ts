@@ -0,0 +1,340 @@
+// Allow-list sanitizer for HTML written by editors. Every action that stores
+// article or notification content runs it first, so the public pages can
+// render what is stored without trusting the browser that sent it.
+import sanitizeHtml from "sanitize-html"
+import { decodeEntities, isRichText } from "@/lib/article-content"
+
+export type SanitizeReport = {
+  removedTags: string[]
+  removedAttributes: string[]
+  blockedLinks: string[]
+  blockedImages: string[]
+}
+
+const LINK_PROTOCOLS = ["http:", "https:", "mailto:"]
+const IMAGE_PROTOCOLS = ["http:", "https:"]
+// Stands in for this site when resolving relative URLs
+const RELATIVE_BASE = "https://relative.invalid"
+
+// Tags and attributes the rich text editor produces
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "target", "rel", "title"],
+  img: ["src", "alt", "title", "width", "height"],
+  sup: ["data-footnote", "data-note", "title", "class"],
+  cite: ["data-case-citation", "class"],
+  blockquote: ["data-attribution"],
+  ol: ["start"],
+  p: ["style"],
+  h1: ["style"],
+  h2: ["style"],
+  h3: ["style"],
+  h4: ["style"],
+  h5: ["style"],
+  h6: ["style"],
+  table: ["style"],
+  col: ["style"],
+  th: ["colspan", "rowspan", "colwidth", "style"],
+  td: ["colspan", "rowspan", "colwidth", "style"],
+}
+
+const ALLOWED_TAGS = [
+  ...Object.keys(ALLOWED_ATTRIBUTES),
+  "br",
+  "hr",
+  "strong",
+  "b",
+  "em",
+  "i",
+  "u",
+  "s",
+  "strike",
+  "del",
+  "sub",
+  "ul",
+  "li",
+  "pre",
+  "code",
+  "colgroup",
+  "thead",
+  "tbody",
+  "tfoot",
+  "tr",
+]
+
+const ALIGNMENT = [/^(left|right|center|justify)$/]
+const PIXELS = [/^\d+(\.\d+)?px$/]
+
+/**
+ * Hosts that article images may be served from: the Supabase project the
+ * media library uploads to, plus any listed in MEDIA_HOSTS (comma separated).
+ */
+export function getMediaHosts() {
+  const hosts = (process.env.MEDIA_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+
+  if (process.env.SUPABASE_URL) {
+    try {
+      hosts.push(new URL(process.env.SUPABASE_URL).hostname.toLowerCase())
+    } catch {
+      // A malformed SUPABASE_URL breaks uploads long before it matters here
+    }
+  }
+
+  return hosts
+}
+
+function parseUrl(value: string) {
+  try {
+    return new URL(value.trim(), RELATIVE_BASE)
+  } catch {
+    return null
+  }
+}
+
+// Relative links stay on this site; absolute ones must use an allowed protocol
+export function isAllowedLink(href: string) {
+  const url = parseUrl(href)
+  return !!url && LINK_PROTOCOLS.includes(url.protocol)
+}
+
+function isExternalLink(href: string) {
+  const url = parseUrl(href)
+  return !!url && url.origin !== RELATIVE_BASE && url.protocol !== "mailto:"
+}
+
+export function isAllowedImage(src: string) {
+  const url = parseUrl(src)
+  if (!url || !IMAGE_PROTOCOLS.includes(url.protocol)) return false
+
+  // Images from this site's own public folder
+  if (url.origin === RELATIVE_BASE) return !src.trim().startsWith("//")
+
+  return getMediaHosts().includes(url.hostname.toLowerCase())
+}
+
+function emptyReport(): SanitizeReport {
+  return { removedTags: [], removedAttributes: [], blockedLinks: [], blockedImages: [] }
+}
+
+function addUnique(list: string[], value: string) {
+  if (!list.includes(value)) list.push(value)
+}
+
+/**
+ * Sanitize editor HTML against the allow-list. Links get a safe protocol and
+ * `rel="noopener noreferrer"` when they leave the site, images must come from
+ * a known media host, and everything that was removed is listed in the report.
+ */
+export function sanitizeRichText(html: string): { html: string; report: SanitizeReport } {
+  const report = emptyReport()
+
+  const clean = sanitizeHtml(html, {
+    allowedTags: ALLOWED_TAGS,
+    allowedAttributes: ALLOWED_ATTRIBUTES,
+    allowedClasses: {
+      sup: ["footnote-ref"],
+      cite: ["case-citation"],
+    },
+    allowedStyles: {
+      "*": { "text-align": ALIGNMENT },
+      table: { "min-width": PIXELS, width: PIXELS },
+      col: { "min-width": PIXELS, width: PIXELS },
+    },
+    allowedSchemes: ["http", "https", "mailto"],
+    allowedSchemesByTag: { img: ["http", "https"] },
+    allowProtocolRelative: false,
+    disallowedTagsMode: "discard",
+    selfClosing: [...sanitizeHtml.defaults.selfClosing, "col"],
+    transformTags: {
+      "*": (tagName, attribs) => {
+        if (!ALLOWED_TAGS.includes(tagName)) {
+          addUnique(report.removedTags, tagName)
+          return { tagName, attribs }
+        }
+
+        const allowed = ALLOWED_ATTRIBUTES[tagName] || []
+        for (const name of Object.keys(attribs)) {
+          if (!allowed.includes(name)) {
+            addUnique(report.removedAttributes, `${name} (on <${tagName}>)`)
+          }
+        }
+
+        if (tagName === "a" && attribs.href !== undefined) {
+          if (!isAllowedLink(attribs.href)) {
+            addUnique(report.blockedLinks, attribs.href)
+            const { href: _href, target: _target, rel: _rel, ...rest } = attribs
+            return { tagName, attribs: rest }
+          }
+
+          if (isExternalLink(attribs.href)) {
+            return { tagName, attribs: { ...attribs, target: "_blank", rel: "noopener noreferrer nofollow" } }
+          }
+
+          const { target: _target, rel: _rel, ...rest } = attribs
+          return { tagName, attribs: rest }
+        }
+
+        if (tagName === "img" && !isAllowedImage(attribs.src || "")) {
+          addUnique(report.blockedImages, attribs.src || "(no source)")
+          const { src: _src, ...rest } = attribs
+          return { tagName, attribs: rest }
+        }
+
+        return { tagName, attribs }
+      },
+    },
+    // Images that lost their source above have nothing left to show
+    exclusiveFilter: (frame) => frame.tag === "img" && !frame.attribs.src,
+  })
+
+  return { html: clean, report }
+}
+
+/**
+ * Sanitize an article body. Rich text is sanitized as a whole; legacy
+ * plain-text articles only ever render their image paragraphs as HTML, so
+ * those are the only paragraphs touched.
+ */
+export function sanitizeArticleContent(content: string): { content: string; report: SanitizeReport } {
+  if (isRichText(content)) {
+    const { html, report } = sanitizeRichText(content)
+    return { content: html, report }
+  }
+
+  const report = emptyReport()
+  const paragraphs = content
+    .split("\n\n")
+    .map((paragraph) => {
+      if (!paragraph.includes("<img")) return paragraph
+
+      const result = sanitizeRichText(paragraph)
+      mergeReports(report, result.report)
+      // Drop image paragraphs that had nothing allowed left in them
+      return result.html.trim() ? result.html : null
+    })
+    .filter((paragraph): paragraph is string => paragraph !== null)
+
+  return { content: paragraphs.join("\n\n"), report }
+}
+
+/**
+ * Notifications are plain text with `hyperLink:[text](url)` links. Markup is
+ * stripped and links with a disallowed protocol are reduced to their text.
+ */
+export function sanitizeNotificationContent(content: string): { content: string; report: SanitizeReport } {
+  const report = emptyReport()
+
+  const strip = (value: string) =>
+    decodeEntities(
+      sanitizeHtml(value, {
+        allowedTags: [],
+        allowedAttributes: {},
+        disallowedTagsMode: "discard",
+        transformTags: {
+          "*": (tagName, attribs) => {
+            addUnique(report.removedTags, tagName)
+            return { tagName, attribs }
+          },
+        },
+      })
+    )
+
+  // A URL may hold one pair of parentheses, as in javascript:alert(1), so a
+  // blocked link doesn't leave its closing parenthesis behind. Anything else
+  // is read up to the first ")", as the renderer reads it.
+  const unlink = (value: string) =>
+    value.replace(/hyperLink:\[([^\]]+)\]\(([^()]*\([^()]*\)[^()]*|[^)]+)\)/g, (link, label: string, url: string) => {
+      // The renderer treats bare domains as https
+      const absolute = /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`
+      if (isAllowedLink(absolute)) return link
+
+      addUnique(report.blockedLinks, url)
+      return label
+    })
+
+  // Decoding can turn escaped text such as &lt;script&gt; back into markup, and
+  // dropping a link can join the text around it into a new one, so clean again
+  // until nothing changes; saving twice then stores the same text. Every pass
+  // that changes anything makes the text shorter, so this ends.
+  let text = content
+  for (let next = unlink(strip(text)); next !== text; next = unlink(strip(text))) {
+    text = next
+  }
+
+  return { content: text, report }
+}
+
+// For single URL fields such as a notification's link
+export function sanitizeLinkUrl(url: string | null | undefined, report: SanitizeReport = emptyReport()) {
+  if (!url) return url
+  if (isAllowedLink(url)) return url.trim()
+
+  addUnique(report.blockedLinks, url)
+  return null
+}
+
+/**
+ * Sanitize the free-text parts of a notification (its content and link)
+ * ahead of a create or update. Fields that are not being written stay absent.
+ */
+export function sanitizeNotification<T extends { content?: string; linkUrl?: string | null }>(
+  data: T
+): { data: T; report: SanitizeReport } {
+  const report = emptyReport()
+  const clean = { ...data }
+
+  if (data.content !== undefined) {
+    const result = sanitizeNotificationContent(data.content)
+    clean.content = result.content
+    mergeReports(report, result.report)
+  }
+
+  if (data.linkUrl !== undefined) {
+    clean.linkUrl = sanitizeLinkUrl(data.linkUrl, report) as T["linkUrl"]
+  }
+
+  return { data: clean, report }
+}
+
+export function mergeReports(target: SanitizeReport, source: SanitizeReport) {
+  source.removedTags.forEach((value) => addUnique(target.removedTags, value))
+  source.removedAttributes.forEach((value) => addUnique(target.removedAttributes, value))
+  source.blockedLinks.forEach((value) => addUnique(target.blockedLinks, value))
+  source.blockedImages.forEach((value) => addUnique(target.blockedImages, value))
+  return target
+}
+
+export function hasSanitizeChanges(report: SanitizeReport) {
+  return (
+    report.removedTags.length > 0 ||
+    report.removedAttributes.length > 0 ||
+    report.blockedLinks.length > 0 ||
+    report.blockedImages.length > 0
+  )
+}
+
+/**
+ * One sentence per kind of removal, for the toast shown after saving.
+ * Returns null when nothing was removed.
+ */
+export function describeSanitizeReport(report: SanitizeReport) {
+  if (!hasSanitizeChanges(report)) return null
+
+  const parts: string[] = []
+  if (report.removedTags.length) {
+    parts.push(`Removed unsupported elements: ${report.removedTags.map((tag) => `<${tag}>`).join(", ")}.`)
+  }
+  if (report.removedAttributes.length) {
+    parts.push(`Removed unsupported attributes: ${report.removedAttributes.join(", ")}.`)
+  }
+  if (report.blockedLinks.length) {
+    parts.push(`Removed links with a disallowed address: ${report.blockedLinks.join(", ")}.`)
+  }
+  if (report.blockedImages.length) {
+    parts.push(`Removed images not hosted in the media library: ${report.blockedImages.join(", ")}.`)
+  }
+
+  return parts.join(" ")
+}
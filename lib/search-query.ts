@@ -0,0 +1,363 @@
+// Search query syntax, shared by the search controller and the advanced search
+// form. Examples:
+//
+//   "basic structure" privacy          both must match (AND is implied)
+//   privacy OR surveillance            either may match
+//   privacy -surveillance              NOT, also written as NOT surveillance
+//   (privacy OR data) AND india        parentheses group
+//   author:"Sharma" keyword:privacy    field prefixes, quoted or single words
+//   title:amendment abstract:court
+//   year:2023  year:2023..2025  year:..2020  year:2021..
+//   type:journal  type:blog
+//
+// Operators are upper case so that "or" and "not" stay ordinary words, and AND
+// binds more tightly than OR, so a OR b c means a OR (b AND c).
+// Anything the parser can't make sense of is reported as a warning and
+// skipped rather than failing the whole search.
+
+export type TextField = "author" | "keyword" | "title" | "abstract"
+
+export type QueryNode =
+  | { kind: "and"; children: QueryNode[] }
+  | { kind: "or"; children: QueryNode[] }
+  | { kind: "not"; child: QueryNode }
+  // Searched across the whole article, and author names
+  | { kind: "text"; value: string; phrase: boolean }
+  | { kind: "field"; field: TextField; value: string; phrase: boolean }
+  | { kind: "year"; from?: number; to?: number }
+  | { kind: "type"; value: "journal" | "blog" }
+
+export type ParsedQuery = { node: QueryNode | null; warnings: string[] }
+
+const TEXT_FIELDS: TextField[] = ["author", "keyword", "title", "abstract"]
+const FIELDS = [...TEXT_FIELDS, "year", "type"]
+
+type Token =
+  | { type: "lparen" }
+  | { type: "rparen" }
+  | { type: "op"; op: "AND" | "OR" | "NOT" }
+  | { type: "term"; field?: string; value: string; phrase: boolean }
+
+function readPhrase(input: string, start: number) {
+  // start is just past the opening quote; an unclosed quote runs to the end
+  const end = input.indexOf('"', start)
+  return end === -1 ? { value: input.slice(start), next: input.length } : { value: input.slice(start, end), next: end + 1 }
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === "(") {
+      tokens.push({ type: "lparen" })
+      i++
+    } else if (char === ")") {
+      tokens.push({ type: "rparen" })
+      i++
+    } else if (char === "-" && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      tokens.push({ type: "op", op: "NOT" })
+      i++
+    } else if (char === '"') {
+      const phrase = readPhrase(input, i + 1)
+      tokens.push({ type: "term", value: phrase.value, phrase: true })
+      i = phrase.next
+    } else {
+      const match = /^[^\s()"]+/.exec(input.slice(i))![0]
+      const colon = match.indexOf(":")
+      const field = colon > 0 ? match.slice(0, colon).toLowerCase() : null
+      i += match.length
+
+      if (field && FIELDS.includes(field)) {
+        const rest = match.slice(colon + 1)
+        if (rest === "" && input[i] === '"') {
+          const phrase = readPhrase(input, i + 1)
+          tokens.push({ type: "term", field, value: phrase.value, phrase: true })
+          i = phrase.next
+        } else {
+          tokens.push({ type: "term", field, value: rest, phrase: false })
+        }
+      } else if (match === "AND" || match === "OR" || match === "NOT") {
+        tokens.push({ type: "op", op: match })
+      } else {
+        tokens.push({ type: "term", value: match, phrase: false })
+      }
+    }
+  }
+
+  return tokens
+}
+
+function parseYear(value: string): { from?: number; to?: number } | null {
+  const match = /^(\d{4})?(?:(\.\.)(\d{4})?)?$/.exec(value)
+  if (!match || (!match[1] && !match[3])) return null
+
+  const from = match[1] ? Number(match[1]) : undefined
+  // A single year is a range of one
+  const to = match[2] ? (match[3] ? Number(match[3]) : undefined) : from
+  if (from !== undefined && to !== undefined && from > to) return null
+
+  return { from, to }
+}
+
+function parseType(value: string): "journal" | "blog" | null {
+  const type = value.toLowerCase()
+  if (["journal", "journals", "article", "articles"].includes(type)) return "journal"
+  if (["blog", "blogs", "post", "posts"].includes(type)) return "blog"
+  return null
+}
+
+function combine(kind: "and" | "or", children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) return null
+  if (children.length === 1) return children[0]
+  // Flatten nested groups of the same kind
+  return { kind, children: children.flatMap((child) => (child.kind === kind ? child.children : [child])) }
+}
+
+export function parseSearchQuery(input: string): ParsedQuery {
+  const tokens = tokenize(input)
+  const warnings: string[] = []
+  let position = 0
+
+  const peek = () => tokens[position]
+
+  const termNode = (token: Extract<Token, { type: "term" }>): QueryNode | null => {
+    const value = token.value.trim()
+    const label = token.field ? `${token.field}:${token.value}` : token.value
+
+    if (!value) {
+      warnings.push(token.field ? `"${token.field}:" needs a value` : "Ignored an empty phrase")
+      return null
+    }
+
+    switch (token.field) {
+      case undefined:
+        return { kind: "text", value, phrase: token.phrase }
+      case "year": {
+        const range = parseYear(value)
+        if (!range) warnings.push(`"${label}" is not a year or a range like 2023..2025`)
+        return range && { kind: "year", ...range }
+      }
+      case "type": {
+        const type = parseType(value)
+        if (!type) warnings.push(`"${label}" should be type:journal or type:blog`)
+        return type && { kind: "type", value: type }
+      }
+      default:
+        return { kind: "field", field: token.field as TextField, value, phrase: token.phrase }
+    }
+  }
+
+  const parsePrimary = (): QueryNode | null => {
+    const token = tokens[position++]
+
+    if (token.type === "lparen") {
+      const node = parseOr()
+      if (peek()?.type === "rparen") position++
+      else warnings.push("Missing a closing parenthesis")
+      return node
+    }
+    if (token.type === "term") return termNode(token)
+
+    warnings.push(token.type === "rparen" ? "Ignored an unmatched closing parenthesis" : "Ignored a misplaced operator")
+    return null
+  }
+
+  const parseUnary = (): QueryNode | null => {
+    const token = peek()
+    if (token?.type === "op" && token.op === "NOT") {
+      position++
+      if (!peek() || peek().type === "rparen") {
+        warnings.push("NOT needs something to exclude")
+        return null
+      }
+      const child = parseUnary()
+      return child && { kind: "not", child }
+    }
+    return parsePrimary()
+  }
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = []
+
+    while (position < tokens.length) {
+      const token = peek()
+      if (token.type === "rparen" || (token.type === "op" && token.op === "OR")) break
+      if (token.type === "op" && token.op === "AND") {
+        position++
+        continue
+      }
+
+      const node = parseUnary()
+      if (node) children.push(node)
+    }
+
+    return combine("and", children)
+  }
+
+  function parseOr(): QueryNode | null {
+    const children: QueryNode[] = []
+    let previous = parseAnd()
+    if (previous) children.push(previous)
+
+    // parseAnd only stops at an operator for OR
+    while (peek()?.type === "op") {
+      position++
+      const next = parseAnd()
+      if (next) children.push(next)
+      if (!previous || !next) warnings.push("OR needs something on both sides")
+      previous = next
+    }
+
+    return combine("or", children)
+  }
+
+  const nodes: QueryNode[] = []
+  while (position < tokens.length) {
+    const node = parseOr()
+    if (node) nodes.push(node)
+    // parseOr stops at a closing parenthesis nothing opened
+    if (peek()?.type === "rparen") {
+      position++
+      warnings.push("Ignored an unmatched closing parenthesis")
+    }
+  }
+
+  return { node: combine("and", nodes), warnings }
+}
+
+// Words and phrases the results should be ranked and highlighted by: every
+// positive full-text, title and abstract term
+export function getRankingTerms(node: QueryNode | null): { value: string; phrase: boolean }[] {
+  if (!node) return []
+
+  switch (node.kind) {
+    case "and":
+    case "or":
+      return node.children.flatMap(getRankingTerms)
+    case "text":
+      return [node]
+    case "field":
+      return node.field === "title" || node.field === "abstract" ? [node] : []
+    default:
+      return []
+  }
+}
+
+// What to look for in author profiles: the author: values if there are any,
+// otherwise the words and phrases the articles are searched for
+export function getAuthorSearchText(node: QueryNode | null) {
+  const positive = (part: QueryNode | null): QueryNode[] =>
+    !part ? [] : part.kind === "and" || part.kind === "or" ? part.children.flatMap(positive) : [part]
+  const terms = positive(node)
+  const authors = terms.filter((term) => term.kind === "field" && term.field === "author")
+  const text = terms.filter((term) => term.kind === "text")
+
+  return (authors.length > 0 ? authors : text)
+    .map((term) => (term.kind === "field" || term.kind === "text" ? term.value : ""))
+    .join(" ")
+}
+
+/**
+ * Fields of the advanced search form. The form writes them into one query
+ * string, which is what goes in the URL, and reads them back from it.
+ */
+export type AdvancedSearchFields = {
+  allWords: string
+  phrase: string
+  anyWords: string
+  noneWords: string
+  author: string
+  keyword: string
+  yearFrom: string
+  yearTo: string
+  type: "" | "journal" | "blog"
+}
+
+export const EMPTY_ADVANCED_FIELDS: AdvancedSearchFields = {
+  allWords: "",
+  phrase: "",
+  anyWords: "",
+  noneWords: "",
+  author: "",
+  keyword: "",
+  yearFrom: "",
+  yearTo: "",
+  type: "",
+}
+
+function quote(value: string) {
+  const clean = value.replace(/"/g, "").trim()
+  return /[\s()]/.test(clean) || clean === "" ? `"${clean}"` : clean
+}
+
+// The words of a form field, without operators: "india OR nepal" typed
+// under "Any of these words" already means what the field does
+function words(value: string) {
+  return value
+    .replace(/[()"]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !["AND", "OR", "NOT"].includes(word))
+}
+
+export function buildSearchQuery(fields: AdvancedSearchFields) {
+  const parts: string[] = []
+  const any = words(fields.anyWords)
+
+  parts.push(...words(fields.allWords))
+  if (fields.phrase.trim()) parts.push(`"${fields.phrase.replace(/"/g, "").trim()}"`)
+  if (any.length === 1) parts.push(any[0])
+  if (any.length > 1) parts.push(`(${any.join(" OR ")})`)
+  parts.push(...words(fields.noneWords).map((word) => `-${word.replace(/^-+/, "")}`).filter((word) => word !== "-"))
+  if (fields.author.trim()) parts.push(`author:${quote(fields.author)}`)
+  if (fields.keyword.trim()) parts.push(`keyword:${quote(fields.keyword)}`)
+
+  const from = fields.yearFrom.trim()
+  const to = fields.yearTo.trim()
+  if (from && from === to) parts.push(`year:${from}`)
+  else if (from || to) parts.push(`year:${from}..${to}`)
+
+  if (fields.type) parts.push(`type:${fields.type}`)
+
+  return parts.join(" ")
+}
+
+/**
+ * The form fields for a query, or null if it uses syntax the form can't show,
+ * such as nested groups or more than one phrase.
+ */
+export function getAdvancedSearchFields(query: string): AdvancedSearchFields | null {
+  const { node, warnings } = parseSearchQuery(query)
+  if (warnings.length > 0) return null
+
+  const fields = { ...EMPTY_ADVANCED_FIELDS }
+  const append = (current: string, value: string) => (current ? `${current} ${value}` : value)
+  const parts = !node ? [] : node.kind === "and" ? node.children : [node]
+
+  for (const part of parts) {
+    if (part.kind === "text" && !part.phrase) {
+      fields.allWords = append(fields.allWords, part.value)
+    } else if (part.kind === "text" && !fields.phrase) {
+      fields.phrase = part.value
+    } else if (part.kind === "or" && !fields.anyWords && part.children.every((child) => child.kind === "text" && !child.phrase)) {
+      fields.anyWords = part.children.map((child) => (child.kind === "text" ? child.value : "")).join(" ")
+    } else if (part.kind === "not" && part.child.kind === "text" && !part.child.phrase) {
+      fields.noneWords = append(fields.noneWords, part.child.value)
+    } else if (part.kind === "field" && (part.field === "author" || part.field === "keyword") && !fields[part.field]) {
+      fields[part.field] = part.value
+    } else if (part.kind === "year" && !fields.yearFrom && !fields.yearTo) {
+      fields.yearFrom = part.from?.toString() ?? ""
+      fields.yearTo = part.to?.toString() ?? ""
+    } else if (part.kind === "type" && !fields.type) {
+      fields.type = part.value
+    } else {
+      return null
+    }
+  }
+
+  return fields
+}
@@ -0,0 +1,112 @@
+// Shared between the search page, the search dialog and the search controller
+
+export const SEARCH_PAGE_SIZE = 10
+
+// Results shown in the search dialog, which has no paging
+export const DIALOG_PAGE_SIZE = 5
+
+// Postgres marks matches in headlines with these, so the client can render
+// them as <mark> without trusting any HTML
+export const HIGHLIGHT_START = "\u0002"
+export const HIGHLIGHT_END = "\u0003"
+
+export type SearchFilter = "all" | "journals" | "blogs" | "authors"
+
+export type SearchParams = {
+  query: string
+  filter: SearchFilter
+  // Facet selections: an issue id, a publication year and an author slug
+  issue?: string
+  year?: number
+  author?: string
+  page: number
+}
+
+export type HighlightedText = { text: string; highlight: boolean }[]
+
+export type SearchFacet = { value: string; label: string; count: number }
+
+export type SearchFacets = {
+  type: SearchFacet[]
+  issue: SearchFacet[]
+  year: SearchFacet[]
+  author: SearchFacet[]
+}
+
+export type ArticleSearchResult = {
+  id: string
+  slug: string
+  type: "blog" | "journal"
+  title: HighlightedText
+  snippet: HighlightedText
+  image: string | null
+  publishedAt: Date
+  readTime: number | null
+  keywords: string[]
+  authors: { name: string; slug: string }[]
+  issue: { volume: number; issue: number; year: number } | null
+}
+
+export type AuthorSearchResult = {
+  slug: string
+  name: string
+  title: string | null
+  bio: string | null
+}
+
+const FILTERS: SearchFilter[] = ["all", "journals", "blogs", "authors"]
+
+export function parseSearchFilter(value: string | undefined): SearchFilter {
+  return FILTERS.includes(value as SearchFilter) ? (value as SearchFilter) : "all"
+}
+
+// Search params from the page URL, ignoring anything malformed
+export function parseSearchParams(searchParams: Record<string, string | string[] | undefined>): SearchParams {
+  const get = (key: string) => {
+    const value = searchParams[key]
+    return (Array.isArray(value) ? value[0] : value)?.trim() || undefined
+  }
+  const year = Number(get("year"))
+  const page = Number(get("page"))
+
+  return {
+    query: get("q") ?? "",
+    filter: parseSearchFilter(get("filter")),
+    issue: get("issue"),
+    year: Number.isInteger(year) && year > 0 ? year : undefined,
+    author: get("author"),
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  }
+}
+
+export function getSearchUrl(params: Partial<SearchParams> & { query: string }) {
+  const search = new URLSearchParams({ q: params.query })
+  if (params.filter && params.filter !== "all") search.set("filter", params.filter)
+  if (params.issue) search.set("issue", params.issue)
+  if (params.year) search.set("year", String(params.year))
+  if (params.author) search.set("author", params.author)
+  if (params.page && params.page > 1) search.set("page", String(params.page))
+
+  return `/search?${search.toString()}`
+}
+
+// Split a Postgres headline into plain and matched runs
+export function splitHighlights(value: string): HighlightedText {
+  const parts: HighlightedText = []
+  let rest = value
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START)
+    if (start === -1) {
+      parts.push({ text: rest, highlight: false })
+      break
+    }
+
+    const end = rest.indexOf(HIGHLIGHT_END, start)
+    if (start > 0) parts.push({ text: rest.slice(0, start), highlight: false })
+    parts.push({ text: rest.slice(start + 1, end === -1 ? undefined : end), highlight: true })
+    rest = end === -1 ? "" : rest.slice(end + 1)
+  }
+
+  return parts.filter((part) => part.text.length > 0)
+}
@@ -0,0 +1,89 @@
+// Sitemaps (sitemaps.org 0.9, with Google's image extension) and the
+// sitemap index used once the site outgrows a single file.
+import { siteConfig } from "@/lib/metadata"
+import { el, renderXml } from "@/lib/xml"
+
+// Per-file limit from the protocol; the 50MB size limit is far off at this count
+export const SITEMAP_URL_LIMIT = 50000
+
+const SITEMAP_NAMESPACE = "http://www.sitemaps.org/schemas/sitemap/0.9"
+const IMAGE_NAMESPACE = "http://www.google.com/schemas/sitemap-image/1.1"
+
+export type SitemapEntry = {
+  url: string
+  lastModified?: Date | null
+  changeFrequency?: "always" | "hourly" | "daily" | "weekly" | "monthly" | "yearly" | "never"
+  priority?: number
+  images?: string[]
+}
+
+// Absolute URL for an image, which may be stored as a site path
+export function getAbsoluteUrl(url: string) {
+  try {
+    return new URL(url, siteConfig.url).toString()
+  } catch {
+    return null
+  }
+}
+
+export function getSitemapUrl(page: number) {
+  return `${siteConfig.url}/sitemap/${page}.xml`
+}
+
+// Pages are numbered from 1 in URLs; null for anything else
+export function parseSitemapPage(segment: string) {
+  const match = /^([1-9]\d*)\.xml$/.exec(segment)
+  return match ? Number(match[1]) : null
+}
+
+export function getSitemapPageCount(entryCount: number) {
+  return Math.max(1, Math.ceil(entryCount / SITEMAP_URL_LIMIT))
+}
+
+export function getSitemapPage(entries: SitemapEntry[], page: number) {
+  return entries.slice((page - 1) * SITEMAP_URL_LIMIT, page * SITEMAP_URL_LIMIT)
+}
+
+// The newest of some dates, or null when there are none
+export function latestDate(dates: (Date | null | undefined)[]) {
+  return dates.reduce<Date | null>((latest, date) => (date && (!latest || date > latest) ? date : latest), null)
+}
+
+export function renderSitemap(entries: SitemapEntry[]) {
+  const hasImages = entries.some((entry) => entry.images && entry.images.length > 0)
+
+  return renderXml(
+    el(
+      "urlset",
+      { xmlns: SITEMAP_NAMESPACE, "xmlns:image": hasImages ? IMAGE_NAMESPACE : undefined },
+      entries.map((entry) =>
+        el(
+          "url",
+          null,
+          el("loc", null, entry.url),
+          entry.lastModified && el("lastmod", null, entry.lastModified.toISOString()),
+          entry.changeFrequency && el("changefreq", null, entry.changeFrequency),
+          entry.priority !== undefined && el("priority", null, entry.priority.toFixed(1)),
+          (entry.images ?? []).map((image) => el("image:image", null, el("image:loc", null, image)))
+        )
+      )
+    )
+  )
+}
+
+export function renderSitemapIndex(sitemaps: { url: string; lastModified?: Date | null }[]) {
+  return renderXml(
+    el(
+      "sitemapindex",
+      { xmlns: SITEMAP_NAMESPACE },
+      sitemaps.map((sitemap) =>
+        el(
+          "sitemap",
+          null,
+          el("loc", null, sitemap.url),
+          sitemap.lastModified && el("lastmod", null, sitemap.lastModified.toISOString())
+        )
+      )
+    )
+  )
+}
@@ -6,8 +6,8 @@ const supabaseAnonKey = process.env.SUPABASE_ANON_KEY!
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
-// Upload image to Supabase storage
-export async function uploadImage(
+// Upload any file (images, documents) to Supabase storage
+export async function uploadFile(
   file: File,
   bucket: string = 'images',
   folder?: string
@@ -31,7 +31,7 @@ export async function uploadImage(
       throw error
     }
 
-    // Get the public URL
+    // Get the public URL (only reachable when the bucket is public)
     const { data: { publicUrl } } = supabase.storage
       .from(bucket)
       .getPublicUrl(data.path)
@@ -41,11 +41,95 @@ export async function uploadImage(
       path: data.path
     }
   } catch (error) {
-    console.error('Error uploading image:', error)
+    console.error('Error uploading file:', error)
     throw error
   }
 }
 
+// Upload image to Supabase storage
+export async function uploadImage(
+  file: File,
+  bucket: string = 'images',
+  folder?: string
+): Promise<{ url: string; path: string } | null> {
+  return uploadFile(file, bucket, folder)
+}
+
+// Write generated or fetched bytes to a fixed path, replacing what was there
+export async function uploadBuffer(
+  buffer: Buffer,
+  path: string,
+  bucket: string,
+  contentType: string
+): Promise<{ path: string } | null> {
+  try {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .upload(path, buffer, {
+        cacheControl: '3600',
+        upsert: true,
+        contentType
+      })
+
+    if (error) {
+      console.error('Error uploading file:', error)
+      return null
+    }
+
+    return { path: data.path }
+  } catch (error) {
+    console.error('Error uploading file:', error)
+    return null
+  }
+}
+
+// Read a file back from storage (works for private buckets)
+export async function downloadFile(
+  path: string,
+  bucket: string
+): Promise<Buffer | null> {
+  try {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .download(path)
+
+    if (error) {
+      console.error('Error downloading file:', error)
+      return null
+    }
+
+    return Buffer.from(await data.arrayBuffer())
+  } catch (error) {
+    console.error('Error downloading file:', error)
+    return null
+  }
+}
+
+// Create a short-lived download URL for a file in a private bucket
+// (pass downloadName to override the file name the browser saves)
+export async function getSignedFileUrl(
+  path: string,
+  bucket: string,
+  expiresIn: number = 60 * 10,
+  downloadName?: string
+): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(path, expiresIn, { download: downloadName || true })
+
+    if (error) {
+      console.error('Error creating signed URL:', error)
+      return null
+    }
+
+    return data.signedUrl
+  } catch (error) {
+    console.error('Error creating signed URL:', error)
+    return null
+  }
+}
+
 // Delete image from Supabase storage
 export async function deleteImage(
   path: string,
@@ -29,7 +29,7 @@ export interface User {
   name: string
   email: string
   image?: string
-  role: "SUPER_ADMIN" | "ADMIN" | "EDITOR" | "AUTHOR" | "VIEWER"
+  role: "SUPER_ADMIN" | "ADMIN" | "EDITOR" | "AUTHOR" | "REVIEWER" | "VIEWER"
   permissions?: string[]
 }
 
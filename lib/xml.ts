@@ -0,0 +1,88 @@
+// Small XML writer for the metadata exports (Crossref deposits and the like).
+// Documents are built as element trees and serialized with indentation, so
+// escaping happens in exactly one place.
+
+export type XmlNode = {
+  name: string
+  attributes?: Record<string, string | number | undefined>
+  children?: XmlChild[]
+}
+
+export type XmlChild = XmlNode | string | number | null | undefined | false
+
+// Characters XML 1.0 does not allow anywhere, even escaped
+const INVALID_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g
+
+export function escapeXml(value: string) {
+  return value
+    .replace(INVALID_CHARACTERS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+/**
+ * Build an element. Empty children (null, undefined, false and "") are
+ * dropped, so optional elements can be written inline.
+ */
+export function el(
+  name: string,
+  attributes?: XmlNode["attributes"] | null,
+  ...children: (XmlChild | XmlChild[])[]
+): XmlNode {
+  return {
+    name,
+    attributes: attributes ?? undefined,
+    children: children.flat().filter((child) => child !== null && child !== undefined && child !== false && child !== ""),
+  }
+}
+
+function renderAttributes(attributes: XmlNode["attributes"]) {
+  if (!attributes) return ""
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join("")
+}
+
+// Inline rendering for mixed content, where indentation would change the text
+function renderInline(node: XmlNode): string {
+  const children = getChildren(node)
+  const open = `${node.name}${renderAttributes(node.attributes)}`
+
+  if (children.length === 0) return `<${open}/>`
+
+  const inner = children
+    .map((child) => (typeof child === "object" ? renderInline(child) : escapeXml(String(child))))
+    .join("")
+
+  return `<${open}>${inner}</${node.name}>`
+}
+
+function getChildren(node: XmlNode) {
+  return (node.children ?? []).filter(
+    (child): child is XmlNode | string | number =>
+      child !== null && child !== undefined && child !== false && child !== ""
+  )
+}
+
+function renderNode(node: XmlNode, depth: number): string {
+  const indent = "  ".repeat(depth)
+  const children = getChildren(node)
+
+  // Text and mixed content stay on the element's line so no whitespace is added to them
+  if (children.length === 0 || children.some((child) => typeof child !== "object")) {
+    return `${indent}${renderInline(node)}`
+  }
+
+  const open = `${node.name}${renderAttributes(node.attributes)}`
+  const inner = children.map((child) => renderNode(child as XmlNode, depth + 1)).join("\n")
+
+  return `${indent}<${open}>\n${inner}\n${indent}</${node.name}>`
+}
+
+export function renderXml(root: XmlNode, { doctype }: { doctype?: string } = {}) {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${doctype ? `${doctype}\n` : ""}${renderNode(root, 0)}\n`
+}
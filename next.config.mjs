@@ -2,9 +2,11 @@
 const nextConfig = {
   experimental: {
     serverActions: {
-      bodySizeLimit: '6mb',
+      bodySizeLimit: '25mb',
     },
   },
+  // Loaded from node_modules so the server gets jsPDF's Node build
+  serverExternalPackages: ['jspdf'],
   eslint: {
     ignoreDuringBuilds: true,
   },
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "SubmissionStatus" AS ENUM ('received', 'desk_reviewed', 'under_review', 'decided');
+
+-- CreateTable
+CREATE TABLE "Submission" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "abstract" TEXT NOT NULL,
+    "keywords" TEXT[],
+    "type" "ArticleType" NOT NULL DEFAULT 'journal',
+    "authorName" TEXT NOT NULL,
+    "authorEmail" TEXT NOT NULL,
+    "authorAffiliation" TEXT,
+    "coverLetter" TEXT,
+    "manuscriptName" TEXT NOT NULL,
+    "manuscriptPath" TEXT NOT NULL,
+    "titlePageName" TEXT NOT NULL,
+    "titlePagePath" TEXT NOT NULL,
+    "status" "SubmissionStatus" NOT NULL DEFAULT 'received',
+    "editorNotes" TEXT,
+    "callForPapersId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Submission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Submission_status_idx" ON "Submission"("status");
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_callForPapersId_fkey" FOREIGN KEY ("callForPapersId") REFERENCES "CallForPapers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
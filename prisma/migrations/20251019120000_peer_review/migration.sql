@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "ReviewAssignmentStatus" AS ENUM ('invited', 'accepted', 'declined', 'completed');
+
+-- CreateEnum
+CREATE TYPE "ReviewDecision" AS ENUM ('accepted', 'minor_revisions', 'revise_and_resubmit', 'reject');
+
+-- AlterTable
+ALTER TABLE "Submission" ADD COLUMN     "decidedAt" TIMESTAMP(3),
+ADD COLUMN     "decision" "ReviewDecision";
+
+-- CreateTable
+CREATE TABLE "ReviewAssignment" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "reviewerName" TEXT NOT NULL,
+    "reviewerEmail" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "status" "ReviewAssignmentStatus" NOT NULL DEFAULT 'invited',
+    "dueDate" TIMESTAMP(3),
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Review" (
+    "id" TEXT NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "recommendation" "ReviewDecision" NOT NULL,
+    "summary" TEXT NOT NULL,
+    "strengths" TEXT,
+    "weaknesses" TEXT,
+    "commentsToAuthor" TEXT NOT NULL,
+    "commentsToEditor" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewAssignment_token_key" ON "ReviewAssignment"("token");
+
+-- CreateIndex
+CREATE INDEX "ReviewAssignment_submissionId_idx" ON "ReviewAssignment"("submissionId");
+
+-- CreateIndex
+CREATE INDEX "ReviewAssignment_reviewerEmail_idx" ON "ReviewAssignment"("reviewerEmail");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_assignmentId_key" ON "Review"("assignmentId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewAssignment" ADD CONSTRAINT "ReviewAssignment_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "Submission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "ReviewAssignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
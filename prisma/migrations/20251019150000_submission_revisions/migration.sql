@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "SubmissionEventType" AS ENUM ('submitted', 'status_changed', 'reviewer_invited', 'reviewer_accepted', 'reviewer_declined', 'reviewer_withdrawn', 'review_submitted', 'decision_recorded', 'revision_submitted', 'converted_to_article');
+
+-- AlterTable
+ALTER TABLE "ReviewAssignment" ADD COLUMN     "round" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Submission" ADD COLUMN     "articleId" TEXT,
+ADD COLUMN     "revisionToken" TEXT,
+ADD COLUMN     "round" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "SubmissionVersion" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "manuscriptName" TEXT NOT NULL,
+    "manuscriptPath" TEXT NOT NULL,
+    "responseLetterName" TEXT,
+    "responseLetterPath" TEXT,
+    "decision" "ReviewDecision",
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SubmissionVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SubmissionEvent" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "type" "SubmissionEventType" NOT NULL,
+    "actor" TEXT NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SubmissionEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubmissionVersion_submissionId_round_key" ON "SubmissionVersion"("submissionId", "round");
+
+-- CreateIndex
+CREATE INDEX "SubmissionEvent_submissionId_idx" ON "SubmissionEvent"("submissionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Submission_revisionToken_key" ON "Submission"("revisionToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Submission_articleId_key" ON "Submission"("articleId");
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SubmissionVersion" ADD CONSTRAINT "SubmissionVersion_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "Submission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SubmissionEvent" ADD CONSTRAINT "SubmissionEvent_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "Submission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the first version of every existing submission
+INSERT INTO "SubmissionVersion" ("id", "submissionId", "round", "manuscriptName", "manuscriptPath", "decision", "decidedAt", "createdAt")
+SELECT 'v1_' || "id", "id", 1, "manuscriptName", "manuscriptPath", "decision", "decidedAt", "createdAt"
+FROM "Submission";
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "ArticleStatus" AS ENUM ('draft', 'scheduled', 'published', 'unpublished');
+
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "status" "ArticleStatus" NOT NULL DEFAULT 'draft';
+
+-- Existing articles were live before statuses existed, except those dated in
+-- the future, which go out through scheduled publishing
+UPDATE "Article" SET "status" = CASE WHEN "publishedAt" > now() THEN 'scheduled'::"ArticleStatus" ELSE 'published'::"ArticleStatus" END;
+
+-- CreateIndex
+CREATE INDEX "Article_status_publishedAt_idx" ON "Article"("status", "publishedAt");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ArticlePreviewToken" (
+    "id" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ArticlePreviewToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ArticlePreviewToken_token_key" ON "ArticlePreviewToken"("token");
+
+-- CreateIndex
+CREATE INDEX "ArticlePreviewToken_articleId_idx" ON "ArticlePreviewToken"("articleId");
+
+-- AddForeignKey
+ALTER TABLE "ArticlePreviewToken" ADD CONSTRAINT "ArticlePreviewToken_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "pdfSnapshotAt" TIMESTAMP(3),
+ADD COLUMN     "pdfSnapshotChecksum" TEXT,
+ADD COLUMN     "pdfSnapshotError" TEXT,
+ADD COLUMN     "pdfSnapshotPath" TEXT,
+ADD COLUMN     "pdfSnapshotSource" TEXT;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "JournalIssue" ADD COLUMN     "pdfFingerprint" TEXT,
+ADD COLUMN     "pdfGeneratedAt" TIMESTAMP(3),
+ADD COLUMN     "pdfPath" TEXT;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "endPage" INTEGER,
+ADD COLUMN     "issueOrder" INTEGER,
+ADD COLUMN     "startPage" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Article_issueId_issueOrder_idx" ON "Article"("issueId", "issueOrder");
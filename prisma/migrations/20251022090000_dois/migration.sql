@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "doi" TEXT;
+
+-- AlterTable
+ALTER TABLE "JournalIssue" ADD COLUMN     "doi" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Article_doi_key" ON "Article"("doi");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalIssue_doi_key" ON "JournalIssue"("doi");
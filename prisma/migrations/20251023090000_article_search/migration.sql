@@ -0,0 +1,24 @@
+-- Plain text of an article's HTML body for indexing and search snippets
+CREATE OR REPLACE FUNCTION article_html_to_text(html TEXT) RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT replace(replace(replace(replace(replace(replace(replace(
+    regexp_replace(coalesce(html, ''), '<[^>]*>', ' ', 'g'),
+    '&nbsp;', ' '), '&quot;', '"'), '&#39;', ''''), '&apos;', ''''), '&lt;', '<'), '&gt;', '>'), '&amp;', '&')
+$$;
+
+-- array_to_string is only STABLE, which generated columns don't accept
+CREATE OR REPLACE FUNCTION article_keywords_text(keywords TEXT[]) RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT coalesce(array_to_string(keywords, ' '), '')
+$$;
+
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english'::regconfig, article_keywords_text("keywords")), 'B') ||
+  setweight(to_tsvector('english'::regconfig, coalesce("abstract", '')), 'C') ||
+  setweight(to_tsvector('english'::regconfig, article_html_to_text("content")), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Article_searchVector_idx" ON "Article" USING GIN ("searchVector");
@@ -0,0 +1,104 @@
+// One-time clean-up of content stored before the server-side sanitizer.
+// Runs every article body and notification through the same allow-list the
+// save actions use and prints what was removed from each.
+//
+//   npx tsx scripts/sanitize-stored-content.ts --dry-run   # report only
+//   npx tsx scripts/sanitize-stored-content.ts             # write the changes
+//
+// Revisions are left as they are: restoring one sanitizes it on the way back.
+import { PrismaClient } from "@prisma/client"
+import {
+  describeSanitizeReport,
+  hasSanitizeChanges,
+  sanitizeArticleContent,
+  sanitizeNotification,
+} from "../lib/sanitize"
+
+const prisma = new PrismaClient()
+const dryRun = process.argv.includes("--dry-run")
+const BATCH_SIZE = 100
+
+async function sanitizeArticles() {
+  let cursor: string | undefined
+  let checked = 0
+  let updated = 0
+
+  while (true) {
+    const articles = await prisma.article.findMany({
+      where: { content: { not: null } },
+      select: { id: true, slug: true, content: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    })
+
+    if (articles.length === 0) break
+    cursor = articles[articles.length - 1].id
+
+    for (const article of articles) {
+      checked++
+      const { content, report } = sanitizeArticleContent(article.content!)
+      if (content === article.content) continue
+
+      updated++
+      if (hasSanitizeChanges(report)) {
+        console.log(`🧹 Article ${article.slug}: ${describeSanitizeReport(report)}`)
+      }
+
+      // Markup is rewritten even when nothing was removed (attribute order, entities);
+      // updatedAt is left alone so open editors don't see a conflict
+      if (!dryRun) {
+        await prisma.$executeRaw`UPDATE "Article" SET "content" = ${content} WHERE "id" = ${article.id}`
+      }
+    }
+  }
+
+  console.log(`Articles: ${checked} checked, ${updated} ${dryRun ? "would be " : ""}updated`)
+}
+
+async function sanitizeNotifications() {
+  const notifications = await prisma.notification.findMany({
+    select: { id: true, title: true, content: true, linkUrl: true },
+  })
+  let updated = 0
+
+  for (const notification of notifications) {
+    const { data, report } = sanitizeNotification({
+      content: notification.content,
+      linkUrl: notification.linkUrl,
+    })
+    if (data.content === notification.content && data.linkUrl === notification.linkUrl) continue
+
+    updated++
+    if (hasSanitizeChanges(report)) {
+      console.log(`🧹 Notification "${notification.title}": ${describeSanitizeReport(report)}`)
+    }
+
+    if (!dryRun) {
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data,
+      })
+    }
+  }
+
+  console.log(`Notifications: ${notifications.length} checked, ${updated} ${dryRun ? "would be " : ""}updated`)
+}
+
+async function main() {
+  console.log(`Sanitizing stored content${dryRun ? " (dry run)" : ""}...`)
+
+  await sanitizeArticles()
+  await sanitizeNotifications()
+
+  console.log("Sanitizing completed successfully!")
+}
+
+main()
+  .catch((e) => {
+    console.error("Sanitizing failed:", e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })